@@ -4,19 +4,41 @@
  */
 
 import { isClient } from '../utils/ssr-utils';
+import { getCookiePayload, THEME_COOKIE_NAMES } from '../utils/signed-cookie';
 import type { StorageAdapter, CookieOptions } from '../types/storage-adapter';
 
+export interface CookieStorageAdapterOptions extends CookieOptions {
+  /**
+   * Theme cookies are HMAC-signed by the server (see `signed-cookie.ts`):
+   * reads return the unsigned payload and the client never overwrites them,
+   * persist through the server helpers (e.g. `setThemeInCookie`) instead.
+   */
+  signed?: boolean;
+}
+
+const SIGNED_KEYS: string[] = Object.values(THEME_COOKIE_NAMES);
+
 export class CookieStorageAdapter implements StorageAdapter {
   private defaultOptions: CookieOptions;
+  private signed: boolean;
 
-  constructor(options: CookieOptions = {}) {
+  constructor(options: CookieStorageAdapterOptions = {}) {
+    const { signed = false, ...cookieOptions } = options;
+    this.signed = signed;
     this.defaultOptions = {
       path: '/',
       sameSite: 'lax',
-      ...options
+      ...cookieOptions
     };
   }
 
+  /**
+   * Whether theme cookies use the signed format
+   */
+  isSigned(): boolean {
+    return this.signed;
+  }
+
   /**
    * Get value from cookies
    */
@@ -30,7 +52,8 @@ export class CookieStorageAdapter implements StorageAdapter {
       for (const cookie of cookies) {
         const [name, value] = cookie.trim().split('=');
         if (name === key) {
-          return decodeURIComponent(value || '');
+          const decoded = decodeURIComponent(value || '');
+          return this.signed && SIGNED_KEYS.includes(key) ? getCookiePayload(decoded) : decoded;
         }
       }
       return null;
@@ -49,6 +72,11 @@ export class CookieStorageAdapter implements StorageAdapter {
       return;
     }
 
+    if (this.signed && SIGNED_KEYS.includes(key) && value !== '') {
+      // An unsigned value would fail verification and reset the SSR theme to the default
+      return;
+    }
+
     try {
       const opts = { ...this.defaultOptions, ...options };
       let cookieString = `${key}=${encodeURIComponent(value)}`;
@@ -130,7 +158,7 @@ export class CookieStorageAdapter implements StorageAdapter {
   }
 
   /**
-   * Set theme preference with 1-year expiry
+   * Set theme preference with 1-year expiry (no-op for signed cookies, the server writes them)
    */
   setThemePreference(theme: string, mode: 'light' | 'dark' | 'auto'): void {
     const expires = new Date();
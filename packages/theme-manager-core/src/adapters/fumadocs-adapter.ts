@@ -80,9 +80,7 @@ export class FumadocsAdapter {
 
     this.applyCurrentTheme();
 
-    const handler = () => this.applyCurrentTheme();
-    themeManager.addEventListener('theme-changed', handler);
-    this.unsubscribeThemeChange = () => themeManager.removeEventListener('theme-changed', handler);
+    this.unsubscribeThemeChange = themeManager.addEventListener('theme:changed', () => this.applyCurrentTheme());
 
     if (this.config.debug) {
       console.log('[FumadocsAdapter] Connected to ThemeManager');
@@ -0,0 +1,123 @@
+/**
+ * HTTP Remote Storage Adapter
+ * Reference RemoteStorageAdapter for a simple JSON endpoint:
+ *
+ *   GET  {baseUrl}/{key}  -> 200 JSON document | 404 when never written
+ *   PUT  {baseUrl}/{key}  <- JSON document
+ *
+ * `subscribe` polls both keys and reports documents whose timestamp changed.
+ */
+
+import { safeSetTimeout, safeClearTimeout } from '../utils/ssr-utils';
+import type {
+  RemoteStorageAdapter,
+  RemotePreferenceKey,
+  RemotePreferenceMap,
+  RemotePreferenceChange
+} from '../types/remote-storage-adapter';
+
+export interface HttpRemoteStorageOptions {
+  /** Endpoint base URL, e.g. `https://api.example.com/users/me/theme` */
+  baseUrl: string;
+  /** Extra request headers (e.g. auth), resolved before every request */
+  headers?: Record<string, string> | (() => Record<string, string> | Promise<Record<string, string>>);
+  /** Poll interval for subscribe() in ms (default: 30000) */
+  pollInterval?: number;
+  /** fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+}
+
+const REMOTE_KEYS: RemotePreferenceKey[] = ['theme-mode-config', 'font-override-config'];
+
+export class HttpRemoteStorageAdapter implements RemoteStorageAdapter {
+  private options: HttpRemoteStorageOptions;
+  private listeners: Set<(change: RemotePreferenceChange) => void> = new Set();
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastSeen: Map<RemotePreferenceKey, number> = new Map();
+
+  constructor(options: HttpRemoteStorageOptions) {
+    this.options = { pollInterval: 30000, ...options, baseUrl: options.baseUrl.replace(/\/+$/, '') };
+  }
+
+  async get<K extends RemotePreferenceKey>(key: K): Promise<RemotePreferenceMap[K] | null> {
+    const response = await this.request(key, { method: 'GET' });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Remote storage GET ${key} failed: ${response.status}`);
+    }
+
+    const value = await response.json() as RemotePreferenceMap[K];
+    if (typeof value?.timestamp === 'number') {
+      this.lastSeen.set(key, value.timestamp);
+    }
+    return value;
+  }
+
+  async set<K extends RemotePreferenceKey>(key: K, value: RemotePreferenceMap[K]): Promise<void> {
+    const response = await this.request(key, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(value)
+    });
+    if (!response.ok) {
+      throw new Error(`Remote storage PUT ${key} failed: ${response.status}`);
+    }
+    // Our own write must not come back as a remote change
+    this.lastSeen.set(key, value.timestamp);
+  }
+
+  subscribe(listener: (change: RemotePreferenceChange) => void): () => void {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) {
+      this.schedulePoll();
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        safeClearTimeout(this.pollTimer);
+        this.pollTimer = null;
+      }
+    };
+  }
+
+  /**
+   * Check the endpoint once and notify subscribers of newer documents
+   */
+  async poll(): Promise<void> {
+    for (const key of REMOTE_KEYS) {
+      const previous = this.lastSeen.get(key);
+      try {
+        const value = await this.get(key);
+        if (value && value.timestamp !== previous) {
+          const change = { key, value } as RemotePreferenceChange;
+          this.listeners.forEach(listener => listener(change));
+        }
+      } catch (error) {
+        console.warn(`⚠️ HttpRemoteStorageAdapter: Poll of ${key} failed:`, error);
+      }
+    }
+  }
+
+  private schedulePoll(): void {
+    if (!this.options.pollInterval) return;
+
+    this.pollTimer = safeSetTimeout(async () => {
+      await this.poll();
+      if (this.listeners.size > 0) {
+        this.schedulePoll();
+      }
+    }, this.options.pollInterval);
+  }
+
+  private async request(key: RemotePreferenceKey, init: RequestInit): Promise<Response> {
+    const { headers } = this.options;
+    const extraHeaders = typeof headers === 'function' ? await headers() : headers;
+    const fetchImpl = this.options.fetch || fetch;
+
+    return fetchImpl(`${this.options.baseUrl}/${encodeURIComponent(key)}`, {
+      ...init,
+      headers: { Accept: 'application/json', ...extraHeaders, ...(init.headers as Record<string, string>) }
+    });
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * IndexedDB Cache Backend
+ * Default persistent backend for themes and font configuration
+ */
+
+import { isClient } from '../utils/ssr-utils';
+import type { CacheBackend, CacheStoreName } from '../types/cache-backend';
+import { STORAGE_MIGRATIONS, StorageMigration, getLatestStorageVersion, runIndexedDBMigrations } from '../utils/storage-migrations';
+
+export class IndexedDBCacheBackend implements CacheBackend {
+  readonly name = 'indexedDB';
+  private db: IDBDatabase | null = null;
+  private dbName: string;
+  private dbVersion: number;
+  private migrations: StorageMigration[];
+
+  /**
+   * @param dbName - Database name; use distinct names for isolated instances
+   * @param migrations - Schema steps; the database version is the latest step (add steps to STORAGE_MIGRATIONS)
+   */
+  constructor(dbName: string = 'theme-installer-db', migrations: StorageMigration[] = STORAGE_MIGRATIONS) {
+    this.dbName = dbName;
+    this.migrations = migrations;
+    this.dbVersion = getLatestStorageVersion(migrations);
+  }
+
+  /**
+   * Version of the database on disk without opening (upgrading) it
+   * @returns 0 when it does not exist or `indexedDB.databases()` is unsupported
+   */
+  async getSchemaVersion(): Promise<number> {
+    if (!isClient() || !window.indexedDB?.databases) return 0;
+    const databases = await indexedDB.databases();
+    return databases.find(database => database.name === this.dbName)?.version || 0;
+  }
+
+  init(): Promise<void> {
+    if (this.db) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      // CRITICAL: Add SSR guard to prevent server-side crashes
+      if (!isClient() || !window.indexedDB) {
+        reject(new Error('IndexedDB not available (server-side or not supported)'));
+        return;
+      }
+
+      // Add timeout to prevent hanging
+      const timeout = setTimeout(() => {
+        reject(new Error('IndexedDB initialization timeout'));
+      }, 5000);
+
+      const request = indexedDB.open(this.dbName, this.dbVersion);
+
+      request.onerror = () => {
+        clearTimeout(timeout);
+        reject(request.error || new Error('IndexedDB open failed'));
+      };
+
+      request.onsuccess = () => {
+        clearTimeout(timeout);
+        this.db = request.result;
+        console.log('✅ IndexedDB opened successfully');
+        resolve();
+      };
+
+      request.onupgradeneeded = (event) => {
+        const upgrade = event.target as IDBOpenDBRequest;
+        const oldVersion = event.oldVersion || 0;
+        console.log(`🔄 IndexedDB upgrade needed (v${oldVersion} → v${this.dbVersion})`);
+        try {
+          runIndexedDBMigrations(upgrade.result, upgrade.transaction!, oldVersion, this.dbVersion, this.migrations);
+        } catch {
+          // Transaction aborted, request.onerror rejects with the AbortError
+        }
+      };
+    });
+  }
+
+  get<T>(store: CacheStoreName, key: string): Promise<T | null> {
+    return this.request<T | undefined>(store, 'readonly', objectStore => objectStore.get(key))
+      .then(result => result ?? null);
+  }
+
+  getAll<T>(store: CacheStoreName): Promise<T[]> {
+    return this.request<T[]>(store, 'readonly', objectStore => objectStore.getAll())
+      .then(result => result || []);
+  }
+
+  /**
+   * Stores use in-line keys (`name` / `id` / `fontKey`), so `value` must carry its key
+   */
+  put<T>(store: CacheStoreName, key: string, value: T): Promise<void> {
+    return this.request(store, 'readwrite', objectStore => objectStore.put(value)).then(
+      () => undefined,
+      error => {
+        console.error(`❌ IndexedDBCacheBackend: Failed to store ${store}/${key}`, error);
+        throw error;
+      }
+    );
+  }
+
+  delete(store: CacheStoreName, key: string): Promise<void> {
+    return this.request(store, 'readwrite', objectStore => objectStore.delete(key)).then(
+      () => undefined,
+      error => {
+        console.error(`❌ IndexedDBCacheBackend: Failed to delete ${store}/${key}`, error);
+        throw error;
+      }
+    );
+  }
+
+  clear(store: CacheStoreName): Promise<void> {
+    return this.request(store, 'readwrite', objectStore => objectStore.clear()).then(() => undefined);
+  }
+
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  private request<T>(
+    store: CacheStoreName,
+    mode: IDBTransactionMode,
+    operation: (objectStore: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      if (!this.db) {
+        reject(new Error('IndexedDBCacheBackend used before init()'));
+        return;
+      }
+
+      const transaction = this.db.transaction([store], mode);
+      const request = operation(transaction.objectStore(store));
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
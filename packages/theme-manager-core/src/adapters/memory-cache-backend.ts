@@ -0,0 +1,55 @@
+/**
+ * In-memory Cache Backend
+ * Non-persistent backend for sandboxed iframes, test runners and SSR.
+ * Each instance has its own data, so isolated StorageManagers never share state.
+ */
+
+import type { CacheBackend, CacheStoreName } from '../types/cache-backend';
+
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = 'memory';
+  private stores: Map<CacheStoreName, Map<string, unknown>> = new Map();
+
+  async init(): Promise<void> {
+    // Always available
+  }
+
+  async get<T>(store: CacheStoreName, key: string): Promise<T | null> {
+    const value = this.getStore(store).get(key);
+    return value === undefined ? null : clone(value as T);
+  }
+
+  async getAll<T>(store: CacheStoreName): Promise<T[]> {
+    return Array.from(this.getStore(store).values(), value => clone(value as T));
+  }
+
+  async put<T>(store: CacheStoreName, key: string, value: T): Promise<void> {
+    this.getStore(store).set(key, clone(value));
+  }
+
+  async delete(store: CacheStoreName, key: string): Promise<void> {
+    this.getStore(store).delete(key);
+  }
+
+  async clear(store: CacheStoreName): Promise<void> {
+    this.getStore(store).clear();
+  }
+
+  private getStore(store: CacheStoreName): Map<string, unknown> {
+    let records = this.stores.get(store);
+    if (!records) {
+      records = new Map();
+      this.stores.set(store, records);
+    }
+    return records;
+  }
+}
+
+/**
+ * Copy records in and out so callers can't mutate stored data (same semantics as IndexedDB,
+ * so font file ArrayBuffers survive; JSON copy where structuredClone is unavailable)
+ */
+function clone<T>(value: T): T {
+  if (value === null || typeof value !== 'object') return value;
+  return typeof structuredClone === 'function' ? structuredClone(value) : JSON.parse(JSON.stringify(value));
+}
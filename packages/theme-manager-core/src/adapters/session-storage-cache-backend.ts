@@ -0,0 +1,92 @@
+/**
+ * SessionStorage Cache Backend
+ * Persists the caches for the lifetime of the tab. Records are JSON under
+ * `<prefix><store>:<key>`. Any Web Storage object can be passed (e.g. localStorage).
+ * Font file binaries don't survive JSON: self-hosted files are downloaded again
+ * and uploaded fonts only last until the next reload.
+ */
+
+import { isClient } from '../utils/ssr-utils';
+import type { CacheBackend, CacheStoreName } from '../types/cache-backend';
+
+export class SessionStorageCacheBackend implements CacheBackend {
+  readonly name = 'sessionStorage';
+  private storage: Storage | null = null;
+
+  /**
+   * @param storageProvider - Storage to use (defaults to window.sessionStorage)
+   * @param prefix - Key prefix so several instances can share one Storage
+   */
+  constructor(
+    private readonly storageProvider: () => Storage = () => window.sessionStorage,
+    private readonly prefix: string = 'theme-cache:'
+  ) {}
+
+  async init(): Promise<void> {
+    if (!isClient()) {
+      throw new Error('sessionStorage not available (server-side)');
+    }
+
+    // Accessing sessionStorage throws in sandboxed iframes without allow-same-origin
+    const storage = this.storageProvider();
+    const probe = `${this.prefix}__probe__`;
+    storage.setItem(probe, '1');
+    storage.removeItem(probe);
+    this.storage = storage;
+  }
+
+  async get<T>(store: CacheStoreName, key: string): Promise<T | null> {
+    const data = this.requireStorage().getItem(this.key(store, key));
+    return data ? JSON.parse(data) as T : null;
+  }
+
+  async getAll<T>(store: CacheStoreName): Promise<T[]> {
+    const storage = this.requireStorage();
+    const records: T[] = [];
+    for (const key of this.keys(store)) {
+      const data = storage.getItem(key);
+      if (!data) continue;
+      try {
+        records.push(JSON.parse(data));
+      } catch (error) {
+        console.warn(`⚠️ SessionStorageCacheBackend: Skipping corrupted record ${key}`, error);
+      }
+    }
+    return records;
+  }
+
+  async put<T>(store: CacheStoreName, key: string, value: T): Promise<void> {
+    this.requireStorage().setItem(this.key(store, key), JSON.stringify(value));
+  }
+
+  async delete(store: CacheStoreName, key: string): Promise<void> {
+    this.requireStorage().removeItem(this.key(store, key));
+  }
+
+  async clear(store: CacheStoreName): Promise<void> {
+    const storage = this.requireStorage();
+    this.keys(store).forEach(key => storage.removeItem(key));
+  }
+
+  private key(store: CacheStoreName, key: string): string {
+    return `${this.prefix}${store}:${key}`;
+  }
+
+  private keys(store: CacheStoreName): string[] {
+    const storage = this.requireStorage();
+    const storePrefix = `${this.prefix}${store}:`;
+    const keys: string[] = [];
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i);
+      if (key && key.startsWith(storePrefix)) keys.push(key);
+    }
+    return keys;
+  }
+
+  private requireStorage(): Storage {
+    if (!this.storage) {
+      throw new Error('SessionStorageCacheBackend used before init()');
+    }
+    return this.storage;
+  }
+}
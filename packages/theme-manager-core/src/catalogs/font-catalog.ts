@@ -2,13 +2,74 @@
  * Font catalog with system fonts and popular Google Fonts
  */
 
+/**
+ * Registered OpenType variation axes supported by the catalog
+ */
+export type FontAxisTag = 'wght' | 'wdth' | 'opsz' | 'slnt';
+
+export interface FontAxisRange {
+  min: number;
+  max: number;
+  default: number;
+}
+
+/**
+ * Axis values selected for a font, e.g. `{ wght: 450, wdth: 90 }`
+ */
+export type FontAxes = Partial<Record<FontAxisTag, number>>;
+
+/**
+ * Where a font comes from:
+ * - system: installed on the device, never loaded
+ * - google-fonts: stylesheet from fonts.googleapis.com
+ * - self-hosted: font files served by the app, registered with the FontFace API
+ * - local-file: a file uploaded by the user, kept in the cache backend
+ */
+export type FontSourceCategory = 'system' | 'google-fonts' | 'self-hosted' | 'local-file';
+
+/**
+ * Font files by `@font-face` descriptor: `'<weight>[ <style>]'` to URL,
+ * e.g. `{ '400': '/fonts/acme.woff2', '700 italic': '/fonts/acme-bold-italic.woff2', '100 900': '/fonts/acme-var.woff2' }`
+ */
+export type FontSourceMap = Record<string, string>;
+
+/**
+ * Vertical metrics (hhea) and average lowercase width, in font units.
+ * Used to size a local fallback font like the web font while it loads.
+ */
+export interface FontMetrics {
+  unitsPerEm: number;
+  ascent: number;
+  /** Negative, below the baseline */
+  descent: number;
+  lineGap: number;
+  /** Average advance width of lowercase letters */
+  xWidthAvg: number;
+}
+
 export interface FontOption {
   id: string;
   name: string;
   family: string;
-  category: 'system' | 'google-fonts';
+  category: FontSourceCategory;
   weights?: number[];
   styles?: string[];
+  /** Variation axes of a variable font; loaded as ranges instead of discrete weights */
+  axes?: Partial<Record<FontAxisTag, FontAxisRange>>;
+  /** Font files for 'self-hosted' and 'local-file' fonts */
+  sources?: FontSourceMap;
+  /** Font category a registered font is listed under (built-in fonts use FONT_CATEGORIES) */
+  classification?: 'sans' | 'serif' | 'mono';
+  /** Style descriptors used by search and pairings, e.g. 'geometric', 'humanist', 'code' */
+  tags?: string[];
+  /** x-height as a fraction of the em (larger reads bigger at the same size) */
+  xHeight?: number;
+  /** Google Fonts subsets the font supports, e.g. 'cyrillic', 'japanese'; system fonts depend on the platform */
+  subsets?: string[];
+  /** `unicode-range` of the font files ('self-hosted' / 'local-file'), e.g. 'U+0000-00FF, U+3000-30FF' */
+  unicodeRange?: string;
+  /** Metrics for the size-adjusted fallback `@font-face` (approximate, from the font files) */
+  metrics?: FontMetrics;
   preview?: string;
   fallback: string;
 }
@@ -28,6 +89,7 @@ export const FONT_CATALOG: FontCatalog = {
       name: 'System UI',
       family: 'system-ui',
       category: 'system',
+      tags: ['neo-grotesque', 'ui', 'neutral'],
       preview: 'The quick brown fox jumps over the lazy dog',
       fallback: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif'
     },
@@ -36,6 +98,8 @@ export const FONT_CATALOG: FontCatalog = {
       name: 'Apple System',
       family: '-apple-system',
       category: 'system',
+      tags: ['neo-grotesque', 'ui'],
+      xHeight: 0.53,
       preview: 'The quick brown fox jumps over the lazy dog',
       fallback: 'BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif'
     },
@@ -44,6 +108,8 @@ export const FONT_CATALOG: FontCatalog = {
       name: 'Segoe UI',
       family: '"Segoe UI"',
       category: 'system',
+      tags: ['humanist', 'ui'],
+      xHeight: 0.5,
       preview: 'The quick brown fox jumps over the lazy dog',
       fallback: 'Tahoma, Geneva, Verdana, sans-serif'
     },
@@ -52,6 +118,8 @@ export const FONT_CATALOG: FontCatalog = {
       name: 'Roboto (System)',
       family: 'Roboto',
       category: 'system',
+      tags: ['neo-grotesque', 'ui'],
+      xHeight: 0.528,
       preview: 'The quick brown fox jumps over the lazy dog',
       fallback: '"Helvetica Neue", Arial, sans-serif'
     },
@@ -60,6 +128,8 @@ export const FONT_CATALOG: FontCatalog = {
       name: 'Georgia',
       family: 'Georgia',
       category: 'system',
+      tags: ['transitional', 'readable'],
+      xHeight: 0.481,
       preview: 'The quick brown fox jumps over the lazy dog',
       fallback: 'serif'
     },
@@ -68,6 +138,8 @@ export const FONT_CATALOG: FontCatalog = {
       name: 'Times New Roman',
       family: '"Times New Roman"',
       category: 'system',
+      tags: ['transitional', 'classic'],
+      xHeight: 0.448,
       preview: 'The quick brown fox jumps over the lazy dog',
       fallback: 'Times, serif'
     },
@@ -76,6 +148,8 @@ export const FONT_CATALOG: FontCatalog = {
       name: 'Monaco',
       family: 'Monaco',
       category: 'system',
+      tags: ['code'],
+      xHeight: 0.54,
       preview: 'const code = "example";',
       fallback: 'Consolas, "Liberation Mono", monospace'
     },
@@ -84,6 +158,8 @@ export const FONT_CATALOG: FontCatalog = {
       name: 'Consolas',
       family: 'Consolas',
       category: 'system',
+      tags: ['humanist', 'code'],
+      xHeight: 0.49,
       preview: 'const code = "example";',
       fallback: '"Liberation Mono", "Courier New", monospace'
     }
@@ -98,6 +174,11 @@ export const FONT_CATALOG: FontCatalog = {
       category: 'google-fonts',
       weights: [300, 400, 500, 600, 700, 800],
       styles: ['normal'],
+      axes: { opsz: { min: 14, max: 32, default: 14 }, wght: { min: 100, max: 900, default: 400 } },
+      tags: ['neo-grotesque', 'ui', 'neutral'],
+      xHeight: 0.546,
+      subsets: ['latin', 'latin-ext', 'cyrillic', 'cyrillic-ext', 'greek', 'greek-ext', 'vietnamese'],
+      metrics: { unitsPerEm: 2048, ascent: 1984, descent: -494, lineGap: 0, xWidthAvg: 1031 },
       preview: 'The quick brown fox jumps over the lazy dog',
       fallback: 'system-ui, sans-serif'
     },
@@ -108,6 +189,11 @@ export const FONT_CATALOG: FontCatalog = {
       category: 'google-fonts',
       weights: [300, 400, 500, 700],
       styles: ['normal', 'italic'],
+      axes: { wdth: { min: 75, max: 100, default: 100 }, wght: { min: 100, max: 900, default: 400 } },
+      tags: ['neo-grotesque', 'ui'],
+      xHeight: 0.528,
+      subsets: ['latin', 'latin-ext', 'cyrillic', 'cyrillic-ext', 'greek', 'greek-ext', 'vietnamese'],
+      metrics: { unitsPerEm: 2048, ascent: 1900, descent: -500, lineGap: 0, xWidthAvg: 911 },
       preview: 'The quick brown fox jumps over the lazy dog',
       fallback: '"Helvetica Neue", Arial, sans-serif'
     },
@@ -118,6 +204,11 @@ export const FONT_CATALOG: FontCatalog = {
       category: 'google-fonts',
       weights: [300, 400, 600, 700, 800],
       styles: ['normal', 'italic'],
+      axes: { wdth: { min: 75, max: 100, default: 100 }, wght: { min: 300, max: 800, default: 400 } },
+      tags: ['humanist', 'readable'],
+      xHeight: 0.535,
+      subsets: ['latin', 'latin-ext', 'cyrillic', 'cyrillic-ext', 'greek', 'greek-ext', 'hebrew', 'vietnamese'],
+      metrics: { unitsPerEm: 2048, ascent: 2189, descent: -600, lineGap: 0, xWidthAvg: 1011 },
       preview: 'The quick brown fox jumps over the lazy dog',
       fallback: '"Helvetica Neue", Arial, sans-serif'
     },
@@ -128,6 +219,10 @@ export const FONT_CATALOG: FontCatalog = {
       category: 'google-fonts',
       weights: [300, 400, 700, 900],
       styles: ['normal', 'italic'],
+      tags: ['humanist', 'friendly'],
+      xHeight: 0.506,
+      subsets: ['latin', 'latin-ext'],
+      metrics: { unitsPerEm: 2000, ascent: 1974, descent: -426, lineGap: 0, xWidthAvg: 873 },
       preview: 'The quick brown fox jumps over the lazy dog',
       fallback: '"Helvetica Neue", Arial, sans-serif'
     },
@@ -138,6 +233,11 @@ export const FONT_CATALOG: FontCatalog = {
       category: 'google-fonts',
       weights: [300, 400, 500, 600, 700, 800],
       styles: ['normal', 'italic'],
+      axes: { wght: { min: 100, max: 900, default: 400 } },
+      tags: ['geometric', 'display'],
+      xHeight: 0.525,
+      subsets: ['latin', 'latin-ext', 'cyrillic', 'cyrillic-ext', 'vietnamese'],
+      metrics: { unitsPerEm: 1000, ascent: 968, descent: -251, lineGap: 0, xWidthAvg: 540 },
       preview: 'The quick brown fox jumps over the lazy dog',
       fallback: '"Helvetica Neue", Arial, sans-serif'
     },
@@ -148,6 +248,10 @@ export const FONT_CATALOG: FontCatalog = {
       category: 'google-fonts',
       weights: [300, 400, 500, 600, 700, 800],
       styles: ['normal'],
+      tags: ['geometric', 'friendly'],
+      xHeight: 0.548,
+      subsets: ['latin', 'latin-ext', 'devanagari'],
+      metrics: { unitsPerEm: 1000, ascent: 1050, descent: -350, lineGap: 100, xWidthAvg: 548 },
       preview: 'The quick brown fox jumps over the lazy dog',
       fallback: '"Helvetica Neue", Arial, sans-serif'
     },
@@ -158,6 +262,31 @@ export const FONT_CATALOG: FontCatalog = {
       category: 'google-fonts',
       weights: [300, 400, 500, 600, 700, 800],
       styles: ['normal'],
+      axes: { wght: { min: 100, max: 900, default: 400 } },
+      tags: ['geometric', 'modern'],
+      xHeight: 0.5,
+      subsets: ['latin', 'latin-ext'],
+      metrics: { unitsPerEm: 1000, ascent: 1000, descent: -260, lineGap: 0, xWidthAvg: 484 },
+      preview: 'The quick brown fox jumps over the lazy dog',
+      fallback: '"Helvetica Neue", Arial, sans-serif'
+    },
+    {
+      id: 'roboto-flex',
+      name: 'Roboto Flex',
+      family: 'Roboto Flex',
+      category: 'google-fonts',
+      weights: [100, 300, 400, 500, 700, 900],
+      styles: ['normal'],
+      axes: {
+        opsz: { min: 8, max: 144, default: 14 },
+        slnt: { min: -10, max: 0, default: 0 },
+        wdth: { min: 25, max: 151, default: 100 },
+        wght: { min: 100, max: 1000, default: 400 }
+      },
+      tags: ['neo-grotesque', 'ui', 'expressive'],
+      xHeight: 0.528,
+      subsets: ['latin', 'latin-ext', 'cyrillic', 'cyrillic-ext', 'greek', 'vietnamese'],
+      metrics: { unitsPerEm: 2000, ascent: 1900, descent: -500, lineGap: 0, xWidthAvg: 890 },
       preview: 'The quick brown fox jumps over the lazy dog',
       fallback: '"Helvetica Neue", Arial, sans-serif'
     },
@@ -170,6 +299,11 @@ export const FONT_CATALOG: FontCatalog = {
       category: 'google-fonts',
       weights: [400, 600, 700],
       styles: ['normal', 'italic'],
+      axes: { opsz: { min: 8, max: 60, default: 20 }, wght: { min: 200, max: 900, default: 400 } },
+      tags: ['transitional', 'readable'],
+      xHeight: 0.475,
+      subsets: ['latin', 'latin-ext', 'cyrillic', 'cyrillic-ext', 'greek', 'vietnamese'],
+      metrics: { unitsPerEm: 1000, ascent: 1036, descent: -335, lineGap: 0, xWidthAvg: 481 },
       preview: 'The quick brown fox jumps over the lazy dog',
       fallback: 'Georgia, serif'
     },
@@ -180,6 +314,10 @@ export const FONT_CATALOG: FontCatalog = {
       category: 'google-fonts',
       weights: [300, 400, 700, 900],
       styles: ['normal', 'italic'],
+      tags: ['transitional', 'readable', 'sturdy'],
+      xHeight: 0.555,
+      subsets: ['latin', 'latin-ext', 'cyrillic', 'cyrillic-ext', 'vietnamese'],
+      metrics: { unitsPerEm: 2000, ascent: 1968, descent: -546, lineGap: 0, xWidthAvg: 1100 },
       preview: 'The quick brown fox jumps over the lazy dog',
       fallback: 'Georgia, serif'
     },
@@ -190,6 +328,11 @@ export const FONT_CATALOG: FontCatalog = {
       category: 'google-fonts',
       weights: [400, 500, 600, 700],
       styles: ['normal', 'italic'],
+      axes: { wght: { min: 400, max: 700, default: 400 } },
+      tags: ['calligraphic', 'contemporary'],
+      xHeight: 0.5,
+      subsets: ['latin', 'latin-ext', 'cyrillic', 'cyrillic-ext', 'vietnamese'],
+      metrics: { unitsPerEm: 1000, ascent: 1006, descent: -274, lineGap: 0, xWidthAvg: 509 },
       preview: 'The quick brown fox jumps over the lazy dog',
       fallback: 'Georgia, serif'
     },
@@ -200,6 +343,11 @@ export const FONT_CATALOG: FontCatalog = {
       category: 'google-fonts',
       weights: [400, 500, 600, 700, 800, 900],
       styles: ['normal', 'italic'],
+      axes: { wght: { min: 400, max: 900, default: 400 } },
+      tags: ['didone', 'display', 'high-contrast'],
+      xHeight: 0.514,
+      subsets: ['latin', 'latin-ext', 'cyrillic', 'vietnamese'],
+      metrics: { unitsPerEm: 1000, ascent: 1082, descent: -251, lineGap: 0, xWidthAvg: 514 },
       preview: 'The quick brown fox jumps over the lazy dog',
       fallback: 'Georgia, serif'
     },
@@ -212,6 +360,11 @@ export const FONT_CATALOG: FontCatalog = {
       category: 'google-fonts',
       weights: [300, 400, 500, 600, 700],
       styles: ['normal'],
+      axes: { wght: { min: 300, max: 700, default: 400 } },
+      tags: ['humanist', 'code', 'ligatures'],
+      xHeight: 0.527,
+      subsets: ['latin', 'latin-ext', 'cyrillic', 'cyrillic-ext', 'greek', 'greek-ext'],
+      metrics: { unitsPerEm: 1950, ascent: 1823, descent: -517, lineGap: 0, xWidthAvg: 1200 },
       preview: 'const code = "example"; // ligatures',
       fallback: 'Monaco, Consolas, monospace'
     },
@@ -222,6 +375,11 @@ export const FONT_CATALOG: FontCatalog = {
       category: 'google-fonts',
       weights: [300, 400, 500, 600, 700, 800],
       styles: ['normal', 'italic'],
+      axes: { wght: { min: 100, max: 800, default: 400 } },
+      tags: ['code', 'ligatures'],
+      xHeight: 0.55,
+      subsets: ['latin', 'latin-ext', 'cyrillic', 'cyrillic-ext', 'greek', 'vietnamese'],
+      metrics: { unitsPerEm: 1000, ascent: 1020, descent: -300, lineGap: 0, xWidthAvg: 600 },
       preview: 'const code = "example"; // ligatures',
       fallback: 'Monaco, Consolas, monospace'
     },
@@ -232,6 +390,11 @@ export const FONT_CATALOG: FontCatalog = {
       category: 'google-fonts',
       weights: [300, 400, 500, 600, 700, 900],
       styles: ['normal', 'italic'],
+      axes: { wght: { min: 200, max: 900, default: 400 } },
+      tags: ['humanist', 'code'],
+      xHeight: 0.48,
+      subsets: ['latin', 'latin-ext', 'cyrillic', 'cyrillic-ext', 'greek', 'greek-ext', 'vietnamese'],
+      metrics: { unitsPerEm: 1000, ascent: 984, descent: -273, lineGap: 0, xWidthAvg: 600 },
       preview: 'const code = "example";',
       fallback: 'Monaco, Consolas, monospace'
     },
@@ -242,6 +405,11 @@ export const FONT_CATALOG: FontCatalog = {
       category: 'google-fonts',
       weights: [400, 500, 600, 700, 800, 900],
       styles: ['normal'],
+      axes: { wdth: { min: 50, max: 200, default: 100 }, wght: { min: 200, max: 900, default: 400 } },
+      tags: ['humanist', 'code'],
+      xHeight: 0.457,
+      subsets: ['latin', 'latin-ext', 'vietnamese'],
+      metrics: { unitsPerEm: 1000, ascent: 859, descent: -190, lineGap: 0, xWidthAvg: 500 },
       preview: 'const code = "example";',
       fallback: 'Monaco, Consolas, monospace'
     }
@@ -256,7 +424,7 @@ export const FONT_CATEGORIES = {
     label: 'Sans-serif',
     description: 'Modern, clean fonts for headings and UI',
     systemFonts: ['system-ui', 'apple-system', 'segoe-ui', 'roboto-system'],
-    googleFonts: ['inter', 'roboto', 'open-sans', 'lato', 'montserrat', 'poppins', 'outfit']
+    googleFonts: ['inter', 'roboto', 'open-sans', 'lato', 'montserrat', 'poppins', 'outfit', 'roboto-flex']
   },
   serif: {
     label: 'Serif',
@@ -272,11 +440,45 @@ export const FONT_CATEGORIES = {
   }
 };
 
+/**
+ * Fonts registered at runtime (self-hosted fonts of the app, uploaded local files)
+ */
+const registeredFonts = new Map<string, FontOption>();
+
+/**
+ * Add a font to the catalog, replacing a registered font with the same id
+ * @throws Error when the id belongs to a built-in font or a file font has no sources
+ */
+export function registerFont(font: FontOption): void {
+  if ([...FONT_CATALOG.system, ...FONT_CATALOG.googleFonts].some(builtIn => builtIn.id === font.id)) {
+    throw new Error(`Font id is reserved by the built-in catalog: ${font.id}`);
+  }
+  if (needsFontFaceLoad(font) && (!font.sources || Object.keys(font.sources).length === 0)) {
+    throw new Error(`Font ${font.id} needs at least one source file`);
+  }
+  registeredFonts.set(font.id, font);
+}
+
+/**
+ * Remove a registered font
+ * @returns true when the font was registered
+ */
+export function unregisterFont(id: string): boolean {
+  return registeredFonts.delete(id);
+}
+
+/**
+ * Fonts added with registerFont
+ */
+export function getRegisteredFonts(): FontOption[] {
+  return Array.from(registeredFonts.values());
+}
+
 /**
  * Get all fonts flattened
  */
 export function getAllFonts(): FontOption[] {
-  return [...FONT_CATALOG.system, ...FONT_CATALOG.googleFonts];
+  return [...FONT_CATALOG.system, ...FONT_CATALOG.googleFonts, ...registeredFonts.values()];
 }
 
 /**
@@ -300,8 +502,23 @@ export function getFontsByCategory(category: 'sans' | 'serif' | 'mono'): FontOpt
   const googleFonts = allFonts.filter(font => 
     categoryConfig.googleFonts.includes(font.id)
   );
+
+  const registered = getRegisteredFonts().filter(font => font.classification === category);
   
-  return [...systemFonts, ...googleFonts];
+  return [...systemFonts, ...googleFonts, ...registered];
+}
+
+/**
+ * Category (sans, serif, mono) a font is listed under
+ */
+export function getFontClassification(font: FontOption): 'sans' | 'serif' | 'mono' | null {
+  if (font.classification) return font.classification;
+
+  const categories = Object.keys(FONT_CATEGORIES) as Array<'sans' | 'serif' | 'mono'>;
+  return categories.find(category =>
+    FONT_CATEGORIES[category].systemFonts.includes(font.id) ||
+    FONT_CATEGORIES[category].googleFonts.includes(font.id)
+  ) ?? null;
 }
 
 /**
@@ -316,4 +533,96 @@ export function buildFontFamily(font: FontOption): string {
  */
 export function needsGoogleFontsLoad(font: FontOption): boolean {
   return font.category === 'google-fonts';
-}
\ No newline at end of file
+}
+
+/**
+ * Check if font files are registered through the FontFace API (self-hosted or local file)
+ */
+export function needsFontFaceLoad(font: FontOption): boolean {
+  return font.category === 'self-hosted' || font.category === 'local-file';
+}
+
+/**
+ * Split a FontSourceMap key into `@font-face` descriptors
+ * @example parseFontSourceDescriptor('700 italic') // { weight: '700', style: 'italic' }
+ */
+export function parseFontSourceDescriptor(descriptor: string): { weight: string; style: string } {
+  const parts = descriptor.trim().split(/\s+/).filter(Boolean);
+  const style = parts.length > 0 && ['normal', 'italic', 'oblique'].includes(parts[parts.length - 1])
+    ? parts.pop()!
+    : 'normal';
+  return { weight: parts.join(' ') || '400', style };
+}
+
+/**
+ * Check if font is a variable font with adjustable axes
+ */
+export function isVariableFont(font: FontOption): boolean {
+  return !!font.axes && Object.keys(font.axes).length > 0;
+}
+
+/**
+ * Google Fonts css2 `family=` parameter for a font.
+ * Variable fonts request their full axis ranges (`Inter:opsz,wght@14..32,100..900`),
+ * static fonts their discrete weights (`Lato:wght@300;400;700`).
+ */
+export function buildGoogleFontsFamilyParam(font: FontOption): string {
+  const family = font.family.replace(/\s+/g, '+');
+
+  if (!isVariableFont(font)) {
+    return `family=${family}:wght@${(font.weights || [400]).join(';')}`;
+  }
+
+  // css2 requires axis tags in alphabetical order
+  const tags = (Object.keys(font.axes!) as FontAxisTag[]).sort();
+  const ranges = tags.map(tag => `${font.axes![tag]!.min}..${font.axes![tag]!.max}`).join(',');
+
+  if (font.styles?.includes('italic')) {
+    return `family=${family}:ital,${tags.join(',')}@0,${ranges};1,${ranges}`;
+  }
+  return `family=${family}:${tags.join(',')}@${ranges}`;
+}
+
+/**
+ * Glyphs requested from Google Fonts besides the families
+ */
+export interface GoogleFontsRequest {
+  /** Only these characters, e.g. a CJK heading */
+  text?: string;
+}
+
+/**
+ * Combined Google Fonts css2 URL for several fonts.
+ * css2 already returns one `unicode-range` face per subset (the browser only downloads
+ * the scripts the page uses); `text=` requests only some glyphs.
+ */
+export function buildGoogleFontsUrl(fonts: FontOption[], display: string = 'optional', request: GoogleFontsRequest = {}): string {
+  const url = `https://fonts.googleapis.com/css2?${fonts.map(buildGoogleFontsFamilyParam).join('&')}&display=${display}`;
+  return request.text ? `${url}&text=${encodeURIComponent(request.text)}` : url;
+}
+
+/**
+ * Keep only the axes the font supports, clamped to their ranges
+ */
+export function clampFontAxes(font: FontOption, axes: FontAxes): FontAxes {
+  const clamped: FontAxes = {};
+  (Object.entries(axes) as Array<[FontAxisTag, number]>).forEach(([tag, value]) => {
+    const range = font.axes?.[tag];
+    if (range && typeof value === 'number' && Number.isFinite(value)) {
+      clamped[tag] = Math.min(range.max, Math.max(range.min, value));
+    }
+  });
+  return clamped;
+}
+
+/**
+ * CSS `font-variation-settings` value, e.g. `"wdth" 90, "wght" 450`
+ */
+export function buildFontVariationSettings(axes: FontAxes): string {
+  const entries = (Object.entries(axes) as Array<[FontAxisTag, number]>)
+    .filter(([, value]) => typeof value === 'number')
+    .sort(([a], [b]) => a.localeCompare(b));
+  return entries.length > 0
+    ? entries.map(([tag, value]) => `"${tag}" ${value}`).join(', ')
+    : 'normal';
+}
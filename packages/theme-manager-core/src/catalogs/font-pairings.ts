@@ -0,0 +1,133 @@
+/**
+ * Curated font pairings: a sans, serif and mono font that work together
+ */
+
+import { getFontById, getFontClassification } from './font-catalog';
+
+export interface FontPairing {
+  id: string;
+  name: string;
+  description?: string;
+  /** Font ids per category; a pairing may leave a category to the theme */
+  fonts: {
+    sans?: string;
+    serif?: string;
+    mono?: string;
+  };
+  tags?: string[];
+}
+
+/**
+ * Built-in pairings
+ */
+export const FONT_PAIRINGS: FontPairing[] = [
+  {
+    id: 'modern-ui',
+    name: 'Modern UI',
+    description: 'Neutral interface text with a readable serif for long-form content',
+    fonts: { sans: 'inter', serif: 'source-serif-4', mono: 'jetbrains-mono' },
+    tags: ['ui', 'neutral']
+  },
+  {
+    id: 'editorial',
+    name: 'Editorial',
+    description: 'High-contrast display headings over a warm humanist body',
+    fonts: { sans: 'lato', serif: 'playfair-display', mono: 'source-code-pro' },
+    tags: ['editorial', 'high-contrast']
+  },
+  {
+    id: 'geometric',
+    name: 'Geometric',
+    description: 'Geometric sans with a sturdy serif that holds up at small sizes',
+    fonts: { sans: 'montserrat', serif: 'merriweather', mono: 'fira-code' },
+    tags: ['geometric', 'display']
+  },
+  {
+    id: 'friendly',
+    name: 'Friendly',
+    description: 'Rounded geometric sans with a calligraphic serif',
+    fonts: { sans: 'poppins', serif: 'lora', mono: 'inconsolata' },
+    tags: ['friendly', 'geometric']
+  },
+  {
+    id: 'humanist',
+    name: 'Humanist',
+    description: 'Open, readable humanist shapes across all three families',
+    fonts: { sans: 'open-sans', serif: 'merriweather', mono: 'source-code-pro' },
+    tags: ['humanist', 'readable']
+  },
+  {
+    id: 'variable',
+    name: 'Variable',
+    description: 'Variable fonts with width and optical size axes to tune',
+    fonts: { sans: 'roboto-flex', serif: 'source-serif-4', mono: 'inconsolata' },
+    tags: ['variable', 'expressive']
+  },
+  {
+    id: 'system',
+    name: 'System',
+    description: 'Platform fonts only, nothing to download',
+    fonts: { sans: 'system-ui', serif: 'georgia', mono: 'monaco' },
+    tags: ['system', 'fast']
+  }
+];
+
+/**
+ * Pairings added at runtime (e.g. from an external catalog)
+ */
+const registeredPairings = new Map<string, FontPairing>();
+
+/**
+ * Add a pairing, replacing a registered pairing with the same id
+ * @throws Error when the id is reserved, a font is unknown or listed under another category
+ */
+export function registerFontPairing(pairing: FontPairing): void {
+  if (FONT_PAIRINGS.some(builtIn => builtIn.id === pairing.id)) {
+    throw new Error(`Pairing id is reserved by the built-in pairings: ${pairing.id}`);
+  }
+
+  const entries = Object.entries(pairing.fonts).filter(([, fontId]) => fontId);
+  if (entries.length === 0) {
+    throw new Error(`Pairing ${pairing.id} needs at least one font`);
+  }
+  entries.forEach(([category, fontId]) => {
+    const font = getFontById(fontId!);
+    if (!font) {
+      throw new Error(`Pairing ${pairing.id}: font not found: ${fontId}`);
+    }
+    if (getFontClassification(font) !== category) {
+      throw new Error(`Pairing ${pairing.id}: ${fontId} is not a ${category} font`);
+    }
+  });
+
+  registeredPairings.set(pairing.id, pairing);
+}
+
+/**
+ * Remove a registered pairing
+ * @returns true when the pairing was registered
+ */
+export function unregisterFontPairing(id: string): boolean {
+  return registeredPairings.delete(id);
+}
+
+/**
+ * Built-in and registered pairings
+ */
+export function getFontPairings(): FontPairing[] {
+  return [...FONT_PAIRINGS, ...registeredPairings.values()];
+}
+
+/**
+ * Get pairing by ID
+ */
+export function getFontPairingById(id: string): FontPairing | null {
+  return getFontPairings().find(pairing => pairing.id === id) || null;
+}
+
+/**
+ * Pairings that include a font, to suggest companions for the current selection
+ */
+export function getPairingsForFont(fontId: string): FontPairing[] {
+  return getFontPairings().filter(pairing => Object.values(pairing.fonts).includes(fontId));
+}
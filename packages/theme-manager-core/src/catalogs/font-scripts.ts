@@ -0,0 +1,157 @@
+/**
+ * Scripts and Google Fonts subsets needed by each locale, and the system fonts
+ * that cover a script when the selected font does not.
+ *
+ * @module font-scripts
+ */
+
+import { FontOption } from './font-catalog';
+
+/**
+ * Google Fonts subsets required by a language, keyed by BCP 47 tag (lowercase).
+ * Lookups try the full tag, then language-script/region, then the language.
+ * Languages not listed only need 'latin'.
+ */
+export const LOCALE_SUBSETS: Record<string, string[]> = {
+  ja: ['japanese'],
+  ko: ['korean'],
+  zh: ['chinese-simplified'],
+  'zh-hans': ['chinese-simplified'],
+  'zh-hant': ['chinese-traditional'],
+  'zh-tw': ['chinese-traditional'],
+  'zh-hk': ['chinese-hongkong'],
+  'zh-mo': ['chinese-traditional'],
+  ar: ['arabic'],
+  fa: ['arabic'],
+  ur: ['arabic'],
+  he: ['hebrew'],
+  yi: ['hebrew'],
+  hi: ['devanagari'],
+  mr: ['devanagari'],
+  ne: ['devanagari'],
+  th: ['thai'],
+  ru: ['cyrillic'],
+  uk: ['cyrillic', 'cyrillic-ext'],
+  bg: ['cyrillic'],
+  be: ['cyrillic'],
+  kk: ['cyrillic', 'cyrillic-ext'],
+  mk: ['cyrillic'],
+  sr: ['cyrillic'],
+  'sr-latn': ['latin-ext'],
+  el: ['greek'],
+  vi: ['vietnamese'],
+  pl: ['latin-ext'],
+  cs: ['latin-ext'],
+  sk: ['latin-ext'],
+  hu: ['latin-ext'],
+  ro: ['latin-ext'],
+  tr: ['latin-ext'],
+  hr: ['latin-ext'],
+  sl: ['latin-ext'],
+  lv: ['latin-ext'],
+  lt: ['latin-ext'],
+  et: ['latin-ext']
+};
+
+/**
+ * Installed fonts that cover a script, per category, in preference order
+ * (macOS, Windows, Android/Linux). Only scripts the usual system stacks
+ * render poorly are listed: Latin, Cyrillic, Greek and Vietnamese are covered.
+ */
+export const SCRIPT_FALLBACKS: Record<string, Record<'sans' | 'serif' | 'mono', string>> = {
+  japanese: {
+    sans: '"Hiragino Sans", "Hiragino Kaku Gothic ProN", "Yu Gothic", Meiryo, "Noto Sans JP"',
+    serif: '"Hiragino Mincho ProN", "Yu Mincho", "Noto Serif JP"',
+    mono: '"Osaka-Mono", "MS Gothic", "Noto Sans Mono CJK JP"'
+  },
+  korean: {
+    sans: '"Apple SD Gothic Neo", "Malgun Gothic", "Noto Sans KR"',
+    serif: '"AppleMyungjo", Batang, "Noto Serif KR"',
+    mono: '"D2Coding", GulimChe, "Noto Sans Mono CJK KR"'
+  },
+  'chinese-simplified': {
+    sans: '"PingFang SC", "Microsoft YaHei", "Noto Sans SC"',
+    serif: '"Songti SC", SimSun, "Noto Serif SC"',
+    mono: '"PingFang SC", NSimSun, "Noto Sans Mono CJK SC"'
+  },
+  'chinese-traditional': {
+    sans: '"PingFang TC", "Microsoft JhengHei", "Noto Sans TC"',
+    serif: '"Songti TC", PMingLiU, "Noto Serif TC"',
+    mono: '"PingFang TC", MingLiU, "Noto Sans Mono CJK TC"'
+  },
+  'chinese-hongkong': {
+    sans: '"PingFang HK", "Microsoft JhengHei", "Noto Sans HK"',
+    serif: '"Songti TC", PMingLiU_HKSCS, "Noto Serif TC"',
+    mono: '"PingFang HK", MingLiU_HKSCS, "Noto Sans Mono CJK HK"'
+  },
+  arabic: {
+    sans: '"Geeza Pro", "Segoe UI", Tahoma, "Noto Sans Arabic"',
+    serif: '"Al Nile", "Traditional Arabic", "Noto Naskh Arabic"',
+    mono: '"Courier New", "Noto Sans Arabic"'
+  },
+  hebrew: {
+    sans: '"Arial Hebrew", "Segoe UI", "Noto Sans Hebrew"',
+    serif: '"New Peninim MT", David, "Noto Serif Hebrew"',
+    mono: '"Courier New", "Noto Sans Hebrew"'
+  },
+  devanagari: {
+    sans: '"Kohinoor Devanagari", "Nirmala UI", "Noto Sans Devanagari"',
+    serif: '"Devanagari MT", Mangal, "Noto Serif Devanagari"',
+    mono: '"Nirmala UI", "Noto Sans Devanagari"'
+  },
+  thai: {
+    sans: '"Thonburi", "Leelawadee UI", "Noto Sans Thai"',
+    serif: '"Sukhumvit Set", Tahoma, "Noto Serif Thai"',
+    mono: '"Ayuthaya", "Noto Sans Thai"'
+  }
+};
+
+/**
+ * Subsets needed to render the given locales, always including 'latin'
+ * @example getLocaleSubsets(['ja-JP', 'en']) // ['latin', 'japanese']
+ */
+export function getLocaleSubsets(locales: string[]): string[] {
+  const subsets = new Set<string>(['latin']);
+
+  locales.forEach(locale => {
+    const parts = locale.trim().toLowerCase().replace(/_/g, '-').split('-').filter(Boolean);
+    const candidates = [parts.join('-'), parts.slice(0, 2).join('-'), parts[0]];
+    const match = candidates.find(tag => tag && LOCALE_SUBSETS[tag]);
+    if (match) {
+      LOCALE_SUBSETS[match].forEach(subset => subsets.add(subset));
+    }
+  });
+
+  return Array.from(subsets);
+}
+
+/**
+ * Locale of the page from `<html lang>`
+ */
+export function getDocumentLocales(): string[] {
+  if (typeof document === 'undefined') return [];
+  const lang = document.documentElement.lang;
+  return lang ? [lang] : [];
+}
+
+/**
+ * Requested subsets the font has no glyphs for. Fonts without subset metadata
+ * are treated as Latin-only; system fonts depend on the platform and are never reported.
+ */
+export function getMissingSubsets(font: FontOption, subsets: string[]): string[] {
+  if (font.category === 'system') return [];
+  const supported = font.subsets ?? ['latin'];
+  return subsets.filter(subset => !supported.includes(subset));
+}
+
+/**
+ * System font families covering the scripts the font lacks, e.g.
+ * `"Hiragino Sans", "Hiragino Kaku Gothic ProN", "Yu Gothic", Meiryo, "Noto Sans JP"` for Inter in Japanese
+ * @returns empty string when nothing is missing
+ */
+export function buildScriptFallbacks(font: FontOption, subsets: string[], classification: 'sans' | 'serif' | 'mono'): string {
+  return getMissingSubsets(font, subsets)
+    .map(subset => SCRIPT_FALLBACKS[subset]?.[classification])
+    .filter((families): families is string => !!families)
+    .join(', ');
+}
@@ -0,0 +1,241 @@
+/**
+ * Search over the font catalog (built-in and registered fonts) and loading of
+ * external catalogs from JSON.
+ *
+ * External catalog format:
+ * ```json
+ * {
+ *   "fonts": [{ "id": "acme", "name": "Acme", "family": "Acme", "category": "google-fonts",
+ *               "classification": "sans", "fallback": "sans-serif", "tags": ["geometric"] }],
+ *   "pairings": [{ "id": "acme-set", "name": "Acme", "fonts": { "sans": "acme", "serif": "lora" } }]
+ * }
+ * ```
+ */
+
+import {
+  FontOption,
+  FontSourceCategory,
+  getAllFonts,
+  getFontClassification,
+  registerFont
+} from './font-catalog';
+import { FontPairing, registerFontPairing } from './font-pairings';
+
+export interface FontSearchOptions {
+  /** Fuzzy match on name, family, id and tags */
+  query?: string;
+  category?: 'sans' | 'serif' | 'mono';
+  /** Fonts must have every tag */
+  tags?: string[];
+  /** Fonts must support the subset (e.g. 'cyrillic') */
+  subset?: string;
+  /** x-height range; fonts without x-height data are excluded when set */
+  xHeight?: { min?: number; max?: number };
+  limit?: number;
+}
+
+export interface FontCatalogFile {
+  fonts?: FontOption[];
+  pairings?: FontPairing[];
+}
+
+export interface FontCatalogLoadResult {
+  /** Ids of the fonts registered */
+  fonts: string[];
+  /** Ids of the pairings registered */
+  pairings: string[];
+  /** Entries skipped, one message each */
+  errors: string[];
+}
+
+const SOURCE_CATEGORIES: FontSourceCategory[] = ['system', 'google-fonts', 'self-hosted', 'local-file'];
+const CLASSIFICATIONS = ['sans', 'serif', 'mono'];
+const METRIC_FIELDS = ['unitsPerEm', 'ascent', 'descent', 'lineGap', 'xWidthAvg'];
+// family, fallback and unicodeRange end up in <style> text: nothing that closes a rule, a comment or the element
+const UNSAFE_CSS_VALUE = /[{};<\\]|\/\*|\*\//;
+
+/**
+ * Score of a fuzzy match of `query` in `text`: 0 when the characters of the
+ * query do not appear in order, higher for exact, prefix and word matches
+ */
+export function fuzzyMatchScore(query: string, text: string): number {
+  const q = normalize(query);
+  const t = normalize(text);
+  if (!q || !t) return 0;
+
+  if (t === q) return 100;
+  if (t.startsWith(q)) return 80;
+  if (t.split(' ').some(word => word.startsWith(q))) return 70;
+  if (t.includes(q)) return 60;
+
+  // Subsequence: every query character in order, fewer gaps score higher
+  let position = -1;
+  let gaps = 0;
+  for (const char of q.replace(/ /g, '')) {
+    const next = t.indexOf(char, position + 1);
+    if (next === -1) return 0;
+    if (position !== -1 && next > position + 1) gaps++;
+    position = next;
+  }
+  return Math.max(1, 40 - gaps * 5);
+}
+
+/**
+ * Search the catalog. Without a query fonts keep the catalog order;
+ * with a query they are sorted by relevance.
+ */
+export function searchFonts(options: FontSearchOptions = {}): FontOption[] {
+  const tags = options.tags?.map(tag => tag.toLowerCase()) ?? [];
+
+  const filtered = getAllFonts().filter(font => {
+    if (options.category && getFontClassification(font) !== options.category) return false;
+    if (tags.length > 0 && !tags.every(tag => font.tags?.includes(tag))) return false;
+    if (options.subset && !font.subsets?.includes(options.subset)) return false;
+    if (options.xHeight) {
+      if (font.xHeight === undefined) return false;
+      if (options.xHeight.min !== undefined && font.xHeight < options.xHeight.min) return false;
+      if (options.xHeight.max !== undefined && font.xHeight > options.xHeight.max) return false;
+    }
+    return true;
+  });
+
+  let results = filtered;
+  if (options.query?.trim()) {
+    const query = options.query;
+    results = filtered
+      .map(font => ({
+        font,
+        score: Math.max(
+          fuzzyMatchScore(query, font.name),
+          fuzzyMatchScore(query, font.family.replace(/"/g, '')),
+          fuzzyMatchScore(query, font.id),
+          // Tags only count as whole-word matches, fuzzy tag hits are noise
+          ...(font.tags ?? []).map(tag => normalize(tag).startsWith(normalize(query)) ? 50 : 0)
+        )
+      }))
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.score - a.score || a.font.name.localeCompare(b.font.name))
+      .map(result => result.font);
+  }
+
+  return options.limit !== undefined ? results.slice(0, options.limit) : results;
+}
+
+/**
+ * Tags used in the catalog, for filter UIs
+ */
+export function getFontTags(category?: 'sans' | 'serif' | 'mono'): string[] {
+  const fonts = category ? searchFonts({ category }) : getAllFonts();
+  return Array.from(new Set(fonts.flatMap(font => font.tags ?? []))).sort();
+}
+
+/**
+ * Subsets supported by at least one font
+ */
+export function getFontSubsets(): string[] {
+  return Array.from(new Set(getAllFonts().flatMap(font => font.subsets ?? []))).sort();
+}
+
+/**
+ * Add fonts and pairings from an external catalog. Invalid entries are
+ * skipped and reported in `errors`; fonts are registered before pairings so
+ * pairings can reference them.
+ * @param source - URL of a JSON file, or the parsed catalog
+ * @throws Error when the file cannot be fetched or is not a catalog
+ */
+export async function loadFontCatalog(source: string | FontCatalogFile): Promise<FontCatalogLoadResult> {
+  let catalog: unknown = source;
+  if (typeof source === 'string') {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(`Failed to load font catalog: ${response.status} ${response.statusText}`);
+    }
+    catalog = await response.json();
+  }
+
+  if (!isObject(catalog) || (catalog.fonts !== undefined && !Array.isArray(catalog.fonts)) ||
+      (catalog.pairings !== undefined && !Array.isArray(catalog.pairings))) {
+    throw new Error('Invalid font catalog: expected { fonts?: [], pairings?: [] }');
+  }
+
+  const result: FontCatalogLoadResult = { fonts: [], pairings: [], errors: [] };
+
+  ((catalog.fonts ?? []) as unknown[]).forEach((font, index) => {
+    const error = validateFontEntry(font);
+    if (error) {
+      result.errors.push(`fonts[${index}]: ${error}`);
+      return;
+    }
+    try {
+      registerFont(font as FontOption);
+      result.fonts.push((font as FontOption).id);
+    } catch (registerError) {
+      result.errors.push(`fonts[${index}]: ${(registerError as Error).message}`);
+    }
+  });
+
+  ((catalog.pairings ?? []) as unknown[]).forEach((pairing, index) => {
+    if (!isObject(pairing) || typeof pairing.id !== 'string' || typeof pairing.name !== 'string' || !isObject(pairing.fonts)) {
+      result.errors.push(`pairings[${index}]: expected id, name and fonts`);
+      return;
+    }
+    try {
+      registerFontPairing(pairing as unknown as FontPairing);
+      result.pairings.push(pairing.id);
+    } catch (registerError) {
+      result.errors.push(`pairings[${index}]: ${(registerError as Error).message}`);
+    }
+  });
+
+  if (result.errors.length > 0) {
+    console.warn('⚠️ [FontCatalog] Skipped invalid catalog entries:', result.errors);
+  }
+  console.log(`✅ [FontCatalog] Loaded ${result.fonts.length} fonts and ${result.pairings.length} pairings`);
+  return result;
+}
+
+function validateFontEntry(font: unknown): string | null {
+  if (!isObject(font)) return 'expected an object';
+  for (const field of ['id', 'name', 'family', 'fallback']) {
+    if (typeof font[field] !== 'string' || !font[field]) return `${field}: expected a string`;
+  }
+  for (const field of ['family', 'fallback', 'unicodeRange']) {
+    if (typeof font[field] === 'string' && UNSAFE_CSS_VALUE.test(font[field] as string)) {
+      return `${field}: unsafe CSS value`;
+    }
+  }
+  if (!SOURCE_CATEGORIES.includes(font.category as FontSourceCategory)) {
+    return `category: expected one of ${SOURCE_CATEGORIES.join(', ')}`;
+  }
+  if (!CLASSIFICATIONS.includes(font.classification as string)) {
+    return 'classification: expected sans, serif or mono';
+  }
+  if (font.tags !== undefined && !isStringArray(font.tags)) return 'tags: expected an array of strings';
+  if (font.subsets !== undefined && !isStringArray(font.subsets)) return 'subsets: expected an array of strings';
+  if (font.unicodeRange !== undefined && typeof font.unicodeRange !== 'string') return 'unicodeRange: expected a string';
+  if (font.xHeight !== undefined && (typeof font.xHeight !== 'number' || font.xHeight <= 0 || font.xHeight >= 1)) {
+    return 'xHeight: expected a fraction of the em between 0 and 1';
+  }
+  if (font.metrics !== undefined) {
+    const metrics = font.metrics;
+    if (!isObject(metrics) || !METRIC_FIELDS.every(field => typeof metrics[field] === 'number' && Number.isFinite(metrics[field]))) {
+      return `metrics: expected finite numbers for ${METRIC_FIELDS.join(', ')}`;
+    }
+    if ((metrics.unitsPerEm as number) <= 0 || (metrics.xWidthAvg as number) <= 0) {
+      return 'metrics: unitsPerEm and xWidthAvg must be positive';
+    }
+  }
+  return null;
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
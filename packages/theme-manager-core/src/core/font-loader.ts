@@ -1,17 +1,113 @@
 /**
  * FontLoader - Dynamic font loading utility for theme system
- * Handles Google Fonts, local fonts, and font preloading
+ * Handles Google Fonts, self-hosted and uploaded font files, and font preloading
  */
 
+import {
+  getAllFonts,
+  needsFontFaceLoad,
+  needsGoogleFontsLoad,
+  parseFontSourceDescriptor,
+  buildGoogleFontsUrl,
+  FontOption,
+  FontSourceMap
+} from '../catalogs/font-catalog';
+import { getDocumentLocales, getLocaleSubsets } from '../catalogs/font-scripts';
+import type { StorageManager } from './storage-manager';
+import type { ThemeEventEmitter } from '../utils/theme-event-emitter';
+import type { FontLoadStatus } from '../types/theme-events';
+
+/**
+ * How font swaps are handled:
+ * - swap: apply the font immediately, text re-renders when the files arrive
+ * - optional: apply immediately; the browser only uses the font if it is ready almost at once (otherwise next visit)
+ * - block-with-timeout: keep the current font until the new one loads or `timeout` expires
+ */
+export type FontLoadingStrategy = 'swap' | 'optional' | 'block-with-timeout';
+
+export interface FontLoadingOptions {
+  strategy?: FontLoadingStrategy;
+  /** ms before a font is reported as 'timeout' (and the block strategy gives up waiting) */
+  timeout?: number;
+  /** Size-adjusted local fallback faces for catalog fonts with metrics */
+  metricFallbacks?: boolean;
+  /** Locales whose scripts must render, e.g. ['ja', 'ar']; empty uses `<html lang>` */
+  locales?: string[];
+  /** Request only these characters from Google Fonts (the rest use the fallbacks) */
+  text?: string;
+}
+
+export const DEFAULT_FONT_LOADING: Required<FontLoadingOptions> = {
+  strategy: 'block-with-timeout',
+  timeout: 8000,
+  metricFallbacks: true,
+  locales: [],
+  text: ''
+};
+
 interface FontConfig {
   family: string;
   weights?: number[];
   styles?: string[];
   display?: 'auto' | 'block' | 'swap' | 'fallback' | 'optional';
+  /** Font files to register with the FontFace API instead of a stylesheet */
+  sources?: FontSourceMap;
 }
 
 export class FontLoader {
   private loadedFonts: Set<string> = new Set();
+  private fontFacePromises: Map<string, Promise<void>> = new Map();
+  private loadingOptions: Required<FontLoadingOptions> = { ...DEFAULT_FONT_LOADING };
+
+  /**
+   * @param storageManager - Caches font file binaries (self-hosted downloads, uploaded files)
+   * @param events - Receives `fonts:status` for theme fonts (shared with the owning ThemeManager)
+   */
+  constructor(
+    private storageManager: StorageManager | null = null,
+    private events: ThemeEventEmitter | null = null
+  ) {}
+
+  /**
+   * Set the loading strategy; applies to fonts loaded from now on
+   */
+  setLoadingOptions(options: FontLoadingOptions): void {
+    if (options.timeout !== undefined && (!Number.isFinite(options.timeout) || options.timeout < 0)) {
+      throw new Error(`Invalid font loading timeout: ${options.timeout}`);
+    }
+    this.loadingOptions = { ...this.loadingOptions, ...options, locales: [...(options.locales || this.loadingOptions.locales)] };
+  }
+
+  getLoadingOptions(): Required<FontLoadingOptions> {
+    return { ...this.loadingOptions, locales: [...this.loadingOptions.locales] };
+  }
+
+  /**
+   * Subsets needed by the configured locales, or by `<html lang>` when none are configured
+   */
+  getRequiredSubsets(): string[] {
+    const locales = this.loadingOptions.locales.length > 0 ? this.loadingOptions.locales : getDocumentLocales();
+    return getLocaleSubsets(locales);
+  }
+
+  /**
+   * `font-display` for the strategy. The block strategy waits in JS, so once
+   * it gives up the font should still swap in when it arrives.
+   */
+  getFontDisplay(): 'swap' | 'optional' {
+    return this.loadingOptions.strategy === 'optional' ? 'optional' : 'swap';
+  }
+
+  /**
+   * Wait until the files of a family are usable (the stylesheet alone does not download them)
+   */
+  async waitForFontFace(family: string): Promise<void> {
+    if (typeof document === 'undefined' || typeof document.fonts?.load !== 'function') return;
+    const faces = await document.fonts.load(`1em "${family.replace(/['"]/g, '')}"`);
+    if (faces.length === 0) {
+      throw new Error(`No font faces available for ${family}`);
+    }
+  }
 
   /**
    * Extract font families from CSS variables
@@ -49,8 +145,7 @@ export class FontLoader {
       fonts.push({
         family: fontName,
         weights: [400, 500, 600, 700], // Default weights
-        styles: ['normal'],
-        display: 'swap'
+        styles: ['normal']
       });
     });
 
@@ -109,20 +204,40 @@ export class FontLoader {
       return;
     }
 
-    try {
-      // Check if it's a Google Font
-      if (this.isGoogleFont(config.family)) {
+    // Registered font files win, so a self-hosted copy never hits Google Fonts (CSP)
+    const hasFiles = !!config.sources || !!this.findFileFont(config.family);
+    const isGoogle = !hasFiles && this.isGoogleFont(config.family);
+    if (!isGoogle && !hasFiles) {
+      return; // Unknown external font without files: nothing to load
+    }
+
+    this.emitStatus(config.family, 'loading');
+    const load = (async () => {
+      if (isGoogle) {
         await this.loadGoogleFont(config);
+        await this.waitForFontFace(config.family);
       } else {
         await this.loadWebFont(config);
       }
-      
       this.loadedFonts.add(fontKey);
-      
-    } catch (error) {
+    })();
+
+    const result = await withTimeout(load, this.loadingOptions.timeout);
+    if (result === 'timeout') {
+      // Keep tracking so the UI learns when the font finally arrives
+      load.then(() => this.emitStatus(config.family, 'loaded'), () => {});
+    }
+    if (result instanceof Error) {
+      this.emitStatus(config.family, 'error', result);
+    } else {
+      this.emitStatus(config.family, result);
     }
   }
 
+  private emitStatus(family: string, status: FontLoadStatus, error?: Error): void {
+    this.events?.emit('fonts:status', { family, status, source: 'theme', ...(error ? { error } : {}) });
+  }
+
   /**
    * Check if font is likely a Google Font
    */
@@ -147,21 +262,147 @@ export class FontLoader {
     const weights = config.weights?.join(';') || '400;500;600;700';
     const styles = config.styles?.includes('italic') ? ':ital,wght@0,' : ':wght@';
     
-    const googleFontUrl = `https://fonts.googleapis.com/css2?family=${family}${styles}${weights}&display=${config.display || 'swap'}`;
-    
+    let googleFontUrl = `https://fonts.googleapis.com/css2?family=${family}${styles}${weights}&display=${config.display || this.getFontDisplay()}`;
+
+    if (this.loadingOptions.text) {
+      googleFontUrl += `&text=${encodeURIComponent(this.loadingOptions.text)}`;
+    }
+
     return this.loadFontCSS(googleFontUrl);
   }
 
   /**
-   * Load web font from external source
+   * Load web font from its files: explicit sources, or a registered
+   * self-hosted / uploaded font with the same family
    */
   private async loadWebFont(config: FontConfig): Promise<void> {
-    // For now, we'll try to detect and load common web fonts
-    // In a real implementation, this might parse @font-face rules
-    
-    // Try to create a FontFace if we have a URL (this would be expanded)
-    // For now, we'll just mark as loaded to avoid repeated attempts
-    return Promise.resolve();
+    const registered = this.findFileFont(config.family);
+
+    if (registered) {
+      return this.loadFontFace(registered);
+    }
+    if (config.sources) {
+      return this.loadFontFace({
+        id: config.family,
+        name: config.family,
+        family: config.family,
+        category: 'self-hosted',
+        sources: config.sources,
+        fallback: ''
+      });
+    }
+    // Unknown external font without files: nothing to load
+  }
+
+  /**
+   * Registered 'self-hosted' / 'local-file' font with this family
+   */
+  private findFileFont(family: string): FontOption | undefined {
+    return getAllFonts().find(font => needsFontFaceLoad(font) && font.family.replace(/['"]/g, '') === family);
+  }
+
+  /**
+   * Register the files of a 'self-hosted' or 'local-file' font with the FontFace API.
+   * Binaries are read from the cache backend first; self-hosted files are downloaded
+   * and cached on a miss, uploaded files only exist in the cache.
+   * @throws Error when a file cannot be downloaded, decoded or found in the cache
+   */
+  async loadFontFace(font: FontOption): Promise<void> {
+    if (typeof FontFace === 'undefined' || typeof document === 'undefined' || !document.fonts) {
+      console.warn(`⚠️ FontLoader: FontFace API not available, ${font.name} will use its fallback`);
+      return;
+    }
+
+    const family = font.family.replace(/['"]/g, '');
+    await Promise.all(Object.entries(font.sources || {}).map(([descriptor, url]) => {
+      const fontKey = getFontFileKey(url);
+      if (this.loadedFonts.has(fontKey)) return Promise.resolve();
+
+      let promise = this.fontFacePromises.get(fontKey);
+      if (!promise) {
+        promise = (async () => {
+          const data = await this.getFontFile(font, fontKey, url);
+          const face = new FontFace(family, data, {
+            ...parseFontSourceDescriptor(descriptor),
+            display: this.getFontDisplay(),
+            ...(font.unicodeRange ? { unicodeRange: font.unicodeRange } : {})
+          });
+          await face.load();
+          document.fonts.add(face);
+          this.loadedFonts.add(fontKey);
+        })().finally(() => this.fontFacePromises.delete(fontKey));
+        this.fontFacePromises.set(fontKey, promise);
+      }
+      return promise;
+    }));
+  }
+
+  /**
+   * FontFace objects of a font under another family name, not added to `document.fonts`.
+   * Previews register them under a private name so the fonts of the page never change.
+   * @returns no faces for system fonts (they are used by name)
+   * @throws Error when the Google Fonts stylesheet or a font file cannot be loaded
+   */
+  async createFontFaces(font: FontOption, family: string): Promise<FontFace[]> {
+    if (typeof FontFace === 'undefined') return [];
+
+    if (needsGoogleFontsLoad(font)) {
+      const url = buildGoogleFontsUrl([font], 'swap');
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Failed to load font CSS: ${url} (HTTP ${response.status})`);
+      }
+      return parseFontFaceRules(await response.text()).map(rule => new FontFace(family, rule.src, {
+        style: rule.style,
+        weight: rule.weight,
+        display: 'swap',
+        ...(rule.unicodeRange ? { unicodeRange: rule.unicodeRange } : {})
+      }));
+    }
+
+    if (needsFontFaceLoad(font)) {
+      return Promise.all(Object.entries(font.sources || {}).map(async ([descriptor, url]) => {
+        const data = await this.getFontFile(font, getFontFileKey(url), url);
+        return new FontFace(family, data, {
+          ...parseFontSourceDescriptor(descriptor),
+          display: 'swap',
+          ...(font.unicodeRange ? { unicodeRange: font.unicodeRange } : {})
+        });
+      }));
+    }
+
+    return [];
+  }
+
+  /**
+   * Font file binary from the cache backend, downloading self-hosted files on a miss
+   */
+  private async getFontFile(font: FontOption, fontKey: string, url: string): Promise<ArrayBuffer> {
+    const cached = await this.storageManager?.getCachedFont(fontKey);
+    if (cached?.data) {
+      return cached.data;
+    }
+
+    if (font.category === 'local-file') {
+      throw new Error(`Font file of ${font.name} is not in the cache, upload it again`);
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to download font file ${url}: HTTP ${response.status}`);
+    }
+    const data = await response.arrayBuffer();
+
+    await this.storageManager?.storeCachedFont({
+      fontKey,
+      family: font.family,
+      cssContent: '',
+      url,
+      timestamp: Date.now(),
+      data,
+      source: font.category
+    });
+    return data;
   }
 
   /**
@@ -238,4 +479,52 @@ export class FontLoader {
       pending: [] // Would track pending loads in real implementation
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Settle a promise within `timeout` ms
+ * @returns 'loaded', 'timeout', or the error it rejected with
+ */
+export async function withTimeout(promise: Promise<unknown>, timeout: number): Promise<'loaded' | 'timeout' | Error> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<'timeout'>(resolve => {
+    timer = setTimeout(() => resolve('timeout'), timeout);
+  });
+
+  try {
+    return await Promise.race([promise.then(() => 'loaded' as const), timedOut]);
+  } catch (error) {
+    return error instanceof Error ? error : new Error(String(error));
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Cache key of a font file
+ */
+export function getFontFileKey(url: string): string {
+  return `font-file:${url}`;
+}
+
+/**
+ * `@font-face` rules of a stylesheet (e.g. a Google Fonts css2 response)
+ */
+export function parseFontFaceRules(css: string): Array<{ src: string; style: string; weight: string; unicodeRange?: string }> {
+  const rules: Array<{ src: string; style: string; weight: string; unicodeRange?: string }> = [];
+  const blocks = css.match(/@font-face\s*\{[^}]*\}/g) || [];
+
+  blocks.forEach(block => {
+    const read = (property: string) => block.match(new RegExp(`${property}\\s*:\\s*([^;}]+)`))?.[1].trim();
+    const src = read('src');
+    if (!src) return;
+    rules.push({
+      src,
+      style: read('font-style') || 'normal',
+      weight: read('font-weight') || '400',
+      unicodeRange: read('unicode-range')
+    });
+  });
+
+  return rules;
+}
@@ -1,5 +1,35 @@
-import { getFontById, buildFontFamily, needsGoogleFontsLoad, FontOption } from '../catalogs/font-catalog';
+import {
+  getFontById,
+  buildFontFamily,
+  needsGoogleFontsLoad,
+  needsFontFaceLoad,
+  registerFont,
+  unregisterFont,
+  getRegisteredFonts,
+  buildGoogleFontsUrl,
+  buildFontVariationSettings,
+  clampFontAxes,
+  isVariableFont,
+  FontOption,
+  FontAxes
+} from '../catalogs/font-catalog';
+import { getFontPairingById } from '../catalogs/font-pairings';
 import { StorageManager, CachedFont } from './storage-manager';
+import { FontLoader, FontLoadingOptions, getFontFileKey, withTimeout } from './font-loader';
+import { FontPreview, FontPreviewHandle, FontPreviewOptions } from './font-preview';
+import { ThemeEventEmitter } from '../utils/theme-event-emitter';
+import { ThemeHistory } from './theme-history';
+import { ThemePolicy, getForcedFont, rejectByPolicy } from '../utils/theme-policy';
+import {
+  TypographyOverride,
+  TypographyOverrides,
+  TYPE_SCALE_STEPS,
+  sanitizeTypographyOverride,
+  buildTypographyVariables,
+  buildTypographyCSS
+} from '../utils/typography';
+import { buildFallbackFontFace, buildFontFamilyWithFallback } from '../utils/font-fallback';
+import type { ThemeEventName, ThemeEventListener, FontLoadStatus } from '../types/theme-events';
 
 /**
  * Font override configuration
@@ -11,8 +41,39 @@ export interface FontOverride {
     serif?: string;  // Font ID from catalog  
     mono?: string;   // Font ID from catalog
   };
+  /** Variation axis values per category, applied as `font-variation-settings` */
+  axes?: {
+    sans?: FontAxes;
+    serif?: FontAxes;
+    mono?: FontAxes;
+  };
+  /** Size, line-height, letter-spacing and type scale per category */
+  typography?: TypographyOverrides;
 }
 
+type FontCategory = 'sans' | 'serif' | 'mono';
+
+const FONT_CATEGORIES: FontCategory[] = ['sans', 'serif', 'mono'];
+
+/**
+ * Options for a font file uploaded by the user
+ */
+export interface LocalFontOptions {
+  /** Family name, the file name without extension by default */
+  name?: string;
+  /** Category the font is listed under (default 'sans') */
+  classification?: FontCategory;
+  /** `@font-face` weight, a range like `'100 900'` for variable files (default '400') */
+  weight?: string;
+  style?: 'normal' | 'italic';
+}
+
+const LOCAL_FONT_FALLBACKS: Record<FontCategory, string> = {
+  sans: 'system-ui, sans-serif',
+  serif: 'Georgia, serif',
+  mono: 'Monaco, Consolas, monospace'
+};
+
 /**
  * FontManager - Manages font overrides independent of themes
  */
@@ -20,13 +81,21 @@ export class FontManager {
   private currentOverride: FontOverride;
   private readonly STORAGE_KEY = 'font-override';
   private styleElement: HTMLStyleElement | null = null;
+  private typographyElement: HTMLStyleElement | null = null;
+  private fallbackElement: HTMLStyleElement | null = null;
+  private fontStatus: Map<string, FontLoadStatus> = new Map();
+  private currentLoad: Promise<void> | null = null;
   private storageManager: StorageManager;
+  private events: ThemeEventEmitter;
+  private history: ThemeHistory;
+  private policy: ThemePolicy | null = null;
+  private fontLoader: FontLoader;
   
   // Performance optimizations with persistent cache
   private loadedGoogleFonts: Set<string> = new Set();
   private fontLoadPromises: Map<string, Promise<void>> = new Map();
   private readonly BATCH_DELAY = 50; // ms to batch font loads
-  private pendingFontLoads: Set<string> = new Set();
+  private pendingFontLoads: Map<string, FontOption> = new Map();
   private batchTimer: NodeJS.Timeout | null = null;
   
   // Storage optimization
@@ -34,12 +103,41 @@ export class FontManager {
   private saveTimer: NodeJS.Timeout | null = null;
   private pendingConfig: FontOverride | null = null;
 
-  constructor() {
+  /**
+   * @param events - Emitter shared with the owning ThemeManager (a private one is created when omitted)
+   * @param history - Undo/redo history shared with the owning ThemeManager
+   * @param storageManager - Storage shared with the owning ThemeManager
+   * @param fontLoader - Loads self-hosted and uploaded font files (shared with the owning ThemeManager)
+   */
+  constructor(
+    events: ThemeEventEmitter = new ThemeEventEmitter(),
+    history: ThemeHistory = new ThemeHistory(events),
+    storageManager: StorageManager = new StorageManager(),
+    fontLoader: FontLoader = new FontLoader(storageManager)
+  ) {
     this.currentOverride = {
       enabled: false,
       fonts: {}
     };
-    this.storageManager = StorageManager.getInstance();
+    this.storageManager = storageManager;
+    this.events = events;
+    this.history = history;
+    this.fontLoader = fontLoader;
+  }
+
+  /**
+   * Subscribe to a typed theme event (shared with ThemeManager)
+   * @returns Unsubscribe function
+   */
+  addEventListener<K extends ThemeEventName>(event: K, listener: ThemeEventListener<K>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Unsubscribe from a typed theme event
+   */
+  removeEventListener<K extends ThemeEventName>(event: K, listener: ThemeEventListener<K>): void {
+    this.events.off(event, listener);
   }
 
 
@@ -54,9 +152,17 @@ export class FontManager {
     console.log('🔄 [FontManager] Initializing StorageManager...');
     await this.storageManager.init();
     console.log('✅ [FontManager] StorageManager initialized');
+
+    // Uploaded fonts must be in the catalog before the saved overrides reference them
+    await this.restoreLocalFonts();
     
     // Load saved font override configuration (now with StorageManager ready)
     await this.loadOverrideConfiguration();
+
+    // Forced fonts always win over the saved configuration
+    if (this.mergeForcedFonts()) {
+      this.saveOverrideConfiguration();
+    }
     
     // Do NOT apply overrides here - only load them on demand
     // This prevents automatic Google Fonts loading during init
@@ -95,7 +201,11 @@ export class FontManager {
     const wasTimerActive = this.saveTimer !== null;
     
     // Store pending configuration
-    this.pendingConfig = { ...this.currentOverride };
+    this.pendingConfig = this.cloneOverride(this.currentOverride);
+    this.events.emit('fonts:changed', {
+      override: this.cloneOverride(this.currentOverride),
+      source: 'local'
+    });
     console.log(`🔄 FontManager: Saving config scheduled${wasTimerActive ? ' (previous timer cancelled)' : ''}:`, this.pendingConfig);
     
     // Clear existing timer
@@ -158,6 +268,16 @@ export class FontManager {
     }
   }
 
+  /**
+   * Write a pending debounced save now (e.g. before exporting the profile)
+   */
+  async flushPendingSave(): Promise<void> {
+    if (!this.saveTimer) return;
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    await this.saveToStorage();
+  }
+
   /**
    * Get current font override configuration
    */
@@ -183,10 +303,56 @@ export class FontManager {
     await this.applyFontOverrides();
   }
 
+  /**
+   * Restrict font overrides with a tenant policy. Forced fonts are applied immediately.
+   * @param policy - Policy, or null to lift restrictions
+   */
+  async setPolicy(policy: ThemePolicy | null): Promise<void> {
+    this.policy = policy;
+
+    if (this.mergeForcedFonts()) {
+      this.saveOverrideConfiguration();
+      await this.applyFontOverrides();
+    }
+  }
+
+  /**
+   * Whether the category is locked by the policy
+   */
+  isCategoryLocked(category: 'sans' | 'serif' | 'mono'): boolean {
+    return !!getForcedFont(this.policy, category);
+  }
+
+  /**
+   * Copy forced fonts into the current override
+   * @returns true when the override changed
+   */
+  private mergeForcedFonts(): boolean {
+    const forced = this.policy?.forcedFonts;
+    if (!forced) return false;
+
+    let changed = false;
+    (['sans', 'serif', 'mono'] as const).forEach(category => {
+      const fontId = forced[category];
+      if (fontId && this.currentOverride.fonts[category] !== fontId) {
+        this.currentOverride.fonts[category] = fontId;
+        changed = true;
+      }
+    });
+
+    if (changed && !this.currentOverride.enabled) {
+      this.currentOverride.enabled = true;
+    }
+    return changed;
+  }
+
   /**
    * Disable font overrides (revert to theme fonts)
    */
   async disableOverride(): Promise<void> {
+    if (this.policy?.forcedFonts && Object.values(this.policy.forcedFonts).some(Boolean)) {
+      throw rejectByPolicy(this.events, 'font', 'disable', 'Font overrides are enforced and cannot be disabled');
+    }
     
     this.currentOverride.enabled = false;
     this.saveOverrideConfiguration();
@@ -201,40 +367,158 @@ export class FontManager {
    * @returns Promise que se resuelve cuando la fuente se ha aplicado
    */
   async setFontOverride(category: 'sans' | 'serif' | 'mono', fontId: string): Promise<void> {
-    
+    await this.changeFontOverride(category, fontId, true);
+  }
+
+  /**
+   * Set the font of a category; undo/redo replay it with `record` false
+   */
+  private async changeFontOverride(category: FontCategory, fontId: string, record: boolean): Promise<boolean> {
     // Validate font exists
     const font = getFontById(fontId);
     if (!font) {
       throw new Error(`Font not found: ${fontId}`);
     }
 
+    const forcedFontId = getForcedFont(this.policy, category);
+    if (forcedFontId && forcedFontId !== fontId) {
+      throw rejectByPolicy(this.events, 'font', fontId, `The ${category} font is locked to "${forcedFontId}"`);
+    }
+
+    const previousFontId = this.currentOverride.fonts[category];
+
     // Update configuration
     this.currentOverride.fonts[category] = fontId;
+    this.setCategoryAxes(category, this.currentOverride.axes?.[category] ? clampFontAxes(font, this.currentOverride.axes[category]!) : null);
     this.saveOverrideConfiguration();
 
-    // Load font if it's from Google Fonts
-    if (needsGoogleFontsLoad(font)) {
+    // Apply overrides if enabled (loads the font following the loading strategy),
+    // otherwise just preload it
+    if (this.currentOverride.enabled) {
+      await this.applyFontOverrides();
+    } else {
       await this.loadFontIfNeeded(font);
     }
 
-    // Apply overrides if enabled
+    if (record && previousFontId !== fontId) {
+      this.history.record({
+        label: `Font ${category}: ${font.name}`,
+        undo: () => previousFontId
+          ? this.changeFontOverride(category, previousFontId, false)
+          : this.clearFontOverride(category, false),
+        redo: () => this.changeFontOverride(category, fontId, false)
+      });
+    }
+    return true;
+  }
+
+  /**
+   * Aplica una combinación de fuentes (sans, serif, mono) de FONT_PAIRINGS o de un catálogo cargado.
+   * Las categorías bloqueadas por la política conservan su fuente.
+   * @param pairingId - ID de la combinación
+   * @throws Error si la combinación no existe
+   */
+  async applyFontPairing(pairingId: string): Promise<void> {
+    const pairing = getFontPairingById(pairingId);
+    if (!pairing) {
+      throw new Error(`Font pairing not found: ${pairingId}`);
+    }
+
+    for (const category of FONT_CATEGORIES) {
+      const fontId = pairing.fonts[category];
+      if (fontId && !this.isCategoryLocked(category)) {
+        await this.setFontOverride(category, fontId);
+      }
+    }
+
+    if (!this.currentOverride.enabled) {
+      await this.enableOverride();
+    }
+    console.log(`✅ [FontManager] Applied font pairing: ${pairing.name}`);
+  }
+
+  /**
+   * Apply a configuration received from another tab, device or imported profile.
+   * Not persisted (already stored by the origin) and not recorded in history.
+   */
+  async applyRemoteOverride(override: FontOverride): Promise<void> {
+    // Drop any pending local save so it cannot overwrite the newer configuration
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.pendingConfig = null;
+
+    this.currentOverride = this.cloneOverride(override);
+    this.mergeForcedFonts();
+
     if (this.currentOverride.enabled) {
       await this.applyFontOverrides();
+    } else {
+      this.removeFontOverrides();
+    }
+
+    this.events.emit('fonts:changed', {
+      override: this.cloneOverride(override),
+      source: 'remote'
+    });
+  }
+
+  /**
+   * Copy of an override with its own fonts/axes/typography objects
+   */
+  private cloneOverride(override: FontOverride): FontOverride {
+    const clone: FontOverride = { enabled: override.enabled, fonts: { ...override.fonts } };
+    if (override.axes) {
+      clone.axes = {};
+      FONT_CATEGORIES.forEach(category => {
+        if (override.axes![category]) clone.axes![category] = { ...override.axes![category] };
+      });
+    }
+    if (override.typography) {
+      clone.typography = {};
+      FONT_CATEGORIES.forEach(category => {
+        if (override.typography![category]) clone.typography![category] = { ...override.typography![category] };
+      });
     }
+    return clone;
   }
 
   /**
    * Remove font override for specific category
    */
   async removeFontOverride(category: 'sans' | 'serif' | 'mono'): Promise<void> {
+    await this.clearFontOverride(category, true);
+  }
+
+  /**
+   * Back to the theme font of a category; undo/redo replay it with `record` false
+   */
+  private async clearFontOverride(category: FontCategory, record: boolean): Promise<boolean> {
+    const forcedFontId = getForcedFont(this.policy, category);
+    if (forcedFontId) {
+      throw rejectByPolicy(this.events, 'font', forcedFontId, `The ${category} font is locked to "${forcedFontId}"`);
+    }
+
+    const previousFontId = this.currentOverride.fonts[category];
     
     delete this.currentOverride.fonts[category];
+    this.setCategoryAxes(category, null);
     this.saveOverrideConfiguration();
 
     // Re-apply overrides if enabled
     if (this.currentOverride.enabled) {
       await this.applyFontOverrides();
     }
+
+    if (record && previousFontId) {
+      this.history.record({
+        label: `Font ${category}: theme default`,
+        undo: () => this.changeFontOverride(category, previousFontId, false),
+        redo: () => this.clearFontOverride(category, false)
+      });
+    }
+    return true;
   }
 
   /**
@@ -248,14 +532,172 @@ export class FontManager {
   }
 
   /**
-   * Apply font overrides by injecting CSS
+   * Ajusta los ejes de la fuente variable de una categoría (wght, wdth, opsz, slnt)
+   * Los valores se limitan al rango de la fuente y se aplican con `font-variation-settings`.
+   * Nota: un `wght` fijo se aplica también a texto en negrita de esa categoría.
+   * @param category - Categoría de fuente: 'sans', 'serif' o 'mono'
+   * @param axes - Valores por eje, o null para volver a los valores por defecto
+   * @throws Error si la categoría no tiene una fuente variable seleccionada
+   */
+  async setFontAxes(category: FontCategory, axes: FontAxes | null): Promise<void> {
+    await this.changeFontAxes(category, axes, true);
+  }
+
+  /**
+   * Set the axes of a category; undo/redo replay it with `record` false
+   */
+  private async changeFontAxes(category: FontCategory, axes: FontAxes | null, record: boolean): Promise<boolean> {
+    const fontId = this.currentOverride.fonts[category];
+    const font = fontId ? getFontById(fontId) : null;
+    if (!font || !isVariableFont(font)) {
+      throw new Error(`No variable font selected for ${category}`);
+    }
+
+    const previousAxes = this.currentOverride.axes?.[category];
+    const nextAxes = axes ? clampFontAxes(font, axes) : null;
+
+    this.setCategoryAxes(category, nextAxes);
+    this.saveOverrideConfiguration();
+
+    if (this.currentOverride.enabled) {
+      this.injectOverrideCSS();
+    }
+
+    if (record) {
+      this.history.record({
+        label: `Font ${category} axes: ${nextAxes ? buildFontVariationSettings(nextAxes) : 'default'}`,
+        undo: () => this.changeFontAxes(category, previousAxes ? { ...previousAxes } : null, false),
+        redo: () => this.changeFontAxes(category, nextAxes, false)
+      });
+    }
+    return true;
+  }
+
+  /**
+   * Axis values set for a category
+   */
+  getFontAxes(category: FontCategory): FontAxes | null {
+    const axes = this.currentOverride.axes?.[category];
+    return axes ? { ...axes } : null;
+  }
+
+  /**
+   * Store (or clear, when empty) the axes of a category without saving
+   */
+  private setCategoryAxes(category: FontCategory, axes: FontAxes | null): void {
+    if (axes && Object.keys(axes).length > 0) {
+      this.currentOverride.axes = { ...this.currentOverride.axes, [category]: axes };
+      return;
+    }
+    if (!this.currentOverride.axes?.[category]) return;
+
+    delete this.currentOverride.axes[category];
+    if (Object.keys(this.currentOverride.axes).length === 0) {
+      delete this.currentOverride.axes;
+    }
+  }
+
+  /**
+   * Ajusta la tipografía de una categoría: tamaño base, interlineado, espaciado y escala modular.
+   * Es independiente de la fuente elegida; los valores se limitan a TYPOGRAPHY_LIMITS
+   * y se aplican como variables CSS cuando los overrides están activos.
+   * @param category - Categoría de fuente: 'sans', 'serif' o 'mono'
+   * @param typography - Valores a aplicar, o null para volver a los del tema
+   */
+  async setTypography(category: FontCategory, typography: TypographyOverride | null): Promise<void> {
+    await this.changeTypography(category, typography, true);
+  }
+
+  /**
+   * Set the typography of a category; undo/redo replay it with `record` false
+   */
+  private async changeTypography(category: FontCategory, typography: TypographyOverride | null, record: boolean): Promise<boolean> {
+    const previous = this.currentOverride.typography?.[category];
+    const next = sanitizeTypographyOverride(typography);
+
+    if (next) {
+      this.currentOverride.typography = { ...this.currentOverride.typography, [category]: next };
+    } else if (this.currentOverride.typography?.[category]) {
+      delete this.currentOverride.typography[category];
+      if (Object.keys(this.currentOverride.typography).length === 0) {
+        delete this.currentOverride.typography;
+      }
+    }
+    this.saveOverrideConfiguration();
+
+    if (this.currentOverride.enabled) {
+      this.injectOverrideCSS();
+    }
+
+    if (record) {
+      this.history.record({
+        label: `Font ${category} typography: ${next ? Object.entries(next).map(([field, value]) => `${field} ${value}`).join(', ') : 'theme default'}`,
+        undo: () => this.changeTypography(category, previous ? { ...previous } : null, false),
+        redo: () => this.changeTypography(category, next, false)
+      });
+    }
+    return true;
+  }
+
+  /**
+   * Typography values set for a category
+   */
+  getTypography(category: FontCategory): TypographyOverride | null {
+    const typography = this.currentOverride.typography?.[category];
+    return typography ? { ...typography } : null;
+  }
+
+  /**
+   * Configura cómo se cargan las fuentes: estrategia, timeout, fallbacks con métricas ajustadas
+   * y locales (fuentes del sistema por script para los glifos que la fuente no cubre)
+   * @param options - Opciones a combinar con las actuales (ver DEFAULT_FONT_LOADING)
+   */
+  setLoadingOptions(options: FontLoadingOptions): void {
+    this.fontLoader.setLoadingOptions(options);
+    if (this.currentOverride.enabled && this.styleElement) {
+      this.injectOverrideCSS();
+    }
+  }
+
+  getLoadingOptions(): Required<FontLoadingOptions> {
+    return this.fontLoader.getLoadingOptions();
+  }
+
+  /**
+   * Load status of a font family requested by the overrides
+   */
+  getFontLoadStatus(family: string): FontLoadStatus | null {
+    return this.fontStatus.get(family) ?? null;
+  }
+
+  /**
+   * Wait for the fonts of the current overrides, e.g. before revealing content.
+   * Never waits longer than the loading timeout.
+   * @returns true when every override font loaded
+   */
+  async whenFontsReady(): Promise<boolean> {
+    await this.currentLoad;
+    return Object.values(this.currentOverride.fonts).every(fontId => {
+      const font = fontId ? getFontById(fontId) : null;
+      return !font || !(needsGoogleFontsLoad(font) || needsFontFaceLoad(font)) || this.fontStatus.get(font.family) === 'loaded';
+    });
+  }
+
+  /**
+   * Apply font overrides by injecting CSS.
+   * block-with-timeout waits for the fonts (up to the timeout) before switching;
+   * swap/optional switch at once over the metric-matched fallbacks.
    */
   private async applyFontOverrides(): Promise<void> {
-    
-    // Load all required Google Fonts
-    await this.loadRequiredFonts();
-    
-    // Generate and inject CSS
+    const loading = this.loadRequiredFonts();
+    this.currentLoad = loading;
+
+    if (this.fontLoader.getLoadingOptions().strategy === 'block-with-timeout') {
+      await loading;
+      this.injectOverrideCSS();
+      return;
+    }
+
     this.injectOverrideCSS();
   }
 
@@ -269,37 +711,167 @@ export class FontManager {
     Object.values(this.currentOverride.fonts).forEach(fontId => {
       if (fontId) {
         const font = getFontById(fontId);
-        if (font && needsGoogleFontsLoad(font)) {
+        if (font && (needsGoogleFontsLoad(font) || needsFontFaceLoad(font))) {
           fontsToLoad.push(font);
         }
       }
     });
 
-    // Load all fonts in parallel with timeout
-    const loadPromises = fontsToLoad.map(font => this.loadFontIfNeeded(font));
-    
-    try {
-      // Add 8-second timeout to font loading
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('Font loading timeout after 8 seconds')), 8000);
+    // Load all fonts in parallel, each within the loading timeout
+    const { timeout } = this.fontLoader.getLoadingOptions();
+    const results = await Promise.all(fontsToLoad.map(async font => {
+      this.setFontStatus(font, 'loading');
+      const load = this.loadFontIfNeeded(font);
+      const result = await withTimeout(load, timeout);
+
+      if (result instanceof Error) {
+        this.setFontStatus(font, 'error', result);
+      } else {
+        this.setFontStatus(font, result);
+      }
+      if (result === 'timeout') {
+        // Report the late arrival so UIs waiting on status can reveal content
+        load.then(() => this.setFontStatus(font, 'loaded'), error => this.setFontStatus(font, 'error', error));
+      }
+      return result;
+    }));
+
+    const loaded = fontsToLoad.filter((_, index) => results[index] === 'loaded');
+    if (loaded.length > 0) {
+      this.events.emit('fonts:loaded', {
+        families: loaded.map(font => font.family),
+        source: 'override'
       });
-      
-      await Promise.race([
-        Promise.all(loadPromises),
-        timeoutPromise
-      ]);
-    } catch (error) {
-      console.warn('⚠️ [FontManager] Font loading failed or timed out, continuing without Google Fonts:', error);
+    }
+    if (loaded.length < fontsToLoad.length) {
+      console.warn('⚠️ [FontManager] Font loading failed or timed out, continuing with fallbacks');
       console.info('💡 [FontManager] The system will use system fonts as fallbacks');
     }
   }
 
+  private setFontStatus(font: FontOption, status: FontLoadStatus, error?: Error): void {
+    this.fontStatus.set(font.family, status);
+    this.events.emit('fonts:status', { family: font.family, status, source: 'override', ...(error ? { error } : {}) });
+  }
+
   /**
-   * Load a single font if it's from Google Fonts
+   * Load a single font: Google Fonts stylesheet, or font files through the FontFace API
    */
   private async loadFontIfNeeded(font: FontOption): Promise<void> {
     if (needsGoogleFontsLoad(font)) {
       await this.loadGoogleFontDirectly(font);
+      await this.fontLoader.waitForFontFace(font.family);
+    } else if (needsFontFaceLoad(font)) {
+      await this.fontLoader.loadFontFace(font);
+    }
+  }
+
+  /**
+   * Añade al catálogo una fuente subida por el usuario (archivo .woff2/.ttf/.otf)
+   * El binario se guarda en el cache backend y se registra con la FontFace API.
+   * Subir otro archivo con el mismo nombre añade ese peso/estilo a la misma familia.
+   * @param file - Archivo de fuente (File de un input o Blob)
+   * @param options - Nombre, categoría y descriptores `@font-face`
+   * @returns La entrada del catálogo, usable con setFontOverride
+   * @throws Error si el archivo no es una fuente válida
+   */
+  async registerLocalFont(file: Blob, options: LocalFontOptions = {}): Promise<FontOption> {
+    const fileName = (file as File).name || '';
+    // Quotes and CSS punctuation would break the font-family declarations
+    const name = (options.name || fileName.replace(/\.[^.]+$/, '')).replace(/["'\\;{}<>]/g, '').trim();
+    if (!name) {
+      throw new Error('Local font needs a name');
+    }
+
+    const id = `local-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')}`;
+    const style = options.style || 'normal';
+    const descriptor = style === 'normal' ? (options.weight || '400') : `${options.weight || '400'} ${style}`;
+    const url = `local-file:${id}:${descriptor.replace(/\s+/g, '-')}`;
+    const classification = options.classification || 'sans';
+    const existing = getFontById(id);
+
+    const font: FontOption = {
+      id,
+      name,
+      family: /\s/.test(name) ? `"${name}"` : name,
+      category: 'local-file',
+      sources: { ...(existing?.category === 'local-file' ? existing.sources : {}), [descriptor]: url },
+      classification,
+      preview: classification === 'mono' ? 'const code = "example";' : 'The quick brown fox jumps over the lazy dog',
+      fallback: LOCAL_FONT_FALLBACKS[classification]
+    };
+
+    await this.storageManager.storeCachedFont({
+      fontKey: getFontFileKey(url),
+      family: font.family,
+      cssContent: '',
+      url,
+      timestamp: Date.now(),
+      data: await file.arrayBuffer(),
+      source: 'local-file',
+      font
+    });
+    registerFont(font);
+
+    try {
+      await this.fontLoader.loadFontFace(font);
+    } catch (error) {
+      await this.storageManager.deleteCachedFont(getFontFileKey(url));
+      if (existing?.category === 'local-file') {
+        registerFont(existing);
+      } else {
+        unregisterFont(id);
+      }
+      throw new Error(`Invalid font file ${fileName || name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    console.log(`✅ [FontManager] Registered local font ${name} (${descriptor})`);
+    return font;
+  }
+
+  /**
+   * Remove an uploaded font, its cached files and any override using it
+   */
+  async removeLocalFont(id: string): Promise<void> {
+    const font = getFontById(id);
+    if (!font || font.category !== 'local-file') {
+      throw new Error(`Local font not found: ${id}`);
+    }
+
+    for (const category of FONT_CATEGORIES) {
+      if (this.currentOverride.fonts[category] === id) {
+        await this.removeFontOverride(category);
+      }
+    }
+
+    await Promise.all(Object.values(font.sources || {}).map(url => this.storageManager.deleteCachedFont(getFontFileKey(url))));
+    unregisterFont(id);
+  }
+
+  /**
+   * Fonts uploaded by the user
+   */
+  getLocalFonts(): FontOption[] {
+    return getRegisteredFonts().filter(font => font.category === 'local-file');
+  }
+
+  /**
+   * Register the uploaded fonts kept in the cache backend
+   */
+  private async restoreLocalFonts(): Promise<void> {
+    const fonts = new Map<string, FontOption>();
+
+    for (const cached of await this.storageManager.getCachedFonts()) {
+      if (cached.source !== 'local-file' || !cached.font) continue;
+      const known = fonts.get(cached.font.id);
+      fonts.set(cached.font.id, known
+        ? { ...known, sources: { ...known.sources, ...cached.font.sources } }
+        : cached.font);
+    }
+
+    fonts.forEach(font => registerFont(font));
+    if (fonts.size > 0) {
+      console.log(`✅ [FontManager] Restored ${fonts.size} local fonts`);
     }
   }
 
@@ -307,8 +879,10 @@ export class FontManager {
    * Load Google Font with batching optimization
    */
   private async loadGoogleFontDirectly(font: FontOption): Promise<void> {
-    const fontKey = `${font.family}-${font.weights?.join(',') || '400'}`;
-    
+    const fontKey = isVariableFont(font)
+      ? `${font.family}-variable`
+      : `${font.family}-${font.weights?.join(',') || '400'}`;
+
     // Return existing promise if already loading
     if (this.fontLoadPromises.has(fontKey)) {
       return this.fontLoadPromises.get(fontKey);
@@ -320,7 +894,7 @@ export class FontManager {
     }
 
     // Add to batch loading queue
-    this.pendingFontLoads.add(fontKey);
+    this.pendingFontLoads.set(fontKey, font);
     
     const promise = new Promise<void>((resolve, reject) => {
       // Clear existing batch timer
@@ -350,27 +924,18 @@ export class FontManager {
   private async processFontBatch(): Promise<void> {
     if (this.pendingFontLoads.size === 0) return;
 
-    const fontsToLoad = Array.from(this.pendingFontLoads);
+    const fontsToLoad = Array.from(this.pendingFontLoads.keys());
+    const fontOptions = Array.from(this.pendingFontLoads.values());
     this.pendingFontLoads.clear();
-    
 
-    // Build combined Google Fonts URL
-    const families: string[] = [];
-    
-    fontsToLoad.forEach(fontKey => {
-      const [family, weights] = fontKey.split('-');
-      const encodedFamily = family.replace(/\s+/g, '+');
-      // Fix: Use semicolons instead of commas for weights
-      const formattedWeights = weights.replace(/,/g, ';');
-      families.push(`family=${encodedFamily}:wght@${formattedWeights}`);
+    // Build combined Google Fonts URL (axis ranges for variable fonts)
+    const batchUrl = buildGoogleFontsUrl(fontOptions, this.fontLoader.getFontDisplay(), {
+      text: this.fontLoader.getLoadingOptions().text
     });
-
-    const batchUrl = `https://fonts.googleapis.com/css2?${families.join('&')}&display=optional`;
     
     console.log('🔍 [FontManager] Testing Google Fonts request:');
     console.log('🔍 [FontManager] Fonts to load:', fontsToLoad);
     console.log('🔍 [FontManager] Generated URL:', batchUrl);
-    console.log('🔍 [FontManager] Families array:', families);
     
     return new Promise((resolve, reject) => {
       // Check if similar batch already loaded
@@ -471,12 +1036,15 @@ export class FontManager {
 /* Apply font overrides with high specificity */
 body, .font-sans { 
   font-family: var(--font-sans-override) !important; 
+  font-variation-settings: var(--font-sans-variation, normal);
 }
 .font-serif { 
   font-family: var(--font-serif-override) !important; 
+  font-variation-settings: var(--font-serif-variation, normal);
 }
 .font-mono, code, pre { 
   font-family: var(--font-mono-override) !important; 
+  font-variation-settings: var(--font-mono-variation, normal);
 }
 `;
 
@@ -494,21 +1062,44 @@ body, .font-sans {
     const root = document.documentElement;
     
     // Clear existing override variables
-    root.style.removeProperty('--font-sans-selected');
-    root.style.removeProperty('--font-serif-selected');
-    root.style.removeProperty('--font-mono-selected');
+    this.removeFontOverrides();
     
     // Set new override variables only if overrides are active
     if (this.currentOverride.enabled) {
+      const metricFallbacks = this.fontLoader.getLoadingOptions().metricFallbacks;
+      const subsets = this.fontLoader.getRequiredSubsets();
+      const fallbackFaces: string[] = [];
+
       Object.entries(this.currentOverride.fonts).forEach(([category, fontId]) => {
         if (fontId) {
           const font = getFontById(fontId);
           if (font) {
-            const fontFamily = buildFontFamily(font);
+            const fallbackFace = metricFallbacks ? buildFallbackFontFace(font) : null;
+            if (fallbackFace) fallbackFaces.push(fallbackFace);
+
+            const fontFamily = buildFontFamilyWithFallback(font, { metricFallback: !!fallbackFace, subsets });
             root.style.setProperty(`--font-${category}-selected`, fontFamily);
+
+            const axes = this.currentOverride.axes?.[category as FontCategory];
+            if (axes && isVariableFont(font)) {
+              root.style.setProperty(`--font-${category}-variation`, buildFontVariationSettings(axes));
+            }
           }
         }
       });
+
+      const typography = this.currentOverride.typography;
+      if (typography) {
+        FONT_CATEGORIES.forEach(category => {
+          if (!typography[category]) return;
+          Object.entries(buildTypographyVariables(category, typography[category]!)).forEach(([name, value]) => {
+            root.style.setProperty(name, value);
+          });
+        });
+        this.updateTypographyStyles(buildTypographyCSS(typography));
+      }
+
+      this.updateFallbackFaces(fallbackFaces.join('\n'));
     }
     
   }
@@ -529,10 +1120,48 @@ body, .font-sans {
   private removeFontOverrides(): void {
     // Instead of removing the style element, just clear the override variables
     const root = document.documentElement;
-    root.style.removeProperty('--font-sans-selected');
-    root.style.removeProperty('--font-serif-selected'); 
-    root.style.removeProperty('--font-mono-selected');
-    
+    FONT_CATEGORIES.forEach(category => {
+      root.style.removeProperty(`--font-${category}-selected`);
+      root.style.removeProperty(`--font-${category}-variation`);
+      ['size', 'line-height', 'letter-spacing', ...TYPE_SCALE_STEPS.map(step => `scale-${step}`)].forEach(name => {
+        root.style.removeProperty(`--font-${category}-${name}`);
+      });
+    });
+    this.updateTypographyStyles('');
+    this.updateFallbackFaces('');
+  }
+
+  /**
+   * Metric-matched fallback `@font-face` rules of the override fonts
+   */
+  private updateFallbackFaces(css: string): void {
+    if (!css) {
+      if (this.fallbackElement) this.fallbackElement.textContent = '';
+      return;
+    }
+    if (!this.fallbackElement) {
+      this.fallbackElement = document.createElement('style');
+      this.fallbackElement.id = 'font-fallbacks';
+      document.head.appendChild(this.fallbackElement);
+    }
+    this.fallbackElement.textContent = `/* Font Fallbacks (size-adjusted) */\n${css}\n`;
+  }
+
+  /**
+   * Rules applying the typography variables; only the properties that are set,
+   * so the page's own sizes are untouched otherwise
+   */
+  private updateTypographyStyles(css: string): void {
+    if (!css) {
+      if (this.typographyElement) this.typographyElement.textContent = '';
+      return;
+    }
+    if (!this.typographyElement) {
+      this.typographyElement = document.createElement('style');
+      this.typographyElement.id = 'font-typography';
+      document.head.appendChild(this.typographyElement);
+    }
+    this.typographyElement.textContent = css;
   }
 
   /**
@@ -540,7 +1169,32 @@ body, .font-sans {
    */
 
   /**
-   * Preview font temporarily without saving
+   * Render font samples side by side inside `container`, isolated from the page:
+   * fonts get their own FontFace under a private family name and the overrides,
+   * the `:root` variables and the saved configuration are left untouched.
+   * @param container - Element the preview is appended to (in a shadow root when supported)
+   * @param fontIds - Fonts to compare
+   * @returns Handle to change the fonts or text, and to dispose the preview
+   */
+  async createFontPreview(container: HTMLElement, fontIds: string[], options: FontPreviewOptions = {}): Promise<FontPreviewHandle> {
+    const preview = new FontPreview(
+      container,
+      (font, family) => this.fontLoader.createFontFaces(font, family),
+      options
+    );
+
+    try {
+      await preview.setFonts(fontIds);
+    } catch (error) {
+      preview.dispose();
+      throw error;
+    }
+    return preview;
+  }
+
+  /**
+   * Preview font temporarily without saving.
+   * Changes the whole page until stopPreview(); use createFontPreview() for an isolated preview.
    */
   async previewFont(category: 'sans' | 'serif' | 'mono', fontId: string): Promise<void> {
     
@@ -550,12 +1204,10 @@ body, .font-sans {
     }
 
     // Load font if needed
-    if (needsGoogleFontsLoad(font)) {
-      await this.loadGoogleFontDirectly(font);
-    }
+    await this.loadFontIfNeeded(font);
 
-    // Create temporary override
-    const tempOverride = { ...this.currentOverride };
+    // Create temporary override (a copy: the current configuration must not change)
+    const tempOverride = this.cloneOverride(this.currentOverride);
     tempOverride.fonts[category] = fontId;
     tempOverride.enabled = true;
 
@@ -615,6 +1267,13 @@ body, .font-sans {
       fonts: {}
     };
     
+    // Forced fonts survive a reset
+    if (this.mergeForcedFonts()) {
+      this.saveOverrideConfiguration();
+      await this.applyFontOverrides();
+      return;
+    }
+
     this.saveOverrideConfiguration();
     this.removeFontOverrides();
   }
@@ -0,0 +1,206 @@
+import { getFontById, FontOption } from '../catalogs/font-catalog';
+
+/**
+ * Creates the FontFace objects of a font under a private family name
+ */
+export type FontPreviewFaceLoader = (font: FontOption, family: string) => Promise<FontFace[]>;
+
+export interface FontPreviewOptions {
+  /** Sample text, each font's own preview text by default */
+  text?: string;
+  /** Sample size in px (default 20) */
+  size?: number;
+  /** Render inside a shadow root so page styles do not reach the samples (default true when supported) */
+  shadow?: boolean;
+}
+
+/**
+ * Handle returned by `FontManager.createFontPreview()`
+ */
+export interface FontPreviewHandle {
+  /** Element the preview is rendered into */
+  readonly container: HTMLElement;
+  /** Font ids shown side by side */
+  readonly fonts: string[];
+  /** Whether the handle has been disposed */
+  readonly disposed: boolean;
+  /** Replace the compared fonts; a later call supersedes a pending one */
+  setFonts(fontIds: string[]): Promise<void>;
+  /** Change the sample text of every font */
+  setText(text: string | null): void;
+  /** Remove the samples and the preview font faces */
+  dispose(): void;
+}
+
+let previewCount = 0;
+
+/**
+ * Side-by-side font samples isolated from the page.
+ * Each font is registered under a private family name (`"Inter Preview 1"`) and only
+ * used inline inside the preview host, so `:root` variables, the override styles and
+ * the saved configuration are never touched. Several previews can be open at once.
+ */
+export class FontPreview implements FontPreviewHandle {
+  readonly container: HTMLElement;
+  private loader: FontPreviewFaceLoader;
+  private options: FontPreviewOptions;
+  private host: HTMLElement;
+  private root: HTMLElement | ShadowRoot;
+  private previewId = ++previewCount;
+  private fontIds: string[] = [];
+  /** Fonts of the latest setFonts() call, rendered once loaded */
+  private requestedIds: string[] = [];
+  private faces: Map<string, FontFace[]> = new Map();
+  private failed: Set<string> = new Set();
+  private isDisposed = false;
+  private requestId = 0;
+
+  constructor(container: HTMLElement, loader: FontPreviewFaceLoader, options: FontPreviewOptions = {}) {
+    this.container = container;
+    this.loader = loader;
+    this.options = { ...options };
+
+    this.host = document.createElement('div');
+    this.host.setAttribute('data-font-preview', String(this.previewId));
+    this.root = options.shadow !== false && typeof this.host.attachShadow === 'function'
+      ? this.host.attachShadow({ mode: 'open' })
+      : this.host;
+    container.appendChild(this.host);
+  }
+
+  get fonts(): string[] {
+    return [...this.fontIds];
+  }
+
+  get disposed(): boolean {
+    return this.isDisposed;
+  }
+
+  async setFonts(fontIds: string[]): Promise<void> {
+    if (this.isDisposed) {
+      throw new Error('Font preview has been disposed');
+    }
+
+    const fonts = fontIds.map(fontId => {
+      const font = getFontById(fontId);
+      if (!font) {
+        throw new Error(`Font not found: ${fontId}`);
+      }
+      return font;
+    });
+
+    const requestId = ++this.requestId;
+    this.requestedIds = fonts.map(font => font.id);
+    await Promise.all(fonts.map(font => this.loadFaces(font)));
+
+    // Superseded by a later setFonts() or disposed while loading
+    if (requestId !== this.requestId || this.isDisposed) return;
+
+    this.fontIds = fonts.map(font => font.id);
+    this.removeUnusedFaces();
+    this.render();
+  }
+
+  setText(text: string | null): void {
+    this.options.text = text ?? undefined;
+    if (!this.isDisposed) {
+      this.render();
+    }
+  }
+
+  dispose(): void {
+    if (this.isDisposed) return;
+    this.isDisposed = true;
+    this.requestId++;
+
+    this.faces.forEach(faces => faces.forEach(face => document.fonts?.delete(face)));
+    this.faces.clear();
+    this.host.remove();
+  }
+
+  /**
+   * Private family name of a font in this preview
+   */
+  getPreviewFamily(font: FontOption): string {
+    return `${font.family.replace(/['"]/g, '')} Preview ${this.previewId}`;
+  }
+
+  /**
+   * Register the faces of a font once and load the glyphs of the sample.
+   * A font that fails to load is shown with its fallback.
+   */
+  private async loadFaces(font: FontOption): Promise<void> {
+    if (this.faces.has(font.id)) return;
+
+    try {
+      const faces = await this.loader(font, this.getPreviewFamily(font));
+      // Disposed, or no longer requested: the faces are never registered
+      if (this.isDisposed || this.faces.has(font.id) || !this.requestedIds.includes(font.id)) return;
+
+      faces.forEach(face => document.fonts?.add(face));
+      this.faces.set(font.id, faces);
+      this.failed.delete(font.id);
+
+      if (faces.length > 0 && typeof document.fonts?.load === 'function') {
+        await document.fonts.load(`${this.getSize()}px "${this.getPreviewFamily(font)}"`, this.getText(font));
+      }
+    } catch (error) {
+      console.warn(`⚠️ [FontPreview] Failed to load ${font.name}, showing its fallback:`, error);
+      this.failed.add(font.id);
+    }
+  }
+
+  private removeUnusedFaces(): void {
+    this.faces.forEach((faces, fontId) => {
+      if (this.fontIds.includes(fontId)) return;
+      faces.forEach(face => document.fonts?.delete(face));
+      this.faces.delete(fontId);
+    });
+  }
+
+  private render(): void {
+    const grid = document.createElement('div');
+    grid.className = 'font-preview-grid';
+    grid.style.display = 'grid';
+    grid.style.gridTemplateColumns = `repeat(${Math.max(this.fontIds.length, 1)}, minmax(0, 1fr))`;
+    grid.style.gap = '1rem';
+
+    this.fontIds.forEach(fontId => {
+      const font = getFontById(fontId);
+      if (!font) return;
+
+      const item = document.createElement('figure');
+      item.className = 'font-preview-item';
+      item.setAttribute('data-font-id', font.id);
+      item.setAttribute('data-status', this.failed.has(font.id) ? 'error' : 'loaded');
+      item.style.margin = '0';
+
+      const label = document.createElement('figcaption');
+      label.textContent = font.name;
+      label.style.fontSize = '0.75rem';
+      label.style.opacity = '0.7';
+
+      const sample = document.createElement('p');
+      sample.className = 'font-preview-sample';
+      sample.textContent = this.getText(font);
+      sample.style.margin = '0.25rem 0 0';
+      sample.style.fontSize = `${this.getSize()}px`;
+      sample.style.fontFamily = this.faces.get(font.id)?.length
+        ? `"${this.getPreviewFamily(font)}", ${font.fallback}`
+        : `${font.family}, ${font.fallback}`;
+
+      item.append(label, sample);
+      grid.appendChild(item);
+    });
+
+    this.root.replaceChildren(grid);
+  }
+
+  private getText(font: FontOption): string {
+    return this.options.text || font.preview || 'The quick brown fox jumps over the lazy dog';
+  }
+
+  private getSize(): number {
+    return this.options.size ?? 20;
+  }
+}
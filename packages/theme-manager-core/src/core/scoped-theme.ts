@@ -0,0 +1,162 @@
+import { safeMatchMedia } from '../utils/ssr-utils';
+
+export type ScopedThemeMode = 'light' | 'dark' | 'auto';
+
+/**
+ * Loads the resolved CSS variables of a theme for a concrete mode
+ */
+export type ScopedThemeLoader = (themeId: string, mode: 'light' | 'dark') => Promise<Record<string, string>>;
+
+/**
+ * Handle returned by `ThemeManager.applyToElement()`
+ */
+export interface ScopedThemeHandle {
+  /** Element the theme is scoped to */
+  readonly element: HTMLElement;
+  /** Theme currently applied to the element */
+  readonly theme: string;
+  /** Mode currently applied to the element */
+  readonly mode: ScopedThemeMode;
+  /** Whether the handle has been disposed */
+  readonly disposed: boolean;
+  /** Resolve 'auto' against the system preference */
+  getEffectiveMode(): 'light' | 'dark';
+  /** Change theme and/or mode of the scope */
+  update(theme?: string, mode?: ScopedThemeMode): Promise<void>;
+  /** Remove every variable, attribute and class set on the element */
+  dispose(): void;
+}
+
+/**
+ * Applies a theme to a DOM subtree instead of `<html>`.
+ * CSS variables are set inline on the element so they cascade to its descendants only,
+ * and `data-theme`/`data-mode`/`.dark`/`color-scheme` are mirrored on the element.
+ */
+export class ScopedTheme implements ScopedThemeHandle {
+  readonly element: HTMLElement;
+  private loader: ScopedThemeLoader;
+  private onDispose: (handle: ScopedTheme) => void;
+  private currentTheme: string;
+  private currentMode: ScopedThemeMode;
+  private appliedVariables: string[] = [];
+  private isDisposed = false;
+  private removeSystemListener: (() => void) | null = null;
+  private requestId = 0;
+
+  constructor(
+    element: HTMLElement,
+    theme: string,
+    mode: ScopedThemeMode,
+    loader: ScopedThemeLoader,
+    onDispose: (handle: ScopedTheme) => void
+  ) {
+    this.element = element;
+    this.currentTheme = theme;
+    this.currentMode = mode;
+    this.loader = loader;
+    this.onDispose = onDispose;
+  }
+
+  get theme(): string {
+    return this.currentTheme;
+  }
+
+  get mode(): ScopedThemeMode {
+    return this.currentMode;
+  }
+
+  get disposed(): boolean {
+    return this.isDisposed;
+  }
+
+  getEffectiveMode(): 'light' | 'dark' {
+    if (this.currentMode === 'auto') {
+      const mediaQuery = safeMatchMedia('(prefers-color-scheme: dark)');
+      return mediaQuery && mediaQuery.matches ? 'dark' : 'light';
+    }
+    return this.currentMode;
+  }
+
+  async update(theme: string = this.currentTheme, mode: ScopedThemeMode = this.currentMode): Promise<void> {
+    if (this.isDisposed) {
+      throw new Error('Scoped theme handle has been disposed');
+    }
+
+    this.currentTheme = theme;
+    this.currentMode = mode;
+    this.syncSystemListener();
+    await this.render();
+  }
+
+  dispose(): void {
+    if (this.isDisposed) return;
+    this.isDisposed = true;
+    this.requestId++;
+
+    this.removeSystemListener?.();
+    this.removeSystemListener = null;
+
+    this.clearVariables();
+    this.element.removeAttribute('data-theme');
+    this.element.removeAttribute('data-mode');
+    this.element.removeAttribute('data-theme-scope');
+    this.element.classList.remove('dark', 'light');
+    this.element.style.removeProperty('color-scheme');
+
+    this.onDispose(this);
+  }
+
+  /**
+   * Load and apply the variables of the current theme/mode.
+   * Stale loads (superseded by a later update or dispose) are discarded.
+   */
+  private async render(): Promise<void> {
+    const requestId = ++this.requestId;
+    const effectiveMode = this.getEffectiveMode();
+    const variables = await this.loader(this.currentTheme, effectiveMode);
+
+    if (requestId !== this.requestId) return;
+
+    this.clearVariables();
+    Object.entries(variables).forEach(([property, value]) => {
+      this.element.style.setProperty(property, value);
+    });
+    this.appliedVariables = Object.keys(variables);
+
+    this.element.setAttribute('data-theme-scope', '');
+    this.element.setAttribute('data-theme', this.currentTheme);
+    this.element.setAttribute('data-mode', effectiveMode);
+    // `.light` lets `.dark *` variants be reset inside a light scope nested in a dark one
+    this.element.classList.toggle('dark', effectiveMode === 'dark');
+    this.element.classList.toggle('light', effectiveMode === 'light');
+    this.element.style.colorScheme = effectiveMode;
+  }
+
+  private clearVariables(): void {
+    this.appliedVariables.forEach(property => this.element.style.removeProperty(property));
+    this.appliedVariables = [];
+  }
+
+  /**
+   * Follow system preference changes while the scope is in 'auto' mode
+   */
+  private syncSystemListener(): void {
+    if (this.currentMode !== 'auto') {
+      this.removeSystemListener?.();
+      this.removeSystemListener = null;
+      return;
+    }
+    if (this.removeSystemListener) return;
+
+    const mediaQuery = safeMatchMedia('(prefers-color-scheme: dark)');
+    if (!mediaQuery) return;
+
+    const handleChange = () => {
+      this.render().catch(error => {
+        console.error('❌ [ScopedTheme] Failed to follow system mode:', error);
+      });
+    };
+    mediaQuery.addEventListener?.('change', handleChange);
+    this.removeSystemListener = () => mediaQuery.removeEventListener?.('change', handleChange);
+  }
+}
@@ -1,22 +1,48 @@
 /**
- * Storage abstraction for theme caching with IndexedDB + localStorage fallback
+ * Storage abstraction for theme caching.
+ * Themes and font configuration live in a pluggable async {@link CacheBackend}
+ * (IndexedDB by default, memory when unavailable); FOUC keys and backups in a
+ * sync {@link StorageAdapter} (localStorage by default). An optional
+ * {@link RemoteStorageAdapter} syncs preferences across devices: local writes
+ * are optimistic, conflicts are resolved by `timestamp` (newest wins).
  */
 
-import { isClient } from '../utils/ssr-utils';
+import { safeGetLocalStorage, safeSetTimeout, safeClearTimeout } from '../utils/ssr-utils';
 import type { StorageAdapter } from '../types/storage-adapter';
+import type { CacheBackend } from '../types/cache-backend';
+import type {
+  RemoteStorageAdapter,
+  RemotePreferenceKey,
+  RemotePreferenceMap,
+  RemotePreferenceChange
+} from '../types/remote-storage-adapter';
 import { LocalStorageAdapter } from '../adapters/local-storage-adapter';
+import { IndexedDBCacheBackend } from '../adapters/indexeddb-cache-backend';
+import type { FontAxes, FontOption, FontSourceCategory } from '../catalogs/font-catalog';
+import { MemoryCacheBackend } from '../adapters/memory-cache-backend';
+import type { TypographyOverrides } from '../utils/typography';
+import type { RegistryThemeData } from '../installers/registry-item';
+import { isValidModeSchedule, ModeSchedule } from '../utils/mode-schedule';
+import {
+  parseThemeProfile,
+  THEME_PROFILE_FORMAT,
+  THEME_PROFILE_VERSION,
+  ThemeProfile,
+  ProfileExportOptions,
+  ProfileImportOptions,
+  ProfileImportResult,
+  validateFontOverrideConfig,
+  validateThemeModeConfig
+} from '../utils/theme-profile';
+import { getPendingMigrations, runLocalStorageMigrations, StorageMigrationResult } from '../utils/storage-migrations';
+import { DEFAULT_STORAGE_LIMITS, StorageLimits, StorageQuota, estimateStorageQuota, estimateSize } from '../utils/storage-quota';
+import { PerformanceTracker } from '../utils/performance-tracker';
 
 export interface CachedTheme {
   name: string;
   url: string;
-  data: {
-    name: string;
-    cssVars: {
-      light?: Record<string, string>;
-      dark?: Record<string, string>;
-      theme?: Record<string, string>;
-    };
-  };
+  /** Registry item: variables plus the `css`, dependency and `tailwind` blocks it declared */
+  data: RegistryThemeData;
   installed: boolean;
   timestamp: number;
 }
@@ -27,8 +53,21 @@ export interface CachedFont {
   cssContent: string; // Full CSS from Google Fonts
   timestamp: number;
   url: string; // Original Google Fonts URL - this is the main reference
+  /** Last read through getCachedFont (LRU eviction), `timestamp` when never read */
+  lastAccessed?: number;
+  /** Font file binary ('self-hosted' and 'local-file' fonts), `cssContent` is empty */
+  data?: ArrayBuffer;
+  /** Source of the record, Google Fonts CSS when omitted */
+  source?: FontSourceCategory;
+  /** Catalog entry of an uploaded font, used to register it again on startup */
+  font?: FontOption;
 }
 
+/**
+ * Uploaded font files are user data: never evicted, cleared or exported
+ */
+const isUserFont = (font: CachedFont) => font.source === 'local-file';
+
 export interface FontOverrideConfig {
   enabled: boolean;
   fonts: {
@@ -36,25 +75,75 @@ export interface FontOverrideConfig {
     serif?: string;  // Font ID from catalog  
     mono?: string;   // Font ID from catalog
   };
+  /** Variation axis values per category (variable fonts only) */
+  axes?: {
+    sans?: FontAxes;
+    serif?: FontAxes;
+    mono?: FontAxes;
+  };
+  /** Size, line-height, letter-spacing and type scale per category */
+  typography?: TypographyOverrides;
   timestamp: number;
 }
 
 export interface ThemeModeConfig {
   currentTheme: string;
   currentMode: 'light' | 'dark' | 'auto';
+  /** When set, 'auto' follows this schedule instead of prefers-color-scheme */
+  schedule?: ModeSchedule;
+  /** Accent color override (see ThemeManager.setAccentOverride) */
+  accentColor?: string;
+  /** High-contrast preference; omitted for 'auto' (follow prefers-contrast) */
+  contrast?: 'more' | 'normal';
   timestamp: number;
 }
 
+export interface StorageManagerOptions {
+  /** Async backend for the theme/font caches (default: IndexedDB, memory when unavailable) */
+  backend?: CacheBackend;
+  /** Sync adapter for FOUC keys and backups (default: localStorage) */
+  adapter?: StorageAdapter;
+  /** Remote store for theme/mode and font preferences (cross-device sync) */
+  remote?: RemoteStorageAdapter;
+  /** Cache size/age limits, merged over DEFAULT_STORAGE_LIMITS */
+  limits?: StorageLimits;
+}
+
+export interface StorageUsage {
+  backend: string;
+  /** Whole-origin usage from navigator.storage.estimate(); null when unsupported */
+  quota: StorageQuota | null;
+  fonts: { count: number; bytes: number };
+  /** User themes (internal config records excluded) */
+  themes: { count: number; installed: number; bytes: number };
+  limits: Required<StorageLimits>;
+}
+
+export interface EvictionReport {
+  /** Evicted font keys */
+  fonts: string[];
+  /** Evicted (not installed) theme names */
+  themes: string[];
+  freedBytes: number;
+}
+
 export class StorageManager {
-  private static instance: StorageManager | null = null;
-  private dbName = 'theme-installer-db';
-  private dbVersion = 5; // Increment for migration
-  private storeName = 'themes';
-  private fontConfigStoreName = 'font-config';
-  private themeModeStoreName = 'theme-mode-config';
-  private db: IDBDatabase | null = null;
-  private indexedDBAvailable = false;
+  private static sharedInstance: StorageManager | null = null;
+  private backend: CacheBackend;
+  private backendReady = false;
   private storageAdapter: StorageAdapter;
+  private remote: RemoteStorageAdapter | null;
+  private remoteListeners: Set<(change: RemotePreferenceChange) => void> = new Set();
+  private removeRemoteSubscription: (() => void) | null = null;
+  private limits: Required<StorageLimits>;
+  /** Font reads of this session, newer than the `lastAccessed` stored with the record */
+  private fontAccess: Map<string, number> = new Map();
+  private evictionTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /** Minimum time between `lastAccessed` writes of a font (each write rewrites its files) */
+  private static readonly FONT_ACCESS_WRITE_INTERVAL = 24 * 60 * 60 * 1000;
+  /** Cache limits are enforced once writes settle, not on every stored font */
+  private static readonly EVICTION_DELAY = 5000;
 
   // localStorage keys for FOUC-critical data only
   private static readonly FOUC_KEYS = {
@@ -65,158 +154,120 @@ export class StorageManager {
   private initPromise: Promise<void> | null = null;
 
   /**
-   * Get singleton instance of StorageManager with default LocalStorage adapter
+   * Shared default instance
+   * @deprecated Create isolated instances with `new StorageManager(options)` and pass them to ThemeManager
    */
   static getInstance(): StorageManager {
-    if (!StorageManager.instance) {
-      console.log('🔧 StorageManager: Creating new singleton instance with LocalStorage adapter');
-      StorageManager.instance = new StorageManager(new LocalStorageAdapter());
+    if (!StorageManager.sharedInstance) {
+      StorageManager.sharedInstance = new StorageManager();
     }
-    return StorageManager.instance;
+    return StorageManager.sharedInstance;
   }
 
   /**
-   * Get singleton instance with custom storage adapter
+   * Shared default instance with a custom FOUC adapter
+   * @deprecated Use `new StorageManager({ adapter })`
    */
   static getInstanceWithAdapter(adapter: StorageAdapter): StorageManager {
-    if (!StorageManager.instance) {
-      console.log('🔧 StorageManager: Creating new singleton instance with custom adapter');
-      StorageManager.instance = new StorageManager(adapter);
+    if (!StorageManager.sharedInstance) {
+      StorageManager.sharedInstance = new StorageManager({ adapter });
     }
-    return StorageManager.instance;
+    return StorageManager.sharedInstance;
   }
 
   /**
-   * Private constructor
+   * @param options - Cache backend and FOUC adapter; every instance is isolated
    */
-  private constructor(storageAdapter: StorageAdapter) {
-    this.storageAdapter = storageAdapter;
+  constructor(options: StorageManagerOptions = {}) {
+    this.backend = options.backend || new IndexedDBCacheBackend();
+    this.storageAdapter = options.adapter || new LocalStorageAdapter();
+    this.remote = options.remote || null;
+    this.limits = { ...DEFAULT_STORAGE_LIMITS, ...options.limits };
   }
 
   /**
-   * Inicializa el sistema de almacenamiento con IndexedDB y fallback a localStorage
+   * Inicializa el backend de caché; si no está disponible (iframes sandbox, test runners)
+   * se usa un backend en memoria
    * @returns Promise que se resuelve cuando el almacenamiento est\u00e1 configurado
    */
   async init(): Promise<void> {
     // Return existing promise if already initializing
     if (this.initPromise) {
-      console.log('🔄 StorageManager: Using existing initialization promise');
       return this.initPromise;
     }
 
     // Return immediately if already initialized
-    if (this.db && this.indexedDBAvailable) {
-      console.log('⚡ StorageManager: Already initialized, skipping');
+    if (this.backendReady) {
       return Promise.resolve();
     }
 
-    console.log('🚀 StorageManager: Starting initialization (singleton)');
-    
+    console.log(`🚀 StorageManager: Starting initialization (${this.backend.name})`);
+
     this.initPromise = this.performInit();
     return this.initPromise;
   }
 
   private async performInit(): Promise<void> {
     try {
-      await this.initIndexedDB();
-      this.indexedDBAvailable = true;
-      
-      // Run migration from legacy localStorage to IndexedDB
-      await this.migrateLegacyData();
-      
-      console.log('✅ StorageManager: Singleton initialization completed successfully');
+      await this.backend.init();
+      this.backendReady = true;
+
+      // Bring localStorage keys up to the current schema (the backend upgrades itself on open)
+      await this.runMigrations();
+
+      this.enforceLimits().catch(error => {
+        console.warn('⚠️ StorageManager: Cache eviction failed:', error);
+      });
+
+      console.log(`✅ StorageManager: Initialization completed (${this.backend.name})`);
     } catch (error) {
-      console.error('❌ StorageManager: Initialization failed, falling back to localStorage:', error);
-      this.indexedDBAvailable = false;
+      console.error(`❌ StorageManager: ${this.backend.name} backend unavailable, falling back to memory:`, error);
+      this.backend = new MemoryCacheBackend();
+      await this.backend.init();
+      this.backendReady = true;
     } finally {
       this.initPromise = null;
     }
   }
 
   /**
-   * Initialize IndexedDB
+   * Active cache backend name ('indexedDB', 'memory', 'sessionStorage' or a custom name)
    */
-  private initIndexedDB(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      // CRITICAL: Add SSR guard to prevent server-side crashes
-      if (!isClient() || !window.indexedDB) {
-        reject(new Error('IndexedDB not available (server-side or not supported)'));
-        return;
-      }
-
-      // Add timeout to prevent hanging
-      const timeout = setTimeout(() => {
-        reject(new Error('IndexedDB initialization timeout'));
-      }, 5000);
-
-      const request = indexedDB.open(this.dbName, this.dbVersion);
-
-      request.onerror = () => {
-        clearTimeout(timeout);
-        reject(request.error || new Error('IndexedDB open failed'));
-      };
-      
-      request.onsuccess = () => {
-        clearTimeout(timeout);
-        this.db = request.result;
-        console.log('✅ IndexedDB opened successfully');
-        resolve();
-      };
-
-      request.onupgradeneeded = (event) => {
-        console.log('🔄 IndexedDB upgrade needed, creating object stores...');
-        const db = (event.target as IDBOpenDBRequest).result;
-        
-        // Create themes store if it doesn't exist
-        if (!db.objectStoreNames.contains(this.storeName)) {
-          const store = db.createObjectStore(this.storeName, { keyPath: 'name' });
-          store.createIndex('url', 'url', { unique: false });
-          console.log('✅ IndexedDB themes store created');
-        }
-        
-        // Create font config store if it doesn't exist
-        if (!db.objectStoreNames.contains(this.fontConfigStoreName)) {
-          const fontConfigStore = db.createObjectStore(this.fontConfigStoreName, { keyPath: 'id' });
-          fontConfigStore.createIndex('timestamp', 'timestamp', { unique: false });
-          console.log('✅ IndexedDB font config store created');
-        }
-      };
-    });
+  getBackendName(): string {
+    return this.backend.name;
   }
 
   /**
-   * Store theme data (always in IndexedDB)
+   * Store theme data in the cache backend
    */
   async storeTheme(theme: CachedTheme): Promise<void> {
-    if (this.indexedDBAvailable && this.db) {
-      await this.storeInIndexedDB(theme);
-    } else {
-      console.warn('⚠️ IndexedDB not available, theme data cannot be persisted');
+    if (!this.backendReady) {
+      console.warn('⚠️ StorageManager not initialized, theme data cannot be persisted');
+      return;
     }
+    await this.backend.put('themes', theme.name, theme);
   }
 
   /**
-   * Get theme by name (always from IndexedDB)
+   * Get theme by name from the cache backend
    */
   async getTheme(name: string): Promise<CachedTheme | null> {
-    if (this.indexedDBAvailable && this.db) {
-      return await this.getFromIndexedDB(name);
-    } else {
-      console.warn('⚠️ IndexedDB not available, cannot retrieve theme data');
+    if (!this.backendReady) {
+      console.warn('⚠️ StorageManager not initialized, cannot retrieve theme data');
       return null;
     }
+    return await this.backend.get<CachedTheme>('themes', name);
   }
 
   /**
-   * Get all cached themes (always from IndexedDB)
+   * Get all cached themes from the cache backend
    */
   async getAllThemes(): Promise<CachedTheme[]> {
-    if (this.indexedDBAvailable && this.db) {
-      return await this.getAllFromIndexedDB();
-    } else {
-      console.warn('⚠️ IndexedDB not available, cannot retrieve themes');
+    if (!this.backendReady) {
+      console.warn('⚠️ StorageManager not initialized, cannot retrieve themes');
       return [];
     }
+    return await this.backend.getAll<CachedTheme>('themes');
   }
 
   /**
@@ -239,318 +290,417 @@ export class StorageManager {
   }
 
   /**
-   * Delete theme (always from IndexedDB)
+   * Delete theme from the cache backend
    */
   async deleteTheme(name: string): Promise<void> {
-    if (this.indexedDBAvailable && this.db) {
-      await this.deleteFromIndexedDB(name);
-    } else {
-      console.warn('⚠️ IndexedDB not available, cannot delete theme');
+    if (!this.backendReady) {
+      console.warn('⚠️ StorageManager not initialized, cannot delete theme');
+      return;
     }
+    await this.backend.delete('themes', name);
   }
 
-  // ===== FOUC-CRITICAL LOCALSTORAGE METHODS =====
-  // Only for data needed before IndexedDB is available
-
   /**
-   * Store current theme for FOUC prevention (localStorage only)
+   * Store downloaded font CSS in the cache backend; the cache limits are applied
+   * once writes settle (see {@link enforceLimits})
    */
-  setCurrentTheme(theme: string): void {
-    try {
-      localStorage.setItem(StorageManager.FOUC_KEYS.THEME, theme);
-    } catch (error) {
-      console.error('❌ Failed to store current theme in localStorage:', error);
+  async storeCachedFont(font: CachedFont): Promise<void> {
+    if (!this.backendReady) {
+      console.warn('⚠️ StorageManager not initialized, font CSS cannot be persisted');
+      return;
     }
+    await this.backend.put('fonts', font.fontKey, font);
+    this.scheduleEnforceLimits();
   }
 
   /**
-   * Get current theme for FOUC prevention (localStorage only)
+   * Get cached font CSS and mark it as recently used.
+   * The access time is kept in memory and only written back to the record once a day.
    */
-  getCurrentTheme(): string | null {
-    try {
-      return localStorage.getItem(StorageManager.FOUC_KEYS.THEME);
-    } catch (error) {
-      console.error('❌ Failed to get current theme from localStorage:', error);
+  async getCachedFont(fontKey: string): Promise<CachedFont | null> {
+    if (!this.backendReady) {
       return null;
     }
+    const font = await this.backend.get<CachedFont>('fonts', fontKey);
+    if (font) {
+      const now = Date.now();
+      this.fontAccess.set(fontKey, now);
+      if (now - (font.lastAccessed ?? font.timestamp) > StorageManager.FONT_ACCESS_WRITE_INTERVAL) {
+        font.lastAccessed = now;
+        await this.backend.put('fonts', fontKey, font);
+      }
+    }
+    return font;
   }
 
   /**
-   * Store current mode for FOUC prevention (localStorage only)
+   * Delete a cached font record
    */
-  setCurrentMode(mode: 'light' | 'dark' | 'auto'): void {
-    try {
-      localStorage.setItem(StorageManager.FOUC_KEYS.MODE, mode);
-    } catch (error) {
-      console.error('❌ Failed to store current mode in localStorage:', error);
-    }
+  async deleteCachedFont(fontKey: string): Promise<void> {
+    if (!this.backendReady) return;
+    await this.backend.delete('fonts', fontKey);
   }
 
   /**
-   * Get current mode for FOUC prevention (localStorage only)
+   * Get every cached font record (CSS and font files)
    */
-  getCurrentMode(): 'light' | 'dark' | 'auto' | null {
-    try {
-      const mode = localStorage.getItem(StorageManager.FOUC_KEYS.MODE);
-      return mode as 'light' | 'dark' | 'auto' | null;
-    } catch (error) {
-      console.error('❌ Failed to get current mode from localStorage:', error);
-      return null;
+  async getCachedFonts(): Promise<CachedFont[]> {
+    if (!this.backendReady) {
+      return [];
     }
+    return await this.backend.getAll<CachedFont>('fonts');
   }
 
-  /**
-   * Store active fonts for FOUC prevention (localStorage only)
-   */
-  setActiveFonts(fonts: { sans?: string; serif?: string; mono?: string }): void {
-    try {
-      localStorage.setItem(StorageManager.FOUC_KEYS.FONTS, JSON.stringify(fonts));
-    } catch (error) {
-      console.error('❌ Failed to store active fonts in localStorage:', error);
-    }
+  // ===== QUOTA AND EVICTION =====
+
+  getLimits(): Required<StorageLimits> {
+    return { ...this.limits };
   }
 
   /**
-   * Get active fonts for FOUC prevention (localStorage only)
+   * Cache sizes and origin quota, for "clear cache" views
    */
-  getActiveFonts(): { sans?: string; serif?: string; mono?: string } | null {
-    try {
-      const data = localStorage.getItem(StorageManager.FOUC_KEYS.FONTS);
-      return data ? JSON.parse(data) : null;
-    } catch (error) {
-      console.error('❌ Failed to get active fonts from localStorage:', error);
-      return null;
-    }
+  async getUsage(): Promise<StorageUsage> {
+    await this.init();
+
+    const [fonts, themes, quota] = await Promise.all([
+      this.getCachedFonts(),
+      this.getAllThemes(),
+      estimateStorageQuota()
+    ]);
+    const userThemes = themes.filter(theme => !theme.name.startsWith('__'));
+
+    return {
+      backend: this.backend.name,
+      quota,
+      fonts: { count: fonts.length, bytes: fonts.reduce((sum, font) => sum + estimateSize(font), 0) },
+      themes: {
+        count: userThemes.length,
+        installed: userThemes.filter(theme => theme.installed).length,
+        bytes: userThemes.reduce((sum, theme) => sum + estimateSize(theme), 0)
+      },
+      limits: this.getLimits()
+    };
   }
 
   /**
-   * Migrate legacy localStorage data to IndexedDB (one-time operation)
+   * Evict least recently used fonts until the size, age and quota limits hold,
+   * and expired theme records that are not installed
    */
-  async migrateLegacyData(): Promise<void> {
-    if (!this.indexedDBAvailable || !this.db) {
-      console.warn('⚠️ IndexedDB not available, skipping migration');
-      return;
+  async enforceLimits(): Promise<EvictionReport> {
+    safeClearTimeout(this.evictionTimer);
+    this.evictionTimer = null;
+
+    const report: EvictionReport = { fonts: [], themes: [], freedBytes: 0 };
+    if (!this.backendReady) return report;
+
+    const now = Date.now();
+    const lastUsed = (font: CachedFont) => this.fontAccess.get(font.fontKey) ?? font.lastAccessed ?? font.timestamp;
+    const fonts = (await this.getCachedFonts())
+      .filter(font => !isUserFont(font))
+      .sort((a, b) => lastUsed(a) - lastUsed(b));
+    let fontBytes = fonts.reduce((sum, font) => sum + estimateSize(font), 0);
+
+    const quota = await estimateStorageQuota();
+    let quotaExcess = quota && quota.ratio > this.limits.quotaThreshold
+      ? quota.usage - quota.quota * this.limits.quotaThreshold
+      : 0;
+
+    // Oldest first: stop at the first font that is within every limit
+    for (const font of fonts) {
+      const expired = now - lastUsed(font) > this.limits.maxFontAge;
+      if (!expired && fontBytes <= this.limits.maxFontCacheBytes && quotaExcess <= 0) break;
+
+      const size = estimateSize(font);
+      await this.backend.delete('fonts', font.fontKey);
+      this.fontAccess.delete(font.fontKey);
+      fontBytes -= size;
+      quotaExcess -= size;
+      report.fonts.push(font.fontKey);
+      report.freedBytes += size;
     }
 
-    const migrationKey = 'theme-migration-completed';
-    if (localStorage.getItem(migrationKey)) {
-      console.log('✅ Legacy data migration already completed');
-      return;
+    const themes = await this.getAllThemes();
+    for (const theme of themes) {
+      if (theme.installed || theme.name.startsWith('__') || now - theme.timestamp <= this.limits.maxCachedThemeAge) continue;
+      await this.backend.delete('themes', theme.name);
+      report.themes.push(theme.name);
+      report.freedBytes += estimateSize(theme);
     }
 
-    console.log('🔄 Migrating legacy localStorage data to IndexedDB...');
-
-    const legacyThemes: CachedTheme[] = [];
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith('theme-cache-') && !(Object.values(StorageManager.FOUC_KEYS) as string[]).includes(key)) {
-        const data = localStorage.getItem(key);
-        if (data) {
-          try {
-            const theme = JSON.parse(data);
-            legacyThemes.push(theme);
-            localStorage.removeItem(key);
-          } catch (error) {
-            console.warn(`⚠️ Failed to migrate theme data for key: ${key}`, error);
-          }
-        }
-      }
+    if (report.fonts.length > 0 || report.themes.length > 0) {
+      console.log(`🧹 StorageManager: Evicted ${report.fonts.length} fonts and ${report.themes.length} cached themes (${report.freedBytes} bytes)`);
+    }
+    if (quotaExcess > 0) {
+      console.warn('⚠️ StorageManager: Storage quota still above the threshold after evicting cached fonts');
     }
+    return report;
+  }
 
-    for (const theme of legacyThemes) {
-      try {
-        await this.storeTheme(theme);
-      } catch (error) {
-        console.error('❌ Failed to migrate theme to IndexedDB:', theme.name, error);
-      }
+  /**
+   * Run {@link enforceLimits} after the last of a burst of writes
+   */
+  private scheduleEnforceLimits(): void {
+    safeClearTimeout(this.evictionTimer);
+    this.evictionTimer = safeSetTimeout(() => {
+      this.evictionTimer = null;
+      this.enforceLimits().catch(error => {
+        console.warn('⚠️ StorageManager: Cache eviction failed:', error);
+      });
+    }, StorageManager.EVICTION_DELAY);
+  }
+
+  /**
+   * Clear caches only: cached font CSS and files, theme records that are not installed and
+   * theme/font Cache Storage entries. Installed themes, uploaded fonts and preferences are kept.
+   */
+  async clearCache(): Promise<EvictionReport> {
+    await this.init();
+    const report: EvictionReport = { fonts: [], themes: [], freedBytes: 0 };
+
+    for (const font of await this.getCachedFonts()) {
+      if (isUserFont(font)) continue;
+      await this.backend.delete('fonts', font.fontKey);
+      report.fonts.push(font.fontKey);
+      report.freedBytes += estimateSize(font);
     }
+    for (const theme of await this.getAllThemes()) {
+      if (theme.installed || theme.name.startsWith('__')) continue;
+      await this.backend.delete('themes', theme.name);
+      report.themes.push(theme.name);
+      report.freedBytes += estimateSize(theme);
+    }
+
+    await PerformanceTracker.clearBrowserCaches();
+    PerformanceTracker.resetCacheTracking();
 
-    localStorage.setItem(migrationKey, 'true');
-    console.log(`✅ Migrated ${legacyThemes.length} themes to IndexedDB`);
+    console.log(`🧹 StorageManager: Cache cleared (${report.fonts.length} fonts, ${report.themes.length} cached themes)`);
+    return report;
   }
 
-  // IndexedDB implementations
-  private storeInIndexedDB(theme: CachedTheme): Promise<void> {
-    return new Promise((resolve, reject) => {
-      
-      const transaction = this.db!.transaction([this.storeName], 'readwrite');
-      const store = transaction.objectStore(this.storeName);
-      const request = store.put(theme);
+  // ===== FOUC-CRITICAL STORAGE ADAPTER METHODS =====
+  // Only for data needed before the cache backend is available
 
-      request.onsuccess = () => {
-        resolve();
-      };
-      request.onerror = () => {
-        console.error(`❌ StorageManager: Failed to store theme: ${theme.name}`, request.error);
-        reject(request.error);
-      };
-    });
+  /**
+   * Store current theme for FOUC prevention
+   */
+  setCurrentTheme(theme: string): void {
+    this.storageAdapter.setItem(StorageManager.FOUC_KEYS.THEME, theme);
   }
 
-  private getFromIndexedDB(name: string): Promise<CachedTheme | null> {
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.storeName], 'readonly');
-      const store = transaction.objectStore(this.storeName);
-      const request = store.get(name);
+  /**
+   * Get current theme for FOUC prevention
+   */
+  getCurrentTheme(): string | null {
+    return this.storageAdapter.getItem(StorageManager.FOUC_KEYS.THEME);
+  }
 
-      request.onsuccess = () => resolve(request.result || null);
-      request.onerror = () => reject(request.error);
-    });
+  /**
+   * Store current mode for FOUC prevention
+   */
+  setCurrentMode(mode: 'light' | 'dark' | 'auto'): void {
+    this.storageAdapter.setItem(StorageManager.FOUC_KEYS.MODE, mode);
   }
 
-  private getAllFromIndexedDB(): Promise<CachedTheme[]> {
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.storeName], 'readonly');
-      const store = transaction.objectStore(this.storeName);
-      const request = store.getAll();
+  /**
+   * Get current mode for FOUC prevention
+   */
+  getCurrentMode(): 'light' | 'dark' | 'auto' | null {
+    const mode = this.storageAdapter.getItem(StorageManager.FOUC_KEYS.MODE);
+    return mode as 'light' | 'dark' | 'auto' | null;
+  }
 
-      request.onsuccess = () => resolve(request.result || []);
-      request.onerror = () => reject(request.error);
-    });
+  /**
+   * Store active fonts for FOUC prevention
+   */
+  setActiveFonts(fonts: { sans?: string; serif?: string; mono?: string }): void {
+    this.storageAdapter.setItem(StorageManager.FOUC_KEYS.FONTS, JSON.stringify(fonts));
   }
 
-  private deleteFromIndexedDB(name: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      
-      const transaction = this.db!.transaction([this.storeName], 'readwrite');
-      const store = transaction.objectStore(this.storeName);
-      const request = store.delete(name);
-
-      request.onsuccess = () => {
-        resolve();
-      };
-      request.onerror = () => {
-        console.error(`❌ StorageManager: Failed to delete theme from IndexedDB: ${name}`, request.error);
-        reject(request.error);
-      };
-    });
-  }
-
-  // localStorage implementations  
-  private storeInLocalStorage(theme: CachedTheme): void {
-    const key = `theme-cache-${theme.name}`;
-    localStorage.setItem(key, JSON.stringify(theme));
-  }
-
-  private getFromLocalStorage(name: string): CachedTheme | null {
-    const key = `theme-cache-${name}`;
-    const data = localStorage.getItem(key);
-    return data ? JSON.parse(data) : null;
-  }
-
-  private getAllFromLocalStorage(): CachedTheme[] {
-    const themes: CachedTheme[] = [];
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith('theme-cache-')) {
-        const data = localStorage.getItem(key);
-        if (data) {
-          try {
-            themes.push(JSON.parse(data));
-          } catch (error) {
-          }
-        }
-      }
+  /**
+   * Get active fonts for FOUC prevention
+   */
+  getActiveFonts(): { sans?: string; serif?: string; mono?: string } | null {
+    try {
+      const data = this.storageAdapter.getItem(StorageManager.FOUC_KEYS.FONTS);
+      return data ? JSON.parse(data) : null;
+    } catch (error) {
+      console.error('❌ Failed to parse active fonts:', error);
+      return null;
     }
-    return themes;
   }
 
-  private deleteFromLocalStorage(name: string): void {
-    const key = `theme-cache-${name}`;
-    localStorage.removeItem(key);
+  /**
+   * Run the pending localStorage schema migrations (init() already does).
+   * With `dryRun` nothing is written: localStorage steps run against a copy,
+   * their key changes and the pending cache backend upgrades are logged.
+   */
+  async runMigrations(options: { dryRun?: boolean } = {}): Promise<StorageMigrationResult> {
+    const dryRun = options.dryRun === true;
+
+    if (dryRun && this.backend.getSchemaVersion) {
+      const from = await this.backend.getSchemaVersion();
+      getPendingMigrations(from)
+        .filter(migration => migration.indexedDB)
+        .forEach(migration => {
+          console.log(`🧪 [StorageMigrations] Would upgrade ${this.backend.name} to v${migration.version}: ${migration.description}`);
+        });
+    }
+
+    const localStorage = safeGetLocalStorage();
+    if (!localStorage || (!dryRun && !this.backendReady)) {
+      return { from: 0, to: 0, applied: [], dryRun };
+    }
+    return runLocalStorageMigrations(localStorage, theme => this.storeTheme(theme), { dryRun });
   }
 
-  // === FONT methods removed - using only font-config store ===
+  /**
+   * Migrate legacy localStorage data to the cache backend
+   * @deprecated Part of the migration registry, use runMigrations()
+   */
+  async migrateLegacyData(): Promise<void> {
+    await this.runMigrations();
+  }
 
   // ===== FONT OVERRIDE CONFIGURATION METHODS =====
 
   /**
-   * Store font override configuration in IndexedDB
+   * Store font override configuration in the cache backend
+   * @param options.pushRemote - false when the value came from the remote store
    */
-  async storeFontConfig(config: FontOverrideConfig): Promise<void> {
-    if (this.indexedDBAvailable && this.db) {
-      await this.storeFontConfigInIndexedDB(config);
+  async storeFontConfig(config: FontOverrideConfig, options: { pushRemote?: boolean } = {}): Promise<void> {
+    if (this.backendReady) {
+      try {
+        await this.backend.put('font-config', 'font-overrides', { id: 'font-overrides', ...config });
+        console.log(`✅ StorageManager: Font config stored in ${this.backend.name}`);
+      } catch (error) {
+        console.error('❌ StorageManager: Failed to store font config', error);
+        throw error;
+      }
+    }
+
+    // Always store in the FOUC adapter as backup (survives a non-persistent backend)
+    this.storageAdapter.setItem('font-override-config', JSON.stringify(config));
+
+    if (options.pushRemote !== false) {
+      void this.pushRemote('font-override-config', config);
     }
-    
-    // Always store in localStorage as backup
-    this.storeFontConfigInLocalStorage(config);
   }
 
   /**
    * Get font override configuration from storage
    */
   async getFontConfig(): Promise<FontOverrideConfig | null> {
-    if (this.indexedDBAvailable && this.db) {
+    if (this.backendReady) {
       try {
-        return await this.getFontConfigFromIndexedDB();
+        const result = await this.backend.get<FontOverrideConfig & { id: string }>('font-config', 'font-overrides');
+        if (result) {
+          // Remove the 'id' field added for the store key
+          const { id, ...config } = result;
+          return config;
+        }
       } catch (error) {
-        console.warn('⚠️ StorageManager: Failed to get font config from IndexedDB, trying localStorage:', error);
+        console.warn('⚠️ StorageManager: Failed to get font config from cache backend, trying backup:', error);
       }
     }
-    
-    return this.getFontConfigFromLocalStorage();
-  }
 
-  private storeFontConfigInIndexedDB(config: FontOverrideConfig): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.fontConfigStoreName], 'readwrite');
-      const store = transaction.objectStore(this.fontConfigStoreName);
-      
-      const configWithId = { 
-        id: 'font-overrides', // Single config record
-        ...config 
-      };
-      
-      const request = store.put(configWithId);
+    try {
+      const data = this.storageAdapter.getItem('font-override-config');
+      return data ? JSON.parse(data) : null;
+    } catch (error) {
+      console.error('❌ StorageManager: Failed to parse font config backup:', error);
+      return null;
+    }
+  }
 
-      request.onsuccess = () => {
-        console.log('✅ StorageManager: Font config stored in IndexedDB');
-        resolve();
-      };
+  // ===== REMOTE SYNC =====
 
-      request.onerror = () => {
-        console.error('❌ StorageManager: Failed to store font config in IndexedDB', request.error);
-        reject(request.error);
-      };
-    });
+  hasRemote(): boolean {
+    return this.remote !== null;
   }
 
-  private getFontConfigFromIndexedDB(): Promise<FontOverrideConfig | null> {
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.fontConfigStoreName], 'readonly');
-      const store = transaction.objectStore(this.fontConfigStoreName);
-      const request = store.get('font-overrides');
+  /**
+   * Listen for preferences changed on another device (already stored locally when called)
+   * @returns Unsubscribe function
+   */
+  onRemoteChange(listener: (change: RemotePreferenceChange) => void): () => void {
+    this.remoteListeners.add(listener);
+
+    if (this.remote && !this.removeRemoteSubscription) {
+      this.removeRemoteSubscription = this.remote.subscribe(change => {
+        this.reconcile(change.key, change.value).catch(error => {
+          console.error('❌ StorageManager: Failed to apply remote change:', error);
+        });
+      });
+    }
 
-      request.onsuccess = () => {
-        const result = request.result;
-        if (result) {
-          // Remove the 'id' field added for IndexedDB
-          const { id, ...config } = result;
-          resolve(config);
-        } else {
-          resolve(null);
-        }
-      };
-      
-      request.onerror = () => reject(request.error);
-    });
+    return () => {
+      this.remoteListeners.delete(listener);
+      if (this.remoteListeners.size === 0) {
+        this.removeRemoteSubscription?.();
+        this.removeRemoteSubscription = null;
+      }
+    };
   }
 
-  private storeFontConfigInLocalStorage(config: FontOverrideConfig): void {
-    try {
-      localStorage.setItem('font-override-config', JSON.stringify(config));
-    } catch (error) {
-      console.error('❌ StorageManager: Failed to store font config in localStorage:', error);
+  /**
+   * Reconcile local and remote preferences: the newer `timestamp` wins.
+   * Newer remote values are stored locally and reported via onRemoteChange,
+   * newer local values (e.g. written offline) are pushed.
+   */
+  async syncRemote(): Promise<void> {
+    if (!this.remote) return;
+
+    const keys: RemotePreferenceKey[] = ['theme-mode-config', 'font-override-config'];
+    await Promise.all(keys.map(async key => {
+      try {
+        await this.reconcile(key, await this.remote!.get(key));
+      } catch (error) {
+        console.warn(`⚠️ StorageManager: Remote sync of ${key} failed:`, error);
+      }
+    }));
+  }
+
+  private async reconcile<K extends RemotePreferenceKey>(key: K, remoteValue: RemotePreferenceMap[K] | null): Promise<void> {
+    const localValue = (key === 'theme-mode-config'
+      ? await this.getThemeModeConfig()
+      : await this.getFontConfig()) as RemotePreferenceMap[K] | null;
+    const errors = remoteValue
+      ? (key === 'theme-mode-config' ? validateThemeModeConfig(remoteValue) : validateFontOverrideConfig(remoteValue))
+      : [];
+    if (errors.length > 0) {
+      // Never stored nor replayed by the FOUC script; the local value (if any) replaces it remotely
+      console.warn(`⚠️ StorageManager: Ignoring invalid remote ${key}:`, errors);
+    }
+    const validRemote = remoteValue && errors.length === 0 ? remoteValue : null;
+
+    if (validRemote && (!localValue || validRemote.timestamp > localValue.timestamp)) {
+      console.log(`☁️ StorageManager: Remote ${key} is newer, applying`);
+      if (key === 'theme-mode-config') {
+        const config = validRemote as ThemeModeConfig;
+        await this.storeThemeModeConfig(config, { pushRemote: false });
+        this.setCurrentTheme(config.currentTheme);
+        this.setCurrentMode(config.currentMode);
+      } else {
+        await this.storeFontConfig(validRemote as FontOverrideConfig, { pushRemote: false });
+      }
+      const change = { key, value: validRemote } as RemotePreferenceChange;
+      this.remoteListeners.forEach(listener => listener(change));
+    } else if (localValue && (!validRemote || localValue.timestamp > validRemote.timestamp)) {
+      await this.pushRemote(key, localValue);
     }
   }
 
-  private getFontConfigFromLocalStorage(): FontOverrideConfig | null {
+  /**
+   * Write to the remote store in the background (local write already done)
+   */
+  private async pushRemote<K extends RemotePreferenceKey>(key: K, value: RemotePreferenceMap[K]): Promise<void> {
+    if (!this.remote) return;
     try {
-      const data = localStorage.getItem('font-override-config');
-      return data ? JSON.parse(data) : null;
+      await this.remote.set(key, value);
     } catch (error) {
-      console.error('❌ StorageManager: Failed to parse font config from localStorage:', error);
-      return null;
+      // The next syncRemote() pushes it again since the local copy stays newer
+      console.warn(`⚠️ StorageManager: Failed to push ${key} to remote, will retry on next sync:`, error);
     }
   }
 
@@ -559,8 +709,9 @@ export class StorageManager {
 
   /**
    * Store theme mode configuration using existing themes store
+   * @param options.pushRemote - false when the value came from the remote store
    */
-  async storeThemeModeConfig(config: ThemeModeConfig): Promise<void> {
+  async storeThemeModeConfig(config: ThemeModeConfig, options: { pushRemote?: boolean } = {}): Promise<void> {
     // Create a special theme record for mode config
     const modeConfigRecord: CachedTheme = {
       name: '__theme-mode-config__',
@@ -571,7 +722,10 @@ export class StorageManager {
           theme: {
             '__current-theme': config.currentTheme,
             '__current-mode': config.currentMode,
-            '__timestamp': config.timestamp.toString()
+            '__timestamp': config.timestamp.toString(),
+            ...(config.schedule ? { '__schedule': JSON.stringify(config.schedule) } : {}),
+            ...(config.accentColor ? { '__accent': config.accentColor } : {}),
+            ...(config.contrast ? { '__contrast': config.contrast } : {})
           }
         }
       },
@@ -581,11 +735,11 @@ export class StorageManager {
 
     await this.storeTheme(modeConfigRecord);
     
-    // Also store in localStorage as backup
-    try {
-      localStorage.setItem('theme-mode-config', JSON.stringify(config));
-    } catch (error) {
-      console.error('❌ StorageManager: Failed to store theme mode config in localStorage:', error);
+    // Also store in the FOUC adapter as backup (read synchronously by the FOUC script)
+    this.storageAdapter.setItem('theme-mode-config', JSON.stringify(config));
+
+    if (options.pushRemote !== false) {
+      void this.pushRemote('theme-mode-config', config);
     }
   }
 
@@ -601,20 +755,134 @@ export class StorageManager {
         return {
           currentTheme: vars['__current-theme'] || 'default',
           currentMode: (vars['__current-mode'] as 'light' | 'dark' | 'auto') || 'auto',
+          schedule: this.parseModeSchedule(vars['__schedule']),
+          accentColor: vars['__accent'] || undefined,
+          contrast: vars['__contrast'] === 'more' || vars['__contrast'] === 'normal' ? vars['__contrast'] : undefined,
           timestamp: parseInt(vars['__timestamp'] || '0')
         };
       }
     } catch (error) {
-      console.warn('⚠️ StorageManager: Failed to get theme mode config from IndexedDB, trying localStorage:', error);
+      console.warn('⚠️ StorageManager: Failed to get theme mode config from cache backend, trying backup:', error);
     }
     
-    // Fallback to localStorage
+    // Fallback to the FOUC adapter backup
     try {
-      const data = localStorage.getItem('theme-mode-config');
-      return data ? JSON.parse(data) : null;
+      const data = this.storageAdapter.getItem('theme-mode-config');
+      if (!data) return null;
+
+      const config = JSON.parse(data) as ThemeModeConfig;
+      if (config.schedule && !isValidModeSchedule(config.schedule)) {
+        delete config.schedule;
+      }
+      return config;
     } catch (error) {
-      console.error('❌ StorageManager: Failed to parse theme mode config from localStorage:', error);
+      console.error('❌ StorageManager: Failed to parse theme mode config backup:', error);
       return null;
     }
   }
+
+  // ===== PROFILE EXPORT / IMPORT =====
+
+  /**
+   * Bundle installed themes, font overrides and theme/mode preferences as a
+   * versioned JSON-serializable profile (see theme-profile)
+   */
+  async exportProfile(options: ProfileExportOptions = {}): Promise<ThemeProfile> {
+    await this.init();
+
+    const themes = (await this.getAllThemes()).filter(theme => theme.installed && !theme.name.startsWith('__'));
+    const profile: ThemeProfile = {
+      format: THEME_PROFILE_FORMAT,
+      version: THEME_PROFILE_VERSION,
+      exportedAt: new Date().toISOString(),
+      themes,
+      fontOverrides: await this.getFontConfig(),
+      themeMode: await this.getThemeModeConfig()
+    };
+    if (options.includeFontCss) {
+      // Binaries do not survive JSON; self-hosted files are downloaded again
+      profile.fonts = (await this.getCachedFonts()).filter(font => !font.data);
+    }
+
+    console.log(`📤 StorageManager: Exported profile (${themes.length} themes${profile.fonts ? `, ${profile.fonts.length} fonts` : ''})`);
+    return profile;
+  }
+
+  /**
+   * Validate and write a profile. Nothing is written when validation fails.
+   * Callers holding in-memory state (ThemeManager) must reload it afterwards.
+   * @param input - Profile object or its JSON text
+   * @throws Error when the profile does not match the schema
+   */
+  async importProfile(input: ThemeProfile | string, options: ProfileImportOptions = {}): Promise<ProfileImportResult> {
+    const profile = parseThemeProfile(input);
+    const strategy = options.strategy || 'merge';
+    await this.init();
+
+    const result: ProfileImportResult = {
+      strategy,
+      themes: 0,
+      skippedThemes: [],
+      fonts: 0,
+      fontOverrides: false,
+      themeMode: false
+    };
+    const replace = strategy === 'replace';
+    const existingThemes = await this.getAllThemes();
+
+    if (replace) {
+      await Promise.all(existingThemes
+        .filter(theme => !theme.name.startsWith('__'))
+        .map(theme => this.deleteTheme(theme.name)));
+      await Promise.all((await this.getCachedFonts())
+        .filter(font => !isUserFont(font))
+        .map(font => this.backend.delete('fonts', font.fontKey)));
+    }
+
+    for (const theme of profile.themes) {
+      const existing = existingThemes.find(candidate => candidate.name === theme.name);
+      if (!replace && existing && existing.timestamp >= theme.timestamp) {
+        result.skippedThemes.push(theme.name);
+        continue;
+      }
+      await this.storeTheme(theme);
+      result.themes++;
+    }
+
+    for (const font of profile.fonts || []) {
+      await this.storeCachedFont(font);
+      result.fonts++;
+    }
+
+    const isNewer = (imported: { timestamp: number }, local: { timestamp: number } | null) =>
+      replace || !local || imported.timestamp > local.timestamp;
+
+    if (profile.fontOverrides && isNewer(profile.fontOverrides, await this.getFontConfig())) {
+      await this.storeFontConfig(profile.fontOverrides);
+      result.fontOverrides = true;
+    }
+
+    if (profile.themeMode && isNewer(profile.themeMode, await this.getThemeModeConfig())) {
+      await this.storeThemeModeConfig(profile.themeMode);
+      this.setCurrentTheme(profile.themeMode.currentTheme);
+      this.setCurrentMode(profile.themeMode.currentMode);
+      result.themeMode = true;
+    }
+
+    console.log(`📥 StorageManager: Imported profile (${strategy}): ${result.themes} themes, ${result.skippedThemes.length} skipped`);
+    return result;
+  }
+
+  /**
+   * Parse a serialized mode schedule, ignoring invalid data
+   */
+  private parseModeSchedule(serialized?: string): ModeSchedule | undefined {
+    if (!serialized) return undefined;
+    try {
+      const schedule = JSON.parse(serialized);
+      return isValidModeSchedule(schedule) ? schedule : undefined;
+    } catch {
+      return undefined;
+    }
+  }
 }
\ No newline at end of file
@@ -4,9 +4,10 @@
  */
 import { ThemeManager } from './theme-manager';
 import { FontManager } from './font-manager';
-import { StorageManager } from './storage-manager';
+import { StorageManager, StorageManagerOptions } from './storage-manager';
+import { DEFAULT_FONT_LOADING, FontLoadingOptions } from './font-loader';
 import { ThemeInstaller } from '../installers/theme-installer';
-import { ThemeListFetcher } from '../installers/theme-list-fetcher';
+import { ThemeListFetcher, ThemeRegistrySource } from '../installers/theme-list-fetcher';
 import { getFontsByCategory } from '../catalogs/font-catalog';
 import { ThemeResolver } from './theme-resolver';
 import {
@@ -22,6 +23,15 @@ import {
   safeGetComputedStyle
 } from '../utils/ssr-utils';
 import { generateFOUCScript } from '../utils/fouc-script';
+import { RouteThemeRule, matchRouteThemeRule } from '../utils/route-theme-rules';
+import type { ThemePolicy } from '../utils/theme-policy';
+import type {
+  ThemeEventName,
+  ThemeEventListener,
+  ThemeChangedEvent,
+  ThemeInstalledEvent,
+  ThemeUninstalledEvent
+} from '../types/theme-events';
 
 export interface ThemeCoreConfig {
   registryPath?: string;
@@ -47,6 +57,27 @@ export interface ThemeCoreConfig {
       mono?: string;
     };
   };
+
+  // Per-route theme/mode overrides (first match on location.pathname wins)
+  routeRules?: RouteThemeRule[];
+
+  // Maximum undo/redo entries (theme, mode and font override changes)
+  historyLimit?: number;
+
+  // Sync theme, mode and font overrides across tabs (default: true)
+  crossTabSync?: boolean;
+
+  // Tenant restrictions: allowed/denied themes, forced mode and fonts, remote installs
+  policy?: ThemePolicy;
+
+  // Theme/font cache backend and FOUC adapter (default: IndexedDB + localStorage)
+  storage?: StorageManagerOptions;
+
+  // Font loading strategy (swap/optional/block-with-timeout), timeout and metric-matched fallbacks
+  fontLoading?: FontLoadingOptions;
+
+  // Theme registries to list and install from, each cached independently (default: TweakCN)
+  registries?: ThemeRegistrySource[];
 }
 
 export interface ThemeCoreInstance {
@@ -102,11 +133,27 @@ export class ThemeCore {
       getCurrentMode: () => 'auto',
       getEffectiveMode: () => 'light',
       setTheme: async () => {},
+      undo: async () => false,
+      redo: async () => false,
+      canUndo: false,
+      canRedo: false,
       getAvailableThemes: () => [],
+      getAllowedThemes: () => [],
+      isThemeAllowed: () => true,
+      isModeAllowed: () => true,
+      getPolicy: () => null,
+      getAccentOverride: () => null,
+      setAccentOverride: async () => {},
+      getContrastPreference: () => 'auto',
+      setContrastPreference: async () => {},
+      isHighContrast: () => false,
+      prefersReducedMotion: () => false,
+      exportProfile: async () => { throw new Error('Profiles are only available in the browser'); },
+      importProfile: async () => { throw new Error('Profiles are only available in the browser'); },
       getThemeRegistry: () => ({}),
       getFontManager: () => mockFontManager,
-      onThemeChange: () => {},
-      addEventListener: () => {},
+      onThemeChange: () => () => {},
+      addEventListener: () => () => {},
       removeEventListener: () => {}
     } as any;
 
@@ -114,19 +161,35 @@ export class ThemeCore {
     const mockFontManager = {
       getOverrideConfiguration: () => ({ fonts: { sans: '', serif: '', mono: '' } }),
       setFontOverride: async () => {},
+      setFontAxes: async () => {},
+      getFontAxes: () => null,
+      setTypography: async () => {},
+      getTypography: () => null,
+      applyFontPairing: async () => {},
+      createFontPreview: async () => { throw new Error('Font previews are only available in the browser'); },
+      setLoadingOptions: () => {},
+      getLoadingOptions: () => ({ ...DEFAULT_FONT_LOADING }),
+      getFontLoadStatus: () => null,
+      whenFontsReady: async () => true,
       loadFontOverrides: async () => {}
     } as any;
 
-    // Create mock installer for server
-    const mockInstaller = {
-      installFromUrl: async () => {},
-      init: async () => {}
-    } as any;
-
     // Create mock fetcher for server
     const mockFetcher = {
       init: async () => {},
-      fetchAll: async () => []
+      fetchAll: async () => [],
+      fetchAvailableThemes: async () => [],
+      searchThemes: async () => [],
+      getSources: () => [],
+      getHeadersForUrl: async () => ({})
+    } as any;
+
+    // Create mock installer for server
+    const mockInstaller = {
+      installFromUrl: async () => ({ themeId: '', unsupportedFields: [] }),
+      installThemeFromRegistry: async () => ({ themeId: '', unsupportedFields: [] }),
+      getThemeListFetcher: () => mockFetcher,
+      init: async () => {}
     } as any;
 
     return {
@@ -145,13 +208,36 @@ export class ThemeCore {
       this.handleFOUCPrevention();
 
       // Create core instances
+      const storageManager = new StorageManager(this.config.storage);
       const themeManager = new ThemeManager(
         this.config.registryPath,
         this.config.registryData,
-        this.config.themeResolver
+        this.config.themeResolver,
+        storageManager
       );
-      const themeInstaller = new ThemeInstaller(themeManager);
-      const themeListFetcher = new ThemeListFetcher();
+      const themeListFetcher = new ThemeListFetcher(storageManager, this.config.registries);
+      const themeInstaller = new ThemeInstaller(themeManager, themeListFetcher);
+
+      if (this.config.historyLimit) {
+        themeManager.getHistory().setLimit(this.config.historyLimit);
+      }
+
+      if (this.config.fontLoading) {
+        themeManager.getFontManager().setLoadingOptions(this.config.fontLoading);
+      }
+
+      if (this.config.policy) {
+        await themeManager.setPolicy(this.config.policy);
+      }
+
+      if (this.config.crossTabSync !== false) {
+        themeManager.enableCrossTabSync();
+      }
+
+      // Route rules must be known before the initial theme is applied
+      if (this.config.routeRules?.length) {
+        await themeManager.setRouteRules(this.config.routeRules);
+      }
 
       // Initialize in correct order with timeout protection
       const timeoutPromise = new Promise((_, reject) => {
@@ -254,8 +340,9 @@ export class ThemeCore {
       if (!document) return;
 
       try {
-        const savedTheme = ssrSafeStorage.getItem('theme-current') || this.config.defaults?.theme || 'default';
-        const savedMode = ssrSafeStorage.getItem('theme-mode') || this.config.defaults?.mode || 'auto';
+        const routeRule = matchRouteThemeRule(this.config.routeRules || [], document.location.pathname);
+        const savedTheme = routeRule?.theme || ssrSafeStorage.getItem('theme-current') || this.config.defaults?.theme || 'default';
+        const savedMode = this.config.policy?.forcedMode || routeRule?.mode || ssrSafeStorage.getItem('theme-mode') || this.config.defaults?.mode || 'auto';
 
         let resolvedMode = savedMode;
         if (savedMode === 'auto') {
@@ -325,7 +412,7 @@ export class ThemeCore {
     if (!defaults) return;
 
     try {
-      const storage = StorageManager.getInstance();
+      const storage = themeManager.getStorageManager();
       
       // Apply default theme if specified and no theme is currently set
       if (defaults.theme && !storage.getCurrentTheme()) {
@@ -390,7 +477,15 @@ export class ThemeCore {
    * @deprecated Use standalone `generateFOUCScript()` from `@mks2508/shadcn-basecoat-theme-manager`.
    */
   static getFOUCScript(): string {
-    return generateFOUCScript({ storageType: 'localStorage', bodyReveal: true });
+    return generateFOUCScript({ storageType: 'localStorage', bodyReveal: true, routeRules: this.config.routeRules });
+  }
+
+  /**
+   * Replace the per-route theme rules at runtime
+   */
+  static async setRouteRules(rules: RouteThemeRule[]): Promise<void> {
+    this.config = { ...this.config, routeRules: rules };
+    await this.coreInstance?.themeManager.setRouteRules(rules);
   }
 
   /**
@@ -518,30 +613,43 @@ export class ThemeCore {
   }
 
   /**
-   * Event helper - theme change listener
+   * Event helper - typed listener, subscribed as soon as ThemeCore is ready
+   * @returns Unsubscribe function (safe to call before ThemeCore is ready)
    */
-  static onThemeChange(callback: (themeData: { theme: string; mode: 'light' | 'dark' | 'auto'; effectiveMode: 'light' | 'dark' }) => void): void {
+  static on<K extends ThemeEventName>(event: K, listener: ThemeEventListener<K>): () => void {
+    let active = true;
+    let unsubscribe: (() => void) | null = null;
+
     this.onReady((themeCore) => {
-      themeCore.themeManager.onThemeChange(callback);
+      if (!active || unsubscribe) return;
+      unsubscribe = themeCore.themeManager.addEventListener(event, listener);
     });
+
+    return () => {
+      active = false;
+      unsubscribe?.();
+    };
+  }
+
+  /**
+   * Event helper - theme change listener
+   */
+  static onThemeChange(callback: (themeData: ThemeChangedEvent) => void): () => void {
+    return this.on('theme:changed', callback);
   }
 
   /**
    * Event helper - theme installed listener
    */
-  static onThemeInstalled(callback: (theme: any) => void): void {
-    this.onReady((themeCore) => {
-      themeCore.themeManager.addEventListener('theme-installed', callback);
-    });
+  static onThemeInstalled(callback: (data: ThemeInstalledEvent) => void): () => void {
+    return this.on('theme:installed', callback);
   }
 
   /**
    * Event helper - theme uninstalled listener
    */
-  static onThemeUninstalled(callback: (data: { themeId: string; theme: any }) => void): void {
-    this.onReady((themeCore) => {
-      themeCore.themeManager.addEventListener('theme-uninstalled', callback);
-    });
+  static onThemeUninstalled(callback: (data: ThemeUninstalledEvent) => void): () => void {
+    return this.on('theme:uninstalled', callback);
   }
 }
 
@@ -0,0 +1,154 @@
+import { ThemeEventEmitter } from '../utils/theme-event-emitter';
+
+/**
+ * A reversible user action (theme/mode change, font override change)
+ */
+export interface ThemeHistoryEntry {
+  /** Human readable description, e.g. "Theme: ocean (dark)" */
+  label: string;
+  /**
+   * Replay the action without recording it again
+   * @returns false when nothing was applied (e.g. cancelled); the entry then stays where it was
+   */
+  undo: () => Promise<boolean>;
+  redo: () => Promise<boolean>;
+}
+
+/**
+ * ThemeHistory - Bounded undo/redo stack for user-facing theme actions.
+ *
+ * Entries are recorded by ThemeManager and FontManager after a change succeeds.
+ * The undo/redo actions of an entry do not record it again; other changes made
+ * meanwhile (e.g. while an undo waits for a font) are recorded as usual.
+ */
+export class ThemeHistory {
+  static readonly DEFAULT_LIMIT = 50;
+
+  private undoStack: ThemeHistoryEntry[] = [];
+  private redoStack: ThemeHistoryEntry[] = [];
+  private limit: number;
+  private events: ThemeEventEmitter;
+
+  /**
+   * @param events - Emitter used to dispatch `history:changed`
+   * @param limit - Maximum number of undoable entries
+   */
+  constructor(events: ThemeEventEmitter = new ThemeEventEmitter(), limit: number = ThemeHistory.DEFAULT_LIMIT) {
+    this.events = events;
+    this.limit = Math.max(1, limit);
+  }
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Record a new entry. Clears the redo stack and drops the oldest entries past the limit.
+   */
+  record(entry: ThemeHistoryEntry): void {
+    this.undoStack.push(entry);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.splice(0, this.undoStack.length - this.limit);
+    }
+    this.redoStack = [];
+    this.notify('record', entry);
+  }
+
+  /**
+   * Revert the most recent entry
+   * @returns `false` when there was nothing to undo or the undo was not applied
+   */
+  async undo(): Promise<boolean> {
+    const entry = this.undoStack.pop();
+    if (!entry) return false;
+
+    let applied: boolean;
+    try {
+      applied = await entry.undo();
+    } catch (error) {
+      this.undoStack.push(entry);
+      throw error;
+    }
+    if (!applied) {
+      this.undoStack.push(entry);
+      return false;
+    }
+
+    this.redoStack.push(entry);
+    this.notify('undo', entry);
+    return true;
+  }
+
+  /**
+   * Re-apply the most recently undone entry
+   * @returns `false` when there was nothing to redo or the redo was not applied
+   */
+  async redo(): Promise<boolean> {
+    const entry = this.redoStack.pop();
+    if (!entry) return false;
+
+    let applied: boolean;
+    try {
+      applied = await entry.redo();
+    } catch (error) {
+      this.redoStack.push(entry);
+      throw error;
+    }
+    if (!applied) {
+      this.redoStack.push(entry);
+      return false;
+    }
+
+    this.undoStack.push(entry);
+    this.notify('redo', entry);
+    return true;
+  }
+
+  /**
+   * Change the maximum number of undoable entries
+   */
+  setLimit(limit: number): void {
+    this.limit = Math.max(1, limit);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.splice(0, this.undoStack.length - this.limit);
+      this.notify('clear');
+    }
+  }
+
+  getLimit(): number {
+    return this.limit;
+  }
+
+  /**
+   * Forget every entry
+   */
+  clear(): void {
+    if (!this.canUndo && !this.canRedo) return;
+    this.undoStack = [];
+    this.redoStack = [];
+    this.notify('clear');
+  }
+
+  /**
+   * Labels of the undo/redo stacks, most recent last
+   */
+  getEntries(): { undo: string[]; redo: string[] } {
+    return {
+      undo: this.undoStack.map(entry => entry.label),
+      redo: this.redoStack.map(entry => entry.label)
+    };
+  }
+
+  private notify(action: 'record' | 'undo' | 'redo' | 'clear', entry?: ThemeHistoryEntry): void {
+    this.events.emit('history:changed', {
+      action,
+      label: entry?.label,
+      canUndo: this.canUndo,
+      canRedo: this.canRedo
+    });
+  }
+}
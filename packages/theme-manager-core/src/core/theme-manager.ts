@@ -19,6 +19,19 @@ import {
 } from '../utils/ssr-utils';
 import { generateFOUCScript as generateFOUCScriptUnified } from '../utils/fouc-script';
 import { ThemeResolver } from './theme-resolver';
+import { mergeThemeVariables } from '../utils/theme-inheritance';
+import { buildRegistryCSS, RegistryThemeData } from '../installers/registry-item';
+import { ScopedTheme, ScopedThemeHandle, ScopedThemeMode } from './scoped-theme';
+import { evaluateModeSchedule, isValidModeSchedule, ModeSchedule } from '../utils/mode-schedule';
+import { RouteThemeRule, matchRouteThemeRule, onHistoryNavigation, getCurrentPathname } from '../utils/route-theme-rules';
+import { ThemeEventEmitter } from '../utils/theme-event-emitter';
+import { ThemeHistory } from './theme-history';
+import { CrossTabSync, CrossTabMessage, CrossTabTransport } from '../utils/cross-tab-sync';
+import { ThemePolicy, isThemeAllowedByPolicy, isModeAllowedByPolicy, rejectByPolicy } from '../utils/theme-policy';
+import { ACCENT_VARIABLES, ACCENT_VARS_KEY, deriveAccentVariables, parseColor } from '../utils/accent-color';
+import { ContrastPreference, deriveHighContrastVariables } from '../utils/high-contrast';
+import { parseThemeProfile, ThemeProfile, ProfileExportOptions, ProfileImportOptions, ProfileImportResult } from '../utils/theme-profile';
+import type { ThemeEventName, ThemeEventListener, ThemeChangedEvent, ThemeMode } from '../types/theme-events';
 
 
 /**
@@ -34,14 +47,48 @@ export class ThemeManager {
   private currentStyleElement: HTMLLinkElement | null = null;
   private fontLoader: FontLoader;
 
-  // Event system
-  private eventListeners: Map<string, Function[]> = new Map();
+  // Event system (shared with FontManager and ThemeInstaller)
+  private events: ThemeEventEmitter = new ThemeEventEmitter();
+  private history: ThemeHistory = new ThemeHistory(this.events);
 
   // Performance optimizations
   private prefetchedThemes: Set<string> = new Set(); // Single-request prefetch tracking
   private readonly BUILTIN_THEMES = ['default', 'supabase']; // Built-in themes for preloading
   private prefetchPromises: Map<string, Promise<void>> = new Map();
 
+  // Themes applied to DOM subtrees via applyToElement()
+  private scopedThemes: Set<ScopedTheme> = new Set();
+
+  // Scheduled 'auto' mode (fixed hours or sunrise/sunset)
+  private readonly SCHEDULE_MAX_CHECK_MS = 60 * 60 * 1000; // Re-check at least hourly (sleep, clock changes)
+  private modeSchedule: ModeSchedule | null = null;
+  private scheduleTimer: ReturnType<typeof setTimeout> | null = null;
+  private scheduledMode: 'light' | 'dark' | null = null;
+
+  // Per-route overrides (never persisted, the user's preference stays in currentTheme/currentMode)
+  private routeRules: RouteThemeRule[] = [];
+  private activeRouteRule: RouteThemeRule | null = null;
+  private removeNavigationListener: (() => void) | null = null;
+  private initialized = false;
+
+  // Tenant restrictions (allowed themes, forced mode/fonts, remote installs)
+  private policy: ThemePolicy | null = null;
+
+  // Accent color override, layered on top of the applied theme's variables
+  private accentOverride: string | null = null;
+  private baseVariables: Record<string, string> = {};
+
+  // Accessibility: high-contrast variant ('auto' follows prefers-contrast: more)
+  private contrastPreference: ContrastPreference = 'auto';
+  private removeContrastListener: (() => void) | null = null;
+
+  // Cross-tab sync (theme, mode and font overrides)
+  private crossTabSync: CrossTabSync | null = null;
+  private removeCrossTabListeners: (() => void)[] = [];
+
+  // Cross-device sync (StorageManager remote adapter)
+  private removeRemoteListener: (() => void) | null = null;
+
   // Storage optimization
   private readonly SAVE_DEBOUNCE_MS = 200;
   private themeStorage: {timer: ReturnType<typeof setTimeout> | null, pending: {theme?: string, mode?: string}} = {
@@ -49,15 +96,20 @@ export class ThemeManager {
     pending: {}
   };
 
+  /**
+   * @param storageManager - Storage shared with the registry, FontManager and ThemeInstaller;
+   *   each ThemeManager gets its own isolated instance when omitted
+   */
   constructor(
     registryPath: string = '/themes/registry.json',
     registryData?: ThemeRegistryData,
-    themeResolver?: ThemeResolver
+    themeResolver?: ThemeResolver,
+    storageManager: StorageManager = new StorageManager()
   ) {
-    this.themeRegistry = new ThemeRegistry(registryPath, registryData);
-    this.fontManager = new FontManager();
-    this.fontLoader = new FontLoader();
-    this.storageManager = StorageManager.getInstance();
+    this.storageManager = storageManager;
+    this.themeRegistry = new ThemeRegistry(registryPath, registryData, storageManager);
+    this.fontLoader = new FontLoader(storageManager, this.events);
+    this.fontManager = new FontManager(this.events, this.history, storageManager, this.fontLoader);
     this.themeResolver = themeResolver || null;
   }
 
@@ -121,6 +173,9 @@ export class ThemeManager {
       });
       const savedTheme = savedConfig?.currentTheme || 'default';
       const savedMode = savedConfig?.currentMode || 'auto';
+      this.modeSchedule = savedConfig?.schedule || null;
+      this.accentOverride = savedConfig?.accentColor && parseColor(savedConfig.accentColor) ? savedConfig.accentColor : null;
+      this.contrastPreference = savedConfig?.contrast || 'auto';
       console.log('✅ [ThemeManager] Saved theme:', savedTheme, 'mode:', savedMode);
 
       // Validate saved theme exists in registry (try ThemeResolver first, then ThemeRegistry)
@@ -143,13 +198,22 @@ export class ThemeManager {
         this.currentTheme = 'default';
       }
       this.currentMode = savedMode;
+      if (this.coercePreferenceToPolicy()) {
+        this.saveThemeSettings(this.currentTheme, this.currentMode);
+      }
       console.log('✅ [ThemeManager] Current theme set to:', this.currentTheme);
 
       // Apply initial theme
       console.log('🔄 [ThemeManager] Applying initial theme...');
-      await this.applyTheme(this.currentTheme, this.currentMode);
+      this.activeRouteRule = this.matchCurrentRoute();
+      await this.applyTheme(this.getAppliedTheme(), this.getAppliedMode());
       console.log('✅ [ThemeManager] Initial theme applied');
 
+      this.initialized = true;
+      this.scheduleModeCheck();
+      this.watchContrastPreference();
+      this.startRemoteSync();
+
       // Preload built-in themes in background (non-blocking)
       console.log('🔄 [ThemeManager] Starting theme preloading...');
       this.preloadBuiltinThemes();
@@ -175,28 +239,562 @@ export class ThemeManager {
    * @returns Promise que se resuelve cuando el tema se ha aplicado
    */
   async setTheme(theme: string, mode?: 'light' | 'dark' | 'auto'): Promise<void> {
-    const newMode = mode || this.currentMode;
-    
+    await this.changeTheme(theme, mode || this.currentMode, true);
+  }
+
+  /**
+   * Apply a theme/mode; undo/redo replay it with `record` false
+   * @returns false when a `theme:before-change` listener cancelled it
+   */
+  private async changeTheme(theme: string, newMode: ThemeMode, record: boolean): Promise<boolean> {
     // Check if this is a real theme change
     const isThemeChange = theme !== this.currentTheme || newMode !== this.currentMode;
-    if (!isThemeChange) return;
+    if (!isThemeChange) return true;
+
+    if (!this.isThemeAllowed(theme)) {
+      throw rejectByPolicy(this.events, 'theme', theme, `Theme "${theme}" is not allowed`);
+    }
+    if (!this.isModeAllowed(newMode)) {
+      throw rejectByPolicy(this.events, 'mode', newMode, `Mode is locked to "${this.policy?.forcedMode}"`);
+    }
+
+    const allowed = this.events.emitBeforeChange({
+      theme,
+      mode: newMode,
+      previousTheme: this.currentTheme,
+      previousMode: this.currentMode
+    });
+    if (!allowed) {
+      console.log(`🚫 [ThemeManager] Theme change to ${theme} (${newMode}) cancelled by listener`);
+      return false;
+    }
 
     return PerformanceTracker.measureAsync('Theme Switch Total', async () => {
+      const previous = this.getAppliedState();
+      const previousTheme = this.currentTheme;
+      const previousMode = this.currentMode;
       this.currentTheme = theme;
       this.currentMode = newMode;
       
       // Debounced storage save (non-blocking)
       this.saveThemeSettings(theme, newMode);
 
-      await this.applyTheme(theme, newMode, true); // Pass true to indicate real theme change
-      
-      // Dispatch theme change event
-      this.dispatchEvent('theme-changed', {
-        theme: this.currentTheme,
-        mode: this.currentMode,
-        effectiveMode: this.getEffectiveMode()
+      // Apply (real theme change, with transition) and dispatch change events
+      await this.applyAndNotify(previous);
+
+      if (record) {
+        this.history.record({
+          label: `Theme: ${theme} (${newMode})`,
+          undo: () => this.changeTheme(previousTheme, previousMode, false),
+          redo: () => this.changeTheme(theme, newMode, false)
+        });
+      }
+
+      this.crossTabSync?.post({ type: 'theme', theme, mode: newMode });
+      return true;
+    });
+  }
+
+  /**
+   * Aplica una política de tenant: temas permitidos/denegados, modo y fuentes forzados,
+   * instalaciones remotas. Si la preferencia actual la incumple se corrige y se aplica.
+   * @param policy - Política, o null para eliminar restricciones
+   */
+  async setPolicy(policy: ThemePolicy | null): Promise<void> {
+    this.policy = policy;
+    await this.fontManager.setPolicy(policy);
+
+    const previous = this.getAppliedState();
+    if (!this.coercePreferenceToPolicy()) return;
+
+    this.saveThemeSettings(this.currentTheme, this.currentMode);
+    if (this.initialized) {
+      await this.applyAndNotify(previous);
+    }
+  }
+
+  getPolicy(): ThemePolicy | null {
+    return this.policy;
+  }
+
+  /**
+   * Whether the policy allows selecting/installing a theme
+   */
+  isThemeAllowed(themeId: string): boolean {
+    return isThemeAllowedByPolicy(this.policy, themeId);
+  }
+
+  /**
+   * Whether the policy allows selecting a mode
+   */
+  isModeAllowed(mode: 'light' | 'dark' | 'auto'): boolean {
+    return isModeAllowedByPolicy(this.policy, mode);
+  }
+
+  /**
+   * Available themes the policy allows (for pickers)
+   */
+  getAllowedThemes(): ThemeConfig[] {
+    return this.getAvailableThemes().filter(theme => this.isThemeAllowed(theme.id));
+  }
+
+  /**
+   * Move the preference to an allowed theme and the forced mode
+   * @returns true when the preference changed
+   */
+  private coercePreferenceToPolicy(): boolean {
+    let changed = false;
+
+    if (!this.isThemeAllowed(this.currentTheme)) {
+      const fallback = this.isThemeAllowed('default')
+        ? this.getAvailableThemes().find(theme => theme.id === 'default')
+        : this.getAllowedThemes()[0];
+      if (fallback) {
+        console.log(`🚫 [ThemeManager] Theme ${this.currentTheme} not allowed by policy, using ${fallback.id}`);
+        this.currentTheme = fallback.id;
+        changed = true;
+      }
+    }
+
+    const forcedMode = this.policy?.forcedMode;
+    if (forcedMode && this.currentMode !== forcedMode) {
+      this.currentMode = forcedMode;
+      changed = true;
+    }
+
+    return changed;
+  }
+
+  /**
+   * Sobrescribe el color de acento del tema: deriva `--primary`, `--ring`, `--accent`
+   * (y sus variantes de sidebar) en OKLCH con contraste WCAG AA contra el fondo del tema.
+   * Se persiste y se reaplica sobre cualquier tema y modo.
+   * @param color - Color CSS (hex, rgb, hsl, oklch) o null para volver a los colores del tema
+   */
+  async setAccentOverride(color: string | null): Promise<void> {
+    if (color !== null && !parseColor(color)) {
+      throw new Error(`Invalid accent color: ${color}`);
+    }
+    if (color === this.accentOverride) return;
+
+    this.accentOverride = color;
+    this.saveThemeSettings(this.currentTheme, this.currentMode);
+    if (this.initialized) {
+      this.reapplyAdjustments();
+    }
+    console.log(`🎨 [ThemeManager] Accent override ${color ? `set to ${color}` : 'removed'}`);
+  }
+
+  /**
+   * Current accent color override, or null when the theme's own colors are used
+   */
+  getAccentOverride(): string | null {
+    return this.accentOverride;
+  }
+
+  /**
+   * Modo de alto contraste: 'more' lo fuerza, 'normal' lo desactiva y 'auto'
+   * sigue `prefers-contrast: more`. Se persiste.
+   * @param preference - Preferencia de contraste
+   */
+  async setContrastPreference(preference: ContrastPreference): Promise<void> {
+    if (preference === this.contrastPreference) return;
+
+    this.contrastPreference = preference;
+    this.saveThemeSettings(this.currentTheme, this.currentMode);
+    if (this.initialized) {
+      this.reapplyAdjustments();
+    }
+  }
+
+  getContrastPreference(): ContrastPreference {
+    return this.contrastPreference;
+  }
+
+  /**
+   * Whether the derived high-contrast variant is applied
+   */
+  isHighContrast(): boolean {
+    if (this.contrastPreference !== 'auto') return this.contrastPreference === 'more';
+    const mediaQuery = safeMatchMedia('(prefers-contrast: more)');
+    return !!mediaQuery && mediaQuery.matches;
+  }
+
+  /**
+   * Whether the user asked for reduced motion (`prefers-reduced-motion: reduce`).
+   * Theme transitions are skipped when true.
+   */
+  prefersReducedMotion(): boolean {
+    const mediaQuery = safeMatchMedia('(prefers-reduced-motion: reduce)');
+    return !!mediaQuery && mediaQuery.matches;
+  }
+
+  /**
+   * Theme variables with the accent override and the high-contrast variant layered on top
+   */
+  private withAdjustments(variables: Record<string, string>, mode: 'light' | 'dark'): Record<string, string> {
+    let adjusted = variables;
+    if (this.accentOverride) {
+      adjusted = { ...adjusted, ...deriveAccentVariables(this.accentOverride, adjusted['--background'], mode) };
+    }
+    if (this.isHighContrast()) {
+      adjusted = deriveHighContrastVariables(adjusted, mode);
+    }
+    return adjusted;
+  }
+
+  /**
+   * Re-apply accent/contrast adjustments over the last applied theme variables
+   * without re-fetching the theme
+   */
+  private reapplyAdjustments(): void {
+    const theme = this.getAppliedTheme();
+    const mode = this.getEffectiveMode();
+    const variables = this.withAdjustments(this.baseVariables, mode);
+
+    safeDOMManipulation(() => {
+      const root = safeGetDocument()?.documentElement;
+      if (!root) return;
+      // Variables the theme doesn't define would keep the previous accent
+      ACCENT_VARIABLES.filter(name => !(name in variables)).forEach(name => root.style.removeProperty(name));
+    });
+    this.applyCSSVariables(variables);
+    this.applyContrastAttribute();
+    this.cacheCSSVariables(theme, mode, variables);
+    this.cacheAccentVariables(theme, mode);
+  }
+
+  /**
+   * Expose the high-contrast state as `data-contrast="more"` on <html> for CSS hooks
+   */
+  private applyContrastAttribute(): void {
+    safeDOMManipulation(() => {
+      const root = safeGetDocument()?.documentElement;
+      if (!root) return;
+      if (this.isHighContrast()) {
+        root.setAttribute('data-contrast', 'more');
+      } else {
+        root.removeAttribute('data-contrast');
+      }
+    });
+  }
+
+  /**
+   * Inject the raw `css` rules (registry items) of a theme and its ancestors,
+   * replacing the rules of the previous theme
+   */
+  private applyThemeCSS(themeName: string): void {
+    safeDOMManipulation(() => {
+      const document = safeGetDocument();
+      if (!document?.head) return;
+
+      let css = '';
+      try {
+        css = this.getThemeChain(themeName)
+          .filter(theme => theme.css)
+          .map(theme => {
+            // The id is written into a comment: it must not end it
+            if (theme.id.includes('*/')) {
+              throw new Error(`Invalid theme id: ${theme.id}`);
+            }
+            return `/* ${theme.id} */\n${buildRegistryCSS(theme.css!)}`;
+          })
+          .join('\n');
+      } catch (error) {
+        console.warn(`⚠️ [ThemeManager] Cannot resolve CSS rules of "${themeName}":`, error);
+      }
+
+      let style = document.getElementById('theme-css-rules');
+      if (!css) {
+        style?.remove();
+        return;
+      }
+      if (!style) {
+        style = document.createElement('style');
+        style.id = 'theme-css-rules';
+        document.head.appendChild(style);
+      }
+      style.textContent = css;
+    });
+  }
+
+  /**
+   * Follow `prefers-contrast` changes while the preference is 'auto'
+   */
+  private watchContrastPreference(): void {
+    if (this.removeContrastListener) return;
+    const mediaQuery = safeMatchMedia('(prefers-contrast: more)');
+    if (!mediaQuery || typeof mediaQuery.addEventListener !== 'function') return;
+
+    const onChange = () => {
+      if (this.contrastPreference !== 'auto') return;
+      console.log('♿ [ThemeManager] prefers-contrast changed, re-applying theme variables');
+      this.reapplyAdjustments();
+    };
+    mediaQuery.addEventListener('change', onChange);
+    this.removeContrastListener = () => mediaQuery.removeEventListener('change', onChange);
+  }
+
+  /**
+   * Sincroniza tema, modo y fuentes con otras pestañas del mismo origen
+   * @param transport - Fuerza el fallback de `storage` (por defecto BroadcastChannel si existe)
+   */
+  enableCrossTabSync(transport?: Exclude<CrossTabTransport, 'none'>): void {
+    if (this.crossTabSync || isServer()) return;
+
+    const sync = new CrossTabSync(transport);
+    this.crossTabSync = sync;
+    this.removeCrossTabListeners = [
+      sync.subscribe(message => this.handleCrossTabMessage(message)),
+      this.events.on('fonts:changed', event => {
+        if (event.source === 'local') {
+          sync.post({ type: 'fonts', override: event.override });
+        }
+      })
+    ];
+
+    console.log(`🔗 [ThemeManager] Cross-tab sync enabled (${sync.transport})`);
+  }
+
+  /**
+   * Stop syncing with other tabs
+   */
+  disableCrossTabSync(): void {
+    this.removeCrossTabListeners.forEach(remove => remove());
+    this.removeCrossTabListeners = [];
+    this.crossTabSync?.close();
+    this.crossTabSync = null;
+  }
+
+  isCrossTabSyncEnabled(): boolean {
+    return this.crossTabSync !== null;
+  }
+
+  /**
+   * Apply a change made in another tab without persisting, recording or re-broadcasting it
+   */
+  private async handleCrossTabMessage(message: CrossTabMessage): Promise<void> {
+    try {
+      if (message.type === 'fonts') {
+        await this.fontManager.applyRemoteOverride(message.override);
+        return;
+      }
+
+      await this.applyExternalChange(message.theme, message.mode);
+    } catch (error) {
+      console.error('❌ [ThemeManager] Failed to apply change from another tab:', error);
+    }
+  }
+
+  /**
+   * Apply a theme/mode persisted elsewhere (another tab or device)
+   * @returns false when nothing changed or the policy forbids it
+   */
+  private async applyExternalChange(theme: string, mode: 'light' | 'dark' | 'auto'): Promise<boolean> {
+    if (theme === this.currentTheme && mode === this.currentMode) return false;
+    if (!this.isThemeAllowed(theme) || !this.isModeAllowed(mode)) return false;
+
+    // The theme may have been installed elsewhere after this registry loaded
+    if (!this.themeResolver?.hasTheme(theme) && !this.themeRegistry.getTheme(theme)) {
+      await this.themeRegistry.refresh();
+    }
+
+    // The change is already persisted; drop our pending save so it cannot overwrite it
+    safeClearTimeout(this.themeStorage.timer);
+    this.themeStorage.timer = null;
+    this.themeStorage.pending = {};
+
+    const previous = this.getAppliedState();
+    this.currentTheme = theme;
+    this.currentMode = mode;
+    await this.applyAndNotify(previous);
+    return true;
+  }
+
+  /**
+   * Follow preferences changed on other devices (StorageManager remote adapter)
+   * and reconcile with the remote store once
+   */
+  private startRemoteSync(): void {
+    if (!this.storageManager.hasRemote() || this.removeRemoteListener) return;
+
+    this.removeRemoteListener = this.storageManager.onRemoteChange(change => {
+      const apply = change.key === 'font-override-config'
+        ? this.fontManager.applyRemoteOverride({ enabled: change.value.enabled, fonts: change.value.fonts, axes: change.value.axes, typography: change.value.typography })
+        : this.applyExternalThemeModeConfig(change.value);
+
+      apply.catch(error => {
+        console.error('❌ [ThemeManager] Failed to apply change from remote storage:', error);
+      });
+    });
+
+    this.storageManager.syncRemote().catch(error => {
+      console.warn('⚠️ [ThemeManager] Remote sync failed:', error);
+    });
+  }
+
+  /**
+   * Apply a ThemeModeConfig persisted elsewhere (remote storage, imported profile)
+   */
+  private async applyExternalThemeModeConfig(config: ThemeModeConfig): Promise<void> {
+    this.modeSchedule = config.schedule || null;
+    this.accentOverride = config.accentColor && parseColor(config.accentColor) ? config.accentColor : null;
+    this.contrastPreference = config.contrast || 'auto';
+    this.scheduleModeCheck();
+
+    console.log(`☁️ [ThemeManager] Applying external preferences: ${config.currentTheme} (${config.currentMode})`);
+    if (!(await this.applyExternalChange(config.currentTheme, config.currentMode))) {
+      this.reapplyAdjustments();
+    }
+  }
+
+  /**
+   * Deshace el último cambio de tema, modo o fuente
+   * @returns `false` si no había nada que deshacer
+   */
+  async undo(): Promise<boolean> {
+    return this.history.undo();
+  }
+
+  /**
+   * Rehace el último cambio deshecho
+   * @returns `false` si no había nada que rehacer
+   */
+  async redo(): Promise<boolean> {
+    return this.history.redo();
+  }
+
+  get canUndo(): boolean {
+    return this.history.canUndo;
+  }
+
+  get canRedo(): boolean {
+    return this.history.canRedo;
+  }
+
+  /**
+   * Get the undo/redo history shared with FontManager
+   */
+  getHistory(): ThemeHistory {
+    return this.history;
+  }
+
+  /**
+   * Storage used for the theme/font caches (shared with ThemeInstaller)
+   */
+  getStorageManager(): StorageManager {
+    return this.storageManager;
+  }
+
+  /**
+   * Export installed themes and preferences (pending debounced saves are flushed first)
+   * @see StorageManager.exportProfile
+   */
+  async exportProfile(options: ProfileExportOptions = {}): Promise<ThemeProfile> {
+    if (this.themeStorage.timer) {
+      safeClearTimeout(this.themeStorage.timer);
+      this.themeStorage.timer = null;
+      await this.saveThemeToStorage();
+    }
+    await this.fontManager.flushPendingSave();
+
+    return this.storageManager.exportProfile(options);
+  }
+
+  /**
+   * Import a profile and apply it: installed themes are reloaded and the
+   * imported theme, mode and fonts applied. Themes the policy does not allow are skipped.
+   * @param input - Profile object or its JSON text
+   * @throws Error when the profile is invalid
+   */
+  async importProfile(input: ThemeProfile | string, options: ProfileImportOptions = {}): Promise<ProfileImportResult> {
+    const profile = parseThemeProfile(input);
+    const denied = profile.themes.filter(theme => !this.isThemeAllowed(theme.name)).map(theme => theme.name);
+
+    // Imported values win over our pending saves
+    safeClearTimeout(this.themeStorage.timer);
+    this.themeStorage.timer = null;
+    this.themeStorage.pending = {};
+
+    // A denied theme/mode would be persisted (and flashed by the FOUC script) but never applied
+    const themeMode = profile.themeMode && {
+      ...profile.themeMode,
+      currentTheme: this.isThemeAllowed(profile.themeMode.currentTheme) ? profile.themeMode.currentTheme : this.currentTheme,
+      currentMode: this.isModeAllowed(profile.themeMode.currentMode) ? profile.themeMode.currentMode : this.currentMode
+    };
+
+    const result = await this.storageManager.importProfile(
+      { ...profile, themes: profile.themes.filter(theme => !denied.includes(theme.name)), themeMode },
+      options
+    );
+    result.skippedThemes.push(...denied);
+
+    await this.themeRegistry.refresh();
+
+    if (result.fontOverrides && profile.fontOverrides) {
+      await this.fontManager.applyRemoteOverride({
+        enabled: profile.fontOverrides.enabled,
+        fonts: profile.fontOverrides.fonts,
+        axes: profile.fontOverrides.axes,
+        typography: profile.fontOverrides.typography
       });
+    }
+    if (result.themeMode && themeMode) {
+      await this.applyExternalThemeModeConfig(themeMode);
+    }
+
+    console.log(`✅ [ThemeManager] Profile imported (${result.strategy}): ${result.themes} themes`);
+    return result;
+  }
+
+  /**
+   * Snapshot of the applied theme/mode, used as "previous" state in change events
+   */
+  private getAppliedState(): { theme: string; mode: ThemeMode; effectiveMode: 'light' | 'dark' } {
+    return {
+      theme: this.getAppliedTheme(),
+      mode: this.getAppliedMode(),
+      effectiveMode: this.getEffectiveMode()
+    };
+  }
+
+  /**
+   * Apply the applied (route-aware) theme and dispatch `theme:changed` / `mode:changed`,
+   * or `theme:failed` when applying throws
+   * @param previous - State before the change
+   */
+  private async applyAndNotify(previous: { theme: string; mode: ThemeMode; effectiveMode: 'light' | 'dark' }): Promise<void> {
+    const theme = this.getAppliedTheme();
+    const mode = this.getAppliedMode();
+
+    try {
+      await this.applyTheme(theme, mode, true);
+    } catch (error) {
+      this.events.emit('theme:failed', {
+        theme,
+        mode,
+        error: error instanceof Error ? error : new Error(String(error))
+      });
+      throw error;
+    }
+
+    const effectiveMode = this.getEffectiveMode();
+    this.events.emit('theme:changed', {
+      theme,
+      mode,
+      effectiveMode,
+      previousTheme: previous.theme,
+      previousMode: previous.mode
     });
+
+    if (mode !== previous.mode || effectiveMode !== previous.effectiveMode) {
+      this.events.emit('mode:changed', {
+        mode,
+        effectiveMode,
+        previousMode: previous.mode,
+        previousEffectiveMode: previous.effectiveMode
+      });
+    }
   }
 
   /**
@@ -305,13 +903,7 @@ export class ThemeManager {
     }
 
     // Resolve mode
-    let resolvedMode: 'light' | 'dark';
-    if (mode === 'auto') {
-      const mediaQuery = safeMatchMedia('(prefers-color-scheme: dark)');
-      resolvedMode = mediaQuery && mediaQuery.matches ? 'dark' : 'light';
-    } else {
-      resolvedMode = mode;
-    }
+    const resolvedMode = mode === 'auto' ? this.resolveAutoMode() : mode;
 
     try {
       safeDOMManipulation(() => {
@@ -330,9 +922,12 @@ export class ThemeManager {
         const result = await this.themeResolver.resolveCSS(themeName, resolvedMode);
         if (result.css) {
           console.log(`🎨 [ThemeManager] Loaded ${themeName}/${resolvedMode} from ${result.source}`);
+          const ancestorVariables = await this.loadAncestorVariables(themeName, resolvedMode);
           PerformanceTracker.measure('CSS Variables Extract', () => {
-            cssVariables = this.extractCSSVariables(result.css!);
+            cssVariables = mergeThemeVariables([...ancestorVariables, this.extractCSSVariables(result.css!)]);
           });
+          this.baseVariables = cssVariables;
+          cssVariables = this.withAdjustments(cssVariables, resolvedMode);
 
           // Apply CSS variables directly to document root
           PerformanceTracker.measure('CSS Variables Apply', () => {
@@ -340,11 +935,8 @@ export class ThemeManager {
           });
 
           // Cache CSS variables to localStorage for FOUC script instant replay
-          try {
-            ssrSafeStorage.setItem('theme-css-vars', JSON.stringify(cssVariables));
-          } catch (_) {
-            // Non-fatal if localStorage is unavailable or quota exceeded
-          }
+          this.cacheCSSVariables(themeName, resolvedMode, cssVariables);
+          this.cacheAccentVariables(themeName, resolvedMode);
 
           // Remove any previous theme CSS link
           if (this.currentStyleElement) {
@@ -367,6 +959,8 @@ export class ThemeManager {
             }
             document.documentElement.style.colorScheme = resolvedMode;
           });
+          this.applyContrastAttribute();
+          this.applyThemeCSS(themeName);
 
           // Load fonts for this theme if available
           await this.loadThemeFonts(themeName);
@@ -381,43 +975,13 @@ export class ThemeManager {
 
       // FALLBACK: Original fetch-based approach (use themeConfig from above)
       const finalThemeConfig = themeConfig!;
-      const cssPath = finalThemeConfig.modes[resolvedMode];
-
-      if (cssPath.startsWith('blob:')) {
-        // Handle blob URLs (installed themes) - always cache miss
-        PerformanceTracker.trackCacheMiss('CSS Theme Data');
-        cssVariables = await PerformanceTracker.measureAsync('CSS Fetch (Cold)', async () => {
-          const response = await fetch(cssPath);
-          const cssContent = await response.text();
-          return this.extractCSSVariables(cssContent);
-        });
-      } else {
-        // Handle static file themes - check for cache hit/miss
-        const isCached = this.prefetchedThemes.has(`${themeName}-${resolvedMode}`);
-
-        if (isCached) {
-          PerformanceTracker.trackCacheHit('CSS Theme Data');
-          cssVariables = await PerformanceTracker.measureAsync('CSS Fetch (Cached)', async () => {
-            const response = await fetch(cssPath);
-            if (!response.ok) {
-              throw new Error(`Failed to fetch CSS: ${response.status}`);
-            }
-            const cssContent = await response.text();
-            return this.extractCSSVariables(cssContent);
-          });
-        } else {
-          PerformanceTracker.trackCacheMiss('CSS Theme Data');
-          cssVariables = await PerformanceTracker.measureAsync('CSS Fetch (Cold)', async () => {
-            const response = await fetch(cssPath);
-            if (!response.ok) {
-              throw new Error(`Failed to fetch CSS: ${response.status}`);
-            }
-            const cssContent = await response.text();
-            this.prefetchedThemes.add(`${themeName}-${resolvedMode}`); // Mark as cached
-            return this.extractCSSVariables(cssContent);
-          });
-        }
-      }
+      const ancestorVariables = await this.loadAncestorVariables(themeName, resolvedMode);
+      cssVariables = mergeThemeVariables([
+        ...ancestorVariables,
+        await this.fetchThemeVariables(finalThemeConfig, resolvedMode)
+      ]);
+      this.baseVariables = cssVariables;
+      cssVariables = this.withAdjustments(cssVariables, resolvedMode);
 
       // Apply CSS variables directly to document root
       PerformanceTracker.measure('CSS Variables Apply', () => {
@@ -425,11 +989,8 @@ export class ThemeManager {
       });
 
       // Cache CSS variables to localStorage for FOUC script instant replay
-      try {
-        ssrSafeStorage.setItem('theme-css-vars', JSON.stringify(cssVariables));
-      } catch (_) {
-        // Non-fatal if localStorage is unavailable or quota exceeded
-      }
+      this.cacheCSSVariables(themeName, resolvedMode, cssVariables);
+      this.cacheAccentVariables(themeName, resolvedMode);
 
       // Remove any previous theme CSS link
       if (this.currentStyleElement) {
@@ -452,6 +1013,8 @@ export class ThemeManager {
         }
         document.documentElement.style.colorScheme = resolvedMode;
       });
+      this.applyContrastAttribute();
+      this.applyThemeCSS(themeName);
 
       // Load fonts for this theme if available
       try {
@@ -479,6 +1042,7 @@ export class ThemeManager {
               };
               await this.fontLoader.loadThemeFonts(fontVars);
             });
+            this.events.emit('fonts:loaded', { families: fontFamilyNames, source: 'theme' });
           }
         }
       } catch (fontError) {
@@ -486,19 +1050,7 @@ export class ThemeManager {
       }
 
       // Trigger transition animation
-      safeSetTimeout(() => {
-        safeDOMManipulation(() => {
-          const document = safeGetDocument();
-          if (!document?.documentElement) return;
-
-          document.documentElement.classList.remove('theme-switching');
-          document.documentElement.classList.add('theme-switch');
-
-          safeSetTimeout(() => {
-            document.documentElement.classList.remove('theme-switch');
-          }, 200);
-        });
-      }, 50);
+      this.triggerTransitionAnimation();
 
     } catch (error) {
       console.error(`Failed to load theme "${themeName}" (${resolvedMode}):`, error);
@@ -544,6 +1096,7 @@ export class ThemeManager {
             };
             await this.fontLoader.loadThemeFonts(fontVars);
           });
+          this.events.emit('fonts:loaded', { families: fontFamilyNames, source: 'theme' });
         }
       }
     } catch (fontError) {
@@ -552,9 +1105,133 @@ export class ThemeManager {
   }
 
   /**
-   * Trigger theme transition animation
+   * Get the inheritance chain of a theme (root ancestor first)
+   */
+  private getThemeChain(themeName: string): ThemeConfig[] {
+    if (this.themeResolver?.hasTheme(themeName)) {
+      return this.themeResolver.getThemeChain(themeName);
+    }
+    return this.themeRegistry.getThemeChain(themeName);
+  }
+
+  /**
+   * Load the CSS variables of every ancestor of a theme, ordered from root to direct parent
+   * @param themeName - Theme identifier
+   * @param mode - Resolved mode
+   */
+  private async loadAncestorVariables(themeName: string, mode: 'light' | 'dark'): Promise<Array<Record<string, string>>> {
+    const ancestors = this.getThemeChain(themeName).slice(0, -1);
+    const layers: Array<Record<string, string>> = [];
+
+    for (const ancestor of ancestors) {
+      if (this.themeResolver?.hasTheme(ancestor.id)) {
+        const result = await this.themeResolver.resolveCSS(ancestor.id, mode);
+        if (result.css) {
+          layers.push(this.extractCSSVariables(result.css));
+          continue;
+        }
+      }
+      layers.push(await this.fetchThemeVariables(ancestor, mode));
+    }
+
+    return layers;
+  }
+
+  /**
+   * Fetch a theme's own CSS for a mode and extract its variables
+   * @param themeConfig - Theme to fetch
+   * @param mode - Resolved mode
+   */
+  private async fetchThemeVariables(themeConfig: ThemeConfig, mode: 'light' | 'dark'): Promise<Record<string, string>> {
+    const themeName = themeConfig.id;
+    const cssPath = themeConfig.modes[mode];
+
+    if (cssPath.startsWith('blob:')) {
+      // Handle blob URLs (installed themes) - always cache miss
+      PerformanceTracker.trackCacheMiss('CSS Theme Data');
+      return PerformanceTracker.measureAsync('CSS Fetch (Cold)', async () => {
+        const response = await fetch(cssPath);
+        const cssContent = await response.text();
+        return this.extractCSSVariables(cssContent);
+      });
+    }
+
+    // Handle static file themes - check for cache hit/miss
+    const isCached = this.prefetchedThemes.has(`${themeName}-${mode}`);
+
+    if (isCached) {
+      PerformanceTracker.trackCacheHit('CSS Theme Data');
+      return PerformanceTracker.measureAsync('CSS Fetch (Cached)', async () => {
+        const response = await fetch(cssPath);
+        if (!response.ok) {
+          throw new Error(`Failed to fetch CSS: ${response.status}`);
+        }
+        const cssContent = await response.text();
+        return this.extractCSSVariables(cssContent);
+      });
+    }
+
+    PerformanceTracker.trackCacheMiss('CSS Theme Data');
+    return PerformanceTracker.measureAsync('CSS Fetch (Cold)', async () => {
+      const response = await fetch(cssPath);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch CSS: ${response.status}`);
+      }
+      const cssContent = await response.text();
+      this.prefetchedThemes.add(`${themeName}-${mode}`); // Mark as cached
+      return this.extractCSSVariables(cssContent);
+    });
+  }
+
+  /**
+   * Cache applied CSS variables for the FOUC script.
+   * Route-pinned themes use their own key so the user's theme cache is never overwritten.
+   */
+  private cacheCSSVariables(themeName: string, mode: 'light' | 'dark', variables: Record<string, string>): void {
+    const key = this.activeRouteRule ? `theme-css-vars:${themeName}:${mode}` : 'theme-css-vars';
+    try {
+      ssrSafeStorage.setItem(key, JSON.stringify(variables));
+    } catch (_) {
+      // Non-fatal if localStorage is unavailable or quota exceeded
+    }
+  }
+
+  /**
+   * Cache the accent variables of both modes for the FOUC script, so a mode
+   * flip before ThemeManager loads still shows the accent. Non-blocking.
+   */
+  private cacheAccentVariables(themeName: string, mode: 'light' | 'dark'): void {
+    const color = this.accentOverride;
+    if (!color) {
+      ssrSafeStorage.removeItem(ACCENT_VARS_KEY);
+      return;
+    }
+
+    const otherMode = mode === 'dark' ? 'light' : 'dark';
+    const pickAccent = (variables: Record<string, string>) =>
+      Object.fromEntries(ACCENT_VARIABLES.map(name => [name, variables[name]]));
+    const current = pickAccent(this.withAdjustments(this.baseVariables, mode));
+
+    this.resolveThemeVariables(themeName, otherMode)
+      .catch(() => ({} as Record<string, string>))
+      .then(variables => {
+        if (this.accentOverride !== color) return;
+        const other = pickAccent(this.withAdjustments(variables, otherMode));
+        ssrSafeStorage.setItem(ACCENT_VARS_KEY, JSON.stringify({ [mode]: current, [otherMode]: other }));
+      });
+  }
+
+  /**
+   * Trigger theme transition animation (skipped under prefers-reduced-motion)
    */
   private triggerTransitionAnimation(): void {
+    if (this.prefersReducedMotion()) {
+      safeDOMManipulation(() => {
+        safeGetDocument()?.documentElement.classList.remove('theme-switching');
+      });
+      return;
+    }
+
     safeSetTimeout(() => {
       safeDOMManipulation(() => {
         const document = safeGetDocument();
@@ -611,7 +1288,7 @@ export class ThemeManager {
       if (!root) return;
 
       // Apply transition class only when theme actually changes
-      if (enableTransition && body) {
+      if (enableTransition && body && !this.prefersReducedMotion()) {
         body.classList.add('theme-transition');
         // Remove transition class after animation completes
         safeSetTimeout(() => {
@@ -671,6 +1348,69 @@ export class ThemeManager {
     }
   }
 
+  /**
+   * Apply a theme to a DOM subtree instead of the document root.
+   * Variables are set inline on the element, so nested scopes override outer ones.
+   * @param element - Root element of the scope
+   * @param themeId - Theme to apply inside the scope
+   * @param mode - Mode of the scope ('auto' follows the system preference)
+   * @returns Handle to update or dispose the scope
+   */
+  async applyToElement(element: HTMLElement, themeId: string, mode: ScopedThemeMode = 'auto'): Promise<ScopedThemeHandle> {
+    const handle = new ScopedTheme(
+      element,
+      themeId,
+      mode,
+      (theme, resolvedMode) => this.resolveThemeVariables(theme, resolvedMode),
+      disposed => this.scopedThemes.delete(disposed)
+    );
+    this.scopedThemes.add(handle);
+
+    if (!isClient()) return handle;
+
+    try {
+      await handle.update(themeId, mode);
+    } catch (error) {
+      console.error(`❌ [ThemeManager] Failed to apply "${themeId}" to element:`, error);
+      handle.dispose();
+      throw error;
+    }
+    return handle;
+  }
+
+  /**
+   * Get handles of every active scoped theme
+   */
+  getScopedThemes(): ScopedThemeHandle[] {
+    return Array.from(this.scopedThemes);
+  }
+
+  /**
+   * Resolve the full (inherited) variable set of a theme without touching the document
+   * @param themeName - Theme identifier
+   * @param mode - Resolved mode
+   */
+  private async resolveThemeVariables(themeName: string, mode: 'light' | 'dark'): Promise<Record<string, string>> {
+    const ancestorVariables = await this.loadAncestorVariables(themeName, mode);
+
+    if (this.themeResolver) {
+      const result = await this.themeResolver.resolveCSS(themeName, mode);
+      if (result.css) {
+        return mergeThemeVariables([...ancestorVariables, this.extractCSSVariables(result.css)]);
+      }
+    }
+
+    const themeConfig = this.themeResolver?.hasTheme(themeName)
+      ? this.themeResolver.getRegistry().find(t => t.id === themeName)
+      : this.themeRegistry.getTheme(themeName);
+
+    if (!themeConfig) {
+      throw new Error(`Theme not found: ${themeName}`);
+    }
+
+    return mergeThemeVariables([...ancestorVariables, await this.fetchThemeVariables(themeConfig, mode)]);
+  }
+
   /**
    * Get current theme
    */
@@ -690,11 +1430,159 @@ export class ThemeManager {
    * @returns The resolved mode based on current mode and system preferences
    */
   getEffectiveMode(): 'light' | 'dark' {
-    if (this.currentMode === 'auto') {
-      const mediaQuery = safeMatchMedia('(prefers-color-scheme: dark)');
-      return mediaQuery && mediaQuery.matches ? 'dark' : 'light';
+    const mode = this.getAppliedMode();
+    if (mode === 'auto') {
+      return this.resolveAutoMode();
     }
-    return this.currentMode;
+    return mode;
+  }
+
+  /**
+   * Get the theme actually applied (route rule override or user preference)
+   */
+  getAppliedTheme(): string {
+    const routeTheme = this.activeRouteRule?.theme;
+    return routeTheme && this.isThemeAllowed(routeTheme) ? routeTheme : this.currentTheme;
+  }
+
+  /**
+   * Get the mode actually applied (route rule override or user preference)
+   */
+  getAppliedMode(): 'light' | 'dark' | 'auto' {
+    return this.policy?.forcedMode || this.activeRouteRule?.mode || this.currentMode;
+  }
+
+  /**
+   * Configure per-route theme rules. The first rule matching `location.pathname` wins;
+   * History API navigation re-evaluates them. The user's persisted preference is never modified.
+   * @param rules - Rules in priority order (empty array to disable)
+   */
+  async setRouteRules(rules: RouteThemeRule[]): Promise<void> {
+    this.routeRules = [...rules];
+
+    this.removeNavigationListener?.();
+    this.removeNavigationListener = null;
+    if (this.routeRules.length > 0) {
+      this.removeNavigationListener = onHistoryNavigation(() => {
+        this.handleRouteChange().catch(error => {
+          console.error('❌ [ThemeManager] Failed to apply route theme rule:', error);
+        });
+      });
+    }
+
+    await this.handleRouteChange();
+  }
+
+  /**
+   * Get configured route rules
+   */
+  getRouteRules(): RouteThemeRule[] {
+    return [...this.routeRules];
+  }
+
+  /**
+   * Get the rule matching the current route, if any
+   */
+  getActiveRouteRule(): RouteThemeRule | null {
+    return this.activeRouteRule;
+  }
+
+  private matchCurrentRoute(): RouteThemeRule | null {
+    const pathname = getCurrentPathname();
+    return pathname !== null ? matchRouteThemeRule(this.routeRules, pathname) : null;
+  }
+
+  /**
+   * Re-evaluate route rules and re-apply the theme when the override changed
+   */
+  private async handleRouteChange(): Promise<void> {
+    const previous = this.getAppliedState();
+    this.activeRouteRule = this.matchCurrentRoute();
+
+    if (!this.initialized) return;
+    if (previous.theme === this.getAppliedTheme() && previous.mode === this.getAppliedMode()) return;
+
+    await this.applyAndNotify(previous);
+  }
+
+  /**
+   * Resolve 'auto' mode: the configured schedule wins over the system preference
+   */
+  private resolveAutoMode(): 'light' | 'dark' {
+    if (this.modeSchedule) {
+      return evaluateModeSchedule(this.modeSchedule).mode;
+    }
+    const mediaQuery = safeMatchMedia('(prefers-color-scheme: dark)');
+    return mediaQuery && mediaQuery.matches ? 'dark' : 'light';
+  }
+
+  /**
+   * Configure the schedule followed by 'auto' mode
+   * @param schedule - Fixed hours or solar (lat/long) schedule, `null` to follow the system preference again
+   * @returns Promise que se resuelve cuando el schedule se ha persistido y, tras init(), aplicado
+   */
+  async setModeSchedule(schedule: ModeSchedule | null): Promise<void> {
+    if (schedule && !isValidModeSchedule(schedule)) {
+      throw new Error(`Invalid mode schedule: ${JSON.stringify(schedule)}`);
+    }
+
+    const previous = this.getAppliedState();
+    this.modeSchedule = schedule;
+    this.saveThemeSettings(this.currentTheme, this.currentMode);
+    if (!this.initialized) return;
+
+    if (this.getAppliedMode() === 'auto') {
+      await this.applyAndNotify(previous);
+    }
+
+    this.scheduleModeCheck();
+  }
+
+  /**
+   * Get the schedule followed by 'auto' mode, if any
+   */
+  getModeSchedule(): ModeSchedule | null {
+    return this.modeSchedule;
+  }
+
+  /**
+   * Arm a timer for the next scheduled mode change (clamped so sleep/clock changes are caught)
+   */
+  private scheduleModeCheck(): void {
+    if (this.scheduleTimer) {
+      safeClearTimeout(this.scheduleTimer);
+      this.scheduleTimer = null;
+    }
+    if (!this.modeSchedule || !isClient()) return;
+
+    const { mode, nextChange } = evaluateModeSchedule(this.modeSchedule);
+    this.scheduledMode = mode;
+
+    const delay = Math.max(1000, Math.min(nextChange.getTime() - Date.now() + 1000, this.SCHEDULE_MAX_CHECK_MS));
+    this.scheduleTimer = safeSetTimeout(() => {
+      this.onScheduleTick().catch(error => {
+        console.error('❌ [ThemeManager] Scheduled mode change failed:', error);
+      });
+    }, delay);
+  }
+
+  /**
+   * Re-apply the theme when the schedule crossed a boundary while in 'auto' mode
+   */
+  private async onScheduleTick(): Promise<void> {
+    if (!this.modeSchedule) return;
+
+    const previousMode = this.scheduledMode;
+    this.scheduleModeCheck();
+
+    if (this.getAppliedMode() !== 'auto' || this.scheduledMode === previousMode || !previousMode) return;
+
+    console.log(`🕒 [ThemeManager] Schedule switched mode to ${this.scheduledMode}`);
+    await this.applyAndNotify({
+      theme: this.getAppliedTheme(),
+      mode: 'auto',
+      effectiveMode: previousMode
+    });
   }
 
   /**
@@ -727,7 +1615,11 @@ export class ThemeManager {
   /**
    * Install a new theme dynamically
    */
-  async installTheme(themeData: { name: string; cssVars: any }, sourceUrl?: string): Promise<ThemeConfig> {
+  async installTheme(themeData: RegistryThemeData, sourceUrl?: string): Promise<ThemeConfig> {
+    if (!this.isThemeAllowed(themeData.name)) {
+      throw rejectByPolicy(this.events, 'install', themeData.name, `Theme "${themeData.name}" is not allowed`);
+    }
+
     try {
       
       // Use theme registry to install and manage the theme
@@ -735,7 +1627,11 @@ export class ThemeManager {
       
       
       // Dispatch theme installed event
-      this.dispatchEvent('theme-installed', installedTheme);
+      this.events.emit('theme:installed', {
+        themeId: installedTheme.id,
+        theme: installedTheme,
+        sourceUrl
+      });
       
       return installedTheme;
       
@@ -757,7 +1653,7 @@ export class ThemeManager {
       await this.themeRegistry.uninstallTheme(themeId);
       
       // Dispatch theme uninstalled event
-      this.dispatchEvent('theme-uninstalled', { themeId, theme });
+      this.events.emit('theme:uninstalled', { themeId, theme });
       
     } catch (error) {
       console.error(`❌ Failed to uninstall theme ${themeId}:`, error);
@@ -850,6 +1746,9 @@ export class ThemeManager {
         const config: ThemeModeConfig = {
           currentTheme: theme,
           currentMode: mode as 'light' | 'dark' | 'auto',
+          ...(this.modeSchedule ? { schedule: this.modeSchedule } : {}),
+          ...(this.accentOverride ? { accentColor: this.accentOverride } : {}),
+          ...(this.contrastPreference !== 'auto' ? { contrast: this.contrastPreference } : {}),
           timestamp: Date.now()
         };
         
@@ -878,56 +1777,40 @@ export class ThemeManager {
    */
   
   /**
-   * Add event listener
+   * Add a typed event listener
+   * @returns Unsubscribe function
    */
-  addEventListener(event: string, callback: Function): void {
-    if (!this.eventListeners.has(event)) {
-      this.eventListeners.set(event, []);
-    }
-    this.eventListeners.get(event)!.push(callback);
+  addEventListener<K extends ThemeEventName>(event: K, listener: ThemeEventListener<K>): () => void {
+    return this.events.on(event, listener);
   }
 
   /**
-   * Remove event listener
+   * Remove a typed event listener
    */
-  removeEventListener(event: string, callback: Function): void {
-    const listeners = this.eventListeners.get(event);
-    if (listeners) {
-      const index = listeners.indexOf(callback);
-      if (index > -1) {
-        listeners.splice(index, 1);
-      }
-    }
+  removeEventListener<K extends ThemeEventName>(event: K, listener: ThemeEventListener<K>): void {
+    this.events.off(event, listener);
   }
 
   /**
-   * Dispatch event to listeners
+   * Get the event emitter shared with FontManager and ThemeInstaller
    */
-  private dispatchEvent(event: string, data?: any): void {
-    const listeners = this.eventListeners.get(event);
-    if (listeners) {
-      listeners.forEach(callback => {
-        try {
-          callback(data);
-        } catch (error) {
-          console.error(`❌ ThemeManager: Event listener error for ${event}:`, error);
-        }
-      });
-    }
+  getEventEmitter(): ThemeEventEmitter {
+    return this.events;
   }
 
   /**
    * Add theme change listener (convenience method)
+   * @returns Unsubscribe function
    */
-  onThemeChange(callback: (themeData: { theme: string; mode: 'light' | 'dark' | 'auto'; effectiveMode: 'light' | 'dark' }) => void): void {
-    this.addEventListener('theme-changed', callback);
+  onThemeChange(callback: (themeData: ThemeChangedEvent) => void): () => void {
+    return this.addEventListener('theme:changed', callback);
   }
 
   /**
    * Remove theme change listener
    */
-  offThemeChange(callback: Function): void {
-    this.removeEventListener('theme-changed', callback);
+  offThemeChange(callback: (themeData: ThemeChangedEvent) => void): void {
+    this.removeEventListener('theme:changed', callback);
   }
 
   // === SSR-FRIENDLY METHODS ===
@@ -1,4 +1,6 @@
 import { StorageManager, CachedTheme } from './storage-manager';
+import { resolveThemeChain, inheritThemeConfig } from '../utils/theme-inheritance';
+import { getRegistryItemFonts, RegistryItemCss, RegistryThemeData } from '../installers/registry-item';
 
 
 /**
@@ -14,6 +16,12 @@ export interface ThemeConfig {
   source: 'local' | 'url' | 'custom';
   category: 'built-in' | 'installed' | 'custom';
   default?: boolean;
+  /**
+   * ID of the parent theme. Variables are merged child-over-parent, so the
+   * child's mode CSS only needs the variables that differ. In registry.json
+   * `fonts`, `preview` and `config` may be omitted and are inherited.
+   */
+  extends?: string;
   modes: {
     light: string;
     dark: string;
@@ -37,6 +45,8 @@ export interface ThemeConfig {
     weights: number[];
     styles: string[];
   }>;
+  /** Raw CSS rules of the theme (registry item `css`), injected while it is active */
+  css?: RegistryItemCss;
   // For installed themes
   installedAt?: number;
   sourceUrl?: string;
@@ -44,7 +54,8 @@ export interface ThemeConfig {
 }
 
 /**
- * Registry schema for built-in themes
+ * Registry schema for built-in themes.
+ * Entries may reference each other through `extends`.
  */
 export interface ThemeRegistryData {
   version: string;
@@ -65,8 +76,12 @@ export class ThemeRegistry {
   private packageRegistryPath: string;
   private inlineRegistryData?: ThemeRegistryData;
 
-  constructor(registryPath: string = '/themes/registry.json', registryData?: ThemeRegistryData) {
-    this.storageManager = StorageManager.getInstance();
+  constructor(
+    registryPath: string = '/themes/registry.json',
+    registryData?: ThemeRegistryData,
+    storageManager: StorageManager = new StorageManager()
+  ) {
+    this.storageManager = storageManager;
     this.registryPath = registryPath;
     this.packageRegistryPath = '@mks2508/shadcn-basecoat-theme-manager/registry.json';
     this.inlineRegistryData = registryData;
@@ -205,29 +220,38 @@ export class ThemeRegistry {
       ...cached.data.cssVars.theme 
     };
 
+    // Children leave missing values empty so they are inherited from the parent
+    const orDefault = (value: string | undefined, defaultValue: string) =>
+      value || (cached.data.extends ? '' : defaultValue);
+
+    const externalFonts = getRegistryItemFonts(cached.data.cssVars);
+
     return {
       id: cached.name,
       name: cached.name,
-      label: cached.name.split('-').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' '),
-      description: `Installed theme from ${new URL(cached.url).hostname}`,
-      author: 'External',
+      label: cached.data.title || cached.name.split('-').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' '),
+      description: cached.data.description || `Installed theme from ${new URL(cached.url).hostname}`,
+      author: cached.data.author || 'External',
       version: '1.0.0',
       source: 'url',
       category: 'installed',
+      extends: cached.data.extends,
       modes: this.generateBlobURLs(cached),
       fonts: {
-        sans: allVars['font-sans'] || 'system-ui, sans-serif',
-        serif: allVars['font-serif'] || 'Georgia, serif', 
-        mono: allVars['font-mono'] || 'monospace'
+        sans: orDefault(allVars['font-sans'], 'system-ui, sans-serif'),
+        serif: orDefault(allVars['font-serif'], 'Georgia, serif'),
+        mono: orDefault(allVars['font-mono'], 'monospace')
       },
       preview: {
-        primary: allVars['primary'] || '#000',
-        background: allVars['background'] || '#fff',
-        accent: allVars['accent'] || '#f0f0f0'
+        primary: orDefault(allVars['primary'], '#000'),
+        background: orDefault(allVars['background'], '#fff'),
+        accent: orDefault(allVars['accent'], '#f0f0f0')
       },
       config: {
-        radius: allVars['radius'] || '0.5rem'
+        radius: orDefault(allVars['radius'], '0.5rem')
       },
+      externalFonts: externalFonts.length > 0 ? externalFonts : undefined,
+      css: cached.data.css,
       installedAt: cached.timestamp,
       sourceUrl: cached.url,
       enabled: true
@@ -250,6 +274,27 @@ export class ThemeRegistry {
       this.allThemes.set(theme.id, theme);
     });
 
+    this.resolveInheritance();
+  }
+
+  /**
+   * Fill omitted metadata of themes that declare `extends` from their parent chain.
+   * Broken chains are kept as-is and reported; applying them fails with a clear error.
+   */
+  private resolveInheritance(): void {
+    const declared = new Map(this.allThemes);
+
+    declared.forEach((theme, id) => {
+      if (!theme.extends) return;
+
+      try {
+        const chain = resolveThemeChain(id, themeId => declared.get(themeId));
+        const resolved = chain.reduce((parent, child) => inheritThemeConfig(parent, child));
+        this.allThemes.set(id, resolved);
+      } catch (error) {
+        console.warn(`⚠️ [ThemeRegistry] Cannot resolve inheritance for "${id}":`, error);
+      }
+    });
   }
 
   /**
@@ -268,6 +313,15 @@ export class ThemeRegistry {
     return this.allThemes.get(id) || null;
   }
 
+  /**
+   * Get the inheritance chain of a theme, ordered from root ancestor to the theme itself
+   * @throws Error if the theme or a parent is missing, or the chain is circular
+   */
+  getThemeChain(id: string): ThemeConfig[] {
+    this.ensureInitialized();
+    return resolveThemeChain(id, themeId => this.allThemes.get(themeId));
+  }
+
   /**
    * Get default theme (marked with default: true in registry)
    */
@@ -336,7 +390,7 @@ export class ThemeRegistry {
   /**
    * Install a new theme
    */
-  async installTheme(themeData: { name: string; cssVars: any }, sourceUrl: string): Promise<ThemeConfig> {
+  async installTheme(themeData: RegistryThemeData, sourceUrl: string): Promise<ThemeConfig> {
     this.ensureInitialized();
     
     try {
@@ -364,8 +418,9 @@ export class ThemeRegistry {
       }
       
       this.allThemes.set(themeConfig.id, themeConfig);
+      this.resolveInheritance();
       
-      return themeConfig;
+      return this.allThemes.get(themeConfig.id) || themeConfig;
       
     } catch (error) {
       console.error(`❌ ThemeRegistry: Failed to install theme ${themeData.name}:`, error);
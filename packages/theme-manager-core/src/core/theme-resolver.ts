@@ -11,6 +11,7 @@ import type {
 	TDiscriminatedInput,
 } from '../types/theme-resolver';
 import type { ThemeConfig } from './theme-registry';
+import { resolveThemeChain } from '../utils/theme-inheritance';
 
 import { DiskThemeResolver } from '../resolvers/disk-theme-resolver';
 import { EmbeddedThemeResolver } from '../resolvers/embedded-theme-resolver';
@@ -113,6 +114,16 @@ export class ThemeResolver {
 		return this.registryCache.has(themeId);
 	}
 
+	/**
+	 * Get the inheritance chain of a theme, ordered from root ancestor to the theme itself
+	 * @param themeId - Theme identifier
+	 * @returns Theme configs along the `extends` chain
+	 * @throws Error if a parent is missing or the chain is circular
+	 */
+	getThemeChain(themeId: string): ThemeConfig[] {
+		return resolveThemeChain(themeId, (id) => this.registryCache.get(id));
+	}
+
 	/**
 	 * Auto-detect if input is path, CSS content, or URL
 	 * @param input - String to discriminate
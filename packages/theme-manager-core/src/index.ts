@@ -2,15 +2,65 @@
 export { ThemeCore } from './core/theme-core';
 export { ThemeManager } from './core/theme-manager';
 export { FontManager } from './core/font-manager';
-export { FontLoader } from './core/font-loader';
+export { FontLoader, getFontFileKey, parseFontFaceRules, DEFAULT_FONT_LOADING } from './core/font-loader';
+export type { FontLoadingStrategy, FontLoadingOptions } from './core/font-loader';
 export { ThemeRegistry } from './core/theme-registry';
 export { StorageManager } from './core/storage-manager';
 export { ThemeResolver } from './core/theme-resolver';
+export { ScopedTheme } from './core/scoped-theme';
+export { ThemeHistory } from './core/theme-history';
 
 // Utilities
 export { PerformanceTracker } from './utils/performance-tracker';
 export { generateFOUCScript } from './utils/fouc-script';
 export type { IFOUCScriptConfig } from './utils/fouc-script';
+export { evaluateModeSchedule, getSunTimes, isValidModeSchedule } from './utils/mode-schedule';
+export type { ModeSchedule, FixedModeSchedule, SolarModeSchedule, ModeScheduleState } from './utils/mode-schedule';
+export { matchRouteThemeRule, compileRoutePattern, onHistoryNavigation } from './utils/route-theme-rules';
+export type { RouteThemeRule } from './utils/route-theme-rules';
+export { ThemeEventEmitter } from './utils/theme-event-emitter';
+export { bindHistoryShortcuts, isUndoShortcut, isRedoShortcut } from './utils/history-shortcuts';
+export { CrossTabSync, CROSS_TAB_CHANNEL } from './utils/cross-tab-sync';
+export { isThemeAllowedByPolicy, isModeAllowedByPolicy } from './utils/theme-policy';
+export type { ThemePolicy } from './utils/theme-policy';
+export { parseColor, formatOklch, contrastRatio, deriveAccentVariables, WCAG_AA_CONTRAST } from './utils/accent-color';
+export type { OklchColor } from './utils/accent-color';
+export {
+  parseThemeProfile,
+  validateThemeProfile,
+  downloadThemeProfile,
+  readThemeProfileFile,
+  THEME_PROFILE_FORMAT,
+  THEME_PROFILE_VERSION
+} from './utils/theme-profile';
+export type {
+  ThemeProfile,
+  ProfileExportOptions,
+  ProfileImportOptions,
+  ProfileImportStrategy,
+  ProfileImportResult
+} from './utils/theme-profile';
+export { deriveHighContrastVariables, WCAG_AAA_CONTRAST } from './utils/high-contrast';
+export type { ContrastPreference } from './utils/high-contrast';
+export type { CrossTabMessage, CrossTabTransport } from './utils/cross-tab-sync';
+export type { HistoryShortcutTarget } from './utils/history-shortcuts';
+export type {
+  ThemeEventMap,
+  ThemeEventName,
+  ThemeEventListener,
+  ThemeBeforeChangeEvent,
+  ThemeChangedEvent,
+  ThemeFailedEvent,
+  ModeChangedEvent,
+  ThemeInstalledEvent,
+  ThemeUninstalledEvent,
+  FontsLoadedEvent,
+  FontLoadStatus,
+  FontStatusEvent,
+  FontsChangedEvent,
+  HistoryChangedEvent,
+  PolicyRejectedEvent
+} from './types/theme-events';
 
 // Make PerformanceTracker available globally for examples
 import { PerformanceTracker } from './utils/performance-tracker';
@@ -20,15 +70,99 @@ if (typeof window !== 'undefined') {
 
 // Installers
 export { ThemeInstaller } from './installers/theme-installer';
-export { ThemeListFetcher } from './installers/theme-list-fetcher';
+export type { ThemeInstallResult } from './installers/theme-installer';
+export { ThemeListFetcher, DEFAULT_REGISTRY_SOURCE } from './installers/theme-list-fetcher';
+export type {
+  ThemeRegistrySource,
+  ExternalThemeItem,
+  ExternalRegistry
+} from './installers/theme-list-fetcher';
+export {
+  parseRegistryItem,
+  buildRegistryCSS,
+  getRegistryItemFonts,
+  REGISTRY_THEME_TYPES,
+  REGISTRY_CSS_AT_RULES
+} from './installers/registry-item';
+export type {
+  RegistryItemCss,
+  RegistryItemCssVars,
+  RegistryItemExtras,
+  RegistryThemeData,
+  ParsedRegistryItem
+} from './installers/registry-item';
 
 // Catalogs
 export * from './catalogs/font-catalog';
+export * from './catalogs/font-pairings';
+export * from './catalogs/font-search';
+export * from './catalogs/font-scripts';
 
 // Storage Adapters
 export { CookieStorageAdapter } from './adapters/cookie-storage-adapter';
+export type { CookieStorageAdapterOptions } from './adapters/cookie-storage-adapter';
 export { LocalStorageAdapter } from './adapters/local-storage-adapter';
 export type { StorageAdapter, CookieOptions } from './types/storage-adapter';
+export {
+  THEME_COOKIE_NAMES,
+  THEME_COOKIE_SECRET_ENV,
+  getThemeCookieSecret,
+  isSafeThemeName,
+  signCookieValue,
+  verifyCookieValue,
+  getCookiePayload,
+  sanitizeThemePreference,
+  readThemeCookies,
+  createThemeCookies
+} from './utils/signed-cookie';
+export type {
+  ThemeCookieMode,
+  ThemeCookiePreference,
+  ThemeCookieOptions,
+  ThemeCookieReadResult
+} from './utils/signed-cookie';
+export {
+  TYPOGRAPHY_LIMITS,
+  TYPE_SCALE_RATIOS,
+  TYPE_SCALE_STEPS,
+  sanitizeTypographyOverride,
+  buildTypographyVariables,
+  buildTypographyCSS
+} from './utils/typography';
+export type { TypographyOverride, TypographyOverrides } from './utils/typography';
+export {
+  FALLBACK_FONT_METRICS,
+  getFallbackFamilyName,
+  buildFallbackFontFace,
+  buildFontFamilyWithFallback
+} from './utils/font-fallback';
+
+// Cache Backends
+export { IndexedDBCacheBackend } from './adapters/indexeddb-cache-backend';
+export { MemoryCacheBackend } from './adapters/memory-cache-backend';
+export { SessionStorageCacheBackend } from './adapters/session-storage-cache-backend';
+export type { CacheBackend, CacheStoreName } from './types/cache-backend';
+export {
+  STORAGE_MIGRATIONS,
+  STORAGE_VERSION_KEY,
+  getLatestStorageVersion,
+  getPendingMigrations,
+  runIndexedDBMigrations,
+  runLocalStorageMigrations
+} from './utils/storage-migrations';
+export type { StorageMigration, StorageMigrationContext, StorageMigrationResult } from './utils/storage-migrations';
+export { DEFAULT_STORAGE_LIMITS, estimateStorageQuota, formatBytes } from './utils/storage-quota';
+export type { StorageLimits, StorageQuota } from './utils/storage-quota';
+
+// Remote Storage (cross-device preferences)
+export { HttpRemoteStorageAdapter } from './adapters/http-remote-storage-adapter';
+export type { HttpRemoteStorageOptions } from './adapters/http-remote-storage-adapter';
+export type {
+  RemoteStorageAdapter,
+  RemotePreferenceKey,
+  RemotePreferenceMap,
+  RemotePreferenceChange
+} from './types/remote-storage-adapter';
 
 // Framework Adapters
 export { FumadocsAdapter, fumadocsAdapter } from './adapters/fumadocs-adapter';
@@ -37,8 +171,20 @@ export type { IFumadocsAdapterConfig } from './adapters/fumadocs-adapter';
 // Types
 export type { ThemeCoreConfig, ThemeCoreInstance } from './core/theme-core';
 export type { ThemeConfig, ThemeRegistryData } from './core/theme-registry';
-export type { FontOverride } from './core/font-manager';
-export type { CachedTheme, FontOverrideConfig, ThemeModeConfig } from './core/storage-manager';
+export type { ScopedThemeHandle, ScopedThemeMode, ScopedThemeLoader } from './core/scoped-theme';
+export { FontPreview } from './core/font-preview';
+export type { FontPreviewHandle, FontPreviewOptions, FontPreviewFaceLoader } from './core/font-preview';
+export type { FontOverride, LocalFontOptions } from './core/font-manager';
+export type { ThemeHistoryEntry } from './core/theme-history';
+export type {
+  CachedTheme,
+  CachedFont,
+  FontOverrideConfig,
+  ThemeModeConfig,
+  StorageManagerOptions,
+  StorageUsage,
+  EvictionReport
+} from './core/storage-manager';
 export type { ThemeGlobalWindow, ThemeHTMLDialogElement } from './types/global';
 export type {
   IThemeResolverConfig,
@@ -0,0 +1,249 @@
+/**
+ * shadcn registry-item schema (https://ui.shadcn.com/schema/registry-item.json)
+ * as published by tweakcn and other shadcn registries.
+ *
+ * Theme items carry more than `cssVars`: raw `css` rules, npm and registry
+ * dependencies and a Tailwind config. The installer keeps all of them on the
+ * cached theme, applies `cssVars`, `css` and the declared fonts, and reports
+ * the fields a runtime theme manager cannot apply.
+ *
+ * @module registry-item
+ */
+
+/**
+ * Nested CSS rules: selectors and at-rules map to declarations or deeper rules.
+ * An empty object is a statement at-rule, e.g. `{ '@layer base, components': {} }`.
+ * Only conditional and layer at-rules are accepted (see {@link REGISTRY_CSS_AT_RULES}).
+ * @example { '@layer base': { body: { 'letter-spacing': 'var(--tracking-normal)' } } }
+ */
+export interface RegistryItemCss {
+  [selector: string]: string | RegistryItemCss;
+}
+
+export interface RegistryItemCssVars {
+  light?: Record<string, string>;
+  dark?: Record<string, string>;
+  theme?: Record<string, string>;
+}
+
+/**
+ * Blocks of a registry item stored with the theme besides its variables
+ */
+export interface RegistryItemExtras {
+  type?: string;
+  title?: string;
+  description?: string;
+  author?: string;
+  css?: RegistryItemCss;
+  dependencies?: string[];
+  devDependencies?: string[];
+  registryDependencies?: string[];
+  tailwind?: { config?: Record<string, unknown> };
+}
+
+/**
+ * Theme data of a registry item, as stored in `CachedTheme.data`
+ */
+export interface RegistryThemeData extends RegistryItemExtras {
+  name: string;
+  /** Parent theme ID, variables are inherited child-over-parent */
+  extends?: string;
+  cssVars: RegistryItemCssVars;
+}
+
+export interface ParsedRegistryItem {
+  theme: RegistryThemeData;
+  /** Fields present in the item that are stored or ignored but not applied */
+  unsupportedFields: string[];
+}
+
+/**
+ * Item types that describe a theme
+ */
+export const REGISTRY_THEME_TYPES = ['registry:theme', 'registry:style', 'registry:base'];
+
+/**
+ * At-rules allowed in registry `css`: `@import`, `@font-face`, `@plugin` etc. are rejected
+ */
+export const REGISTRY_CSS_AT_RULES = ['@layer', '@media', '@supports', '@container'];
+
+/**
+ * Characters that would close a rule, start another declaration or leave the `<style>` element
+ */
+const UNSAFE_CSS = /[{};<]|\/\*|\*\//;
+
+/**
+ * Fields applied by the theme manager (or metadata without effect)
+ */
+const APPLIED_FIELDS = [
+  '$schema', 'name', 'type', 'title', 'description', 'author', 'extends',
+  'cssVars', 'css', 'docs', 'categories', 'meta'
+];
+
+/**
+ * Fields kept on the cached theme although nothing applies them at runtime
+ */
+const STORED_FIELDS = ['dependencies', 'devDependencies', 'registryDependencies', 'tailwind'] as const;
+
+/**
+ * Parse a registry item and keep the blocks a theme needs
+ * @throws Error `Invalid theme format: <reason>` when it is not a theme item
+ */
+export function parseRegistryItem(data: unknown): ParsedRegistryItem {
+  if (!isObject(data)) {
+    throw new Error('Invalid theme format: expected a JSON object');
+  }
+  if (typeof data.name !== 'string' || data.name.length === 0) {
+    throw new Error('Invalid theme format: name: expected a non-empty string');
+  }
+  if (data.name.includes('*/')) {
+    throw new Error('Invalid theme format: name: must not contain "*/"');
+  }
+  if (data.type !== undefined && !REGISTRY_THEME_TYPES.includes(data.type as string)) {
+    throw new Error(`Invalid theme format: type: ${String(data.type)} is not a theme item`);
+  }
+
+  const cssVars = data.cssVars;
+  if (!isObject(cssVars) || !(['light', 'dark', 'theme'] as const).some(mode => isObject(cssVars[mode]))) {
+    throw new Error('Invalid theme format: cssVars: expected light, dark or theme variables');
+  }
+  if (data.css !== undefined) {
+    assertSafeCss(data.css);
+  }
+
+  const theme: RegistryThemeData = {
+    name: data.name,
+    cssVars: cssVars as RegistryItemCssVars
+  };
+  if (typeof data.extends === 'string') theme.extends = data.extends;
+  (['type', 'title', 'description', 'author'] as const).forEach(field => {
+    if (typeof data[field] === 'string') theme[field] = data[field] as string;
+  });
+  if (data.css !== undefined) theme.css = data.css as RegistryItemCss;
+
+  const unsupportedFields: string[] = [];
+  STORED_FIELDS.forEach(field => {
+    const value = data[field];
+    if (value === undefined) return;
+
+    const valid = field === 'tailwind' ? isObject(value) : isStringArray(value);
+    if (!valid) {
+      throw new Error(`Invalid theme format: ${field}: expected ${field === 'tailwind' ? 'an object' : 'an array of strings'}`);
+    }
+    (theme as unknown as Record<string, unknown>)[field] = value;
+    if (!isEmpty(value)) unsupportedFields.push(field);
+  });
+
+  Object.keys(data).forEach(field => {
+    if (!APPLIED_FIELDS.includes(field) && !(STORED_FIELDS as readonly string[]).includes(field) && !isEmpty(data[field])) {
+      unsupportedFields.push(field);
+    }
+  });
+
+  return { theme, unsupportedFields };
+}
+
+/**
+ * Serialize registry `css` rules to a stylesheet.
+ * The rules are validated again: themes stored before validation, or set through
+ * `ThemeConfig.css`, never reach the page unchecked.
+ * @throws Error `Invalid theme format: css: <reason>` for unsafe rules
+ * @example buildRegistryCSS({ '@layer base': { body: { 'letter-spacing': '0.01em' } } })
+ * // '@layer base {\n  body {\n    letter-spacing: 0.01em;\n  }\n}'
+ */
+export function buildRegistryCSS(css: RegistryItemCss): string {
+  assertSafeCss(css);
+  return serializeCss(css, '');
+}
+
+function serializeCss(css: RegistryItemCss, indent: string): string {
+  return Object.entries(css).map(([selector, body]) => {
+    if (typeof body === 'string') {
+      return `${indent}${selector}: ${body};`;
+    }
+    if (Object.keys(body).length === 0) {
+      return `${indent}${selector};`;
+    }
+    return `${indent}${selector} {\n${serializeCss(body, `${indent}  `)}\n${indent}}`;
+  }).join('\n');
+}
+
+const GENERIC_FAMILIES = [
+  'serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui', 'ui-sans-serif', 'ui-serif',
+  'ui-monospace', 'ui-rounded', '-apple-system', 'blinkmacsystemfont', 'segoe ui', 'roboto', 'helvetica',
+  'helvetica neue', 'arial', 'georgia', 'times new roman', 'menlo', 'monaco', 'consolas', 'courier new',
+  'sfmono-regular', 'liberation mono', 'noto sans', 'apple color emoji', 'segoe ui emoji', 'noto color emoji'
+];
+
+/**
+ * Web fonts declared by the `font-sans` / `font-serif` / `font-mono` variables of an item:
+ * the first family of each stack that is not generic or preinstalled
+ */
+export function getRegistryItemFonts(cssVars: RegistryItemCssVars): Array<{
+  family: string;
+  source: 'google-fonts';
+  weights: number[];
+  styles: string[];
+}> {
+  const families = new Set<string>();
+
+  [cssVars.theme, cssVars.light, cssVars.dark].forEach(vars => {
+    ['font-sans', 'font-serif', 'font-mono'].forEach(name => {
+      const stack = vars?.[name] ?? vars?.[`--${name}`];
+      const family = stack?.split(',')[0]?.trim().replace(/['"]/g, '');
+      if (family && !family.startsWith('var(') && !GENERIC_FAMILIES.includes(family.toLowerCase())) {
+        families.add(family);
+      }
+    });
+  });
+
+  return Array.from(families).map(family => ({
+    family,
+    source: 'google-fonts' as const,
+    weights: [400, 500, 600, 700],
+    styles: ['normal']
+  }));
+}
+
+/**
+ * A selector or value must not escape its rule, and only allowed at-rules may open a block
+ * @throws Error `Invalid theme format: css: <reason>`
+ */
+function assertSafeCss(value: unknown): asserts value is RegistryItemCss {
+  if (!isObject(value)) {
+    throw new Error('Invalid theme format: css: expected nested rules of string declarations');
+  }
+
+  Object.entries(value).forEach(([selector, body]) => {
+    if (UNSAFE_CSS.test(selector)) {
+      throw new Error(`Invalid theme format: css: unsafe selector "${selector}"`);
+    }
+    if (selector.trim().startsWith('@')) {
+      const atRule = selector.trim().split(/[\s(]/)[0].toLowerCase();
+      if (!REGISTRY_CSS_AT_RULES.includes(atRule) || typeof body === 'string') {
+        throw new Error(`Invalid theme format: css: unsupported at-rule "${atRule}"`);
+      }
+    }
+    if (typeof body === 'string') {
+      if (UNSAFE_CSS.test(body)) {
+        throw new Error(`Invalid theme format: css: unsafe value of "${selector}"`);
+      }
+      return;
+    }
+    assertSafeCss(body);
+  });
+}
+
+function isEmpty(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length === 0;
+  if (isObject(value)) return Object.values(value).every(isEmpty);
+  return value === undefined || value === null || value === '';
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
@@ -1,14 +1,18 @@
 import { StorageManager, CachedTheme } from '../core/storage-manager';
 import { ThemeManager } from '../core/theme-manager';
 import { ThemeListFetcher } from './theme-list-fetcher';
+import { ThemeEventEmitter } from '../utils/theme-event-emitter';
+import { rejectByPolicy } from '../utils/theme-policy';
+import { parseRegistryItem, RegistryThemeData } from './registry-item';
+import type { ThemeEventName, ThemeEventListener } from '../types/theme-events';
 
-interface ThemeData {
-  name: string;
-  cssVars: {
-    light?: Record<string, string>;
-    dark?: Record<string, string>;
-    theme?: Record<string, string>;
-  };
+/**
+ * Result of installing a registry item
+ */
+export interface ThemeInstallResult {
+  themeId: string;
+  /** Item fields stored or ignored but not applied at runtime, e.g. 'dependencies', 'tailwind' */
+  unsupportedFields: string[];
 }
 
 /**
@@ -18,11 +22,38 @@ export class ThemeInstaller {
   private storageManager: StorageManager;
   private themeListFetcher: ThemeListFetcher;
   private themeManager: ThemeManager;
+  private events: ThemeEventEmitter;
 
-  constructor(themeManager: ThemeManager) {
+  /**
+   * @param themeListFetcher Registries used by installThemeFromRegistry() and for auth headers (TweakCN by default)
+   */
+  constructor(themeManager: ThemeManager, themeListFetcher?: ThemeListFetcher) {
     this.themeManager = themeManager;
-    this.storageManager = StorageManager.getInstance();
-    this.themeListFetcher = new ThemeListFetcher();
+    this.storageManager = themeManager.getStorageManager();
+    this.themeListFetcher = themeListFetcher ?? new ThemeListFetcher(this.storageManager);
+    this.events = themeManager.getEventEmitter();
+  }
+
+  /**
+   * Registries this installer resolves theme names against
+   */
+  getThemeListFetcher(): ThemeListFetcher {
+    return this.themeListFetcher;
+  }
+
+  /**
+   * Subscribe to a typed theme event (shared with ThemeManager)
+   * @returns Unsubscribe function
+   */
+  addEventListener<K extends ThemeEventName>(event: K, listener: ThemeEventListener<K>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Unsubscribe from a typed theme event
+   */
+  removeEventListener<K extends ThemeEventName>(event: K, listener: ThemeEventListener<K>): void {
+    this.events.off(event, listener);
   }
 
   /**
@@ -35,22 +66,36 @@ export class ThemeInstaller {
 
 
   /**
-   * Install theme from URL
+   * Install theme from a shadcn registry item URL.
+   * `cssVars`, `css` and the fonts of the item are applied with the theme; dependencies
+   * and the Tailwind config are stored and reported in `unsupportedFields`.
+   * URLs of a configured registry are requested with that registry's headers.
+   * @throws Error `Invalid theme format: <reason>` when the item is not a theme
    */
-  async installFromUrl(url: string): Promise<void> {
+  async installFromUrl(url: string): Promise<ThemeInstallResult> {
+    this.assertRemoteInstallsAllowed(url);
+
     try {
       
-      const response = await fetch(url);
+      const response = await fetch(url, {
+        headers: await this.themeListFetcher.getHeadersForUrl(url)
+      });
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
 
-      const themeData = await response.json();
-      if (!this.validateThemeData(themeData)) {
-        throw new Error('Invalid theme format');
+      const { theme: themeData, unsupportedFields } = parseRegistryItem(await response.json());
+
+      if (!this.themeManager.isThemeAllowed(themeData.name)) {
+        throw rejectByPolicy(this.events, 'install', themeData.name, `Theme "${themeData.name}" is not allowed`);
+      }
+
+      if (unsupportedFields.length > 0) {
+        console.warn(`⚠️ [ThemeInstaller] "${themeData.name}" declares fields that are not applied at runtime: ${unsupportedFields.join(', ')}`);
       }
 
-      await this.processAndInstallTheme(themeData, url);
+      await this.processAndInstallTheme(themeData, url, unsupportedFields);
+      return { themeId: themeData.name, unsupportedFields };
       
     } catch (error) {
       throw error;
@@ -58,54 +103,49 @@ export class ThemeInstaller {
   }
 
   /**
-   * Install theme from registry by name
+   * Install theme from registry by name, from `sourceName` or the highest priority registry publishing it
    */
-  async installThemeFromRegistry(themeName: string): Promise<void> {
-    try {
-      
-      const registryUrl = 'https://tweakcn.com/r/registry.json';
-      const response = await fetch(registryUrl);
-      const registry = await response.json();
-      
-      if (!registry[themeName]) {
-        throw new Error(`Theme ${themeName} not found in registry`);
-      }
+  async installThemeFromRegistry(themeName: string, sourceName?: string): Promise<ThemeInstallResult> {
+    this.assertRemoteInstallsAllowed(themeName);
 
-      const themeUrl = registry[themeName];
-      await this.installFromUrl(themeUrl);
-      
-    } catch (error) {
-      throw error;
+    const theme = await this.themeListFetcher.findTheme(themeName, sourceName);
+    if (!theme) {
+      throw new Error(`Theme ${themeName} not found in ${sourceName ?? 'any registry'}`);
+    }
+
+    return this.installFromUrl(theme.installUrl ?? this.themeListFetcher.getThemeInstallUrl(themeName, theme.source));
+  }
+
+  /**
+   * Whether the policy allows installing themes from remote URLs
+   */
+  canInstallRemote(): boolean {
+    return !this.themeManager.getPolicy()?.disallowRemoteInstalls;
+  }
+
+  private assertRemoteInstallsAllowed(target: string): void {
+    if (!this.canInstallRemote()) {
+      throw rejectByPolicy(this.events, 'install', target, 'Installing themes from remote sources is disabled');
     }
   }
 
   /**
    * Process and install theme data
    */
-  private async processAndInstallTheme(themeData: ThemeData, url: string): Promise<void> {
+  private async processAndInstallTheme(themeData: RegistryThemeData, url: string, unsupportedFields: string[]): Promise<void> {
     await this.storageManager.storeTheme({
       name: themeData.name,
       url: url,
-      data: {
-        name: themeData.name,
-        cssVars: themeData.cssVars
-      },
+      data: themeData,
       installed: true,
       timestamp: Date.now()
     });
-  }
-
 
-  /**
-   * Validate theme data structure
-   */
-  private validateThemeData(data: any): data is ThemeData {
-    return data && 
-           typeof data.name === 'string' && 
-           data.name.length > 0 &&
-           typeof data.cssVars === 'object' &&
-           data.cssVars !== null &&
-           (data.cssVars.light || data.cssVars.dark || data.cssVars.theme);
+    this.events.emit('theme:installed', {
+      themeId: themeData.name,
+      sourceUrl: url,
+      ...(unsupportedFields.length > 0 ? { unsupportedFields } : {})
+    });
   }
 
   /**
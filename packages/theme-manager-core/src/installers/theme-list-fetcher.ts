@@ -1,8 +1,10 @@
 /**
- * Theme List Fetcher - Integrates with TweakCN registry for theme discovery
+ * Theme List Fetcher - Theme discovery across one or more shadcn registries
+ * (TweakCN by default, plus any internal registry configured in ThemeCoreConfig.registries)
  */
 
 import { StorageManager } from '../core/storage-manager';
+import { REGISTRY_THEME_TYPES } from './registry-item';
 
 export interface ExternalThemeItem {
   name: string;
@@ -10,6 +12,10 @@ export interface ExternalThemeItem {
   author?: string;
   version?: string;
   tags?: string[];
+  /** Name of the registry the theme comes from */
+  source?: string;
+  /** Registry item URL to pass to ThemeInstaller.installFromUrl() */
+  installUrl?: string;
   // Additional properties from registry
   [key: string]: any;
 }
@@ -20,16 +26,52 @@ export interface ExternalRegistry {
   items: ExternalThemeItem[];
 }
 
+/**
+ * A shadcn registry the themes are listed and installed from
+ */
+export interface ThemeRegistrySource {
+  /** Unique name, shown as the source of its themes */
+  name: string;
+  /** Registry index, e.g. https://tweakcn.com/r/registry.json */
+  url: string;
+  /** Item URL template, `{name}` is replaced by the theme name (default: `<registry dir>/{name}.json`) */
+  itemUrl?: string;
+  homepage?: string;
+  /** Headers sent with every request to the registry origin, e.g. `{ Authorization: 'Bearer …' }` */
+  getHeaders?: () => Record<string, string> | Promise<Record<string, string>>;
+  /** Wins over lower priorities when several registries publish the same theme name (default 0) */
+  priority?: number;
+}
+
+export const DEFAULT_REGISTRY_SOURCE: ThemeRegistrySource = {
+  name: 'TweakCN',
+  url: 'https://tweakcn.com/r/registry.json',
+  itemUrl: 'https://tweakcn.com/r/themes/{name}.json',
+  homepage: 'https://tweakcn.com',
+  priority: 0
+};
+
+interface CachedRegistry {
+  url: string;
+  timestamp: number;
+  registry: ExternalRegistry;
+}
+
 export class ThemeListFetcher {
-  private readonly REGISTRY_URL = 'https://tweakcn.com/r/registry.json';
-  private readonly STORAGE_KEY = 'tweakcn-theme-names';
-  private readonly LAST_FETCH_KEY = 'tweakcn-theme-fetch-timestamp';
+  private readonly CACHE_KEY_PREFIX = 'theme-registry-cache:';
+  // Single-registry keys of previous versions, removed by clearCache()
+  private readonly LEGACY_KEYS = ['tweakcn-theme-names', 'tweakcn-theme-fetch-timestamp'];
   private readonly CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours
-  private cache: ExternalRegistry | null = null;
+  private cache: Map<string, ExternalRegistry> = new Map();
+  private sources: ThemeRegistrySource[] = [];
   private storageManager: StorageManager;
 
-  constructor() {
-    this.storageManager = StorageManager.getInstance();
+  constructor(
+    storageManager: StorageManager = new StorageManager(),
+    sources: ThemeRegistrySource[] = [DEFAULT_REGISTRY_SOURCE]
+  ) {
+    this.storageManager = storageManager;
+    this.setSources(sources);
   }
 
   /**
@@ -40,115 +82,116 @@ export class ThemeListFetcher {
   }
 
   /**
-   * Get cached theme names from localStorage
+   * Configured registries, in declaration order
    */
-  getCachedThemeNames(): string[] {
-    try {
-      const cached = localStorage.getItem(this.STORAGE_KEY);
-      return cached ? JSON.parse(cached) : [];
-    } catch (error) {
-      console.error('❌ Failed to parse cached theme names:', error);
-      return [];
-    }
+  getSources(): ThemeRegistrySource[] {
+    return [...this.sources];
   }
 
   /**
-   * Fetch and cache theme names from TweakCN registry
+   * Replace the registries; each one keeps its own cache
+   * @throws Error when the list is empty or two registries share a name
    */
-  async fetchAndCacheThemeNames(force: boolean = false): Promise<string[]> {
-    try {
-      // Check if we need to fetch
-      if (!force && this.isCacheValid()) {
-        const cached = this.getCachedThemeNames();
-        if (cached.length > 0) {
-          
-          // Populate this.cache for fetchAvailableThemes() compatibility
-          if (!this.cache) {
-            this.cache = {
-              name: 'TweakCN Registry',
-              homepage: 'https://tweakcn.com',
-              items: cached.map(name => ({ name }))
-            };
-          }
-          
-          return cached;
-        }
-      }
-
-
-      // Direct fetch to TweakCN registry
-      const response = await fetch(this.REGISTRY_URL, {
-        method: 'GET',
-        mode: 'cors',
-        headers: {
-          'Accept': 'application/json',
-        }
-      });
+  setSources(sources: ThemeRegistrySource[]): void {
+    if (sources.length === 0) {
+      throw new Error('At least one theme registry is required');
+    }
 
-      if (!response.ok) {
-        throw new Error(`Registry fetch failed: ${response.status} ${response.statusText}`);
+    const names = new Set<string>();
+    sources.forEach(source => {
+      if (!source.name || !source.url) {
+        throw new Error('Theme registry requires a name and a url');
       }
-
-      const registry: ExternalRegistry = await response.json();
-      
-      if (!registry.items || !Array.isArray(registry.items)) {
-        throw new Error('Invalid registry format: missing items array');
+      if (names.has(source.name)) {
+        throw new Error(`Duplicate theme registry name: ${source.name}`);
       }
+      names.add(source.name);
+    });
 
-      // Cache full registry for advanced methods
-      this.cache = registry;
-
-      // Extract only theme names and basic info for storage
-      const themeNames = registry.items.map(item => item.name);
+    this.sources = sources.map(source => ({ ...source }));
+    this.cache.clear();
+  }
 
-      // Store in localStorage
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(themeNames));
-      localStorage.setItem(this.LAST_FETCH_KEY, Date.now().toString());
+  /**
+   * Get cached theme names of every registry from localStorage
+   */
+  getCachedThemeNames(): string[] {
+    const names = this.sources.flatMap(source => this.readCache(source)?.registry.items.map(item => item.name) ?? []);
+    return [...new Set(names)];
+  }
 
-      return themeNames;
+  /**
+   * Fetch and cache theme names from every registry
+   */
+  async fetchAndCacheThemeNames(force: boolean = false): Promise<string[]> {
+    const themes = await this.fetchAvailableThemes(force);
+    return themes.map(theme => theme.name);
+  }
 
-    } catch (error) {
-      console.error('❌ ThemeListFetcher: Failed to fetch themes:', error);
-      
-      // Return cached data if available
-      const cached = this.getCachedThemeNames();
-      if (cached.length > 0) {
-        return cached;
-      }
+  /**
+   * Get theme install URL by name: the registry that publishes it, or the highest priority one
+   * @throws Error when `sourceName` is not a configured registry
+   */
+  getThemeInstallUrl(themeName: string, sourceName?: string): string {
+    const candidates = sourceName
+      ? this.sources.filter(source => source.name === sourceName)
+      : this.getSourcesByPriority();
 
-      throw error;
+    if (candidates.length === 0) {
+      throw new Error(`Unknown theme registry: ${sourceName}`);
     }
+
+    const source = candidates.find(candidate =>
+      this.getKnownItems(candidate).some(item => item.name === themeName)
+    ) ?? candidates[0];
+
+    return this.buildItemUrl(source, themeName);
   }
 
   /**
-   * Get theme install URL by name (direct to TweakCN)
+   * Fetch available themes of all registries, de-duplicated by name.
+   * A theme published by several registries is taken from the highest priority one
+   * (declaration order on ties). Registries that fail are skipped.
+   * @throws Error when no registry can be fetched and none is cached
    */
-  getThemeInstallUrl(themeName: string): string {
-    return `https://tweakcn.com/r/themes/${themeName}.json`;
+  async fetchAvailableThemes(force: boolean = false): Promise<ExternalThemeItem[]> {
+    const results = await Promise.allSettled(this.sources.map(source => this.loadRegistry(source, force)));
+
+    const failed = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failed.length === results.length) {
+      throw failed[0].reason;
+    }
+
+    const themes = new Map<string, ExternalThemeItem>();
+    this.getSourcesByPriority().forEach(source => {
+      this.cache.get(source.name)?.items.forEach(item => {
+        if (!themes.has(item.name)) {
+          themes.set(item.name, item);
+        }
+      });
+    });
+
+    return Array.from(themes.values());
   }
 
   /**
-   * Fetch available themes with full metadata (for advanced operations)
+   * Find a theme by name, in a given registry or in the merged list
    */
-  async fetchAvailableThemes(): Promise<ExternalThemeItem[]> {
-    // If we have cache, use it
-    if (this.cache && this.cache.items) {
-      return this.cache.items;
+  async findTheme(themeName: string, sourceName?: string): Promise<ExternalThemeItem | null> {
+    if (sourceName && !this.sources.some(source => source.name === sourceName)) {
+      throw new Error(`Unknown theme registry: ${sourceName}`);
     }
 
-    // Otherwise, fetch and populate cache
-    await this.fetchAndCacheThemeNames();
-    
-    if (!this.cache || !this.cache.items) {
-      console.error('❌ ThemeListFetcher: Cache still empty after fetch');
-      return [];
+    const themes = await this.fetchAvailableThemes();
+    if (!sourceName) {
+      return themes.find(theme => theme.name === themeName) ?? null;
     }
-    
-    return this.cache.items;
+
+    return this.cache.get(sourceName)?.items.find(item => item.name === themeName) ?? null;
   }
 
   /**
-   * Search themes by name or description
+   * Search themes by name, description, author, tags or registry name
    */
   async searchThemes(query: string): Promise<ExternalThemeItem[]> {
     const themes = await this.fetchAvailableThemes();
@@ -156,10 +199,11 @@ export class ThemeListFetcher {
 
     if (!searchTerm) return themes;
 
-    return themes.filter(theme => 
+    return themes.filter(theme =>
       theme.name.toLowerCase().includes(searchTerm) ||
       (theme.description && theme.description.toLowerCase().includes(searchTerm)) ||
       (theme.author && theme.author.toLowerCase().includes(searchTerm)) ||
+      (theme.source && theme.source.toLowerCase().includes(searchTerm)) ||
       (theme.tags && theme.tags.some(tag => tag.toLowerCase().includes(searchTerm)))
     );
   }
@@ -172,42 +216,45 @@ export class ThemeListFetcher {
     const allTags = themes
       .filter(theme => theme.tags)
       .flatMap(theme => theme.tags || []);
-    
+
     return [...new Set(allTags)].sort();
   }
 
   /**
-   * Check if cache is still valid
+   * Headers of the registry serving `url` (matched by origin), for item requests
    */
-  private isCacheValid(): boolean {
-    try {
-      const lastFetch = localStorage.getItem(this.LAST_FETCH_KEY);
-      if (!lastFetch) return false;
-      
-      const lastFetchTime = parseInt(lastFetch);
-      return (Date.now() - lastFetchTime) < this.CACHE_DURATION;
-    } catch (error) {
-      return false;
-    }
+  async getHeadersForUrl(url: string): Promise<Record<string, string>> {
+    const origin = getOrigin(url);
+    const source = origin
+      ? this.getSourcesByPriority().find(candidate =>
+        getOrigin(candidate.url) === origin || (candidate.itemUrl && getOrigin(candidate.itemUrl) === origin))
+      : undefined;
+
+    return source ? this.getSourceHeaders(source) : {};
   }
 
   /**
-   * Clear cache (useful for force refresh)
+   * Clear cache of every registry (useful for force refresh)
    */
   clearCache(): void {
-    localStorage.removeItem(this.STORAGE_KEY);
-    localStorage.removeItem(this.LAST_FETCH_KEY);
+    this.cache.clear();
+    this.sources.forEach(source => localStorage.removeItem(this.getCacheKey(source)));
+    this.LEGACY_KEYS.forEach(key => localStorage.removeItem(key));
   }
 
   /**
-   * Get registry info
+   * Get registry info, of the highest priority registry by default
    */
-  async getRegistryInfo(): Promise<{ name: string; homepage: string } | null> {
-    // const themes = await this.fetchAvailableThemes();
-    if (this.cache) {
+  async getRegistryInfo(sourceName?: string): Promise<{ name: string; homepage: string } | null> {
+    const source = sourceName
+      ? this.sources.find(candidate => candidate.name === sourceName)
+      : this.getSourcesByPriority()[0];
+    const registry = source && this.cache.get(source.name);
+
+    if (registry) {
       return {
-        name: this.cache.name,
-        homepage: this.cache.homepage
+        name: registry.name,
+        homepage: registry.homepage
       };
     }
     return null;
@@ -217,9 +264,132 @@ export class ThemeListFetcher {
    * Fetch theme list - alias for fetchAvailableThemes
    */
   async fetchThemeList(forceRefresh: boolean = false): Promise<ExternalThemeItem[]> {
-    if (!forceRefresh && this.cache && this.cache.items) {
-      return this.cache.items;
+    return await this.fetchAvailableThemes(forceRefresh);
+  }
+
+  /**
+   * Load the items of one registry: memory, then a fresh localStorage entry, then the network.
+   * A failed fetch falls back to a stale entry.
+   */
+  private async loadRegistry(source: ThemeRegistrySource, force: boolean): Promise<ExternalThemeItem[]> {
+    if (!force) {
+      const memory = this.cache.get(source.name);
+      if (memory) return memory.items;
+
+      const cached = this.readCache(source);
+      if (cached && (Date.now() - cached.timestamp) < this.CACHE_DURATION) {
+        this.cache.set(source.name, cached.registry);
+        return cached.registry.items;
+      }
+    }
+
+    try {
+      const response = await fetch(source.url, {
+        method: 'GET',
+        mode: 'cors',
+        headers: {
+          'Accept': 'application/json',
+          ...(await this.getSourceHeaders(source))
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error(`Registry fetch failed: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+
+      if (!data || !Array.isArray(data.items)) {
+        throw new Error('Invalid registry format: missing items array');
+      }
+
+      const registry: ExternalRegistry = {
+        name: typeof data.name === 'string' ? data.name : source.name,
+        homepage: typeof data.homepage === 'string' ? data.homepage : source.homepage ?? getOrigin(source.url) ?? '',
+        items: (data.items as ExternalThemeItem[])
+          .filter(item => typeof item?.name === 'string' && (item.type === undefined || REGISTRY_THEME_TYPES.includes(item.type)))
+          .map(item => ({ ...item, source: source.name, installUrl: this.buildItemUrl(source, item.name) }))
+      };
+
+      this.cache.set(source.name, registry);
+      this.writeCache(source, registry);
+
+      return registry.items;
+
+    } catch (error) {
+      console.error(`❌ ThemeListFetcher: Failed to fetch themes from ${source.name}:`, error);
+
+      // Return cached data if available
+      const cached = this.readCache(source);
+      if (cached && cached.registry.items.length > 0) {
+        this.cache.set(source.name, cached.registry);
+        return cached.registry.items;
+      }
+
+      throw error;
     }
-    return await this.fetchAvailableThemes();
   }
-}
\ No newline at end of file
+
+  /**
+   * Items of a registry already in memory or localStorage (no network)
+   */
+  private getKnownItems(source: ThemeRegistrySource): ExternalThemeItem[] {
+    return this.cache.get(source.name)?.items ?? this.readCache(source)?.registry.items ?? [];
+  }
+
+  /**
+   * Highest priority first, declaration order on ties
+   */
+  private getSourcesByPriority(): ThemeRegistrySource[] {
+    return this.sources
+      .map((source, index) => ({ source, index }))
+      .sort((a, b) => (b.source.priority ?? 0) - (a.source.priority ?? 0) || a.index - b.index)
+      .map(({ source }) => source);
+  }
+
+  private buildItemUrl(source: ThemeRegistrySource, themeName: string): string {
+    const template = source.itemUrl ?? `${source.url.slice(0, source.url.lastIndexOf('/') + 1)}{name}.json`;
+    return template.replace('{name}', encodeURIComponent(themeName));
+  }
+
+  private async getSourceHeaders(source: ThemeRegistrySource): Promise<Record<string, string>> {
+    return source.getHeaders ? await source.getHeaders() : {};
+  }
+
+  private getCacheKey(source: ThemeRegistrySource): string {
+    return `${this.CACHE_KEY_PREFIX}${source.name}`;
+  }
+
+  /**
+   * Cached entry of a registry; entries written for another URL are ignored
+   */
+  private readCache(source: ThemeRegistrySource): CachedRegistry | null {
+    try {
+      const cached = localStorage.getItem(this.getCacheKey(source));
+      if (!cached) return null;
+
+      const entry: CachedRegistry = JSON.parse(cached);
+      return entry.url === source.url && Array.isArray(entry.registry?.items) ? entry : null;
+    } catch (error) {
+      console.error(`❌ Failed to parse cached themes of ${source.name}:`, error);
+      return null;
+    }
+  }
+
+  private writeCache(source: ThemeRegistrySource, registry: ExternalRegistry): void {
+    try {
+      const entry: CachedRegistry = { url: source.url, timestamp: Date.now(), registry };
+      localStorage.setItem(this.getCacheKey(source), JSON.stringify(entry));
+    } catch (error) {
+      console.warn(`⚠️ [ThemeListFetcher] Could not cache themes of ${source.name}:`, error);
+    }
+  }
+}
+
+function getOrigin(url: string): string | null {
+  try {
+    return new URL(url, typeof location !== 'undefined' ? location.href : undefined).origin;
+  } catch {
+    return null;
+  }
+}
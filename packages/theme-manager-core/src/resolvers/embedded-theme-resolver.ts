@@ -77,6 +77,10 @@ export class EmbeddedThemeResolver {
 			version: data.metadata?.version || '1.0.0',
 			source: 'local' as const,
 			category: 'built-in' as const,
+			extends:
+				data.extends ||
+				data.metadata?.extends ||
+				this.parseCSSMetadata(data.light).extends,
 			modes: {
 				light: `embedded://${id}-light`,
 				dark: `embedded://${id}-dark`,
@@ -0,0 +1,60 @@
+/**
+ * Async cache backend interface for StorageManager
+ * Stores themes and font configuration (IndexedDB, in-memory, sessionStorage, custom...)
+ */
+
+/**
+ * Logical stores kept by StorageManager
+ * - themes: CachedTheme records keyed by `name`
+ * - font-config: font override configuration keyed by `id`
+ * - fonts: CachedFont records (downloaded font CSS) keyed by `fontKey`
+ */
+export type CacheStoreName = 'themes' | 'font-config' | 'fonts';
+
+export interface CacheBackend {
+  /**
+   * Backend name, used in logs
+   */
+  readonly name: string;
+
+  /**
+   * Prepare the backend. Reject when it is not usable in this environment
+   * so StorageManager can fall back to memory.
+   */
+  init(): Promise<void>;
+
+  /**
+   * Get a record by key
+   */
+  get<T>(store: CacheStoreName, key: string): Promise<T | null>;
+
+  /**
+   * Get every record of a store
+   */
+  getAll<T>(store: CacheStoreName): Promise<T[]>;
+
+  /**
+   * Insert or replace a record
+   */
+  put<T>(store: CacheStoreName, key: string, value: T): Promise<void>;
+
+  /**
+   * Delete a record (no-op when missing)
+   */
+  delete(store: CacheStoreName, key: string): Promise<void>;
+
+  /**
+   * Remove every record of a store (optional)
+   */
+  clear?(store: CacheStoreName): Promise<void>;
+
+  /**
+   * Schema version stored on disk, without upgrading it (optional, used by migration dry-runs)
+   */
+  getSchemaVersion?(): Promise<number>;
+
+  /**
+   * Release connections (optional)
+   */
+  close?(): void;
+}
@@ -0,0 +1,41 @@
+/**
+ * Remote storage adapter interface for user preferences
+ * Lets StorageManager sync theme/mode and font configuration across devices
+ */
+
+import type { ThemeModeConfig, FontOverrideConfig } from '../core/storage-manager';
+
+/**
+ * Preferences synced with the remote store, by key
+ */
+export interface RemotePreferenceMap {
+  'theme-mode-config': ThemeModeConfig;
+  'font-override-config': FontOverrideConfig;
+}
+
+export type RemotePreferenceKey = keyof RemotePreferenceMap;
+
+/**
+ * A preference that changed remotely and won the timestamp comparison
+ */
+export type RemotePreferenceChange = {
+  [K in RemotePreferenceKey]: { key: K; value: RemotePreferenceMap[K] }
+}[RemotePreferenceKey];
+
+export interface RemoteStorageAdapter {
+  /**
+   * Get a preference from the remote store (null when never written)
+   */
+  get<K extends RemotePreferenceKey>(key: K): Promise<RemotePreferenceMap[K] | null>;
+
+  /**
+   * Write a preference to the remote store
+   */
+  set<K extends RemotePreferenceKey>(key: K, value: RemotePreferenceMap[K]): Promise<void>;
+
+  /**
+   * Listen for preferences written by other devices
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (change: RemotePreferenceChange) => void): () => void;
+}
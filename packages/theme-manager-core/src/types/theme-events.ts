@@ -0,0 +1,124 @@
+/**
+ * Typed event map shared by ThemeManager, FontManager and ThemeInstaller
+ */
+
+import type { ThemeConfig } from '../core/theme-registry';
+import type { FontOverride } from '../core/font-manager';
+
+export type ThemeMode = 'light' | 'dark' | 'auto';
+
+/**
+ * Dispatched before a theme/mode change is applied.
+ * Calling `cancel()` aborts the change.
+ */
+export interface ThemeBeforeChangeEvent {
+  theme: string;
+  mode: ThemeMode;
+  previousTheme: string;
+  previousMode: ThemeMode;
+  readonly cancelled: boolean;
+  cancel(): void;
+}
+
+export interface ThemeChangedEvent {
+  theme: string;
+  mode: ThemeMode;
+  effectiveMode: 'light' | 'dark';
+  previousTheme: string;
+  previousMode: ThemeMode;
+}
+
+export interface ThemeFailedEvent {
+  theme: string;
+  mode: ThemeMode;
+  error: Error;
+}
+
+export interface ModeChangedEvent {
+  mode: ThemeMode;
+  effectiveMode: 'light' | 'dark';
+  previousMode: ThemeMode;
+  previousEffectiveMode: 'light' | 'dark';
+}
+
+export interface ThemeInstalledEvent {
+  themeId: string;
+  /** Registry entry, when the theme was registered through ThemeManager */
+  theme?: ThemeConfig;
+  sourceUrl?: string;
+  /** Registry item fields that were not applied (ThemeInstaller installs) */
+  unsupportedFields?: string[];
+}
+
+export interface ThemeUninstalledEvent {
+  themeId: string;
+  theme?: ThemeConfig | null;
+}
+
+export interface FontsLoadedEvent {
+  /** Font families that finished loading */
+  families: string[];
+  /** 'override' for FontManager overrides, 'theme' for fonts declared by a theme */
+  source: 'override' | 'theme';
+}
+
+/**
+ * - loading: the font was requested
+ * - loaded: the font files are ready
+ * - timeout: not ready within the loading timeout (fallback shown; may still load later)
+ * - error: the font could not be loaded
+ */
+export type FontLoadStatus = 'loading' | 'loaded' | 'timeout' | 'error';
+
+export interface FontStatusEvent {
+  family: string;
+  status: FontLoadStatus;
+  /** 'override' for FontManager overrides, 'theme' for fonts declared by a theme */
+  source: 'override' | 'theme';
+  error?: Error;
+}
+
+export interface FontsChangedEvent {
+  /** Font override configuration after the change */
+  override: FontOverride;
+  /** 'remote' when the change was received from another tab */
+  source: 'local' | 'remote';
+}
+
+export interface HistoryChangedEvent {
+  /** What changed the history stacks */
+  action: 'record' | 'undo' | 'redo' | 'clear';
+  /** Label of the entry that was recorded, undone or redone */
+  label?: string;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export interface PolicyRejectedEvent {
+  /** What was rejected */
+  action: 'theme' | 'mode' | 'font' | 'install';
+  /** Rejected value (theme id, mode, font id or URL) */
+  value: string;
+  /** Human readable reason */
+  reason: string;
+  /** Error thrown to the caller */
+  error: Error;
+}
+
+export interface ThemeEventMap {
+  'theme:before-change': ThemeBeforeChangeEvent;
+  'theme:changed': ThemeChangedEvent;
+  'theme:failed': ThemeFailedEvent;
+  'mode:changed': ModeChangedEvent;
+  'theme:installed': ThemeInstalledEvent;
+  'theme:uninstalled': ThemeUninstalledEvent;
+  'fonts:loaded': FontsLoadedEvent;
+  'fonts:status': FontStatusEvent;
+  'fonts:changed': FontsChangedEvent;
+  'history:changed': HistoryChangedEvent;
+  'policy:rejected': PolicyRejectedEvent;
+}
+
+export type ThemeEventName = keyof ThemeEventMap;
+
+export type ThemeEventListener<K extends ThemeEventName> = (event: ThemeEventMap[K]) => void;
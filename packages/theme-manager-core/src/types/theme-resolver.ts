@@ -37,6 +37,8 @@ export interface IEmbeddedThemeData {
 	dark: string;
 	/** Optional theme metadata */
 	metadata?: IThemeMetadata;
+	/** Parent theme ID; only the differing variables need to be embedded */
+	extends?: string;
 }
 
 /**
@@ -52,6 +54,8 @@ export interface IThemeMetadata {
 	author?: string;
 	/** Theme version */
 	version?: string;
+	/** Parent theme ID (`/* @theme: extends: synthwave84 *\/`) */
+	extends?: string;
 }
 
 /**
@@ -0,0 +1,278 @@
+/**
+ * Accent color override: derives the primary/ring/accent variables of a theme
+ * from a single brand color, in OKLCH, with WCAG AA contrast guaranteed against
+ * the theme's background.
+ *
+ * Accepted inputs: `#rgb`, `#rrggbb`, `rgb()`, `hsl()`, `oklch()` and the bare
+ * shadcn HSL form (`221 83% 53%`). Alpha is ignored.
+ *
+ * @module accent-color
+ */
+
+export interface OklchColor {
+  /** Lightness 0-1 */
+  l: number;
+  /** Chroma (0 - ~0.37 for sRGB) */
+  c: number;
+  /** Hue in degrees */
+  h: number;
+}
+
+type Rgb = [number, number, number];
+
+/** Minimum WCAG AA contrast ratio for normal text */
+export const WCAG_AA_CONTRAST = 4.5;
+
+/** localStorage key with the derived accent variables of both modes (FOUC replay) */
+export const ACCENT_VARS_KEY = 'theme-accent-vars';
+
+/** Variables written by {@link deriveAccentVariables} */
+export const ACCENT_VARIABLES = [
+  '--primary',
+  '--primary-foreground',
+  '--ring',
+  '--accent',
+  '--accent-foreground',
+  '--sidebar-primary',
+  '--sidebar-primary-foreground',
+  '--sidebar-ring',
+  '--sidebar-accent',
+  '--sidebar-accent-foreground'
+] as const;
+
+const FALLBACK_BACKGROUND: Record<'light' | 'dark', OklchColor> = {
+  light: { l: 1, c: 0, h: 0 },
+  dark: { l: 0.145, c: 0, h: 0 }
+};
+
+/**
+ * Parse a CSS color into OKLCH
+ * @returns null when the value is not a supported color
+ */
+export function parseColor(value: string): OklchColor | null {
+  const input = value.trim().toLowerCase();
+
+  if (input.startsWith('#')) {
+    const rgb = parseHex(input.slice(1));
+    return rgb ? rgbToOklch(rgb) : null;
+  }
+
+  const fn = input.match(/^(rgba?|hsla?|oklch)\((.*)\)$/);
+  const args = splitArgs(fn ? fn[2] : input);
+  if (!args) return null;
+
+  const kind = fn ? fn[1] : 'hsl';
+  if (kind.startsWith('rgb')) {
+    const rgb = args.map(arg => arg.endsWith('%') ? parseFloat(arg) / 100 : parseFloat(arg) / 255) as Rgb;
+    return rgb.every(isUnit) ? rgbToOklch(rgb) : null;
+  }
+  if (kind.startsWith('hsl')) {
+    const [h, s, l] = [parseFloat(args[0]), parseFloat(args[1]) / 100, parseFloat(args[2]) / 100];
+    return [h, s, l].every(Number.isFinite) && isUnit(s) && isUnit(l) ? rgbToOklch(hslToRgb(h, s, l)) : null;
+  }
+
+  const l = args[0].endsWith('%') ? parseFloat(args[0]) / 100 : parseFloat(args[0]);
+  const c = parseFloat(args[1]);
+  const h = args[2] === 'none' ? 0 : parseFloat(args[2]);
+  return [l, c, h].every(Number.isFinite) && isUnit(l) && c >= 0 ? { l, c, h: normalizeHue(h) } : null;
+}
+
+/**
+ * Format an OKLCH color as a CSS `oklch()` value
+ */
+export function formatOklch(color: OklchColor): string {
+  const round = (n: number, digits: number) => Number(n.toFixed(digits));
+  return `oklch(${round(color.l, 3)} ${round(color.c, 3)} ${round(color.c < 0.0005 ? 0 : color.h, 3)})`;
+}
+
+/**
+ * WCAG 2.x contrast ratio between two colors (1-21)
+ */
+export function contrastRatio(a: OklchColor, b: OklchColor): number {
+  const [la, lb] = [relativeLuminance(a), relativeLuminance(b)];
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+}
+
+/**
+ * Derive the accent CSS variables for one mode
+ * @param color - Accent color (any supported format)
+ * @param background - The theme's `--background` value; mode default when missing/unparseable
+ * @param mode - Resolved mode, picks the fallback background
+ * @throws Error when `color` is not a supported color
+ */
+export function deriveAccentVariables(
+  color: string,
+  background: string | undefined,
+  mode: 'light' | 'dark'
+): Record<string, string> {
+  const accent = parseColor(color);
+  if (!accent) {
+    throw new Error(`Invalid accent color: ${color}`);
+  }
+  const bg = (background && parseColor(background)) || FALLBACK_BACKGROUND[mode];
+  const darkBackground = relativeLuminance(bg) < 0.18;
+
+  const primary = ensureContrast(toGamut(accent), bg, darkBackground ? 1 : -1);
+  const primaryForeground = pickForeground(primary);
+
+  // Subtle tinted surface close to the background, with readable text on it
+  const surface = toGamut({
+    l: darkBackground ? Math.min(bg.l + 0.12, 0.4) : Math.max(bg.l - 0.04, 0.9),
+    c: Math.min(accent.c, 0.04),
+    h: accent.h
+  });
+  const surfaceForeground = ensureContrast(
+    toGamut({ l: darkBackground ? 0.95 : 0.25, c: Math.min(accent.c, 0.06), h: accent.h }),
+    surface,
+    darkBackground ? 1 : -1
+  );
+
+  const vars = {
+    '--primary': formatOklch(primary),
+    '--primary-foreground': formatOklch(primaryForeground),
+    '--ring': formatOklch(primary),
+    '--accent': formatOklch(surface),
+    '--accent-foreground': formatOklch(surfaceForeground)
+  };
+
+  return {
+    ...vars,
+    '--sidebar-primary': vars['--primary'],
+    '--sidebar-primary-foreground': vars['--primary-foreground'],
+    '--sidebar-ring': vars['--ring'],
+    '--sidebar-accent': vars['--accent'],
+    '--sidebar-accent-foreground': vars['--accent-foreground']
+  };
+}
+
+/**
+ * Move lightness away from `against` until `target` is met. When L hits 0/1
+ * first (mid-tone backgrounds) the opposite direction is tried.
+ * @param direction - -1 to darken, 1 to lighten
+ * @param target - Contrast ratio to reach (AA by default)
+ */
+export function ensureContrast(
+  color: OklchColor,
+  against: OklchColor,
+  direction: 1 | -1,
+  target: number = WCAG_AA_CONTRAST
+): OklchColor {
+  const shift = (dir: 1 | -1): OklchColor => {
+    let current = color;
+    while (contrastRatio(current, against) < target) {
+      const l = Math.min(1, Math.max(0, current.l + dir * 0.01));
+      if (l === current.l) break;
+      current = toGamut({ ...current, l });
+    }
+    return current;
+  };
+
+  const preferred = shift(direction);
+  if (contrastRatio(preferred, against) >= target) return preferred;
+  const opposite = shift(direction === 1 ? -1 : 1);
+  return contrastRatio(opposite, against) > contrastRatio(preferred, against) ? opposite : preferred;
+}
+
+/**
+ * Near-white or near-black text, whichever reads better; pure white/black if needed for AA
+ */
+function pickForeground(color: OklchColor): OklchColor {
+  const light = { l: 0.985, c: 0, h: 0 };
+  const dark = { l: 0.205, c: 0, h: 0 };
+  const best = contrastRatio(light, color) >= contrastRatio(dark, color) ? light : dark;
+  if (contrastRatio(best, color) >= WCAG_AA_CONTRAST) return best;
+
+  // Pure white or black always reaches ~4.58:1 against some side
+  const white = { l: 1, c: 0, h: 0 };
+  const black = { l: 0, c: 0, h: 0 };
+  return contrastRatio(white, color) >= contrastRatio(black, color) ? white : black;
+}
+
+/**
+ * Reduce chroma until the color fits in sRGB
+ */
+export function toGamut(color: OklchColor): OklchColor {
+  if (isInGamut(oklchToLinearRgb(color))) return color;
+
+  let [low, high] = [0, color.c];
+  while (high - low > 0.0005) {
+    const mid = (low + high) / 2;
+    if (isInGamut(oklchToLinearRgb({ ...color, c: mid }))) low = mid; else high = mid;
+  }
+  return { ...color, c: low };
+}
+
+/**
+ * WCAG relative luminance (0 black - 1 white)
+ */
+export function relativeLuminance(color: OklchColor): number {
+  const [r, g, b] = oklchToLinearRgb(color).map(v => Math.min(1, Math.max(0, v)));
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+// ----- Conversions (OKLab by Björn Ottosson) -----
+
+function rgbToOklch(rgb: Rgb): OklchColor {
+  const [r, g, b] = rgb.map(srgbToLinear);
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  const L = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s;
+  const A = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s;
+  const B = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s;
+
+  return { l: L, c: Math.sqrt(A * A + B * B), h: normalizeHue((Math.atan2(B, A) * 180) / Math.PI) };
+}
+
+function oklchToLinearRgb({ l: L, c, h }: OklchColor): Rgb {
+  const A = c * Math.cos((h * Math.PI) / 180);
+  const B = c * Math.sin((h * Math.PI) / 180);
+
+  const l = (L + 0.3963377774 * A + 0.2158037573 * B) ** 3;
+  const m = (L - 0.1055613458 * A - 0.0638541728 * B) ** 3;
+  const s = (L - 0.0894841775 * A - 1.291485548 * B) ** 3;
+
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s
+  ];
+}
+
+function srgbToLinear(v: number): number {
+  return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+}
+
+function hslToRgb(h: number, s: number, l: number): Rgb {
+  const k = (n: number) => (n + normalizeHue(h) / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+  return [f(0), f(8), f(4)];
+}
+
+function parseHex(hex: string): Rgb | null {
+  if (!/^([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.test(hex)) return null;
+  const full = hex.length <= 4 ? hex.split('').map(ch => ch + ch).join('') : hex;
+  return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16) / 255) as Rgb;
+}
+
+/**
+ * Split `a b c`, `a, b, c` or `a b c / alpha` into the three channel tokens
+ */
+function splitArgs(body: string): string[] | null {
+  const args = body.split('/')[0].split(/[\s,]+/).filter(Boolean);
+  return args.length === 3 || args.length === 4 ? args.slice(0, 3) : null;
+}
+
+function isInGamut(rgb: Rgb): boolean {
+  return rgb.every(v => v >= -0.0001 && v <= 1.0001);
+}
+
+function isUnit(n: number): boolean {
+  return Number.isFinite(n) && n >= 0 && n <= 1;
+}
+
+function normalizeHue(h: number): number {
+  return ((h % 360) + 360) % 360;
+}
@@ -0,0 +1,126 @@
+/**
+ * Cross-tab synchronization of theme, mode and font overrides.
+ *
+ * Uses BroadcastChannel where available. Otherwise messages are written to a
+ * localStorage key and picked up by other tabs through the `storage` event.
+ * Neither transport delivers a message back to the tab that posted it.
+ *
+ * @module cross-tab-sync
+ */
+
+import type { FontOverride } from '../core/font-manager';
+import { isClient, safeGetWindow, safeAddEventListener, ssrSafeStorage } from './ssr-utils';
+
+export type CrossTabMessage =
+  | { type: 'theme'; theme: string; mode: 'light' | 'dark' | 'auto' }
+  | { type: 'fonts'; override: FontOverride };
+
+export type CrossTabTransport = 'broadcast-channel' | 'storage' | 'none';
+
+/** BroadcastChannel name and localStorage key used by the fallback */
+export const CROSS_TAB_CHANNEL = 'theme-manager-sync';
+
+/**
+ * CrossTabSync - Posts and receives {@link CrossTabMessage}s between tabs of the same origin
+ */
+export class CrossTabSync {
+  private channel: BroadcastChannel | null = null;
+  private removeStorageListener: (() => void) | null = null;
+  private listeners: Set<(message: CrossTabMessage) => void> = new Set();
+  private readonly tabId = Math.random().toString(36).slice(2);
+  readonly transport: CrossTabTransport;
+
+  /**
+   * @param preferredTransport - Force the storage fallback (mostly for tests); defaults to the best available
+   */
+  constructor(preferredTransport?: Exclude<CrossTabTransport, 'none'>) {
+    const window = safeGetWindow();
+
+    if (!isClient() || !window) {
+      this.transport = 'none';
+      return;
+    }
+
+    if (preferredTransport !== 'storage' && typeof BroadcastChannel !== 'undefined') {
+      this.transport = 'broadcast-channel';
+      this.channel = new BroadcastChannel(CROSS_TAB_CHANNEL);
+      this.channel.onmessage = (event: MessageEvent) => this.dispatch(event.data);
+      return;
+    }
+
+    this.transport = 'storage';
+    this.removeStorageListener = safeAddEventListener(window, 'storage', (event: StorageEvent) => {
+      if (event.key !== CROSS_TAB_CHANNEL || !event.newValue) return;
+      try {
+        this.dispatch(JSON.parse(event.newValue));
+      } catch {
+        // Ignore malformed payloads written by other code
+      }
+    });
+  }
+
+  /**
+   * Send a message to every other tab
+   */
+  post(message: CrossTabMessage): void {
+    const envelope = { ...message, source: this.tabId, sentAt: Date.now() };
+
+    try {
+      if (this.channel) {
+        this.channel.postMessage(envelope);
+      } else if (this.transport === 'storage') {
+        // sentAt makes every write unique so the storage event always fires
+        ssrSafeStorage.setItem(CROSS_TAB_CHANNEL, JSON.stringify(envelope));
+      }
+    } catch (error) {
+      console.warn('⚠️ [CrossTabSync] Failed to post message:', error);
+    }
+  }
+
+  /**
+   * Listen for messages from other tabs
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (message: CrossTabMessage) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Stop listening and release the channel
+   */
+  close(): void {
+    this.channel?.close();
+    this.channel = null;
+    this.removeStorageListener?.();
+    this.removeStorageListener = null;
+    this.listeners.clear();
+  }
+
+  private dispatch(data: unknown): void {
+    if (!isCrossTabMessage(data) || (data as { source?: string }).source === this.tabId) return;
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(data);
+      } catch (error) {
+        console.error('❌ [CrossTabSync] Listener error:', error);
+      }
+    });
+  }
+}
+
+function isCrossTabMessage(data: unknown): data is CrossTabMessage {
+  if (!data || typeof data !== 'object') return false;
+  const message = data as Record<string, unknown>;
+
+  if (message.type === 'theme') {
+    return typeof message.theme === 'string' &&
+      (message.mode === 'light' || message.mode === 'dark' || message.mode === 'auto');
+  }
+  if (message.type === 'fonts') {
+    const override = message.override as Record<string, unknown> | null;
+    return !!override && typeof override.enabled === 'boolean' && typeof override.fonts === 'object';
+  }
+  return false;
+}
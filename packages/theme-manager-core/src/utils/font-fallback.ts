@@ -0,0 +1,90 @@
+/**
+ * Metric-matched fallback fonts.
+ *
+ * While a web font loads (or when it never arrives, with `font-display: optional`)
+ * text renders in a local font. A `@font-face` over that local font with
+ * `size-adjust` / `ascent-override` / `descent-override` / `line-gap-override`
+ * computed from both fonts' metrics takes the same space as the web font, so
+ * the swap does not move the layout.
+ *
+ * @module font-fallback
+ */
+
+import { getFontClassification, FontMetrics, FontOption } from '../catalogs/font-catalog';
+import { buildScriptFallbacks } from '../catalogs/font-scripts';
+
+/**
+ * Local fonts used as the metric-adjusted fallback of each category
+ */
+export const FALLBACK_FONT_METRICS: Record<'sans' | 'serif' | 'mono', { family: string; metrics: FontMetrics }> = {
+  sans: {
+    family: 'Arial',
+    metrics: { unitsPerEm: 2048, ascent: 1854, descent: -434, lineGap: 67, xWidthAvg: 904 }
+  },
+  serif: {
+    family: 'Times New Roman',
+    metrics: { unitsPerEm: 2048, ascent: 1825, descent: -443, lineGap: 87, xWidthAvg: 819 }
+  },
+  mono: {
+    family: 'Courier New',
+    metrics: { unitsPerEm: 2048, ascent: 1705, descent: -615, lineGap: 0, xWidthAvg: 1229 }
+  }
+};
+
+/**
+ * Family name of the fallback face of a font, e.g. `"Inter Fallback"`
+ */
+export function getFallbackFamilyName(font: FontOption): string {
+  return `${font.family.replace(/['"]/g, '')} Fallback`;
+}
+
+/**
+ * `@font-face` rule for the metric-matched fallback of a font
+ * @returns null for system fonts and fonts without metrics
+ */
+export function buildFallbackFontFace(font: FontOption): string | null {
+  const classification = getFontClassification(font);
+  if (font.category === 'system' || !font.metrics || !classification) return null;
+
+  const fallback = FALLBACK_FONT_METRICS[classification];
+  const metrics = font.metrics;
+  const sizeAdjust = (metrics.xWidthAvg / metrics.unitsPerEm) / (fallback.metrics.xWidthAvg / fallback.metrics.unitsPerEm);
+  // Overrides are relative to the adjusted size
+  const override = (value: number) => formatPercent(Math.abs(value) / (metrics.unitsPerEm * sizeAdjust));
+
+  return `@font-face {
+  font-family: "${getFallbackFamilyName(font)}";
+  src: local("${fallback.family}");
+  size-adjust: ${formatPercent(sizeAdjust)};
+  ascent-override: ${override(metrics.ascent)};
+  descent-override: ${override(metrics.descent)};
+  line-gap-override: ${override(metrics.lineGap)};
+}`;
+}
+
+/**
+ * Font stack with the fallback face right after the web font, then system fonts
+ * for the requested scripts the font lacks, then its regular fallback:
+ * `Inter, "Inter Fallback", "Hiragino Sans", …, system-ui, sans-serif`
+ */
+export function buildFontFamilyWithFallback(
+  font: FontOption,
+  options: { metricFallback?: boolean; subsets?: string[] } = {}
+): string {
+  const families = [font.family];
+
+  if (options.metricFallback !== false && buildFallbackFontFace(font)) {
+    families.push(`"${getFallbackFamilyName(font)}"`);
+  }
+
+  const scriptFallbacks = buildScriptFallbacks(font, options.subsets || [], getFontClassification(font) || 'sans');
+  if (scriptFallbacks) {
+    families.push(scriptFallbacks);
+  }
+
+  return [...families, font.fallback].join(', ');
+}
+
+function formatPercent(ratio: number): string {
+  return `${Number((ratio * 100).toFixed(2))}%`;
+}
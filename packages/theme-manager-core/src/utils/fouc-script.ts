@@ -7,10 +7,16 @@
  * class to `<html>` **before** the first paint, eliminating any flash.
  *
  * Canonical localStorage keys: `theme-current`, `theme-mode`, `theme-mode-config`.
+ * A `schedule` stored in `theme-mode-config` makes `'auto'` follow fixed hours
+ * or sunrise/sunset (see `mode-schedule.ts`) instead of `prefers-color-scheme`.
+ * Route rules (see `route-theme-rules.ts`) override theme/mode for matching
+ * paths without touching the persisted preference.
  *
  * @module fouc-script
  */
 
+import { RouteThemeRule, serializeRouteThemeRules } from './route-theme-rules';
+
 /** Configuration for the FOUC prevention script generator. */
 export interface IFOUCScriptConfig {
   /**
@@ -21,6 +27,15 @@ export interface IFOUCScriptConfig {
    */
   storageType?: 'localStorage' | 'cookie';
 
+  /**
+   * Cookies use the HMAC-signed format (see `signed-cookie.ts`): the script
+   * reads the payload before the signature and never writes the cookies back,
+   * since it cannot sign them.
+   * Only used when `storageType` is `'cookie'`.
+   * @default false
+   */
+  signedCookies?: boolean;
+
   /**
    * When `true` the generated script hides `<body>` until DOMContentLoaded
    * (with a configurable safety timeout) and then reveals it.
@@ -49,6 +64,13 @@ export interface IFOUCScriptConfig {
    * @default false
    */
   debug?: boolean;
+
+  /**
+   * Per-route overrides, matched against `location.pathname` (first match wins).
+   * Must be the same rules passed to `ThemeManager.setRouteRules()`.
+   * @default []
+   */
+  routeRules?: RouteThemeRule[];
 }
 
 /**
@@ -101,6 +123,15 @@ export function generateFOUCScript(
   }
 
   sections.push(defaultsSection(config));
+
+  if (config.routeRules.length > 0) {
+    sections.push(routeRulesSection(config));
+
+    if (config.debug) {
+      sections.push(`console.log('[FOUC] after route rules: t='+t+', m='+m+', rule='+(rm?rm.p:'none'));`);
+    }
+  }
+
   sections.push(resolveAutoSection());
 
   if (config.debug) {
@@ -114,7 +145,7 @@ export function generateFOUCScript(
     sections.push(`console.log('[FOUC] applied: data-theme='+document.documentElement.getAttribute('data-theme')+', data-mode='+document.documentElement.getAttribute('data-mode')+', classList='+document.documentElement.className);`);
   }
 
-  if (config.storageType === 'cookie') {
+  if (config.storageType === 'cookie' && !config.signedCookies) {
     sections.push(cookieSyncSection());
   }
 
@@ -141,11 +172,13 @@ function normalizeConfig(
 ): Required<IFOUCScriptConfig> {
   const defaults: Required<IFOUCScriptConfig> = {
     storageType: 'localStorage',
+    signedCookies: false,
     bodyReveal: false,
     defaultTheme: 'default',
     defaultMode: 'auto',
     revealTimeout: 3000,
     debug: false,
+    routeRules: [],
   };
 
   if (!input) return defaults;
@@ -154,7 +187,7 @@ function normalizeConfig(
     return { ...defaults, storageType: input };
   }
 
-  return { ...defaults, ...input };
+  return { ...defaults, ...input, routeRules: input.routeRules ?? defaults.routeRules };
 }
 
 /* ---------- Section generators ---------- */
@@ -167,8 +200,10 @@ function normalizeConfig(
  */
 function storageReadSection(config: Required<IFOUCScriptConfig>): string {
   if (config.storageType === 'cookie') {
+    // Signed values are `<payload>.<signature>`, the signature is only checked on the server
+    const value = config.signedCookies ? "decodeURIComponent(m[3]).replace(/\\.[^.]*$/,'')" : 'decodeURIComponent(m[3])';
     return `
-function gc(n){var m=document.cookie.match(new RegExp('(^|;\\\\s*)('+n+')=([^;]*)'));return m?decodeURIComponent(m[3]):null;}
+function gc(n){var m=document.cookie.match(new RegExp('(^|;\\\\s*)('+n+')=([^;]*)'));return m?${value}:null;}
 var t=gc('theme-current')||localStorage.getItem('theme-current');
 var m=gc('theme-mode')||localStorage.getItem('theme-mode');`.trim();
   }
@@ -190,14 +225,35 @@ if(!t||!m){try{var c=localStorage.getItem('theme-mode-config');if(c){var p=JSON.
  * Section 3 - Apply configurable defaults when no persisted value exists.
  */
 function defaultsSection(config: Required<IFOUCScriptConfig>): string {
-  return `t=t||'${config.defaultTheme}';m=m||'${config.defaultMode}';`;
+  return `t=t||'${config.defaultTheme}';m=m||'${config.defaultMode}';var ut=t,um=m,rm=null;`;
+}
+
+/**
+ * Section 3b - Apply the first route rule matching `location.pathname`.
+ *
+ * The user's values are kept in `ut`/`um` so the cookie sync never persists a route override.
+ */
+function routeRulesSection(config: Required<IFOUCScriptConfig>): string {
+  // Escape `<` so a pattern can never close the surrounding <script> tag
+  const rules = JSON.stringify(serializeRouteThemeRules(config.routeRules)).replace(/</g, '\\u003c');
+  return `
+var rr=${rules};
+for(var ri=0;ri<rr.length;ri++){if(new RegExp(rr[ri].p,rr[ri].f).test(location.pathname)){rm=rr[ri];break;}}
+if(rm){if(rm.t)t=rm.t;if(rm.m)m=rm.m;}`.trim();
 }
 
 /**
- * Section 4 - Resolve `'auto'` mode using system preference.
+ * Section 4 - Resolve `'auto'` mode using the persisted schedule, or the system preference.
+ *
+ * `sm()` is a minified port of `evaluateModeSchedule()` from `mode-schedule.ts`.
  */
 function resolveAutoSection(): string {
-  return `var em=m==='auto'?(window.matchMedia('(prefers-color-scheme: dark)').matches?'dark':'light'):m;`;
+  return `
+function sm(s,n){if(s.type==='fixed'){var pt=function(x){var a=String(x).split(':');return a[0]*60+(+a[1]||0);};var la=pt(s.lightAt),da=pt(s.darkAt),cm=n.getHours()*60+n.getMinutes();return(la<da?(cm>=la&&cm<da):(cm>=la||cm<da))?'light':'dark';}
+var r=Math.PI/180,lw=-s.longitude*r,ph=s.latitude*r,dy=n.valueOf()/864e5-0.5+2440588-2451545,ds=0.0009+lw/(2*Math.PI)+Math.round(dy-0.0009-lw/(2*Math.PI)),M=r*(357.5291+0.98560028*ds),L=M+r*(1.9148*Math.sin(M)+0.02*Math.sin(2*M)+0.0003*Math.sin(3*M))+r*102.9372+Math.PI,dc=Math.asin(Math.sin(r*23.4397)*Math.sin(L)),x=(Math.sin(-0.833*r)-Math.sin(ph)*Math.sin(dc))/(Math.cos(ph)*Math.cos(dc));
+if(x>1)return'dark';if(x<-1)return'light';var jn=2451545+ds+0.0053*Math.sin(M)-0.0069*Math.sin(2*L),hd=Math.acos(x)/(2*Math.PI),v=n.valueOf();return v>=(jn-hd+0.5-2440588)*864e5&&v<(jn+hd+0.5-2440588)*864e5?'light':'dark';}
+var sc=null;if(m==='auto'){try{var sj=localStorage.getItem('theme-mode-config');if(sj){sc=JSON.parse(sj).schedule||null;}}catch(e){}}
+var em=m;if(m==='auto'){em=window.matchMedia('(prefers-color-scheme: dark)').matches?'dark':'light';if(sc){try{em=sm(sc,new Date());}catch(e){}}}`.trim();
 }
 
 /**
@@ -215,13 +271,17 @@ if(em==='dark'){d.classList.add('dark');}else{d.classList.remove('dark');}`.trim
 /**
  * Section 6 - Replay cached CSS variables from localStorage.
  *
- * ThemeManager caches the last applied CSS variables in `theme-css-vars`.
+ * ThemeManager caches the last applied CSS variables in `theme-css-vars`
+ * (`theme-css-vars:<theme>:<mode>` for route-pinned themes).
  * Applying them here eliminates the flash of the default/fallback theme
  * that would otherwise show until ThemeManager re-fetches the theme CSS.
+ * The accent override (`theme-accent-vars`, keyed by mode) is applied on top,
+ * so it survives a mode flip since the last visit.
  */
 function cssVarsReplaySection(): string {
   return `
-try{var cv=localStorage.getItem('theme-css-vars');if(cv){var vars=JSON.parse(cv);for(var k in vars){if(vars.hasOwnProperty(k))d.style.setProperty(k,vars[k]);}}}catch(e){}`.trim();
+try{var cv=localStorage.getItem(rm?'theme-css-vars:'+t+':'+em:'theme-css-vars');if(cv){var vars=JSON.parse(cv);for(var k in vars){if(vars.hasOwnProperty(k))d.style.setProperty(k,vars[k]);}}
+var av=localStorage.getItem('theme-accent-vars');if(av){var ac=JSON.parse(av)[em]||{};for(var a in ac){if(ac.hasOwnProperty(a))d.style.setProperty(a,ac[a]);}}}catch(e){}`.trim();
 }
 
 /**
@@ -230,8 +290,8 @@ try{var cv=localStorage.getItem('theme-css-vars');if(cv){var vars=JSON.parse(cv)
 function cookieSyncSection(): string {
   return `
 var ex=new Date();ex.setFullYear(ex.getFullYear()+1);var xs=ex.toUTCString();
-document.cookie='theme-current='+encodeURIComponent(t)+';expires='+xs+';path=/';
-document.cookie='theme-mode='+encodeURIComponent(m)+';expires='+xs+';path=/';`.trim();
+document.cookie='theme-current='+encodeURIComponent(ut)+';expires='+xs+';path=/';
+document.cookie='theme-mode='+encodeURIComponent(um)+';expires='+xs+';path=/';`.trim();
 }
 
 /**
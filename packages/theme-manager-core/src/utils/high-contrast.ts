@@ -0,0 +1,93 @@
+/**
+ * High-contrast variant derived at apply time from any theme's variables.
+ *
+ * Surfaces are pushed to white (light) or near-black (dark), every
+ * `--x-foreground` reaches WCAG AAA (7:1) against `--x`, and borders, inputs
+ * and rings reach 3:1 against their surface. Unparseable values are kept as-is.
+ *
+ * @module high-contrast
+ */
+
+import { OklchColor, parseColor, formatOklch, contrastRatio, ensureContrast, relativeLuminance, toGamut } from './accent-color';
+
+export type ContrastPreference = 'auto' | 'more' | 'normal';
+
+/** WCAG AAA contrast ratio for normal text */
+export const WCAG_AAA_CONTRAST = 7;
+
+/** WCAG 1.4.11 contrast ratio for UI components (borders, focus rings) */
+const NON_TEXT_CONTRAST = 3;
+
+const SURFACE_VARIABLES = ['--background', '--card', '--popover', '--sidebar'];
+
+/** Border-like variables and the surface they sit on */
+const BORDER_VARIABLES: Record<string, string> = {
+  '--border': '--background',
+  '--input': '--background',
+  '--ring': '--background',
+  '--sidebar-border': '--sidebar',
+  '--sidebar-ring': '--sidebar'
+};
+
+/**
+ * Derive the high-contrast variables of a theme for one mode
+ * @param variables - Resolved theme variables (after inheritance and accent override)
+ * @param mode - Resolved mode
+ * @returns New variable set; the input is not modified
+ */
+export function deriveHighContrastVariables(
+  variables: Record<string, string>,
+  mode: 'light' | 'dark'
+): Record<string, string> {
+  const result = { ...variables };
+  const colors: Record<string, OklchColor> = {};
+  const read = (name: string): OklchColor | null => colors[name] || (result[name] && parseColor(result[name])) || null;
+  const write = (name: string, color: OklchColor) => {
+    colors[name] = color;
+    result[name] = formatOklch(color);
+  };
+
+  SURFACE_VARIABLES.forEach(name => {
+    const surface = read(name);
+    if (!surface) return;
+    write(name, toGamut({ l: mode === 'dark' ? 0.1 : 1, c: Math.min(surface.c, 0.02), h: surface.h }));
+  });
+
+  Object.keys(result)
+    .filter(name => name.endsWith('-foreground'))
+    .forEach(name => {
+      const surfaceName = name === '--foreground' ? '--background' : name.slice(0, -'-foreground'.length);
+      const foreground = read(name);
+      const surface = read(surfaceName);
+      if (!foreground || !surface) return;
+
+      let boosted = ensureContrast(foreground, surface, awayFrom(surface), WCAG_AAA_CONTRAST);
+      // Muted text is rendered on the page background too
+      const background = read('--background');
+      if (name === '--muted-foreground' && background) {
+        boosted = ensureContrast(boosted, background, awayFrom(background), WCAG_AAA_CONTRAST);
+      }
+      write(name, boosted);
+
+      // Mid-tone surfaces (e.g. --primary) can't reach AAA with any text color: move the surface too
+      if (contrastRatio(boosted, surface) < WCAG_AAA_CONTRAST && !SURFACE_VARIABLES.includes(surfaceName)) {
+        write(surfaceName, ensureContrast(surface, boosted, awayFrom(boosted), WCAG_AAA_CONTRAST));
+      }
+    });
+
+  Object.entries(BORDER_VARIABLES).forEach(([name, surfaceName]) => {
+    const border = read(name);
+    const surface = read(surfaceName) || read('--background');
+    if (!border || !surface) return;
+    write(name, ensureContrast(border, surface, awayFrom(surface), NON_TEXT_CONTRAST));
+  });
+
+  return result;
+}
+
+/**
+ * Lighten on dark surfaces, darken on light ones
+ */
+function awayFrom(surface: OklchColor): 1 | -1 {
+  return relativeLuminance(surface) < 0.18 ? 1 : -1;
+}
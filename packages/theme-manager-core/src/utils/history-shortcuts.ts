@@ -0,0 +1,71 @@
+/**
+ * Keyboard shortcuts for theme undo/redo.
+ *
+ * Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z and Ctrl+Y redo. Shortcuts are ignored
+ * while an editable element has focus so native text undo keeps working.
+ *
+ * @module history-shortcuts
+ */
+
+import { isClient } from './ssr-utils';
+
+export interface HistoryShortcutTarget {
+  undo(): Promise<boolean>;
+  redo(): Promise<boolean>;
+}
+
+/**
+ * Whether the event is an undo shortcut (Ctrl/Cmd+Z)
+ */
+export function isUndoShortcut(event: KeyboardEvent): boolean {
+  return (event.ctrlKey || event.metaKey) && !event.shiftKey && !event.altKey && event.key.toLowerCase() === 'z';
+}
+
+/**
+ * Whether the event is a redo shortcut (Ctrl/Cmd+Shift+Z or Ctrl+Y)
+ */
+export function isRedoShortcut(event: KeyboardEvent): boolean {
+  if (event.altKey) return false;
+  const key = event.key.toLowerCase();
+  return ((event.ctrlKey || event.metaKey) && event.shiftKey && key === 'z') ||
+         (event.ctrlKey && !event.shiftKey && key === 'y');
+}
+
+/**
+ * Bind undo/redo shortcuts
+ * @param history - Object exposing undo/redo (e.g. ThemeManager)
+ * @param target - Element or document receiving keydown events
+ * @returns Unbind function
+ */
+export function bindHistoryShortcuts(
+  history: HistoryShortcutTarget,
+  target?: Document | HTMLElement
+): () => void {
+  if (!isClient()) return () => {};
+
+  const eventTarget = target ?? document;
+  const handler = (event: Event) => {
+    const keyEvent = event as KeyboardEvent;
+    if (keyEvent.defaultPrevented || isEditableTarget(keyEvent.target)) return;
+
+    const action = isUndoShortcut(keyEvent) ? history.undo
+      : isRedoShortcut(keyEvent) ? history.redo
+      : null;
+    if (!action) return;
+
+    keyEvent.preventDefault();
+    action.call(history).catch(error => {
+      console.error('❌ [ThemeHistory] Shortcut failed:', error);
+    });
+  };
+
+  eventTarget.addEventListener('keydown', handler);
+  return () => eventTarget.removeEventListener('keydown', handler);
+}
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!target || !(target as HTMLElement).tagName) return false;
+  const element = target as HTMLElement;
+  const tag = element.tagName.toLowerCase();
+  return tag === 'input' || tag === 'textarea' || tag === 'select' || element.isContentEditable;
+}
@@ -0,0 +1,167 @@
+/**
+ * Scheduled mode resolution.
+ *
+ * When a schedule is configured, `'auto'` mode follows the clock instead of
+ * `prefers-color-scheme`: either fixed local hours, or sunrise/sunset computed
+ * locally from latitude/longitude (no network, NOAA/suncalc approximation,
+ * accurate to a couple of minutes).
+ *
+ * The same algorithm is inlined (minified) in `fouc-script.ts` so the mode is
+ * correct before first paint - keep both in sync.
+ *
+ * @module mode-schedule
+ */
+
+/** Light between `lightAt` and `darkAt`, local time (`'HH:MM'`). */
+export interface FixedModeSchedule {
+  type: 'fixed';
+  lightAt: string;
+  darkAt: string;
+}
+
+/** Light between sunrise and sunset at the given coordinates. */
+export interface SolarModeSchedule {
+  type: 'solar';
+  latitude: number;
+  longitude: number;
+}
+
+export type ModeSchedule = FixedModeSchedule | SolarModeSchedule;
+
+export interface ModeScheduleState {
+  /** Mode the schedule resolves to right now */
+  mode: 'light' | 'dark';
+  /** Next time the schedule may switch mode */
+  nextChange: Date;
+}
+
+const DAY_MS = 86400000;
+const HOUR_MS = 3600000;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const J0 = 0.0009;
+const RAD = Math.PI / 180;
+const OBLIQUITY = RAD * 23.4397;
+const SUN_ALTITUDE = RAD * -0.833;
+
+/**
+ * Compute sunrise and sunset around the given date.
+ * @param date - Reference instant (the nearest solar noon is used)
+ * @param latitude - Degrees, north positive
+ * @param longitude - Degrees, east positive
+ * @returns Sun times, or `polar` when the sun never rises ('night') or never sets ('day')
+ */
+export function getSunTimes(
+  date: Date,
+  latitude: number,
+  longitude: number
+): { sunrise: Date; sunset: Date } | { polar: 'day' | 'night' } {
+  const lw = -longitude * RAD;
+  const phi = latitude * RAD;
+  const days = date.valueOf() / DAY_MS - 0.5 + J1970 - J2000;
+  const cycle = Math.round(days - J0 - lw / (2 * Math.PI));
+  const approxTransit = J0 + lw / (2 * Math.PI) + cycle;
+
+  const meanAnomaly = RAD * (357.5291 + 0.98560028 * approxTransit);
+  const center = RAD * (1.9148 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly) + 0.0003 * Math.sin(3 * meanAnomaly));
+  const eclipticLongitude = meanAnomaly + center + RAD * 102.9372 + Math.PI;
+  const declination = Math.asin(Math.sin(OBLIQUITY) * Math.sin(eclipticLongitude));
+
+  const cosHourAngle = (Math.sin(SUN_ALTITUDE) - Math.sin(phi) * Math.sin(declination)) / (Math.cos(phi) * Math.cos(declination));
+  if (cosHourAngle > 1) return { polar: 'night' };
+  if (cosHourAngle < -1) return { polar: 'day' };
+
+  const solarNoon = J2000 + approxTransit + 0.0053 * Math.sin(meanAnomaly) - 0.0069 * Math.sin(2 * eclipticLongitude);
+  const halfDay = Math.acos(cosHourAngle) / (2 * Math.PI);
+  const fromJulian = (julian: number) => new Date((julian + 0.5 - J1970) * DAY_MS);
+
+  return {
+    sunrise: fromJulian(solarNoon - halfDay),
+    sunset: fromJulian(solarNoon + halfDay)
+  };
+}
+
+/**
+ * Resolve a schedule at a given instant.
+ * @param schedule - Schedule to evaluate
+ * @param now - Reference instant (defaults to the current time)
+ */
+export function evaluateModeSchedule(schedule: ModeSchedule, now: Date = new Date()): ModeScheduleState {
+  return schedule.type === 'fixed'
+    ? evaluateFixedSchedule(schedule, now)
+    : evaluateSolarSchedule(schedule, now);
+}
+
+/**
+ * Validate an untrusted (persisted) schedule object.
+ */
+export function isValidModeSchedule(value: unknown): value is ModeSchedule {
+  if (!value || typeof value !== 'object') return false;
+  const schedule = value as Record<string, unknown>;
+
+  if (schedule.type === 'fixed') {
+    return parseTime(schedule.lightAt) !== null && parseTime(schedule.darkAt) !== null;
+  }
+  if (schedule.type === 'solar') {
+    return typeof schedule.latitude === 'number' && Math.abs(schedule.latitude) <= 90 &&
+      typeof schedule.longitude === 'number' && Math.abs(schedule.longitude) <= 180;
+  }
+  return false;
+}
+
+/**
+ * Parse `'HH:MM'` into minutes since midnight
+ */
+function parseTime(value: unknown): number | null {
+  if (typeof value !== 'string') return null;
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+function evaluateFixedSchedule(schedule: FixedModeSchedule, now: Date): ModeScheduleState {
+  const lightAt = parseTime(schedule.lightAt);
+  const darkAt = parseTime(schedule.darkAt);
+  if (lightAt === null || darkAt === null) {
+    throw new Error(`Invalid fixed schedule: ${schedule.lightAt} - ${schedule.darkAt}`);
+  }
+
+  const current = now.getHours() * 60 + now.getMinutes();
+  const isLight = lightAt < darkAt
+    ? current >= lightAt && current < darkAt
+    : current >= lightAt || current < darkAt;
+
+  // Next boundary in local time (today or tomorrow)
+  const boundary = isLight ? darkAt : lightAt;
+  const nextChange = new Date(now);
+  nextChange.setHours(Math.floor(boundary / 60), boundary % 60, 0, 0);
+  if (nextChange <= now) {
+    nextChange.setDate(nextChange.getDate() + 1);
+  }
+
+  return { mode: isLight ? 'light' : 'dark', nextChange };
+}
+
+function evaluateSolarSchedule(schedule: SolarModeSchedule, now: Date): ModeScheduleState {
+  const times = getSunTimes(now, schedule.latitude, schedule.longitude);
+
+  if ('polar' in times) {
+    // Re-check hourly, the sun will eventually rise/set again
+    return {
+      mode: times.polar === 'day' ? 'light' : 'dark',
+      nextChange: new Date(now.valueOf() + HOUR_MS)
+    };
+  }
+
+  if (now < times.sunrise) return { mode: 'dark', nextChange: times.sunrise };
+  if (now < times.sunset) return { mode: 'light', nextChange: times.sunset };
+
+  const tomorrow = getSunTimes(new Date(now.valueOf() + DAY_MS), schedule.latitude, schedule.longitude);
+  return {
+    mode: 'dark',
+    nextChange: 'polar' in tomorrow ? new Date(now.valueOf() + HOUR_MS) : tomorrow.sunrise
+  };
+}
@@ -426,6 +426,8 @@ export class PerformanceTracker {
 
   /**
    * Cache Testing Utilities
+   * Wipes every theme/font key, including user preferences: use
+   * StorageManager.clearCache() to free space in production.
    */
   static async clearAllCaches(): Promise<void> {
     console.log('🧹 Clearing all caches for cold performance testing...');
@@ -453,24 +455,38 @@ export class PerformanceTracker {
       }
     }
 
-    // Clear browser cache (if possible)
-    if ('caches' in window) {
-      try {
-        const cacheNames = await caches.keys();
-        const themeRelatedCaches = cacheNames.filter(name => 
-          name.includes('theme') || name.includes('font') || name.includes('css')
-        );
-        await Promise.all(themeRelatedCaches.map(name => caches.delete(name)));
-        console.log(`🗑️ Cleared ${themeRelatedCaches.length} browser caches`);
-      } catch (error) {
-        console.warn('⚠️ Could not clear browser caches:', error);
-      }
+    await this.clearBrowserCaches();
+    this.resetCacheTracking();
+    console.log('✅ Cache clearing completed - ready for cold performance testing');
+  }
+
+  /**
+   * Delete theme/font/css entries of the Cache Storage API (never touches preferences)
+   * @returns Number of caches deleted
+   */
+  static async clearBrowserCaches(): Promise<number> {
+    if (typeof window === 'undefined' || !('caches' in window)) return 0;
+
+    try {
+      const cacheNames = await caches.keys();
+      const themeRelatedCaches = cacheNames.filter(name => 
+        name.includes('theme') || name.includes('font') || name.includes('css')
+      );
+      await Promise.all(themeRelatedCaches.map(name => caches.delete(name)));
+      console.log(`🗑️ Cleared ${themeRelatedCaches.length} browser caches`);
+      return themeRelatedCaches.length;
+    } catch (error) {
+      console.warn('⚠️ Could not clear browser caches:', error);
+      return 0;
     }
+  }
 
-    // Reset cache tracking
+  /**
+   * Reset cache hit rates and storage operation counters
+   */
+  static resetCacheTracking(): void {
     this.cacheHitRates = {};
     this.storageOperationCounts = { localStorage: { reads: 0, writes: 0 }, indexedDB: { reads: 0, writes: 0 } };
-    console.log('✅ Cache clearing completed - ready for cold performance testing');
   }
 
   private static async clearIndexedDBThemeData(): Promise<void> {
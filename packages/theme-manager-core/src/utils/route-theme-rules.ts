@@ -0,0 +1,131 @@
+/**
+ * Per-route theme rules.
+ *
+ * Rules pin URL patterns to a theme and/or mode without touching the user's
+ * persisted preference. Patterns are matched against `location.pathname`;
+ * the first matching rule wins.
+ *
+ * String patterns are globs: `*` matches any characters (including `/`), and a
+ * trailing `/*` also matches the bare prefix (`/docs/*` matches `/docs`).
+ *
+ * @module route-theme-rules
+ */
+
+import { isClient, safeGetWindow } from './ssr-utils';
+
+export interface RouteThemeRule {
+  /** Glob (`/docs/*`) or RegExp tested against the pathname */
+  pattern: string | RegExp;
+  /** Theme forced on matching routes (keeps the user's theme when omitted) */
+  theme?: string;
+  /** Mode forced on matching routes (keeps the user's mode when omitted) */
+  mode?: 'light' | 'dark' | 'auto';
+}
+
+/** Serializable form of a rule, embedded in the FOUC script. */
+export interface SerializedRouteThemeRule {
+  p: string;
+  f: string;
+  t?: string;
+  m?: 'light' | 'dark' | 'auto';
+}
+
+/** Window event dispatched after `history.pushState` / `history.replaceState`. */
+export const NAVIGATION_EVENT = 'theme-manager:navigation';
+
+/**
+ * Compile a rule pattern to a RegExp
+ * @param pattern - Glob string or RegExp
+ */
+export function compileRoutePattern(pattern: string | RegExp): RegExp {
+  if (pattern instanceof RegExp) return pattern;
+
+  const optionalTail = pattern.length > 1 && pattern.endsWith('/*');
+  const body = optionalTail ? pattern.slice(0, -2) : pattern;
+  const source = body
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${source}${optionalTail ? '(?:/.*)?' : ''}$`);
+}
+
+/**
+ * Find the first rule matching a pathname
+ * @param rules - Rules in priority order
+ * @param pathname - Path to test (e.g. `location.pathname`)
+ */
+export function matchRouteThemeRule(rules: RouteThemeRule[], pathname: string): RouteThemeRule | null {
+  for (const rule of rules) {
+    const regex = compileRoutePattern(rule.pattern);
+    regex.lastIndex = 0;
+    if (regex.test(pathname)) return rule;
+  }
+  return null;
+}
+
+/**
+ * Serialize rules for inlining in the FOUC script
+ * @param rules - Rules in priority order
+ */
+export function serializeRouteThemeRules(rules: RouteThemeRule[]): SerializedRouteThemeRule[] {
+  return rules.map(rule => {
+    const regex = compileRoutePattern(rule.pattern);
+    return {
+      p: regex.source,
+      f: regex.flags.replace(/[gy]/g, ''),
+      ...(rule.theme ? { t: rule.theme } : {}),
+      ...(rule.mode ? { m: rule.mode } : {})
+    };
+  });
+}
+
+/**
+ * Current pathname, or null on the server
+ */
+export function getCurrentPathname(): string | null {
+  return safeGetWindow()?.location?.pathname ?? null;
+}
+
+/**
+ * Subscribe to History API navigation (pushState, replaceState, popstate).
+ * `pushState`/`replaceState` are wrapped once per window and announce themselves
+ * through {@link NAVIGATION_EVENT}.
+ * @param callback - Called with the new pathname
+ * @returns Unsubscribe function
+ */
+export function onHistoryNavigation(callback: (pathname: string) => void): () => void {
+  if (!isClient()) return () => {};
+
+  const window = safeGetWindow();
+  if (!window?.history) return () => {};
+
+  patchHistory(window);
+
+  const handler = () => callback(window.location.pathname);
+  window.addEventListener(NAVIGATION_EVENT, handler);
+  window.addEventListener('popstate', handler);
+
+  return () => {
+    window.removeEventListener(NAVIGATION_EVENT, handler);
+    window.removeEventListener('popstate', handler);
+  };
+}
+
+/**
+ * Wrap pushState/replaceState so they dispatch {@link NAVIGATION_EVENT}
+ */
+function patchHistory(window: Window): void {
+  const history = window.history as History & { __themeManagerPatched?: boolean };
+  if (history.__themeManagerPatched) return;
+  history.__themeManagerPatched = true;
+
+  (['pushState', 'replaceState'] as const).forEach(method => {
+    const original = history[method];
+    history[method] = function (this: History, ...args: Parameters<History['pushState']>) {
+      const result = original.apply(this, args);
+      window.dispatchEvent(new Event(NAVIGATION_EVENT));
+      return result;
+    };
+  });
+}
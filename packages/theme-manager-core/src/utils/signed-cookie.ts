@@ -0,0 +1,217 @@
+/**
+ * HMAC-signed theme cookies.
+ *
+ * Signed format: `<payload>.<signature>`, where the signature is the base64url
+ * HMAC-SHA256 of `<cookie name>=<payload>`: a value signed for one cookie does
+ * not verify under another name (e.g. a signed mode replayed as the theme). Signing and verification need the secret and
+ * therefore only run on the server (Web Crypto, so Node 18+ and edge runtimes);
+ * the client only reads the payload with {@link getCookiePayload} and never
+ * writes the signed cookies itself.
+ *
+ * A cookie whose signature does not verify, or whose theme name / mode is not
+ * well formed, falls back to the defaults, so the value that reaches the SSR
+ * output (`data-theme`, registry lookups) is never attacker-controlled.
+ *
+ * @module signed-cookie
+ */
+
+export type ThemeCookieMode = 'light' | 'dark' | 'auto';
+
+export interface ThemeCookiePreference {
+  theme: string;
+  mode: ThemeCookieMode;
+}
+
+export interface ThemeCookieOptions {
+  /** HMAC secret. Without it cookies are read/written unsigned (still sanitized). */
+  secret?: string;
+  defaultTheme?: string;
+  defaultMode?: ThemeCookieMode;
+}
+
+export interface ThemeCookieReadResult extends ThemeCookiePreference {
+  /** false when a cookie was present but rejected (bad signature or malformed) */
+  valid: boolean;
+}
+
+/** Cookie names carrying the theme preference */
+export const THEME_COOKIE_NAMES = {
+  THEME: 'theme-current',
+  MODE: 'theme-mode'
+} as const;
+
+/** Environment variable read by the server helpers for the cookie secret */
+export const THEME_COOKIE_SECRET_ENV = 'THEME_COOKIE_SECRET';
+
+const SEPARATOR = '.';
+const THEME_NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_-]{0,63}$/;
+const MODES: ThemeCookieMode[] = ['light', 'dark', 'auto'];
+
+const keyCache = new Map<string, Promise<CryptoKey>>();
+
+/**
+ * Secret configured through {@link THEME_COOKIE_SECRET_ENV}, if any
+ */
+export function getThemeCookieSecret(): string | undefined {
+  const env = (globalThis as { process?: { env?: Record<string, string | undefined> } }).process?.env;
+  return env?.[THEME_COOKIE_SECRET_ENV] || undefined;
+}
+
+/**
+ * Whether a theme name is safe to render into SSR output
+ */
+export function isSafeThemeName(name: unknown): name is string {
+  return typeof name === 'string' && THEME_NAME_PATTERN.test(name);
+}
+
+/**
+ * Sign a cookie value: `<value>.<signature>`
+ * @param name - Cookie name bound into the signature
+ */
+export async function signCookieValue(value: string, secret: string, name: string): Promise<string> {
+  const key = await importKey(secret);
+  const signature = await getSubtle().sign('HMAC', key, getSignedData(name, value));
+  return `${value}${SEPARATOR}${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verify a signed cookie value
+ * @param name - Cookie name the value was signed for
+ * @returns The payload, or null when the value is unsigned or the signature does not match
+ */
+export async function verifyCookieValue(signed: string, secret: string, name: string): Promise<string | null> {
+  const index = signed.lastIndexOf(SEPARATOR);
+  if (index <= 0) return null;
+
+  const payload = signed.slice(0, index);
+  const signature = fromBase64Url(signed.slice(index + 1));
+  if (!signature) return null;
+
+  const key = await importKey(secret);
+  // crypto.subtle.verify compares in constant time
+  const valid = await getSubtle().verify('HMAC', key, signature, getSignedData(name, payload));
+  return valid ? payload : null;
+}
+
+/**
+ * Payload of a signed cookie, without verifying it (client side, where the secret is not available)
+ */
+export function getCookiePayload(value: string): string {
+  const index = value.lastIndexOf(SEPARATOR);
+  return index > 0 ? value.slice(0, index) : value;
+}
+
+/**
+ * Replace a malformed theme name or mode with the defaults
+ */
+export function sanitizeThemePreference(
+  preference: { theme?: string | null; mode?: string | null },
+  options: Pick<ThemeCookieOptions, 'defaultTheme' | 'defaultMode'> = {}
+): ThemeCookieReadResult {
+  const defaultTheme = options.defaultTheme || 'default';
+  const defaultMode = options.defaultMode || 'auto';
+  const themeValid = !preference.theme || isSafeThemeName(preference.theme);
+  const modeValid = !preference.mode || MODES.includes(preference.mode as ThemeCookieMode);
+
+  return {
+    theme: preference.theme && themeValid ? preference.theme : defaultTheme,
+    mode: preference.mode && modeValid ? preference.mode as ThemeCookieMode : defaultMode,
+    valid: themeValid && modeValid
+  };
+}
+
+/**
+ * Read the theme preference from request cookies (server side).
+ * With a secret, cookies that are unsigned or fail verification fall back to the defaults.
+ *
+ * @param getCookie - Cookie reader of the framework (`getCookie` in TanStack Start, `cookies().get(name)?.value` in Next.js)
+ */
+export async function readThemeCookies(
+  getCookie: (name: string) => string | null | undefined,
+  options: ThemeCookieOptions = {}
+): Promise<ThemeCookieReadResult> {
+  let theme = getCookie(THEME_COOKIE_NAMES.THEME) || null;
+  let mode = getCookie(THEME_COOKIE_NAMES.MODE) || null;
+  let signatureValid = true;
+
+  if (options.secret) {
+    const [verifiedTheme, verifiedMode] = await Promise.all([
+      theme ? verifyCookieValue(theme, options.secret, THEME_COOKIE_NAMES.THEME) : null,
+      mode ? verifyCookieValue(mode, options.secret, THEME_COOKIE_NAMES.MODE) : null
+    ]);
+    signatureValid = (!theme || verifiedTheme !== null) && (!mode || verifiedMode !== null);
+    theme = verifiedTheme;
+    mode = verifiedMode;
+  }
+
+  const result = sanitizeThemePreference({ theme, mode }, options);
+  if (!signatureValid || !result.valid) {
+    console.warn('⚠️ [SignedCookie] Rejected theme cookie, using defaults');
+  }
+  return { ...result, valid: result.valid && signatureValid };
+}
+
+/**
+ * Cookie values for a theme preference (server side), signed when a secret is given
+ * @throws Error when the theme name or mode is malformed
+ */
+export async function createThemeCookies(
+  preference: ThemeCookiePreference,
+  options: Pick<ThemeCookieOptions, 'secret'> = {}
+): Promise<Array<{ name: string; value: string }>> {
+  if (!isSafeThemeName(preference.theme)) {
+    throw new Error(`Invalid theme name: ${preference.theme}`);
+  }
+  if (!MODES.includes(preference.mode)) {
+    throw new Error(`Invalid theme mode: ${preference.mode}`);
+  }
+
+  const sign = (name: string, value: string) => options.secret ? signCookieValue(value, options.secret, name) : Promise.resolve(value);
+  return [
+    { name: THEME_COOKIE_NAMES.THEME, value: await sign(THEME_COOKIE_NAMES.THEME, preference.theme) },
+    { name: THEME_COOKIE_NAMES.MODE, value: await sign(THEME_COOKIE_NAMES.MODE, preference.mode) }
+  ];
+}
+
+function getSignedData(name: string, value: string): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(`${name}=${value}`);
+}
+
+function getSubtle(): SubtleCrypto {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new Error('Web Crypto (crypto.subtle) is not available in this runtime');
+  }
+  return subtle;
+}
+
+function importKey(secret: string): Promise<CryptoKey> {
+  let key = keyCache.get(secret);
+  if (!key) {
+    key = getSubtle().importKey(
+      'raw',
+      new TextEncoder().encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign', 'verify']
+    );
+    keyCache.set(secret, key);
+  }
+  return key;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> | null {
+  if (!/^[A-Za-z0-9_-]+$/.test(value)) return null;
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
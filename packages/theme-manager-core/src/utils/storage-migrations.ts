@@ -0,0 +1,266 @@
+/**
+ * Declarative storage schema migrations.
+ *
+ * Every schema change is one ordered {@link StorageMigration} step: its
+ * `version` is the IndexedDB `dbVersion` it upgrades to, `indexedDB` changes
+ * object stores inside the versionchange transaction and `localStorage`
+ * rewrites keys. The IndexedDB version is tracked by the database itself, the
+ * localStorage one under {@link STORAGE_VERSION_KEY}, so both sides catch up
+ * independently (e.g. memory backend + localStorage).
+ *
+ * Rollback: a failing IndexedDB step aborts the versionchange transaction so
+ * the database stays at its previous version; a failing localStorage step
+ * restores the keys it touched and the remaining steps are not run.
+ *
+ * Add new steps at the end and never edit a released one.
+ *
+ * @module storage-migrations
+ */
+
+import type { CachedTheme } from '../core/storage-manager';
+
+export interface StorageMigrationContext {
+  /** Write a theme into the cache backend (logged only in dry-run) */
+  putTheme(theme: CachedTheme): Promise<void>;
+  dryRun: boolean;
+}
+
+export interface StorageMigration {
+  /** Schema version this step upgrades to (IndexedDB `dbVersion`) */
+  version: number;
+  description: string;
+  /** Object store changes, inside the versionchange transaction. Throw to abort the upgrade. */
+  indexedDB?: (db: IDBDatabase, transaction: IDBTransaction) => void;
+  /** localStorage changes. Throw to roll back the keys changed by this step. */
+  localStorage?: (storage: Storage, context: StorageMigrationContext) => void | Promise<void>;
+}
+
+export interface StorageMigrationResult {
+  from: number;
+  to: number;
+  /** Versions applied (or that would be applied in dry-run) */
+  applied: number[];
+  /** Step that failed and was rolled back */
+  failed?: { version: number; error: unknown };
+  dryRun: boolean;
+}
+
+/** localStorage key holding the localStorage schema version */
+export const STORAGE_VERSION_KEY = 'theme-storage-version';
+
+/** Flag written by the pre-versioning legacy migration */
+const LEGACY_MIGRATION_FLAG = 'theme-migration-completed';
+
+/** FOUC keys that share the legacy `theme-` prefix and must never be migrated */
+const FOUC_KEYS = ['theme-current', 'theme-mode', 'fonts-active'];
+
+/**
+ * Migration registry, ordered by version.
+ * Versions 2-4 only re-ran the idempotent store creation and have no step of their own.
+ */
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Create themes store',
+    indexedDB: db => {
+      if (db.objectStoreNames.contains('themes')) return;
+      const store = db.createObjectStore('themes', { keyPath: 'name' });
+      store.createIndex('url', 'url', { unique: false });
+      store.createIndex('installed', 'installed', { unique: false });
+    }
+  },
+  {
+    version: 5,
+    description: 'Create font-config store; move legacy theme-cache-* keys into the cache backend',
+    indexedDB: db => {
+      if (!db.objectStoreNames.contains('font-config')) {
+        const store = db.createObjectStore('font-config', { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp', { unique: false });
+      }
+    },
+    localStorage: async (storage, context) => {
+      if (storage.getItem(LEGACY_MIGRATION_FLAG)) {
+        storage.removeItem(LEGACY_MIGRATION_FLAG);
+        return;
+      }
+
+      const keys = listKeys(storage).filter(key => key.startsWith('theme-cache-') && !FOUC_KEYS.includes(key));
+      for (const key of keys) {
+        const data = storage.getItem(key);
+        try {
+          if (data) await context.putTheme(JSON.parse(data));
+        } catch (error) {
+          // Corrupted entries are dropped, they could never be read back
+          console.warn(`⚠️ [StorageMigrations] Dropping unreadable legacy theme ${key}`, error);
+        }
+        storage.removeItem(key);
+      }
+    }
+  },
+  {
+    version: 6,
+    description: 'Create fonts store (cached font CSS)',
+    indexedDB: db => {
+      if (!db.objectStoreNames.contains('fonts')) {
+        const store = db.createObjectStore('fonts', { keyPath: 'fontKey' });
+        store.createIndex('timestamp', 'timestamp', { unique: false });
+      }
+    }
+  }
+];
+
+/**
+ * Latest version of a registry
+ */
+export function getLatestStorageVersion(migrations: StorageMigration[] = STORAGE_MIGRATIONS): number {
+  return migrations.reduce((latest, migration) => Math.max(latest, migration.version), 0);
+}
+
+/**
+ * Steps that upgrade `fromVersion` to `toVersion`, in order
+ */
+export function getPendingMigrations(
+  fromVersion: number,
+  toVersion: number = getLatestStorageVersion(),
+  migrations: StorageMigration[] = STORAGE_MIGRATIONS
+): StorageMigration[] {
+  return migrations
+    .filter(migration => migration.version > fromVersion && migration.version <= toVersion)
+    .sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Run the IndexedDB steps from `onupgradeneeded`. On failure the versionchange
+ * transaction is aborted (nothing is kept) and the error rethrown.
+ */
+export function runIndexedDBMigrations(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  newVersion: number,
+  migrations: StorageMigration[] = STORAGE_MIGRATIONS
+): void {
+  for (const migration of getPendingMigrations(oldVersion, newVersion, migrations)) {
+    if (!migration.indexedDB) continue;
+    try {
+      migration.indexedDB(db, transaction);
+      console.log(`🔄 [StorageMigrations] IndexedDB v${migration.version}: ${migration.description}`);
+    } catch (error) {
+      console.error(`❌ [StorageMigrations] IndexedDB v${migration.version} failed, rolling back to v${oldVersion}:`, error);
+      transaction.abort();
+      throw error;
+    }
+  }
+}
+
+/**
+ * Run the pending localStorage steps, recording progress under STORAGE_VERSION_KEY.
+ * In dry-run every step runs against a copy and the key changes are logged.
+ */
+export async function runLocalStorageMigrations(
+  storage: Storage,
+  putTheme: StorageMigrationContext['putTheme'],
+  options: { dryRun?: boolean; migrations?: StorageMigration[] } = {}
+): Promise<StorageMigrationResult> {
+  const migrations = options.migrations || STORAGE_MIGRATIONS;
+  const dryRun = options.dryRun === true;
+  const from = parseInt(storage.getItem(STORAGE_VERSION_KEY) || '0', 10) || 0;
+  const to = getLatestStorageVersion(migrations);
+  const result: StorageMigrationResult = { from, to, applied: [], dryRun };
+
+  const target = dryRun ? new SnapshotStorage(storage) : storage;
+  const context: StorageMigrationContext = {
+    dryRun,
+    putTheme: dryRun
+      ? async theme => console.log(`🧪 [StorageMigrations] Would store theme "${theme.name}" in the cache backend`)
+      : putTheme
+  };
+
+  for (const migration of getPendingMigrations(from, to, migrations)) {
+    const before = snapshot(target);
+    try {
+      await migration.localStorage?.(target, context);
+    } catch (error) {
+      restore(target, before);
+      console.error(`❌ [StorageMigrations] localStorage v${migration.version} failed, rolled back:`, error);
+      result.failed = { version: migration.version, error };
+      result.to = result.applied.length > 0 ? result.applied[result.applied.length - 1] : from;
+      return result;
+    }
+
+    if (dryRun) {
+      console.log(`🧪 [StorageMigrations] Would apply v${migration.version}: ${migration.description}`, describeChanges(before, snapshot(target)));
+    } else {
+      storage.setItem(STORAGE_VERSION_KEY, String(migration.version));
+      console.log(`✅ [StorageMigrations] localStorage v${migration.version}: ${migration.description}`);
+    }
+    result.applied.push(migration.version);
+  }
+
+  return result;
+}
+
+function listKeys(storage: Storage): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    if (key !== null) keys.push(key);
+  }
+  return keys;
+}
+
+function snapshot(storage: Storage): Map<string, string> {
+  return new Map(listKeys(storage).map(key => [key, storage.getItem(key) as string]));
+}
+
+function restore(storage: Storage, previous: Map<string, string>): void {
+  listKeys(storage)
+    .filter(key => !previous.has(key))
+    .forEach(key => storage.removeItem(key));
+  previous.forEach((value, key) => {
+    if (storage.getItem(key) !== value) storage.setItem(key, value);
+  });
+}
+
+function describeChanges(before: Map<string, string>, after: Map<string, string>): { added: string[]; changed: string[]; removed: string[] } {
+  return {
+    added: [...after.keys()].filter(key => !before.has(key)),
+    changed: [...after.keys()].filter(key => before.has(key) && before.get(key) !== after.get(key)),
+    removed: [...before.keys()].filter(key => !after.has(key))
+  };
+}
+
+/**
+ * In-memory copy of a Storage, used for dry-runs
+ */
+class SnapshotStorage implements Storage {
+  private data: Map<string, string>;
+
+  constructor(source: Storage) {
+    this.data = snapshot(source);
+  }
+
+  get length(): number {
+    return this.data.size;
+  }
+
+  key(index: number): string | null {
+    return [...this.data.keys()][index] ?? null;
+  }
+
+  getItem(key: string): string | null {
+    return this.data.has(key) ? this.data.get(key) as string : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.data.set(key, String(value));
+  }
+
+  removeItem(key: string): void {
+    this.data.delete(key);
+  }
+
+  clear(): void {
+    this.data.clear();
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Storage quota helpers and cache limits used by StorageManager eviction.
+ *
+ * Only caches are ever evicted (downloaded font CSS and theme records that are
+ * not installed); installed themes and preferences are user data.
+ *
+ * @module storage-quota
+ */
+
+import { isClient } from './ssr-utils';
+
+export interface StorageLimits {
+  /** Total size of cached font CSS, least recently used evicted first (bytes) */
+  maxFontCacheBytes?: number;
+  /** Cached fonts not used for this long are evicted (ms) */
+  maxFontAge?: number;
+  /** Cached theme records that are not installed are evicted after this long (ms) */
+  maxCachedThemeAge?: number;
+  /** Fonts are evicted while the origin uses more than this fraction of its quota (0-1) */
+  quotaThreshold?: number;
+}
+
+export const DEFAULT_STORAGE_LIMITS: Required<StorageLimits> = {
+  maxFontCacheBytes: 5 * 1024 * 1024,
+  maxFontAge: 30 * 24 * 60 * 60 * 1000,
+  maxCachedThemeAge: 7 * 24 * 60 * 60 * 1000,
+  quotaThreshold: 0.8
+};
+
+export interface StorageQuota {
+  /** Bytes used by the whole origin */
+  usage: number;
+  /** Bytes available to the origin */
+  quota: number;
+  /** usage / quota */
+  ratio: number;
+}
+
+/**
+ * `navigator.storage.estimate()` for this origin
+ * @returns null on the server or when the API is unavailable
+ */
+export async function estimateStorageQuota(): Promise<StorageQuota | null> {
+  if (!isClient() || typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+    return null;
+  }
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota, ratio: quota > 0 ? usage / quota : 0 };
+  } catch (error) {
+    console.warn('⚠️ [StorageQuota] navigator.storage.estimate() failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Approximate stored size of a record (UTF-8 bytes of its JSON plus binary fields)
+ */
+export function estimateSize(value: unknown): number {
+  let binaryBytes = 0;
+  const json = JSON.stringify(value, (_key, item) => {
+    if (item instanceof ArrayBuffer || ArrayBuffer.isView(item)) {
+      binaryBytes += item.byteLength;
+      return undefined;
+    }
+    return item;
+  });
+  return new TextEncoder().encode(json ?? '').length + binaryBytes;
+}
+
+/**
+ * Human readable size, e.g. `1.5 MB`
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+}
@@ -0,0 +1,103 @@
+import type {
+  ThemeEventMap,
+  ThemeEventName,
+  ThemeEventListener,
+  ThemeBeforeChangeEvent
+} from '../types/theme-events';
+
+/**
+ * Wrapper registered by once(), tagged with the listener it calls so off() can find it
+ */
+type OnceWrapper = Function & { listener: Function };
+
+/**
+ * Typed event emitter for theme lifecycle events.
+ * One instance is shared by a ThemeManager, its FontManager and ThemeInstaller,
+ * so listeners see the same events regardless of which object they subscribed on.
+ */
+export class ThemeEventEmitter {
+  private listeners: Map<ThemeEventName, Set<Function>> = new Map();
+
+  /**
+   * Subscribe to an event
+   * @returns Unsubscribe function
+   */
+  on<K extends ThemeEventName>(event: K, listener: ThemeEventListener<K>): () => void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   * @returns Unsubscribe function
+   */
+  once<K extends ThemeEventName>(event: K, listener: ThemeEventListener<K>): () => void {
+    const wrapper: ThemeEventListener<K> = Object.assign((payload: ThemeEventMap[K]) => {
+      unsubscribe();
+      listener(payload);
+    }, { listener });
+    const unsubscribe = this.on(event, wrapper);
+    return unsubscribe;
+  }
+
+  /**
+   * Unsubscribe from an event. Also removes the listener when it is still pending from once().
+   */
+  off<K extends ThemeEventName>(event: K, listener: ThemeEventListener<K>): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) return;
+
+    listeners.delete(listener);
+    listeners.forEach(registered => {
+      if ((registered as OnceWrapper).listener === listener) {
+        listeners.delete(registered);
+      }
+    });
+  }
+
+  /**
+   * Dispatch an event. Listener errors are logged and never interrupt other listeners.
+   */
+  emit<K extends ThemeEventName>(event: K, payload: ThemeEventMap[K]): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) return;
+
+    Array.from(listeners).forEach(listener => {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`❌ ThemeEvents: Listener error for ${event}:`, error);
+      }
+    });
+  }
+
+  /**
+   * Dispatch `theme:before-change`
+   * @returns `false` when a listener cancelled the change
+   */
+  emitBeforeChange(change: Omit<ThemeBeforeChangeEvent, 'cancelled' | 'cancel'>): boolean {
+    let cancelled = false;
+    const event: ThemeBeforeChangeEvent = {
+      ...change,
+      get cancelled() {
+        return cancelled;
+      },
+      cancel() {
+        cancelled = true;
+      }
+    };
+
+    this.emit('theme:before-change', event);
+    return !cancelled;
+  }
+
+  /**
+   * Remove every listener
+   */
+  clear(): void {
+    this.listeners.clear();
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Theme inheritance helpers.
+ *
+ * A theme may declare `extends: '<parentId>'` to inherit every CSS variable
+ * (and any omitted registry metadata) from another theme, so variants only
+ * need to ship the handful of variables that actually differ.
+ *
+ * @module theme-inheritance
+ */
+
+import type { ThemeConfig } from '../core/theme-registry';
+
+/** Maximum inheritance depth, guards against pathological registries. */
+const MAX_INHERITANCE_DEPTH = 16;
+
+/**
+ * Resolve the inheritance chain for a theme.
+ *
+ * @param themeId - Theme to resolve.
+ * @param lookup - Returns the theme config for an ID, or null if unknown.
+ * @returns Chain ordered from the root ancestor to the requested theme.
+ * @throws Error when the theme or one of its parents is missing, or the chain is circular.
+ */
+export function resolveThemeChain(
+  themeId: string,
+  lookup: (id: string) => ThemeConfig | null | undefined
+): ThemeConfig[] {
+  const chain: ThemeConfig[] = [];
+  const visited: string[] = [];
+  let currentId: string | undefined = themeId;
+
+  while (currentId) {
+    if (visited.includes(currentId)) {
+      throw new Error(`Circular theme inheritance: ${[...visited, currentId].join(' -> ')}`);
+    }
+    if (visited.length >= MAX_INHERITANCE_DEPTH) {
+      throw new Error(`Theme inheritance too deep for "${themeId}" (max ${MAX_INHERITANCE_DEPTH})`);
+    }
+
+    const theme = lookup(currentId);
+    if (!theme) {
+      throw new Error(
+        visited.length === 0
+          ? `Theme not found: ${currentId}`
+          : `Parent theme "${currentId}" not found for "${visited[visited.length - 1]}"`
+      );
+    }
+
+    visited.push(currentId);
+    chain.unshift(theme);
+    currentId = theme.extends;
+  }
+
+  return chain;
+}
+
+/**
+ * Fill the metadata a child theme omitted from its parent.
+ * Identity fields (`id`, `name`, `label`, `modes`, `category`, `source`, `default`) are never inherited.
+ *
+ * @param parent - Fully resolved parent config.
+ * @param child - Child config as declared in the registry.
+ * @returns Child config with inherited metadata.
+ */
+export function inheritThemeConfig(parent: ThemeConfig, child: ThemeConfig): ThemeConfig {
+  return {
+    ...child,
+    description: child.description || parent.description,
+    author: child.author || parent.author,
+    fonts: withParentValues(parent.fonts, child.fonts),
+    preview: withParentValues(parent.preview, child.preview),
+    config: withParentValues(parent.config, child.config),
+    externalFonts: child.externalFonts ?? parent.externalFonts
+  };
+}
+
+/**
+ * Overlay the non-empty values of a child record on its parent record.
+ */
+function withParentValues<T extends object>(parent: T, child: Partial<T> | undefined): T {
+  const merged = { ...parent };
+  if (!child) return merged;
+
+  (Object.keys(child) as Array<keyof T>).forEach(key => {
+    if (child[key]) {
+      merged[key] = child[key] as T[keyof T];
+    }
+  });
+  return merged;
+}
+
+/**
+ * Merge CSS variable maps along an inheritance chain, child over parent.
+ *
+ * @param layers - Variable maps ordered from root ancestor to child.
+ * @returns Merged variables.
+ */
+export function mergeThemeVariables(layers: Array<Record<string, string>>): Record<string, string> {
+  return layers.reduce<Record<string, string>>((merged, layer) => ({ ...merged, ...layer }), {});
+}
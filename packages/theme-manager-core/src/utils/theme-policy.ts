@@ -0,0 +1,70 @@
+/**
+ * Theme policy: tenant-level restrictions on themes, mode, fonts and installs.
+ *
+ * ThemeManager, FontManager and ThemeInstaller enforce the policy. A rejected
+ * action throws an Error and dispatches `policy:rejected` so UIs can show why.
+ *
+ * @module theme-policy
+ */
+
+import type { ThemeEventEmitter } from './theme-event-emitter';
+import type { PolicyRejectedEvent } from '../types/theme-events';
+
+export interface ThemePolicy {
+  /** Only these theme ids may be selected or installed (all when omitted) */
+  allowedThemes?: string[];
+  /** Theme ids that may never be selected or installed (wins over allowedThemes) */
+  deniedThemes?: string[];
+  /** Mode applied and locked for every user */
+  forcedMode?: 'light' | 'dark' | 'auto';
+  /** Font ids (from the font catalog) applied and locked per category */
+  forcedFonts?: {
+    sans?: string;
+    serif?: string;
+    mono?: string;
+  };
+  /** Reject ThemeInstaller.installFromUrl / installThemeFromRegistry */
+  disallowRemoteInstalls?: boolean;
+}
+
+/**
+ * Whether a theme id may be selected or installed under the policy
+ */
+export function isThemeAllowedByPolicy(policy: ThemePolicy | null, themeId: string): boolean {
+  if (!policy) return true;
+  if (policy.deniedThemes?.includes(themeId)) return false;
+  if (policy.allowedThemes && policy.allowedThemes.length > 0) {
+    return policy.allowedThemes.includes(themeId);
+  }
+  return true;
+}
+
+/**
+ * Whether a mode may be selected under the policy
+ */
+export function isModeAllowedByPolicy(policy: ThemePolicy | null, mode: 'light' | 'dark' | 'auto'): boolean {
+  return !policy?.forcedMode || policy.forcedMode === mode;
+}
+
+/**
+ * Forced font id for a category, if any
+ */
+export function getForcedFont(policy: ThemePolicy | null, category: 'sans' | 'serif' | 'mono'): string | undefined {
+  return policy?.forcedFonts?.[category];
+}
+
+/**
+ * Build the rejection error and dispatch `policy:rejected`
+ * @returns Error to throw
+ */
+export function rejectByPolicy(
+  events: ThemeEventEmitter,
+  action: PolicyRejectedEvent['action'],
+  value: string,
+  reason: string
+): Error {
+  const error = new Error(`Theme policy: ${reason}`);
+  console.warn(`🚫 [ThemePolicy] ${reason}`);
+  events.emit('policy:rejected', { action, value, reason, error });
+  return error;
+}
@@ -0,0 +1,284 @@
+/**
+ * Theme profile: a versioned JSON bundle with everything a user customised
+ * (installed themes, font overrides, theme/mode preferences and, optionally,
+ * cached font CSS) so it can be moved between browsers.
+ *
+ * Produced by `StorageManager.exportProfile()` and consumed by
+ * `StorageManager.importProfile()`; bundles are validated before anything is
+ * written. Bump {@link THEME_PROFILE_VERSION} when the shape changes and keep
+ * reading older versions.
+ *
+ * @module theme-profile
+ */
+
+import type { CachedTheme, CachedFont, FontOverrideConfig, ThemeModeConfig } from '../core/storage-manager';
+import { parseColor } from './accent-color';
+import { isValidModeSchedule } from './mode-schedule';
+import { isSafeThemeName } from './signed-cookie';
+import { safeGetDocument } from './ssr-utils';
+import { TYPOGRAPHY_LIMITS } from './typography';
+
+/** Marker so arbitrary JSON files are not mistaken for a profile */
+export const THEME_PROFILE_FORMAT = 'shadcn-basecoat-theme-profile';
+
+/** Current bundle version; bundles from newer versions are rejected */
+export const THEME_PROFILE_VERSION = 1;
+
+export interface ThemeProfile {
+  format: typeof THEME_PROFILE_FORMAT;
+  version: number;
+  /** ISO date of the export */
+  exportedAt: string;
+  /** User-installed themes (built-in themes are not exported) */
+  themes: CachedTheme[];
+  fontOverrides: FontOverrideConfig | null;
+  themeMode: ThemeModeConfig | null;
+  /** Cached font CSS, only with `includeFontCss` */
+  fonts?: CachedFont[];
+}
+
+export interface ProfileExportOptions {
+  /** Include the cached font CSS (larger bundle, fonts work offline right away) */
+  includeFontCss?: boolean;
+}
+
+/**
+ * - merge: keep local data; themes with the same name and preferences are
+ *   replaced only when the imported copy is newer (`timestamp`)
+ * - replace: remove the installed themes and cached fonts first; imported
+ *   preferences always win
+ */
+export type ProfileImportStrategy = 'merge' | 'replace';
+
+export interface ProfileImportOptions {
+  /** Default: 'merge' */
+  strategy?: ProfileImportStrategy;
+}
+
+export interface ProfileImportResult {
+  strategy: ProfileImportStrategy;
+  /** Themes written */
+  themes: number;
+  /** Themes skipped because the local copy is newer (merge) or not allowed */
+  skippedThemes: string[];
+  /** Cached fonts written */
+  fonts: number;
+  fontOverrides: boolean;
+  themeMode: boolean;
+}
+
+const MODES = ['light', 'dark', 'auto'];
+const FONT_CATEGORIES = ['sans', 'serif', 'mono'];
+const TYPOGRAPHY_FIELDS = Object.keys(TYPOGRAPHY_LIMITS);
+
+/**
+ * Validate an unknown value against the profile schema
+ * @returns Error messages with the offending path; empty when valid
+ */
+export function validateThemeProfile(data: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!isObject(data)) {
+    return ['profile: expected an object'];
+  }
+  if (data.format !== THEME_PROFILE_FORMAT) {
+    errors.push(`format: expected "${THEME_PROFILE_FORMAT}"`);
+  }
+  if (!Number.isInteger(data.version) || (data.version as number) < 1) {
+    errors.push('version: expected a positive integer');
+  } else if ((data.version as number) > THEME_PROFILE_VERSION) {
+    errors.push(`version: ${data.version} is newer than the supported version ${THEME_PROFILE_VERSION}`);
+  }
+  if (typeof data.exportedAt !== 'string') {
+    errors.push('exportedAt: expected a string');
+  }
+
+  if (!Array.isArray(data.themes)) {
+    errors.push('themes: expected an array');
+  } else {
+    data.themes.forEach((theme, index) => validateTheme(theme, `themes[${index}]`, errors));
+  }
+
+  if (data.fontOverrides !== null) {
+    validateFontOverrides(data.fontOverrides, 'fontOverrides', errors);
+  }
+  if (data.themeMode !== null) {
+    validateThemeMode(data.themeMode, 'themeMode', errors);
+  }
+
+  if (data.fonts !== undefined) {
+    if (!Array.isArray(data.fonts)) {
+      errors.push('fonts: expected an array');
+    } else {
+      data.fonts.forEach((font, index) => {
+        const path = `fonts[${index}]`;
+        if (!isObject(font)) {
+          errors.push(`${path}: expected an object`);
+          return;
+        }
+        ['fontKey', 'family', 'cssContent', 'url'].forEach(field => {
+          if (typeof font[field] !== 'string') errors.push(`${path}.${field}: expected a string`);
+        });
+        if (typeof font.timestamp !== 'number') errors.push(`${path}.timestamp: expected a number`);
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a theme mode config with the rules of the profile `themeMode`
+ * @returns Error messages; empty when valid
+ */
+export function validateThemeModeConfig(config: unknown): string[] {
+  const errors: string[] = [];
+  validateThemeMode(config, 'themeMode', errors);
+  return errors;
+}
+
+/**
+ * Validate a font override config with the rules of the profile `fontOverrides`
+ * @returns Error messages; empty when valid
+ */
+export function validateFontOverrideConfig(config: unknown): string[] {
+  const errors: string[] = [];
+  validateFontOverrides(config, 'fontOverrides', errors);
+  return errors;
+}
+
+/**
+ * Parse and validate a profile (JSON text or an already parsed value)
+ * @throws Error listing every schema violation
+ */
+export function parseThemeProfile(input: string | unknown): ThemeProfile {
+  let data: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input);
+    } catch {
+      throw new Error('Invalid theme profile: not valid JSON');
+    }
+  }
+
+  const errors = validateThemeProfile(data);
+  if (errors.length > 0) {
+    throw new Error(`Invalid theme profile: ${errors.join('; ')}`);
+  }
+  return data as ThemeProfile;
+}
+
+/**
+ * Save a profile as a `.json` download (browser only)
+ */
+export function downloadThemeProfile(profile: ThemeProfile, filename = 'theme-profile.json'): void {
+  const document = safeGetDocument();
+  if (!document) return;
+
+  const url = URL.createObjectURL(new Blob([JSON.stringify(profile, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Read and validate a profile chosen with an `<input type="file">`
+ * @throws Error when the file is not a valid profile
+ */
+export async function readThemeProfileFile(file: Blob): Promise<ThemeProfile> {
+  return parseThemeProfile(await file.text());
+}
+
+function validateTheme(theme: unknown, path: string, errors: string[]): void {
+  if (!isObject(theme)) {
+    errors.push(`${path}: expected an object`);
+    return;
+  }
+  if (typeof theme.name !== 'string' || !theme.name || theme.name.startsWith('__')) {
+    errors.push(`${path}.name: expected a theme name`);
+  }
+  if (typeof theme.url !== 'string') errors.push(`${path}.url: expected a string`);
+  if (typeof theme.installed !== 'boolean') errors.push(`${path}.installed: expected a boolean`);
+  if (typeof theme.timestamp !== 'number') errors.push(`${path}.timestamp: expected a number`);
+
+  if (!isObject(theme.data) || !isObject(theme.data.cssVars)) {
+    errors.push(`${path}.data.cssVars: expected an object`);
+    return;
+  }
+  if (theme.data.extends !== undefined && typeof theme.data.extends !== 'string') {
+    errors.push(`${path}.data.extends: expected a string`);
+  }
+  const cssVars = theme.data.cssVars;
+  ['light', 'dark', 'theme'].forEach(group => {
+    if (cssVars[group] !== undefined && !isStringMap(cssVars[group])) {
+      errors.push(`${path}.data.cssVars.${group}: expected string values`);
+    }
+  });
+}
+
+function validateFontOverrides(config: unknown, path: string, errors: string[]): void {
+  if (!isObject(config)) {
+    errors.push(`${path}: expected an object or null`);
+    return;
+  }
+  if (typeof config.enabled !== 'boolean') errors.push(`${path}.enabled: expected a boolean`);
+  if (typeof config.timestamp !== 'number') errors.push(`${path}.timestamp: expected a number`);
+  if (!isStringMap(config.fonts) || Object.keys(config.fonts).some(key => !FONT_CATEGORIES.includes(key))) {
+    errors.push(`${path}.fonts: expected font ids for sans/serif/mono`);
+  }
+  if (config.axes !== undefined) {
+    const axes = config.axes;
+    const valid = isObject(axes) && Object.entries(axes).every(([category, values]) =>
+      FONT_CATEGORIES.includes(category) &&
+      isObject(values) &&
+      Object.values(values).every(value => typeof value === 'number' && Number.isFinite(value))
+    );
+    if (!valid) errors.push(`${path}.axes: expected axis values for sans/serif/mono`);
+  }
+  if (config.typography !== undefined) {
+    const typography = config.typography;
+    const valid = isObject(typography) && Object.entries(typography).every(([category, values]) =>
+      FONT_CATEGORIES.includes(category) &&
+      isObject(values) &&
+      Object.entries(values).every(([field, value]) =>
+        TYPOGRAPHY_FIELDS.includes(field) && typeof value === 'number' && Number.isFinite(value)
+      )
+    );
+    if (!valid) errors.push(`${path}.typography: expected typography values for sans/serif/mono`);
+  }
+}
+
+function validateThemeMode(config: unknown, path: string, errors: string[]): void {
+  if (!isObject(config)) {
+    errors.push(`${path}: expected an object or null`);
+    return;
+  }
+  if (!isSafeThemeName(config.currentTheme)) {
+    errors.push(`${path}.currentTheme: expected a theme id`);
+  }
+  if (!MODES.includes(config.currentMode as string)) {
+    errors.push(`${path}.currentMode: expected light, dark or auto`);
+  }
+  if (typeof config.timestamp !== 'number') errors.push(`${path}.timestamp: expected a number`);
+  if (config.schedule !== undefined && !isValidModeSchedule(config.schedule)) {
+    errors.push(`${path}.schedule: invalid mode schedule`);
+  }
+  if (config.accentColor !== undefined && (typeof config.accentColor !== 'string' || !parseColor(config.accentColor))) {
+    errors.push(`${path}.accentColor: expected a color`);
+  }
+  if (config.contrast !== undefined && config.contrast !== 'more' && config.contrast !== 'normal') {
+    errors.push(`${path}.contrast: expected more or normal`);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringMap(value: unknown): value is Record<string, string> {
+  return isObject(value) && Object.values(value).every(entry => typeof entry === 'string');
+}
@@ -0,0 +1,130 @@
+/**
+ * Typography overrides per font category: base size, line-height,
+ * letter-spacing and a modular type scale.
+ *
+ * Values are exposed as CSS variables on `:root`:
+ * - `--font-<category>-size`, `--font-<category>-line-height`, `--font-<category>-letter-spacing`
+ * - `--font-<category>-scale-<step>` for steps -2..5, `size × ratio^step`
+ *
+ * and only the properties that are set are applied to the category selectors,
+ * so the page's own typography is untouched otherwise. Scale steps 5..0 size
+ * h1..h6 inside the category; utility classes (e.g. `text-3xl`) still win.
+ *
+ * @module typography
+ */
+
+export type TypographyCategory = 'sans' | 'serif' | 'mono';
+
+export interface TypographyOverride {
+  /** Base font size in px */
+  baseSize?: number;
+  /** Unitless line-height */
+  lineHeight?: number;
+  /** Letter spacing in em */
+  letterSpacing?: number;
+  /** Modular scale ratio between heading steps (see TYPE_SCALE_RATIOS) */
+  scaleRatio?: number;
+}
+
+export type TypographyOverrides = Partial<Record<TypographyCategory, TypographyOverride>>;
+
+/** Allowed range and UI step of every field */
+export const TYPOGRAPHY_LIMITS: Record<keyof TypographyOverride, { min: number; max: number; step: number }> = {
+  baseSize: { min: 10, max: 32, step: 1 },
+  lineHeight: { min: 1, max: 2.5, step: 0.05 },
+  letterSpacing: { min: -0.1, max: 0.3, step: 0.005 },
+  scaleRatio: { min: 1, max: 2, step: 0.001 }
+};
+
+/** Common modular scale ratios */
+export const TYPE_SCALE_RATIOS: Record<string, number> = {
+  'minor-second': 1.067,
+  'major-second': 1.125,
+  'minor-third': 1.2,
+  'major-third': 1.25,
+  'perfect-fourth': 1.333,
+  'augmented-fourth': 1.414,
+  'perfect-fifth': 1.5,
+  'golden-ratio': 1.618
+};
+
+/** Scale steps exposed as variables; h1..h6 use 5..0 */
+export const TYPE_SCALE_STEPS = [-2, -1, 0, 1, 2, 3, 4, 5];
+
+/** Elements each category applies to (same as the font-family overrides) */
+export const TYPOGRAPHY_SELECTORS: Record<TypographyCategory, string[]> = {
+  sans: ['body', '.font-sans'],
+  serif: ['.font-serif'],
+  mono: ['.font-mono', 'code', 'pre']
+};
+
+/**
+ * Keep only finite values, clamped to TYPOGRAPHY_LIMITS
+ * @returns null when nothing is left
+ */
+export function sanitizeTypographyOverride(override: TypographyOverride | null | undefined): TypographyOverride | null {
+  if (!override) return null;
+
+  const sanitized: TypographyOverride = {};
+  (Object.keys(TYPOGRAPHY_LIMITS) as Array<keyof TypographyOverride>).forEach(field => {
+    const value = override[field];
+    if (typeof value !== 'number' || !Number.isFinite(value)) return;
+    const { min, max } = TYPOGRAPHY_LIMITS[field];
+    sanitized[field] = Math.min(max, Math.max(min, value));
+  });
+
+  return Object.keys(sanitized).length > 0 ? sanitized : null;
+}
+
+/**
+ * CSS variables for a category
+ */
+export function buildTypographyVariables(category: TypographyCategory, override: TypographyOverride): Record<string, string> {
+  const prefix = `--font-${category}`;
+  const variables: Record<string, string> = {};
+
+  if (override.baseSize !== undefined) variables[`${prefix}-size`] = `${override.baseSize}px`;
+  if (override.lineHeight !== undefined) variables[`${prefix}-line-height`] = String(override.lineHeight);
+  if (override.letterSpacing !== undefined) variables[`${prefix}-letter-spacing`] = `${override.letterSpacing}em`;
+
+  if (override.scaleRatio !== undefined) {
+    TYPE_SCALE_STEPS.forEach(step => {
+      const factor = Number(Math.pow(override.scaleRatio!, step).toFixed(4));
+      variables[`${prefix}-scale-${step}`] = `calc(var(${prefix}-size, 1rem) * ${factor})`;
+    });
+  }
+
+  return variables;
+}
+
+/**
+ * Rules applying the variables of the fields that are set
+ */
+export function buildTypographyCSS(overrides: TypographyOverrides): string {
+  const rules: string[] = [];
+
+  (Object.keys(TYPOGRAPHY_SELECTORS) as TypographyCategory[]).forEach(category => {
+    const override = overrides[category];
+    if (!override) return;
+
+    const prefix = `--font-${category}`;
+    const selectors = TYPOGRAPHY_SELECTORS[category];
+    const declarations: string[] = [];
+    if (override.baseSize !== undefined) declarations.push(`font-size: var(${prefix}-size);`);
+    if (override.lineHeight !== undefined) declarations.push(`line-height: var(${prefix}-line-height);`);
+    if (override.letterSpacing !== undefined) declarations.push(`letter-spacing: var(${prefix}-letter-spacing);`);
+
+    if (declarations.length > 0) {
+      rules.push(`${selectors.join(', ')} {\n  ${declarations.join('\n  ')}\n}`);
+    }
+
+    if (override.scaleRatio !== undefined) {
+      for (let level = 1; level <= 6; level++) {
+        const headings = selectors.map(selector => `${selector} h${level}`).join(', ');
+        rules.push(`${headings} { font-size: var(${prefix}-scale-${6 - level}); }`);
+      }
+    }
+  });
+
+  return rules.length > 0 ? `/* Typography Overrides */\n${rules.join('\n')}\n` : '';
+}
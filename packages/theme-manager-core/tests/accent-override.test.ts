@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ThemeManager } from '../src/core/theme-manager';
+import { contrastRatio, deriveAccentVariables, parseColor, WCAG_AA_CONTRAST } from '../src/utils/accent-color';
+import { generateFOUCScript } from '../src/utils/fouc-script';
+import { resetAllMocks } from '../test-setup';
+import { createRegistry, createThemeManager, mockThemeCSS } from './helpers/themes';
+
+const registryData = createRegistry('default');
+
+const contrast = (a: string, b: string) => contrastRatio(parseColor(a)!, parseColor(b)!);
+
+describe('Accent override', () => {
+  describe('deriveAccentVariables', () => {
+    it('should parse hex, rgb, hsl, oklch and bare shadcn HSL', () => {
+      expect(parseColor('#fff')!.l).toBeCloseTo(1, 3);
+      expect(parseColor('rgb(0, 0, 0)')!.l).toBeCloseTo(0, 3);
+      expect(parseColor('hsl(0 100% 50%)')!.h).toBeCloseTo(29.23, 1);
+      expect(parseColor('oklch(0.6 0.2 250 / 50%)')).toEqual({ l: 0.6, c: 0.2, h: 250 });
+      expect(parseColor('221 83% 53%')).not.toBeNull();
+      expect(parseColor('not-a-color')).toBeNull();
+    });
+
+    it.each([
+      ['#ffeb3b', 'oklch(1 0 0)', 'light'],
+      ['#1e3a8a', 'oklch(0.145 0 0)', 'dark'],
+      ['#22c55e', '0 0% 100%', 'light']
+    ] as const)('should meet WCAG AA for %s on %s', (color, background, mode) => {
+      const vars = deriveAccentVariables(color, background, mode);
+
+      expect(contrast(vars['--primary'], background)).toBeGreaterThanOrEqual(WCAG_AA_CONTRAST);
+      expect(contrast(vars['--primary-foreground'], vars['--primary'])).toBeGreaterThanOrEqual(WCAG_AA_CONTRAST);
+      expect(contrast(vars['--accent-foreground'], vars['--accent'])).toBeGreaterThanOrEqual(WCAG_AA_CONTRAST);
+      expect(vars['--ring']).toBe(vars['--primary']);
+      expect(vars['--primary']).toMatch(/^oklch\(/);
+    });
+  });
+
+  describe('ThemeManager', () => {
+    let themeManager: ThemeManager;
+
+    beforeEach(async () => {
+      resetAllMocks();
+      mockThemeCSS({
+        '/themes/default-light.css': ':root { --background: oklch(1 0 0); --primary: black; }',
+        '/themes/default-dark.css': ':root { --background: oklch(0.145 0 0); --primary: white; }'
+      });
+      themeManager = createThemeManager(registryData);
+      await themeManager.init();
+      await themeManager.setTheme('default', 'light');
+    });
+
+    it('should apply, cache and remove the accent variables', async () => {
+      const root = document.documentElement;
+      await themeManager.setAccentOverride('#ff5722');
+
+      expect(themeManager.getAccentOverride()).toBe('#ff5722');
+      expect(root.style.getPropertyValue('--primary')).toMatch(/^oklch\(/);
+      expect(root.style.getPropertyValue('--sidebar-primary')).toBe(root.style.getPropertyValue('--primary'));
+      expect(JSON.parse(localStorage.getItem('theme-css-vars')!)['--primary']).toMatch(/^oklch\(/);
+      await vi.waitFor(() => {
+        const cached = JSON.parse(localStorage.getItem('theme-accent-vars')!);
+        expect(Object.keys(cached).sort()).toEqual(['dark', 'light']);
+      });
+
+      await themeManager.setAccentOverride(null);
+      expect(root.style.getPropertyValue('--primary')).toBe('black');
+      expect(root.style.getPropertyValue('--accent')).toBe('');
+      expect(localStorage.getItem('theme-accent-vars')).toBeNull();
+    });
+
+    it('should keep the accent across mode changes and reject invalid colors', async () => {
+      await themeManager.setAccentOverride('#ff5722');
+      const lightPrimary = document.documentElement.style.getPropertyValue('--primary');
+      await themeManager.setTheme('default', 'dark');
+
+      expect(document.documentElement.style.getPropertyValue('--primary')).not.toBe(lightPrimary);
+      expect(document.documentElement.style.getPropertyValue('--primary')).toMatch(/^oklch\(/);
+      await expect(themeManager.setAccentOverride('nope')).rejects.toThrow('Invalid accent color');
+    });
+
+    it('should persist the accent in the theme mode config', async () => {
+      await themeManager.setAccentOverride('#ff5722');
+
+      await vi.waitFor(() => {
+        expect(JSON.parse(localStorage.getItem('theme-mode-config')!).accentColor).toBe('#ff5722');
+      });
+    });
+  });
+
+  it('should replay the accent in the FOUC script', () => {
+    expect(generateFOUCScript()).toContain('theme-accent-vars');
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ThemeManager } from '../src/core/theme-manager';
+import { contrastRatio, parseColor } from '../src/utils/accent-color';
+import { deriveHighContrastVariables, WCAG_AAA_CONTRAST } from '../src/utils/high-contrast';
+import { resetAllMocks } from '../test-setup';
+import { createRegistry, createThemeManager, mockThemeCSS } from './helpers/themes';
+
+const registryData = createRegistry('default');
+
+const lightTheme = {
+  '--background': 'oklch(0.97 0.01 250)',
+  '--foreground': 'oklch(0.45 0.02 250)',
+  '--muted': 'oklch(0.93 0.01 250)',
+  '--muted-foreground': 'oklch(0.65 0.02 250)',
+  '--primary': 'oklch(0.6 0.15 250)',
+  '--primary-foreground': 'oklch(0.9 0.01 250)',
+  '--border': 'oklch(0.92 0 0)',
+  '--radius': '0.5rem'
+};
+
+const contrast = (a: string, b: string) => contrastRatio(parseColor(a)!, parseColor(b)!);
+
+const mockMediaQueries = (matching: string[]) => {
+  vi.mocked(window.matchMedia).mockImplementation((query: string) => ({
+    matches: matching.includes(query),
+    media: query,
+    onchange: null,
+    addListener: vi.fn(),
+    removeListener: vi.fn(),
+    addEventListener: vi.fn(),
+    removeEventListener: vi.fn(),
+    dispatchEvent: vi.fn()
+  }) as unknown as MediaQueryList);
+};
+
+describe('Accessibility modes', () => {
+  const originalMatchMedia = vi.mocked(window.matchMedia).getMockImplementation()!;
+
+  afterEach(() => {
+    vi.mocked(window.matchMedia).mockImplementation(originalMatchMedia);
+  });
+
+  describe('deriveHighContrastVariables', () => {
+    it('should boost foreground/background separation to AAA and borders to 3:1', () => {
+      const vars = deriveHighContrastVariables(lightTheme, 'light');
+
+      expect(vars['--background']).toBe('oklch(1 0 0)');
+      expect(contrast(vars['--foreground'], vars['--background'])).toBeGreaterThanOrEqual(WCAG_AAA_CONTRAST);
+      expect(contrast(vars['--muted-foreground'], vars['--muted'])).toBeGreaterThanOrEqual(WCAG_AAA_CONTRAST);
+      expect(contrast(vars['--muted-foreground'], vars['--background'])).toBeGreaterThanOrEqual(WCAG_AAA_CONTRAST);
+      expect(contrast(vars['--primary-foreground'], vars['--primary'])).toBeGreaterThanOrEqual(WCAG_AAA_CONTRAST);
+      expect(contrast(vars['--border'], vars['--background'])).toBeGreaterThanOrEqual(3);
+      expect(vars['--radius']).toBe('0.5rem');
+      expect(lightTheme['--background']).toBe('oklch(0.97 0.01 250)');
+    });
+
+    it('should darken surfaces in dark mode', () => {
+      const vars = deriveHighContrastVariables({
+        '--background': 'oklch(0.25 0 0)',
+        '--foreground': 'oklch(0.7 0 0)'
+      }, 'dark');
+
+      expect(parseColor(vars['--background'])!.l).toBeCloseTo(0.1, 3);
+      expect(contrast(vars['--foreground'], vars['--background'])).toBeGreaterThanOrEqual(WCAG_AAA_CONTRAST);
+    });
+  });
+
+  describe('ThemeManager', () => {
+    let themeManager: ThemeManager;
+
+    beforeEach(() => {
+      resetAllMocks();
+      const css = Object.entries(lightTheme).map(([name, value]) => `${name}: ${value};`).join(' ');
+      mockThemeCSS(`:root { ${css} }`);
+      themeManager = createThemeManager(registryData);
+    });
+
+    it('should apply the high-contrast variant when prefers-contrast: more', async () => {
+      mockMediaQueries(['(prefers-contrast: more)']);
+      await themeManager.init();
+
+      expect(themeManager.isHighContrast()).toBe(true);
+      expect(document.documentElement.getAttribute('data-contrast')).toBe('more');
+      expect(document.documentElement.style.getPropertyValue('--background')).toBe('oklch(1 0 0)');
+    });
+
+    it('should toggle and persist an explicit contrast preference', async () => {
+      mockMediaQueries([]);
+      await themeManager.init();
+      expect(themeManager.isHighContrast()).toBe(false);
+
+      await themeManager.setContrastPreference('more');
+      expect(document.documentElement.style.getPropertyValue('--background')).toBe('oklch(1 0 0)');
+      await vi.waitFor(() => {
+        expect(JSON.parse(localStorage.getItem('theme-mode-config')!).contrast).toBe('more');
+      });
+
+      await themeManager.setContrastPreference('normal');
+      expect(document.documentElement.style.getPropertyValue('--background')).toBe(lightTheme['--background']);
+      expect(document.documentElement.hasAttribute('data-contrast')).toBe(false);
+    });
+
+    it('should skip transition classes under prefers-reduced-motion', async () => {
+      mockMediaQueries(['(prefers-reduced-motion: reduce)']);
+      await themeManager.init();
+      await themeManager.setTheme('default', 'dark');
+
+      expect(themeManager.prefersReducedMotion()).toBe(true);
+      expect(document.body.classList.contains('theme-transition')).toBe(false);
+      expect(document.documentElement.classList.contains('theme-switching')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { StorageManager, CachedTheme } from '../src/core/storage-manager';
+import { ThemeManager } from '../src/core/theme-manager';
+import { ThemeInstaller } from '../src/installers/theme-installer';
+import { MemoryCacheBackend } from '../src/adapters/memory-cache-backend';
+import { SessionStorageCacheBackend } from '../src/adapters/session-storage-cache-backend';
+import type { CacheBackend } from '../src/types/cache-backend';
+import { resetAllMocks } from '../test-setup';
+
+const cachedTheme = (name: string): CachedTheme => ({
+  name,
+  url: `https://example.com/r/${name}.json`,
+  data: { name, cssVars: { light: { '--primary': 'red' } } },
+  installed: true,
+  timestamp: Date.now()
+});
+
+describe('Cache backends', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should keep isolated StorageManager instances apart', async () => {
+    const a = new StorageManager({ backend: new MemoryCacheBackend() });
+    const b = new StorageManager({ backend: new MemoryCacheBackend() });
+    await a.init();
+    await b.init();
+
+    await a.storeTheme(cachedTheme('ocean'));
+
+    expect(await a.getTheme('ocean')).toMatchObject({ name: 'ocean' });
+    expect(await b.getAllThemes()).toEqual([]);
+    expect(StorageManager.getInstance()).toBe(StorageManager.getInstance());
+  });
+
+  it('should not let callers mutate records stored in memory', async () => {
+    const backend = new MemoryCacheBackend();
+    const theme = cachedTheme('ocean');
+    await backend.put('themes', theme.name, theme);
+
+    theme.installed = false;
+    (await backend.get<CachedTheme>('themes', 'ocean'))!.data.name = 'changed';
+
+    expect(await backend.get('themes', 'ocean')).toMatchObject({ installed: true, data: { name: 'ocean' } });
+  });
+
+  it('should persist themes and font config in a Web Storage backend', async () => {
+    const storageManager = new StorageManager({ backend: new SessionStorageCacheBackend(() => sessionStorage) });
+    await storageManager.init();
+
+    await storageManager.storeTheme(cachedTheme('ocean'));
+    await storageManager.storeFontConfig({ enabled: true, fonts: { mono: 'monaco' }, timestamp: 1 });
+    sessionStorage.setItem('theme-cache:themes:broken', '{not json');
+
+    expect(storageManager.getBackendName()).toBe('sessionStorage');
+    expect(JSON.parse(sessionStorage.getItem('theme-cache:themes:ocean')!).name).toBe('ocean');
+    expect((await storageManager.getAllThemes()).map(theme => theme.name)).toEqual(['ocean']);
+    expect(await storageManager.getFontConfig()).toEqual({ enabled: true, fonts: { mono: 'monaco' }, timestamp: 1 });
+  });
+
+  it('should fall back to memory when the backend is unavailable', async () => {
+    const blocked = new SessionStorageCacheBackend(() => {
+      throw new DOMException('The document is sandboxed', 'SecurityError');
+    });
+    const storageManager = new StorageManager({ backend: blocked });
+    await storageManager.init();
+
+    await storageManager.storeTheme(cachedTheme('ocean'));
+
+    expect(storageManager.getBackendName()).toBe('memory');
+    expect(await storageManager.getTheme('ocean')).toMatchObject({ name: 'ocean' });
+  });
+
+  it('should accept custom backends and share them with the installer', async () => {
+    const records = new Map<string, unknown>();
+    const custom: CacheBackend = {
+      name: 'custom',
+      init: vi.fn(async () => {}),
+      get: async <T>(store: string, key: string) => (records.get(`${store}/${key}`) as T) ?? null,
+      getAll: async <T>(store: string) => [...records.entries()]
+        .filter(([key]) => key.startsWith(`${store}/`))
+        .map(([, value]) => value as T),
+      put: async (store, key, value) => { records.set(`${store}/${key}`, value); },
+      delete: async (store, key) => { records.delete(`${store}/${key}`); }
+    };
+    const storageManager = new StorageManager({ backend: custom });
+    const themeManager = new ThemeManager('/themes/registry.json', {
+      version: '1.0.0',
+      lastUpdated: '2025-01-01',
+      themes: []
+    }, undefined, storageManager);
+    const installer = new ThemeInstaller(themeManager);
+
+    await storageManager.init();
+    await storageManager.storeTheme(cachedTheme('ocean'));
+
+    expect(themeManager.getStorageManager()).toBe(storageManager);
+    expect(await installer.isThemeInstalled('ocean')).toBe(true);
+    expect(custom.init).toHaveBeenCalledTimes(1);
+  });
+});
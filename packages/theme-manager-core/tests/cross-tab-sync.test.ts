@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ThemeManager } from '../src/core/theme-manager';
+import { CrossTabSync, CROSS_TAB_CHANNEL } from '../src/utils/cross-tab-sync';
+import { resetAllMocks } from '../test-setup';
+import { createRegistry, createThemeManager, mockThemeCSS } from './helpers/themes';
+
+const registryData = createRegistry('default', 'ocean');
+
+describe('Cross-tab sync', () => {
+  beforeEach(() => {
+    resetAllMocks();
+    mockThemeCSS();
+  });
+
+  describe('CrossTabSync', () => {
+    it('should deliver BroadcastChannel messages to other instances only', async () => {
+      const sender = new CrossTabSync();
+      const receiver = new CrossTabSync();
+      const own = vi.fn();
+      const received = vi.fn();
+      sender.subscribe(own);
+      receiver.subscribe(received);
+
+      sender.post({ type: 'theme', theme: 'ocean', mode: 'dark' });
+
+      await vi.waitFor(() => expect(received).toHaveBeenCalledWith(expect.objectContaining({ theme: 'ocean', mode: 'dark' })));
+      expect(own).not.toHaveBeenCalled();
+
+      sender.close();
+      receiver.close();
+    });
+
+    it('should fall back to storage events and ignore malformed payloads', () => {
+      const sync = new CrossTabSync('storage');
+      const received = vi.fn();
+      sync.subscribe(received);
+
+      window.dispatchEvent(new StorageEvent('storage', { key: CROSS_TAB_CHANNEL, newValue: '{not json' }));
+      window.dispatchEvent(new StorageEvent('storage', { key: CROSS_TAB_CHANNEL, newValue: JSON.stringify({ type: 'theme', theme: 1 }) }));
+      window.dispatchEvent(new StorageEvent('storage', {
+        key: CROSS_TAB_CHANNEL,
+        newValue: JSON.stringify({ type: 'fonts', override: { enabled: true, fonts: { mono: 'monaco' } }, source: 'other-tab' })
+      }));
+
+      expect(sync.transport).toBe('storage');
+      expect(received).toHaveBeenCalledTimes(1);
+      expect(received.mock.calls[0][0].override.fonts.mono).toBe('monaco');
+
+      sync.close();
+    });
+  });
+
+  describe('ThemeManager', () => {
+    let tabA: ThemeManager;
+    let tabB: ThemeManager;
+
+    beforeEach(async () => {
+      tabA = createThemeManager(registryData);
+      tabB = createThemeManager(registryData);
+      await tabA.init();
+      await tabB.init();
+      tabA.enableCrossTabSync();
+      tabB.enableCrossTabSync();
+    });
+
+    afterEach(() => {
+      tabA.disableCrossTabSync();
+      tabB.disableCrossTabSync();
+    });
+
+    it('should apply theme changes from another tab without recording history', async () => {
+      await tabA.setTheme('ocean', 'dark');
+
+      await vi.waitFor(() => expect(tabB.getCurrentTheme()).toBe('ocean'));
+      expect(tabB.getCurrentMode()).toBe('dark');
+      expect(tabB.canUndo).toBe(false);
+    });
+
+    it('should apply font overrides from another tab', async () => {
+      const changed = vi.fn();
+      tabB.addEventListener('fonts:changed', changed);
+
+      await tabA.getFontManager().setFontOverride('mono', 'monaco');
+
+      await vi.waitFor(() => expect(tabB.getFontManager().getOverrideConfiguration().fonts.mono).toBe('monaco'));
+      expect(changed).toHaveBeenCalledWith(expect.objectContaining({ source: 'remote' }));
+    });
+
+    it('should stop syncing when disabled', async () => {
+      tabB.disableCrossTabSync();
+      await tabA.setTheme('ocean', 'light');
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(tabB.isCrossTabSyncEnabled()).toBe(false);
+      expect(tabB.getCurrentTheme()).not.toBe('ocean');
+    });
+  });
+});
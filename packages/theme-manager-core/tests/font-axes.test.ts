@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FontManager } from '../src/core/font-manager';
+import { StorageManager } from '../src/core/storage-manager';
+import { MemoryCacheBackend } from '../src/adapters/memory-cache-backend';
+import {
+  getFontById,
+  buildGoogleFontsFamilyParam,
+  buildGoogleFontsUrl,
+  buildFontVariationSettings,
+  clampFontAxes
+} from '../src/catalogs/font-catalog';
+import { resetAllMocks } from '../test-setup';
+import { stubStylesheetLinks } from './helpers/stylesheet-links';
+
+describe('Variable font axes', () => {
+  let storage: StorageManager;
+  let fontManager: FontManager;
+  let appendedLinks: HTMLLinkElement[];
+
+  beforeEach(async () => {
+    resetAllMocks();
+    document.documentElement.removeAttribute('style');
+
+    appendedLinks = stubStylesheetLinks();
+
+    storage = new StorageManager({ backend: new MemoryCacheBackend() });
+    fontManager = new FontManager(undefined, undefined, storage);
+    await fontManager.init();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('builds Google Fonts URLs with axis ranges for variable fonts', () => {
+    expect(buildGoogleFontsFamilyParam(getFontById('inter')!)).toBe('family=Inter:opsz,wght@14..32,100..900');
+    expect(buildGoogleFontsFamilyParam(getFontById('roboto')!)).toBe('family=Roboto:ital,wdth,wght@0,75..100,100..900;1,75..100,100..900');
+    expect(buildGoogleFontsFamilyParam(getFontById('roboto-flex')!)).toBe('family=Roboto+Flex:opsz,slnt,wdth,wght@8..144,-10..0,25..151,100..1000');
+    expect(buildGoogleFontsFamilyParam(getFontById('lato')!)).toBe('family=Lato:wght@300;400;700;900');
+    expect(buildGoogleFontsUrl([getFontById('lato')!, getFontById('outfit')!]))
+      .toBe('https://fonts.googleapis.com/css2?family=Lato:wght@300;400;700;900&family=Outfit:wght@100..900&display=optional');
+  });
+
+  it('clamps axes to the font ranges and formats font-variation-settings', () => {
+    const inter = getFontById('inter')!;
+
+    expect(clampFontAxes(inter, { wght: 1200, opsz: 2, wdth: 80 })).toEqual({ wght: 900, opsz: 14 });
+    expect(buildFontVariationSettings({ wght: 450, opsz: 20 })).toBe('"opsz" 20, "wght" 450');
+    expect(buildFontVariationSettings({})).toBe('normal');
+  });
+
+  it('applies font-variation-settings for the category', async () => {
+    await fontManager.enableOverride();
+    await fontManager.setFontOverride('sans', 'roboto-flex');
+    await fontManager.setFontAxes('sans', { wght: 650, wdth: 200, slnt: -5 });
+
+    expect(fontManager.getFontAxes('sans')).toEqual({ wght: 650, wdth: 151, slnt: -5 });
+    expect(document.documentElement.style.getPropertyValue('--font-sans-variation'))
+      .toBe('"slnt" -5, "wdth" 151, "wght" 650');
+    expect(document.getElementById('font-overrides')?.textContent)
+      .toContain('font-variation-settings: var(--font-sans-variation, normal)');
+    expect(appendedLinks.some(link => link.href.includes('Roboto+Flex:opsz,slnt,wdth,wght@'))).toBe(true);
+
+    await fontManager.setFontAxes('sans', null);
+    expect(fontManager.getFontAxes('sans')).toBeNull();
+    expect(document.documentElement.style.getPropertyValue('--font-sans-variation')).toBe('');
+  });
+
+  it('rejects axes for categories without a variable font', async () => {
+    await expect(fontManager.setFontAxes('mono', { wght: 500 })).rejects.toThrow('No variable font selected for mono');
+
+    await fontManager.setFontOverride('mono', 'monaco');
+    await expect(fontManager.setFontAxes('mono', { wght: 500 })).rejects.toThrow('No variable font selected for mono');
+  });
+
+  it('persists axes alongside the font override configuration', async () => {
+    await fontManager.setFontOverride('serif', 'source-serif-4');
+    await fontManager.setFontAxes('serif', { opsz: 32, wght: 500 });
+    await fontManager.flushPendingSave();
+
+    expect((await storage.getFontConfig())?.axes).toEqual({ serif: { opsz: 32, wght: 500 } });
+
+    const reloaded = new FontManager(undefined, undefined, storage);
+    await reloaded.init();
+    expect(reloaded.getFontAxes('serif')).toEqual({ opsz: 32, wght: 500 });
+  });
+
+  it('re-clamps axes when the font changes and drops them when the override is removed', async () => {
+    await fontManager.setFontOverride('sans', 'roboto-flex');
+    await fontManager.setFontAxes('sans', { wght: 950, wdth: 140 });
+
+    await fontManager.setFontOverride('sans', 'inter');
+    expect(fontManager.getFontAxes('sans')).toEqual({ wght: 900 });
+
+    await fontManager.removeFontOverride('sans');
+    expect(fontManager.getOverrideConfiguration().axes).toBeUndefined();
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FontManager } from '../src/core/font-manager';
+import { FontLoader } from '../src/core/font-loader';
+import { StorageManager } from '../src/core/storage-manager';
+import { MemoryCacheBackend } from '../src/adapters/memory-cache-backend';
+import { ThemeEventEmitter } from '../src/utils/theme-event-emitter';
+import { getFontById } from '../src/catalogs/font-catalog';
+import { buildFallbackFontFace, buildFontFamilyWithFallback } from '../src/utils/font-fallback';
+import type { FontStatusEvent } from '../src/types/theme-events';
+import { resetAllMocks } from '../test-setup';
+import { stubStylesheetLinks } from './helpers/stylesheet-links';
+
+describe('Font loading strategies and fallbacks', () => {
+  let events: ThemeEventEmitter;
+  let statuses: FontStatusEvent[];
+  let fontManager: FontManager;
+  let appendedLinks: HTMLLinkElement[];
+
+  beforeEach(async () => {
+    resetAllMocks();
+    document.documentElement.removeAttribute('style');
+    document.getElementById('font-fallbacks')?.remove();
+
+    // Keep stylesheet links pending until the test loads them
+    appendedLinks = stubStylesheetLinks({ autoload: false });
+
+    events = new ThemeEventEmitter();
+    statuses = [];
+    events.on('fonts:status', event => statuses.push(event));
+
+    const storage = new StorageManager({ backend: new MemoryCacheBackend() });
+    fontManager = new FontManager(events, undefined, storage);
+    await fontManager.init();
+    await fontManager.enableOverride();
+  });
+
+  afterEach(() => {
+    appendedLinks.forEach(link => link.onload?.(new Event('load')));
+    vi.restoreAllMocks();
+  });
+
+  const waitForLink = () => vi.waitFor(() => {
+    if (appendedLinks.length === 0) throw new Error('no link yet');
+    return appendedLinks[appendedLinks.length - 1];
+  });
+
+  it('builds size-adjusted fallback faces from the bundled metrics', () => {
+    const inter = getFontById('inter')!;
+
+    expect(buildFallbackFontFace(inter)).toBe(`@font-face {
+  font-family: "Inter Fallback";
+  src: local("Arial");
+  size-adjust: 114.05%;
+  ascent-override: 84.94%;
+  descent-override: 21.15%;
+  line-gap-override: 0%;
+}`);
+    expect(buildFallbackFontFace(getFontById('jetbrains-mono')!)).toContain('src: local("Courier New");');
+    expect(buildFallbackFontFace(getFontById('georgia')!)).toBeNull();
+    expect(buildFontFamilyWithFallback(inter)).toBe('Inter, "Inter Fallback", system-ui, sans-serif');
+  });
+
+  it('swap applies the override at once over the fallback and reports when the font arrives', async () => {
+    fontManager.setLoadingOptions({ strategy: 'swap' });
+
+    await fontManager.setFontOverride('sans', 'inter');
+
+    expect(document.documentElement.style.getPropertyValue('--font-sans-selected'))
+      .toBe('Inter, "Inter Fallback", system-ui, sans-serif');
+    expect(document.getElementById('font-fallbacks')?.textContent).toContain('font-family: "Inter Fallback";');
+    expect(fontManager.getFontLoadStatus('Inter')).toBe('loading');
+
+    const link = await waitForLink();
+    expect(link.href).toContain('display=swap');
+    link.onload?.(new Event('load'));
+
+    expect(await fontManager.whenFontsReady()).toBe(true);
+    expect(statuses.map(event => [event.family, event.status, event.source]))
+      .toEqual([['Inter', 'loading', 'override'], ['Inter', 'loaded', 'override']]);
+  });
+
+  it('block-with-timeout waits for the font and gives up after the timeout', async () => {
+    fontManager.setLoadingOptions({ strategy: 'block-with-timeout', timeout: 100 });
+
+    const pending = fontManager.setFontOverride('serif', 'lora');
+    const link = await waitForLink();
+    expect(document.documentElement.style.getPropertyValue('--font-serif-selected')).toBe('');
+
+    await pending;
+    expect(fontManager.getFontLoadStatus('Lora')).toBe('timeout');
+    expect(document.documentElement.style.getPropertyValue('--font-serif-selected')).toContain('"Lora Fallback"');
+    expect(await fontManager.whenFontsReady()).toBe(false);
+
+    link.onload?.(new Event('load'));
+    await vi.waitFor(() => expect(fontManager.getFontLoadStatus('Lora')).toBe('loaded'));
+    expect(statuses.map(event => event.status)).toEqual(['loading', 'timeout', 'loaded']);
+  });
+
+  it('optional uses font-display: optional and can skip the fallback faces', async () => {
+    fontManager.setLoadingOptions({ strategy: 'optional', metricFallbacks: false });
+
+    await fontManager.setFontOverride('mono', 'fira-code');
+
+    expect((await waitForLink()).href).toContain('display=optional');
+    expect(document.documentElement.style.getPropertyValue('--font-mono-selected')).toBe('Fira Code, Monaco, Consolas, monospace');
+    expect(document.getElementById('font-fallbacks')?.textContent || '').toBe('');
+    expect(() => fontManager.setLoadingOptions({ timeout: -1 })).toThrow('Invalid font loading timeout');
+  });
+
+  it('reports theme font status through the shared emitter', async () => {
+    const loader = new FontLoader(null, events);
+
+    const loading = loader.loadThemeFonts({ 'font-sans': 'Outfit, sans-serif' });
+    (await waitForLink()).onload?.(new Event('load'));
+    await loading;
+
+    expect(statuses.map(event => [event.family, event.status, event.source]))
+      .toEqual([['Outfit', 'loading', 'theme'], ['Outfit', 'loaded', 'theme']]);
+  });
+});
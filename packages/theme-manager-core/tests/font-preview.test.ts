@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FontManager } from '../src/core/font-manager';
+import { parseFontFaceRules } from '../src/core/font-loader';
+import { StorageManager } from '../src/core/storage-manager';
+import { MemoryCacheBackend } from '../src/adapters/memory-cache-backend';
+import { resetAllMocks } from '../test-setup';
+import { stubStylesheetLinks } from './helpers/stylesheet-links';
+
+const GOOGLE_CSS = (family: string) => `
+/* latin-ext */
+@font-face {
+  font-family: '${family}';
+  font-style: normal;
+  font-weight: 100 900;
+  font-display: swap;
+  src: url(https://fonts.gstatic.com/s/${family.toLowerCase()}/latin-ext.woff2) format('woff2');
+  unicode-range: U+0100-02BA, U+1E00-1EFF;
+}
+/* latin */
+@font-face {
+  font-family: '${family}';
+  font-style: normal;
+  font-weight: 100 900;
+  font-display: swap;
+  src: url(https://fonts.gstatic.com/s/${family.toLowerCase()}/latin.woff2) format('woff2');
+  unicode-range: U+0000-00FF, U+0131;
+}`;
+
+class FakeFontFace {
+  constructor(public family: string, public source: string | ArrayBuffer, public descriptors: FontFaceDescriptors) {}
+}
+
+describe('Isolated font preview', () => {
+  let fontManager: FontManager;
+  let container: HTMLElement;
+  let documentFaces: Set<FakeFontFace>;
+
+  beforeEach(async () => {
+    resetAllMocks();
+    document.documentElement.removeAttribute('style');
+    document.body.innerHTML = '<div id="preview"></div>';
+    container = document.getElementById('preview')!;
+
+    // Stylesheet links of the live overrides load without reaching the network
+    stubStylesheetLinks();
+
+    documentFaces = new Set();
+    vi.stubGlobal('FontFace', FakeFontFace);
+    Object.defineProperty(document, 'fonts', {
+      configurable: true,
+      value: {
+        add: (face: FakeFontFace) => documentFaces.add(face),
+        delete: (face: FakeFontFace) => documentFaces.delete(face),
+        load: async () => [{}]
+      }
+    });
+    vi.mocked(fetch).mockImplementation(async (url: any) => {
+      const family = decodeURIComponent(String(url).match(/family=([^:&]+)/)![1]).replace(/\+/g, ' ');
+      return new Response(GOOGLE_CSS(family));
+    });
+
+    const storage = new StorageManager({ backend: new MemoryCacheBackend() });
+    fontManager = new FontManager(undefined, undefined, storage);
+    await fontManager.init();
+    await fontManager.setFontOverride('sans', 'roboto');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const samples = () => Array.from(container.querySelector('[data-font-preview]')!.shadowRoot!
+    .querySelectorAll<HTMLElement>('.font-preview-item'));
+
+  it('parses the @font-face rules of a Google Fonts stylesheet', () => {
+    expect(parseFontFaceRules(GOOGLE_CSS('Inter'))).toEqual([
+      { src: "url(https://fonts.gstatic.com/s/inter/latin-ext.woff2) format('woff2')", style: 'normal', weight: '100 900', unicodeRange: 'U+0100-02BA, U+1E00-1EFF' },
+      { src: "url(https://fonts.gstatic.com/s/inter/latin.woff2) format('woff2')", style: 'normal', weight: '100 900', unicodeRange: 'U+0000-00FF, U+0131' }
+    ]);
+  });
+
+  it('renders fonts side by side in a shadow root without touching the overrides', async () => {
+    const before = fontManager.getOverrideConfiguration();
+    const rootStyle = document.documentElement.getAttribute('style');
+
+    const preview = await fontManager.createFontPreview(container, ['inter', 'lora', 'georgia'], { text: 'Hamburgefonstiv' });
+
+    expect(samples().map(item => item.getAttribute('data-font-id'))).toEqual(['inter', 'lora', 'georgia']);
+    const families = samples().map(item => item.querySelector<HTMLElement>('.font-preview-sample')!.style.fontFamily);
+    expect(families[0]).toMatch(/^"Inter Preview \d+", system-ui, sans-serif$/);
+    expect(families[1]).toMatch(/^"Lora Preview \d+", Georgia, serif$/);
+    expect(families[2]).toBe('Georgia, serif');
+    expect(samples()[0].textContent).toContain('Hamburgefonstiv');
+
+    // Two faces per Google font, none of them under the real family name
+    expect(Array.from(documentFaces).map(face => face.family).every(family => family.includes(' Preview '))).toBe(true);
+    expect(documentFaces.size).toBe(4);
+    expect(fontManager.getOverrideConfiguration()).toEqual(before);
+    expect(document.documentElement.getAttribute('style')).toBe(rootStyle);
+    expect(document.getElementById('font-preview')).toBeNull();
+
+    preview.setText('Kerning');
+    expect(samples()[1].textContent).toContain('Kerning');
+
+    preview.dispose();
+    expect(container.children).toHaveLength(0);
+    expect(documentFaces.size).toBe(0);
+    await expect(preview.setFonts(['inter'])).rejects.toThrow('Font preview has been disposed');
+  });
+
+  it('keeps overlapping previews apart and ignores superseded loads', async () => {
+    const first = await fontManager.createFontPreview(container, ['inter']);
+    const second = await fontManager.createFontPreview(container, ['inter'], { shadow: false });
+
+    const familyOf = (host: Element) => host.querySelector<HTMLElement>('.font-preview-sample')?.style.fontFamily
+      ?? host.shadowRoot!.querySelector<HTMLElement>('.font-preview-sample')!.style.fontFamily;
+    const [firstHost, secondHost] = Array.from(container.querySelectorAll('[data-font-preview]'));
+    expect(familyOf(firstHost)).not.toBe(familyOf(secondHost));
+
+    const slow = first.setFonts(['lora']);
+    const fast = first.setFonts(['merriweather', 'inter']);
+    await Promise.all([slow, fast]);
+    expect(first.fonts).toEqual(['merriweather', 'inter']);
+
+    // Closing mid-load leaves nothing behind
+    const pending = second.setFonts(['playfair-display']);
+    second.dispose();
+    await pending;
+    expect(secondHost.isConnected).toBe(false);
+    expect(Array.from(documentFaces).some(face => face.family.startsWith('Playfair Display'))).toBe(false);
+    expect(Array.from(documentFaces).some(face => face.family.startsWith('Lora'))).toBe(false);
+
+    first.dispose();
+    expect(documentFaces.size).toBe(0);
+  });
+
+  it('shows the fallback of a font that fails to load', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(new Response('', { status: 500 }));
+
+    await fontManager.createFontPreview(container, ['outfit']);
+
+    expect(samples()[0].getAttribute('data-status')).toBe('error');
+    expect(samples()[0].querySelector<HTMLElement>('.font-preview-sample')!.style.fontFamily).toBe('Outfit, "Helvetica Neue", Arial, sans-serif');
+    await expect(fontManager.createFontPreview(container, ['nope'])).rejects.toThrow('Font not found: nope');
+  });
+
+  it('previewFont no longer changes the saved override', async () => {
+    await fontManager.previewFont('sans', 'inter');
+
+    expect(fontManager.getOverrideConfiguration().fonts.sans).toBe('roboto');
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FontManager } from '../src/core/font-manager';
+import { StorageManager } from '../src/core/storage-manager';
+import { MemoryCacheBackend } from '../src/adapters/memory-cache-backend';
+import { getRegisteredFonts, unregisterFont, getFontsByCategory } from '../src/catalogs/font-catalog';
+import {
+  FONT_PAIRINGS,
+  getFontPairings,
+  getPairingsForFont,
+  registerFontPairing,
+  unregisterFontPairing
+} from '../src/catalogs/font-pairings';
+import { fuzzyMatchScore, searchFonts, getFontTags, loadFontCatalog } from '../src/catalogs/font-search';
+import { resetAllMocks } from '../test-setup';
+
+describe('Font catalog search and pairings', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  afterEach(() => {
+    getRegisteredFonts().forEach(font => unregisterFont(font.id));
+    getFontPairings().forEach(pairing => unregisterFontPairing(pairing.id));
+    vi.restoreAllMocks();
+  });
+
+  it('ranks exact and prefix matches above fuzzy ones', () => {
+    expect(fuzzyMatchScore('inter', 'Inter')).toBe(100);
+    expect(fuzzyMatchScore('jetb', 'JetBrains Mono')).toBe(80);
+    expect(fuzzyMatchScore('mono', 'JetBrains Mono')).toBe(70);
+    expect(fuzzyMatchScore('jbmono', 'JetBrains Mono')).toBeGreaterThan(0);
+    expect(fuzzyMatchScore('xyz', 'Inter')).toBe(0);
+
+    expect(searchFonts({ query: 'playfar' }).map(font => font.id)).toEqual(['playfair-display']);
+    expect(searchFonts({ query: 'roboto' }).map(font => font.id).slice(0, 3))
+      .toEqual(['roboto', 'roboto-system', 'roboto-flex']);
+  });
+
+  it('filters by category, tags, subsets and x-height', () => {
+    expect(searchFonts({ category: 'sans', tags: ['geometric'] }).map(font => font.id))
+      .toEqual(['montserrat', 'poppins', 'outfit']);
+    expect(searchFonts({ query: 'geometric' }).every(font => font.tags?.includes('geometric'))).toBe(true);
+    expect(searchFonts({ category: 'serif', subset: 'greek' }).map(font => font.id)).toEqual(['source-serif-4']);
+    expect(searchFonts({ category: 'mono', xHeight: { min: 0.53 } }).map(font => font.id))
+      .toEqual(['monaco', 'jetbrains-mono']);
+    expect(getFontTags('mono')).toContain('ligatures');
+  });
+
+  it('only ships pairings made of fonts from the right categories', () => {
+    FONT_PAIRINGS.forEach(pairing => {
+      Object.entries(pairing.fonts).forEach(([category, fontId]) => {
+        expect(getFontsByCategory(category as 'sans' | 'serif' | 'mono').map(font => font.id)).toContain(fontId);
+      });
+    });
+    expect(getPairingsForFont('merriweather').map(pairing => pairing.id)).toEqual(['geometric', 'humanist']);
+    expect(() => registerFontPairing({ id: 'bad', name: 'Bad', fonts: { serif: 'inter' } })).toThrow('not a serif font');
+  });
+
+  it('loads fonts and pairings from an external JSON catalog', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(new Response(JSON.stringify({
+      fonts: [
+        { id: 'acme', name: 'Acme Grotesk', family: 'Acme Grotesk', category: 'google-fonts', classification: 'sans', fallback: 'sans-serif', tags: ['grotesque'], subsets: ['latin'] },
+        { id: 'broken', name: 'Broken', family: 'Broken', category: 'google-fonts', fallback: 'serif' },
+        { id: 'inter', name: 'Inter', family: 'Inter', category: 'google-fonts', classification: 'sans', fallback: 'sans-serif' }
+      ],
+      pairings: [
+        { id: 'acme-set', name: 'Acme', fonts: { sans: 'acme', serif: 'lora' } },
+        { id: 'missing', name: 'Missing', fonts: { sans: 'nope' } }
+      ]
+    })));
+
+    const result = await loadFontCatalog('/fonts/catalog.json');
+
+    expect(fetch).toHaveBeenCalledWith('/fonts/catalog.json');
+    expect(result.fonts).toEqual(['acme']);
+    expect(result.pairings).toEqual(['acme-set']);
+    expect(result.errors).toEqual([
+      'fonts[1]: classification: expected sans, serif or mono',
+      'fonts[2]: Font id is reserved by the built-in catalog: inter',
+      'pairings[1]: Pairing missing: font not found: nope'
+    ]);
+    expect(searchFonts({ query: 'acme', category: 'sans' }).map(font => font.id)).toEqual(['acme']);
+  });
+
+  it('skips catalog entries that would inject CSS or break the fallback metrics', async () => {
+    const font = { name: 'Hostile', category: 'google-fonts', classification: 'sans', fallback: 'sans-serif' };
+    const metrics = { unitsPerEm: 1000, ascent: 900, descent: -200, lineGap: 0, xWidthAvg: 500 };
+
+    const result = await loadFontCatalog({ fonts: [
+      { ...font, id: 'brace', family: 'x}body{display:none}', metrics },
+      { ...font, id: 'style', family: 'x</style><script>', metrics },
+      { ...font, id: 'fallback', family: 'Hostile', fallback: 'sans-serif; color: red' },
+      { ...font, id: 'range', family: 'Hostile', unicodeRange: 'U+0000-00FF/*' },
+      { ...font, id: 'escape', family: 'Hostile\\7d' },
+      { ...font, id: 'zero-em', family: 'Hostile', metrics: { ...metrics, unitsPerEm: 0 } },
+      { ...font, id: 'nan', family: 'Hostile', metrics: { ...metrics, ascent: 'tall' } },
+      { ...font, id: 'safe', family: '"Safe Sans"', metrics }
+    ] as never });
+
+    expect(result.fonts).toEqual(['safe']);
+    expect(result.errors).toEqual([
+      'fonts[0]: family: unsafe CSS value',
+      'fonts[1]: family: unsafe CSS value',
+      'fonts[2]: fallback: unsafe CSS value',
+      'fonts[3]: unicodeRange: unsafe CSS value',
+      'fonts[4]: family: unsafe CSS value',
+      'fonts[5]: metrics: unitsPerEm and xWidthAvg must be positive',
+      'fonts[6]: metrics: expected finite numbers for unitsPerEm, ascent, descent, lineGap, xWidthAvg'
+    ]);
+  });
+
+  it('rejects files that are not catalogs', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(new Response('not found', { status: 404, statusText: 'Not Found' }));
+    await expect(loadFontCatalog('/missing.json')).rejects.toThrow('Failed to load font catalog: 404');
+    await expect(loadFontCatalog({ fonts: 'inter' } as never)).rejects.toThrow('Invalid font catalog');
+  });
+
+  it('applies a pairing through the font manager', async () => {
+    const storage = new StorageManager({ backend: new MemoryCacheBackend() });
+    const fontManager = new FontManager(undefined, undefined, storage);
+    await fontManager.init();
+
+    await fontManager.applyFontPairing('system');
+
+    expect(fontManager.getOverrideConfiguration()).toMatchObject({
+      enabled: true,
+      fonts: { sans: 'system-ui', serif: 'georgia', mono: 'monaco' }
+    });
+    await expect(fontManager.applyFontPairing('nope')).rejects.toThrow('Font pairing not found: nope');
+  });
+});
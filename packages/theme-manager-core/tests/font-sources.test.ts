@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FontManager } from '../src/core/font-manager';
+import { FontLoader, getFontFileKey } from '../src/core/font-loader';
+import { StorageManager } from '../src/core/storage-manager';
+import { MemoryCacheBackend } from '../src/adapters/memory-cache-backend';
+import {
+  registerFont,
+  unregisterFont,
+  getRegisteredFonts,
+  getFontsByCategory,
+  parseFontSourceDescriptor,
+  FontOption
+} from '../src/catalogs/font-catalog';
+import { resetAllMocks } from '../test-setup';
+
+const FONT_BYTES = new Uint8Array([0, 1, 0, 0, 0, 4]);
+
+const acme: FontOption = {
+  id: 'acme',
+  name: 'Acme',
+  family: 'Acme',
+  category: 'self-hosted',
+  sources: { '400': 'https://cdn.example.com/acme.woff2', '700 italic': 'https://cdn.example.com/acme-bold-italic.woff2' },
+  classification: 'sans',
+  fallback: 'sans-serif'
+};
+
+/**
+ * FontFace stub: records the faces created, `invalid` makes load() reject
+ */
+class FakeFontFace {
+  static created: FakeFontFace[] = [];
+  static invalid = false;
+
+  constructor(public family: string, public source: ArrayBuffer, public descriptors: FontFaceDescriptors) {
+    FakeFontFace.created.push(this);
+  }
+
+  load(): Promise<FakeFontFace> {
+    return FakeFontFace.invalid ? Promise.reject(new Error('Invalid font data')) : Promise.resolve(this);
+  }
+}
+
+describe('Self-hosted and local font sources', () => {
+  let storage: StorageManager;
+  let addedFaces: unknown[];
+
+  beforeEach(async () => {
+    resetAllMocks();
+    FakeFontFace.created = [];
+    FakeFontFace.invalid = false;
+    addedFaces = [];
+    vi.stubGlobal('FontFace', FakeFontFace);
+    Object.defineProperty(document, 'fonts', {
+      configurable: true,
+      value: { add: (face: unknown) => addedFaces.push(face) }
+    });
+    vi.mocked(fetch).mockImplementation(async () => new Response(FONT_BYTES.slice().buffer));
+
+    storage = new StorageManager({ backend: new MemoryCacheBackend() });
+    await storage.init();
+  });
+
+  afterEach(() => {
+    getRegisteredFonts().forEach(font => unregisterFont(font.id));
+    vi.unstubAllGlobals();
+  });
+
+  it('parses @font-face descriptors from source map keys', () => {
+    expect(parseFontSourceDescriptor('400')).toEqual({ weight: '400', style: 'normal' });
+    expect(parseFontSourceDescriptor('700 italic')).toEqual({ weight: '700', style: 'italic' });
+    expect(parseFontSourceDescriptor('100 900')).toEqual({ weight: '100 900', style: 'normal' });
+  });
+
+  it('registers fonts in the catalog and protects built-in ids', () => {
+    registerFont(acme);
+
+    expect(getFontsByCategory('sans').map(font => font.id)).toContain('acme');
+    expect(() => registerFont({ ...acme, id: 'inter' })).toThrow('reserved');
+    expect(() => registerFont({ ...acme, id: 'empty', sources: {} })).toThrow('needs at least one source file');
+  });
+
+  it('loads self-hosted files with FontFace and caches the binaries', async () => {
+    registerFont(acme);
+    const appendSpy = vi.spyOn(document.head, 'appendChild');
+    const fontManager = new FontManager(undefined, undefined, storage);
+    await fontManager.init();
+
+    await fontManager.setFontOverride('sans', 'acme');
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(FakeFontFace.created.map(face => [face.family, face.descriptors.weight, face.descriptors.style]))
+      .toEqual([['Acme', '400', 'normal'], ['Acme', '700', 'italic']]);
+    expect(addedFaces).toHaveLength(2);
+    expect(appendSpy.mock.calls.some(([node]) => (node as HTMLLinkElement).href?.includes('googleapis'))).toBe(false);
+
+    const cached = await storage.getCachedFont(getFontFileKey('https://cdn.example.com/acme.woff2'));
+    expect(cached?.source).toBe('self-hosted');
+    expect(cached?.data?.byteLength).toBe(FONT_BYTES.length);
+
+    // Another loader (next page load) reads the files from the cache
+    vi.mocked(fetch).mockClear();
+    await new FontLoader(storage).loadFontFace(acme);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('prefers registered font files over Google Fonts for theme fonts', async () => {
+    registerFont({ ...acme, id: 'inter-self-hosted', name: 'Inter', family: 'Inter', sources: { '100 900': '/fonts/inter.woff2' } });
+    const appendSpy = vi.spyOn(document.head, 'appendChild');
+
+    await new FontLoader(storage).loadThemeFonts({ 'font-sans': 'Inter, sans-serif' });
+
+    expect(fetch).toHaveBeenCalledWith('/fonts/inter.woff2');
+    expect(appendSpy.mock.calls.some(([node]) => (node as HTMLLinkElement).href?.includes('googleapis'))).toBe(false);
+  });
+
+  it('registers uploaded files, restores them on startup and keeps them when clearing the cache', async () => {
+    const fontManager = new FontManager(undefined, undefined, storage);
+    await fontManager.init();
+
+    const font = await fontManager.registerLocalFont(new File([FONT_BYTES], 'My Font.woff2'), { classification: 'serif' });
+
+    expect(font).toMatchObject({ id: 'local-my-font', family: '"My Font"', category: 'local-file', fallback: 'Georgia, serif' });
+    expect(FakeFontFace.created[0].family).toBe('My Font');
+    expect(fetch).not.toHaveBeenCalled();
+    await fontManager.setFontOverride('serif', 'local-my-font');
+
+    await storage.clearCache();
+    await storage.enforceLimits();
+    unregisterFont('local-my-font');
+
+    const reloaded = new FontManager(undefined, undefined, storage);
+    await reloaded.init();
+    expect(reloaded.getLocalFonts().map(local => local.id)).toEqual(['local-my-font']);
+    expect(getFontsByCategory('serif').map(option => option.id)).toContain('local-my-font');
+
+    await reloaded.setFontOverride('serif', 'local-my-font');
+    await reloaded.removeLocalFont('local-my-font');
+    expect(reloaded.getOverrideConfiguration().fonts.serif).toBeUndefined();
+    expect(await storage.getCachedFonts()).toEqual([]);
+  });
+
+  it('rejects files that are not valid fonts', async () => {
+    const fontManager = new FontManager(undefined, undefined, storage);
+    await fontManager.init();
+    FakeFontFace.invalid = true;
+
+    await expect(fontManager.registerLocalFont(new File([FONT_BYTES], 'broken.ttf')))
+      .rejects.toThrow('Invalid font file broken.ttf');
+    expect(fontManager.getLocalFonts()).toEqual([]);
+    expect(await storage.getCachedFonts()).toEqual([]);
+  });
+});
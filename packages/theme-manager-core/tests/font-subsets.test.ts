@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FontManager } from '../src/core/font-manager';
+import { FontLoader } from '../src/core/font-loader';
+import { StorageManager } from '../src/core/storage-manager';
+import { MemoryCacheBackend } from '../src/adapters/memory-cache-backend';
+import { buildGoogleFontsUrl, getFontById } from '../src/catalogs/font-catalog';
+import { buildScriptFallbacks, getLocaleSubsets, getMissingSubsets } from '../src/catalogs/font-scripts';
+import { resetAllMocks } from '../test-setup';
+import { stubStylesheetLinks } from './helpers/stylesheet-links';
+
+describe('Font subsets for non-Latin locales', () => {
+  let appendedLinks: HTMLLinkElement[];
+
+  beforeEach(() => {
+    resetAllMocks();
+    document.documentElement.removeAttribute('style');
+    document.documentElement.removeAttribute('lang');
+
+    appendedLinks = stubStylesheetLinks();
+  });
+
+  afterEach(() => {
+    document.documentElement.removeAttribute('lang');
+    vi.restoreAllMocks();
+  });
+
+  it('maps locales to the subsets they need', () => {
+    expect(getLocaleSubsets(['ja-JP', 'en'])).toEqual(['latin', 'japanese']);
+    expect(getLocaleSubsets(['zh-Hant-TW'])).toEqual(['latin', 'chinese-traditional']);
+    expect(getLocaleSubsets(['zh_CN', 'ar-EG'])).toEqual(['latin', 'chinese-simplified', 'arabic']);
+    expect(getLocaleSubsets(['pl', 'uk'])).toEqual(['latin', 'latin-ext', 'cyrillic', 'cyrillic-ext']);
+    expect(getLocaleSubsets(['es-ES'])).toEqual(['latin']);
+  });
+
+  it('leaves the script subsets to unicode-range and only narrows the request with text', () => {
+    const inter = getFontById('inter')!;
+    const lora = getFontById('lora')!;
+
+    expect(buildGoogleFontsUrl([inter, lora], 'swap')).toMatch(/family=Lora[^&]*&display=swap$/);
+    expect(buildGoogleFontsUrl([inter], 'swap', { text: 'Привет' }))
+      .toMatch(/&display=swap&text=%D0%9F%D1%80%D0%B8%D0%B2%D0%B5%D1%82$/);
+  });
+
+  it('falls back per script to system fonts that cover the glyphs', () => {
+    const inter = getFontById('inter')!;
+
+    expect(getMissingSubsets(inter, ['latin', 'cyrillic', 'arabic'])).toEqual(['arabic']);
+    expect(getMissingSubsets(getFontById('system-ui')!, ['latin', 'japanese'])).toEqual([]);
+    expect(buildScriptFallbacks(inter, ['latin', 'arabic'], 'sans'))
+      .toBe('"Geeza Pro", "Segoe UI", Tahoma, "Noto Sans Arabic"');
+    expect(buildScriptFallbacks(getFontById('lora')!, ['latin', 'japanese'], 'serif'))
+      .toBe('"Hiragino Mincho ProN", "Yu Mincho", "Noto Serif JP"');
+  });
+
+  it('uses <html lang> for the fallback stack of a Japanese page', async () => {
+    document.documentElement.lang = 'ja';
+    const storage = new StorageManager({ backend: new MemoryCacheBackend() });
+    const fontManager = new FontManager(undefined, undefined, storage);
+    await fontManager.init();
+    await fontManager.enableOverride();
+    fontManager.setLoadingOptions({ strategy: 'swap', metricFallbacks: false });
+
+    await fontManager.setFontOverride('sans', 'inter');
+    await fontManager.setFontOverride('serif', 'lora');
+
+    // Neither font has Japanese glyphs: kana and kanji come from the system fonts of the stack
+    const style = document.documentElement.style;
+    expect(style.getPropertyValue('--font-sans-selected'))
+      .toBe('Inter, "Hiragino Sans", "Hiragino Kaku Gothic ProN", "Yu Gothic", Meiryo, "Noto Sans JP", system-ui, sans-serif');
+    expect(style.getPropertyValue('--font-serif-selected'))
+      .toBe('Lora, "Hiragino Mincho ProN", "Yu Mincho", "Noto Serif JP", Georgia, serif');
+    await vi.waitFor(() => expect(appendedLinks.map(link => link.href).join(' ')).toContain('family=Lora'));
+    expect(appendedLinks.map(link => link.href).join(' ')).not.toContain('subset=');
+
+    // Cyrillic is in both fonts: no script fallback
+    fontManager.setLoadingOptions({ locales: ['ru'] });
+    expect(style.getPropertyValue('--font-sans-selected')).toBe('Inter, system-ui, sans-serif');
+  });
+
+  it('applies the Arabic fallback stack for configured locales', async () => {
+    const storage = new StorageManager({ backend: new MemoryCacheBackend() });
+    const fontManager = new FontManager(undefined, undefined, storage);
+    await fontManager.init();
+    await fontManager.enableOverride();
+    fontManager.setLoadingOptions({ strategy: 'swap', metricFallbacks: false, locales: ['ar'] });
+
+    await fontManager.setFontOverride('sans', 'inter');
+
+    expect(document.documentElement.style.getPropertyValue('--font-sans-selected'))
+      .toBe('Inter, "Geeza Pro", "Segoe UI", Tahoma, "Noto Sans Arabic", system-ui, sans-serif');
+    await vi.waitFor(() => expect(appendedLinks).toHaveLength(1));
+    expect(appendedLinks[0].href).toContain('family=Inter');
+    expect(appendedLinks[0].href).not.toContain('subset=');
+  });
+});
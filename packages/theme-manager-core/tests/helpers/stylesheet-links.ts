@@ -0,0 +1,22 @@
+import { vi } from 'vitest';
+
+/**
+ * Intercept the `<link>` elements appended to `<head>` so font stylesheets never hit the network.
+ * With `autoload` they fire `load` on the next tick; otherwise they stay pending until the test calls `onload`.
+ * @returns the intercepted links, in order
+ */
+export function stubStylesheetLinks({ autoload = true }: { autoload?: boolean } = {}): HTMLLinkElement[] {
+  const links: HTMLLinkElement[] = [];
+  const append = document.head.appendChild.bind(document.head);
+
+  vi.spyOn(document.head, 'appendChild').mockImplementation(<T extends Node>(node: T): T => {
+    if (node instanceof HTMLLinkElement) {
+      links.push(node);
+      if (autoload) setTimeout(() => node.onload?.(new Event('load')), 0);
+      return node;
+    }
+    return append(node);
+  });
+
+  return links;
+}
@@ -0,0 +1,47 @@
+import { vi } from 'vitest';
+import { ThemeManager } from '../../src/core/theme-manager';
+import type { ThemeRegistryData } from '../../src/core/theme-registry';
+import type { StorageManager } from '../../src/core/storage-manager';
+
+/**
+ * Local built-in theme with its CSS under /themes/<id>-<mode>.css
+ */
+export const theme = (id: string) => ({
+  id,
+  name: id,
+  label: id,
+  version: '1.0.0',
+  source: 'local' as const,
+  category: 'built-in' as const,
+  modes: { light: `/themes/${id}-light.css`, dark: `/themes/${id}-dark.css` },
+  fonts: { sans: 'sans-serif', serif: 'serif', mono: 'monospace' },
+  preview: { primary: '', background: '', accent: '' },
+  config: { radius: '0.5rem' }
+});
+
+/**
+ * Registry of local themes, the first one is the default
+ */
+export const createRegistry = (...ids: string[]): ThemeRegistryData => ({
+  version: '1.0.0',
+  lastUpdated: '2025-01-01',
+  themes: ids.map((id, index) => index === 0 ? { ...theme(id), default: true } : theme(id))
+});
+
+/**
+ * Serve theme stylesheets through the mocked fetch: the same CSS for every URL,
+ * or by URL with an empty `:root {}` for the rest
+ */
+export function mockThemeCSS(css: string | Record<string, string> = ':root { --primary: black; }'): void {
+  vi.mocked(fetch).mockImplementation(async (url: any) => ({
+    ok: true,
+    status: 200,
+    text: async () => typeof css === 'string' ? css : css[String(url)] || ':root {}'
+  }) as Response);
+}
+
+/**
+ * ThemeManager over the given registry (not initialized)
+ */
+export const createThemeManager = (registryData: ThemeRegistryData, storage?: StorageManager) =>
+  new ThemeManager('/themes/registry.json', registryData, undefined, storage);
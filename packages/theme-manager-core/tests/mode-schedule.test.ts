@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { evaluateModeSchedule, getSunTimes, isValidModeSchedule, ModeSchedule } from '../src/utils/mode-schedule';
+import { generateFOUCScript } from '../src/utils/fouc-script';
+import { resetAllMocks } from '../test-setup';
+import { createRegistry, createThemeManager, mockThemeCSS } from './helpers/themes';
+
+const madrid: ModeSchedule = { type: 'solar', latitude: 40.4168, longitude: -3.7038 };
+
+describe('Mode schedule', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('fixed hours', () => {
+    const schedule: ModeSchedule = { type: 'fixed', lightAt: '07:00', darkAt: '19:30' };
+
+    it('should resolve light during the day and dark at night', () => {
+      expect(evaluateModeSchedule(schedule, new Date(2025, 0, 10, 12, 0)).mode).toBe('light');
+      expect(evaluateModeSchedule(schedule, new Date(2025, 0, 10, 20, 0)).mode).toBe('dark');
+      expect(evaluateModeSchedule(schedule, new Date(2025, 0, 10, 6, 59)).mode).toBe('dark');
+    });
+
+    it('should compute the next change across midnight', () => {
+      const { nextChange } = evaluateModeSchedule(schedule, new Date(2025, 0, 10, 20, 0));
+      expect(nextChange).toEqual(new Date(2025, 0, 11, 7, 0));
+    });
+
+    it('should support windows wrapping midnight', () => {
+      const nightShift: ModeSchedule = { type: 'fixed', lightAt: '22:00', darkAt: '06:00' };
+      expect(evaluateModeSchedule(nightShift, new Date(2025, 0, 10, 23, 0)).mode).toBe('light');
+      expect(evaluateModeSchedule(nightShift, new Date(2025, 0, 10, 12, 0)).mode).toBe('dark');
+    });
+  });
+
+  describe('solar', () => {
+    it('should compute sunrise and sunset locally', () => {
+      const times = getSunTimes(new Date(Date.UTC(2025, 5, 21, 12)), madrid.latitude, madrid.longitude);
+      if ('polar' in times) throw new Error('unexpected polar result');
+
+      // Madrid, summer solstice: ~04:45 UTC sunrise, ~19:48 UTC sunset
+      expect(Math.abs(times.sunrise.getTime() - Date.UTC(2025, 5, 21, 4, 45))).toBeLessThan(5 * 60000);
+      expect(Math.abs(times.sunset.getTime() - Date.UTC(2025, 5, 21, 19, 48))).toBeLessThan(5 * 60000);
+    });
+
+    it('should resolve mode and next change from sun times', () => {
+      const noon = evaluateModeSchedule(madrid, new Date(Date.UTC(2025, 5, 21, 12)));
+      expect(noon.mode).toBe('light');
+
+      const night = evaluateModeSchedule(madrid, new Date(Date.UTC(2025, 5, 21, 22)));
+      expect(night.mode).toBe('dark');
+      expect(night.nextChange.getUTCDate()).toBe(22);
+    });
+
+    it('should handle polar day and night', () => {
+      const svalbard = { type: 'solar' as const, latitude: 78.22, longitude: 15.65 };
+      expect(evaluateModeSchedule(svalbard, new Date(Date.UTC(2025, 5, 21, 0))).mode).toBe('light');
+      expect(evaluateModeSchedule(svalbard, new Date(Date.UTC(2025, 11, 21, 12))).mode).toBe('dark');
+    });
+  });
+
+  it('should validate persisted schedules', () => {
+    expect(isValidModeSchedule({ type: 'fixed', lightAt: '7:00', darkAt: '19:00' })).toBe(true);
+    expect(isValidModeSchedule({ type: 'fixed', lightAt: '25:00', darkAt: '19:00' })).toBe(false);
+    expect(isValidModeSchedule({ type: 'solar', latitude: 120, longitude: 0 })).toBe(false);
+    expect(isValidModeSchedule(null)).toBe(false);
+  });
+
+  it('should only store a schedule set before init', async () => {
+    mockThemeCSS();
+    const themeManager = createThemeManager(createRegistry('default'));
+    const changed = vi.fn();
+    themeManager.addEventListener('theme:changed', changed);
+
+    await themeManager.setModeSchedule({ type: 'fixed', lightAt: '07:00', darkAt: '19:00' });
+
+    expect(themeManager.getModeSchedule()).toEqual({ type: 'fixed', lightAt: '07:00', darkAt: '19:00' });
+    expect(changed).not.toHaveBeenCalled();
+    expect(fetch).not.toHaveBeenCalled();
+    expect(document.documentElement.hasAttribute('data-mode')).toBe(false);
+  });
+
+  describe('FOUC script', () => {
+    const runFOUC = (schedule: ModeSchedule, now: Date) => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(now);
+      localStorage.setItem('theme-current', 'default');
+      localStorage.setItem('theme-mode', 'auto');
+      localStorage.setItem('theme-mode-config', JSON.stringify({ currentTheme: 'default', currentMode: 'auto', schedule }));
+
+      new Function(generateFOUCScript())();
+      return document.documentElement.getAttribute('data-mode');
+    };
+
+    it.each([
+      new Date(Date.UTC(2025, 5, 21, 4, 30)),
+      new Date(Date.UTC(2025, 5, 21, 12)),
+      new Date(Date.UTC(2025, 5, 21, 20, 0)),
+      new Date(Date.UTC(2025, 11, 21, 17, 0))
+    ])('should match evaluateModeSchedule for a solar schedule at %s', (now) => {
+      expect(runFOUC(madrid, now)).toBe(evaluateModeSchedule(madrid, now).mode);
+    });
+
+    it('should honour fixed hours before first paint', () => {
+      const schedule: ModeSchedule = { type: 'fixed', lightAt: '08:00', darkAt: '18:00' };
+      expect(runFOUC(schedule, new Date(2025, 0, 10, 21, 0))).toBe('dark');
+      expect(runFOUC(schedule, new Date(2025, 0, 10, 9, 0))).toBe('light');
+    });
+  });
+});
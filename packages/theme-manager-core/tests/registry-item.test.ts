@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StorageManager } from '../src/core/storage-manager';
+import { FontLoader } from '../src/core/font-loader';
+import { MemoryCacheBackend } from '../src/adapters/memory-cache-backend';
+import { ThemeInstaller } from '../src/installers/theme-installer';
+import { parseRegistryItem, buildRegistryCSS, getRegistryItemFonts } from '../src/installers/registry-item';
+import { resetAllMocks } from '../test-setup';
+import { createRegistry, createThemeManager } from './helpers/themes';
+
+const ITEM_URL = 'https://tweakcn.com/r/themes/neo-brutalism.json';
+
+const registryItem = {
+  $schema: 'https://ui.shadcn.com/schema/registry-item.json',
+  name: 'neo-brutalism',
+  type: 'registry:style',
+  title: 'Neo Brutalism',
+  description: 'Thick borders and hard shadows',
+  dependencies: ['tw-animate-css'],
+  devDependencies: [],
+  registryDependencies: ['utils'],
+  tailwind: { config: { theme: { extend: { borderWidth: { 3: '3px' } } } } },
+  files: [{ path: 'theme.css', type: 'registry:file' }],
+  cssVars: {
+    theme: { 'font-sans': 'DM Sans, sans-serif', 'font-mono': 'Space Mono, monospace', 'font-serif': 'ui-serif, serif' },
+    light: { background: 'oklch(1 0 0)', primary: 'oklch(0.65 0.24 27)' },
+    dark: { background: 'oklch(0 0 0)', primary: 'oklch(0.7 0.19 23)' }
+  },
+  css: {
+    '@layer base': {
+      body: { 'letter-spacing': 'var(--tracking-normal)' }
+    }
+  }
+};
+
+const registryData = createRegistry('default');
+
+describe('shadcn registry items', () => {
+  let storage: StorageManager;
+
+  beforeEach(async () => {
+    resetAllMocks();
+    document.getElementById('theme-css-rules')?.remove();
+    storage = new StorageManager({ backend: new MemoryCacheBackend() });
+    await storage.init();
+
+    vi.mocked(fetch).mockImplementation(async (url: any) => url === ITEM_URL
+      ? new Response(JSON.stringify(registryItem))
+      : new Response(':root { --primary: black; }'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the extra blocks and reports the fields it cannot apply', () => {
+    const { theme, unsupportedFields } = parseRegistryItem(registryItem);
+
+    expect(theme).toMatchObject({
+      name: 'neo-brutalism',
+      type: 'registry:style',
+      title: 'Neo Brutalism',
+      css: registryItem.css,
+      dependencies: ['tw-animate-css'],
+      registryDependencies: ['utils'],
+      tailwind: registryItem.tailwind
+    });
+    expect(theme).not.toHaveProperty('files');
+    // Empty devDependencies are not worth a warning
+    expect(unsupportedFields).toEqual(['dependencies', 'registryDependencies', 'tailwind', 'files']);
+    expect(parseRegistryItem({ name: 'plain', cssVars: { light: {} } }).unsupportedFields).toEqual([]);
+  });
+
+  it('rejects items that are not themes or carry unsafe css', () => {
+    expect(() => parseRegistryItem({ ...registryItem, type: 'registry:ui' })).toThrow('registry:ui is not a theme item');
+    expect(() => parseRegistryItem({ name: 'x', cssVars: {} })).toThrow('Invalid theme format: cssVars');
+    expect(() => parseRegistryItem({ ...registryItem, dependencies: 'react' })).toThrow('dependencies: expected an array of strings');
+    expect(() => parseRegistryItem({ ...registryItem, css: { body: { color: 'red } * { color: blue' } } }))
+      .toThrow('Invalid theme format: css: unsafe value of "color"');
+    expect(() => parseRegistryItem({ ...registryItem, name: 'x */ body { color: red } /*' }))
+      .toThrow('Invalid theme format: name');
+  });
+
+  it('only lets layer and conditional at-rules through', () => {
+    const rejects = (css: unknown, message: string) =>
+      expect(() => parseRegistryItem({ ...registryItem, css })).toThrow(message);
+
+    rejects({ '@import url(https://evil.example/x.css)': {} }, 'unsupported at-rule "@import"');
+    rejects({ '@font-face': { 'font-family': 'x', src: 'url(https://evil.example/x.woff2)' } }, 'unsupported at-rule "@font-face"');
+    rejects({ '@layer base': { '@IMPORT "x.css"': {} } }, 'unsupported at-rule "@import"');
+    rejects({ body: { color: 'red; background: url(https://evil.example/t)' } }, 'unsafe value of "color"');
+    rejects({ 'body } html': { color: 'red' } }, 'unsafe selector "body } html"');
+    rejects({ body: { color: 'red /* swallow' } }, 'unsafe value of "color"');
+    rejects({ body: { color: '</style><script>' } }, 'unsafe value of "color"');
+
+    expect(parseRegistryItem({
+      ...registryItem,
+      css: { '@media (min-width: 40rem)': { '@supports (display: grid)': { body: { display: 'grid' } } }, '@container card (width > 20rem)': {} }
+    }).theme.css).toBeDefined();
+  });
+
+  it('serializes css rules and finds the declared web fonts', () => {
+    expect(buildRegistryCSS({ '@layer base, components': {}, ...registryItem.css })).toBe(
+      '@layer base, components;\n@layer base {\n  body {\n    letter-spacing: var(--tracking-normal);\n  }\n}'
+    );
+    expect(() => buildRegistryCSS({ '@plugin "tailwindcss-animate"': {} })).toThrow('unsupported at-rule "@plugin"');
+    expect(getRegistryItemFonts(registryItem.cssVars).map(font => font.family)).toEqual(['DM Sans', 'Space Mono']);
+  });
+
+  it('installs the item and applies its css and fonts with the theme', async () => {
+    const installer = new ThemeInstaller(createThemeManager(registryData, storage));
+    const installed = vi.fn();
+    installer.addEventListener('theme:installed', installed);
+
+    const result = await installer.installFromUrl(ITEM_URL);
+
+    expect(result).toEqual({ themeId: 'neo-brutalism', unsupportedFields: ['dependencies', 'registryDependencies', 'tailwind', 'files'] });
+    expect(installed).toHaveBeenCalledWith(expect.objectContaining({ unsupportedFields: result.unsupportedFields }));
+    expect((await storage.getTheme('neo-brutalism'))?.data).toMatchObject({ css: registryItem.css, tailwind: registryItem.tailwind });
+
+    const loadThemeFonts = vi.spyOn(FontLoader.prototype, 'loadThemeFonts').mockResolvedValue();
+    const themeManager = createThemeManager(registryData, storage);
+    await themeManager.init();
+
+    const theme = themeManager.getThemeRegistry().getTheme('neo-brutalism')!;
+    expect(theme.label).toBe('Neo Brutalism');
+    expect(theme.externalFonts?.map(font => font.family)).toEqual(['DM Sans', 'Space Mono']);
+
+    await themeManager.setTheme('neo-brutalism', 'light');
+    expect(document.getElementById('theme-css-rules')?.textContent).toContain('letter-spacing: var(--tracking-normal);');
+    expect(loadThemeFonts).toHaveBeenCalledWith(expect.objectContaining({ 'font-sans': 'DM Sans, sans-serif' }));
+
+    await themeManager.setTheme('default', 'light');
+    expect(document.getElementById('theme-css-rules')).toBeNull();
+  });
+
+  it('does not inject unsafe css stored before validation', async () => {
+    await storage.storeTheme({
+      name: 'legacy',
+      url: ITEM_URL,
+      data: { name: 'legacy', cssVars: registryItem.cssVars, css: { '@import url(https://evil.example/x.css)': {} } },
+      installed: true,
+      timestamp: Date.now()
+    });
+    vi.spyOn(FontLoader.prototype, 'loadThemeFonts').mockResolvedValue();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const themeManager = createThemeManager(registryData, storage);
+    await themeManager.init();
+
+    await themeManager.setTheme('legacy', 'light');
+
+    expect(document.getElementById('theme-css-rules')).toBeNull();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Cannot resolve CSS rules of "legacy"'), expect.any(Error));
+
+    // An id that would end the comment the rules are labelled with
+    await themeManager.installTheme({ name: 'x */ body{color:red} /*', cssVars: registryItem.cssVars, css: registryItem.css }, ITEM_URL);
+    await themeManager.setTheme('x */ body{color:red} /*', 'light');
+    expect(document.getElementById('theme-css-rules')).toBeNull();
+  });
+});
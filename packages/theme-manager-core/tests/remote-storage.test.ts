@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { StorageManager, ThemeModeConfig } from '../src/core/storage-manager';
+import { MemoryCacheBackend } from '../src/adapters/memory-cache-backend';
+import { HttpRemoteStorageAdapter } from '../src/adapters/http-remote-storage-adapter';
+import { resetAllMocks } from '../test-setup';
+import { createRegistry, createThemeManager, mockThemeCSS } from './helpers/themes';
+
+const registryData = createRegistry('default', 'ocean');
+
+/**
+ * Local stub of the JSON endpoint: GET/PUT /prefs/:key backed by a Map
+ */
+function createStubServer() {
+  const documents = new Map<string, unknown>();
+  const handler = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const key = decodeURIComponent(String(input).split('/prefs/')[1]);
+    if (init?.method === 'PUT') {
+      documents.set(key, JSON.parse(String(init.body)));
+      return new Response(null, { status: 204 });
+    }
+    return documents.has(key)
+      ? new Response(JSON.stringify(documents.get(key)), { status: 200 })
+      : new Response('Not found', { status: 404 });
+  });
+  return { documents, fetch: handler as unknown as typeof fetch, handler };
+}
+
+const modeConfig = (currentTheme: string, timestamp: number): ThemeModeConfig => ({
+  currentTheme,
+  currentMode: 'dark',
+  timestamp
+});
+
+describe('Remote storage', () => {
+  let server: ReturnType<typeof createStubServer>;
+  let remote: HttpRemoteStorageAdapter;
+
+  beforeEach(() => {
+    resetAllMocks();
+    server = createStubServer();
+    remote = new HttpRemoteStorageAdapter({
+      baseUrl: 'https://api.example.com/prefs/',
+      headers: () => ({ Authorization: 'Bearer token' }),
+      pollInterval: 0,
+      fetch: server.fetch
+    });
+  });
+
+  it('should talk JSON to the endpoint', async () => {
+    expect(await remote.get('theme-mode-config')).toBeNull();
+
+    await remote.set('theme-mode-config', modeConfig('ocean', 1));
+
+    expect(await remote.get('theme-mode-config')).toEqual(modeConfig('ocean', 1));
+    expect(server.handler).toHaveBeenCalledWith(
+      'https://api.example.com/prefs/theme-mode-config',
+      expect.objectContaining({ headers: expect.objectContaining({ Authorization: 'Bearer token' }) })
+    );
+  });
+
+  it('should write locally first and push in the background', async () => {
+    const storageManager = new StorageManager({ backend: new MemoryCacheBackend(), remote });
+    await storageManager.init();
+
+    await storageManager.storeThemeModeConfig(modeConfig('ocean', 10));
+
+    expect((await storageManager.getThemeModeConfig())?.currentTheme).toBe('ocean');
+    await vi.waitFor(() => expect(server.documents.get('theme-mode-config')).toMatchObject({ currentTheme: 'ocean' }));
+  });
+
+  it('should resolve conflicts by timestamp', async () => {
+    const storageManager = new StorageManager({ backend: new MemoryCacheBackend(), remote });
+    await storageManager.init();
+    const changes = vi.fn();
+    storageManager.onRemoteChange(changes);
+
+    // Remote newer: applied locally and reported
+    await storageManager.storeThemeModeConfig(modeConfig('default', 10), { pushRemote: false });
+    server.documents.set('theme-mode-config', modeConfig('ocean', 20));
+    // Local newer: pushed
+    await storageManager.storeFontConfig({ enabled: true, fonts: { mono: 'monaco' }, timestamp: 30 }, { pushRemote: false });
+    server.documents.set('font-override-config', { enabled: false, fonts: {}, timestamp: 5 });
+
+    await storageManager.syncRemote();
+
+    expect((await storageManager.getThemeModeConfig())?.currentTheme).toBe('ocean');
+    expect(changes).toHaveBeenCalledTimes(1);
+    expect(changes).toHaveBeenCalledWith({ key: 'theme-mode-config', value: modeConfig('ocean', 20) });
+    expect(server.documents.get('font-override-config')).toMatchObject({ fonts: { mono: 'monaco' }, timestamp: 30 });
+  });
+
+  it('should drop malformed remote values and push the local ones over them', async () => {
+    const storageManager = new StorageManager({ backend: new MemoryCacheBackend(), remote });
+    await storageManager.init();
+    const changes = vi.fn();
+    storageManager.onRemoteChange(changes);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await storageManager.storeThemeModeConfig(modeConfig('default', 10), { pushRemote: false });
+    await storageManager.storeFontConfig({ enabled: true, fonts: { mono: 'monaco' }, timestamp: 10 }, { pushRemote: false });
+    const hostile = [
+      { ...modeConfig('x"><script>', 20) },
+      { ...modeConfig('ocean', 20), currentMode: 'sepia' },
+      { ...modeConfig('ocean', 20), schedule: { type: 'times' } },
+      { ...modeConfig('ocean', 20), accentColor: 'red; background: url(x)' }
+    ];
+
+    for (const value of hostile) {
+      server.documents.set('theme-mode-config', value);
+      server.documents.set('font-override-config', { enabled: true, fonts: { sans: 42 }, timestamp: 20 });
+      await storageManager.syncRemote();
+
+      expect(await storageManager.getThemeModeConfig()).toMatchObject({ currentTheme: 'default', currentMode: 'dark' });
+      expect(await storageManager.getFontConfig()).toMatchObject({ fonts: { mono: 'monaco' } });
+    }
+
+    expect(changes).not.toHaveBeenCalled();
+    expect(localStorage.getItem('theme-current')).not.toBe('x"><script>');
+    expect(localStorage.getItem('theme-mode')).not.toBe('sepia');
+    expect(server.documents.get('theme-mode-config')).toEqual(modeConfig('default', 10));
+    expect(server.documents.get('font-override-config')).toMatchObject({ fonts: { mono: 'monaco' }, timestamp: 10 });
+  });
+
+  it('should keep local writes when the remote is unreachable', async () => {
+    const failing = new HttpRemoteStorageAdapter({
+      baseUrl: 'https://api.example.com/prefs',
+      pollInterval: 0,
+      fetch: vi.fn(async () => { throw new TypeError('Failed to fetch'); }) as unknown as typeof fetch
+    });
+    const storageManager = new StorageManager({ backend: new MemoryCacheBackend(), remote: failing });
+    await storageManager.init();
+
+    await storageManager.storeThemeModeConfig(modeConfig('ocean', 10));
+    await expect(storageManager.syncRemote()).resolves.toBeUndefined();
+
+    expect((await storageManager.getThemeModeConfig())?.currentTheme).toBe('ocean');
+  });
+
+  it('should apply theme changes made on another device', async () => {
+    mockThemeCSS();
+    const storageManager = new StorageManager({ backend: new MemoryCacheBackend(), remote });
+    const themeManager = createThemeManager(registryData, storageManager);
+    await themeManager.init();
+
+    server.documents.set('theme-mode-config', { ...modeConfig('ocean', Date.now() + 1000), accentColor: '#ff5722' });
+    await remote.poll();
+
+    await vi.waitFor(() => expect(themeManager.getCurrentTheme()).toBe('ocean'));
+    expect(themeManager.getCurrentMode()).toBe('dark');
+    expect(themeManager.getAccentOverride()).toBe('#ff5722');
+  });
+});
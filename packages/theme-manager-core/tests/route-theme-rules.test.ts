@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ThemeManager } from '../src/core/theme-manager';
+import { compileRoutePattern, matchRouteThemeRule, RouteThemeRule } from '../src/utils/route-theme-rules';
+import { generateFOUCScript } from '../src/utils/fouc-script';
+import { resetAllMocks } from '../test-setup';
+import { createRegistry, createThemeManager, mockThemeCSS } from './helpers/themes';
+
+const registryData = createRegistry('default', 'docs');
+
+const css: Record<string, string> = {
+  '/themes/default-light.css': ':root { --primary: black; }',
+  '/themes/default-dark.css': ':root { --primary: black; }',
+  '/themes/docs-light.css': ':root { --primary: blue; }',
+  '/themes/docs-dark.css': ':root { --primary: blue; }'
+};
+
+const rules: RouteThemeRule[] = [
+  { pattern: '/docs/*', theme: 'docs' },
+  { pattern: /^\/admin(\/|$)/, mode: 'dark' }
+];
+
+describe('Route theme rules', () => {
+  beforeEach(() => {
+    resetAllMocks();
+    window.history.replaceState(null, '', '/');
+  });
+
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  describe('matching', () => {
+    it('should treat a trailing /* as prefix match including the bare path', () => {
+      const regex = compileRoutePattern('/docs/*');
+      expect(regex.test('/docs')).toBe(true);
+      expect(regex.test('/docs/getting-started/install')).toBe(true);
+      expect(regex.test('/docsearch')).toBe(false);
+    });
+
+    it('should escape regex characters in globs', () => {
+      expect(compileRoutePattern('/v1.0/*').test('/v1x0/a')).toBe(false);
+    });
+
+    it('should return the first matching rule', () => {
+      expect(matchRouteThemeRule(rules, '/admin/users')?.mode).toBe('dark');
+      expect(matchRouteThemeRule(rules, '/docs')?.theme).toBe('docs');
+      expect(matchRouteThemeRule(rules, '/pricing')).toBeNull();
+    });
+  });
+
+  describe('ThemeManager', () => {
+    let themeManager: ThemeManager;
+
+    beforeEach(async () => {
+      mockThemeCSS(css);
+      themeManager = createThemeManager(registryData);
+      await themeManager.setRouteRules(rules);
+      await themeManager.init();
+    });
+
+    afterEach(async () => {
+      await themeManager.setRouteRules([]);
+    });
+
+    it('should follow History API navigation', async () => {
+      window.history.pushState(null, '', '/docs/intro');
+      await vi.waitFor(() => expect(document.documentElement.getAttribute('data-theme')).toBe('docs'));
+      expect(themeManager.getActiveRouteRule()?.pattern).toBe('/docs/*');
+
+      window.history.pushState(null, '', '/admin');
+      await vi.waitFor(() => expect(document.documentElement.getAttribute('data-theme')).toBe('default'));
+      expect(document.documentElement.getAttribute('data-mode')).toBe('dark');
+    });
+
+    it('should not overwrite the user preference', async () => {
+      window.history.pushState(null, '', '/docs');
+      await vi.waitFor(() => expect(document.documentElement.getAttribute('data-theme')).toBe('docs'));
+
+      expect(themeManager.getCurrentTheme()).toBe('default');
+      expect(localStorage.getItem('theme-current')).not.toBe('docs');
+      expect(localStorage.getItem(`theme-css-vars:docs:${themeManager.getEffectiveMode()}`)).toContain('blue');
+      expect(localStorage.getItem('theme-css-vars')).not.toContain('blue');
+    });
+  });
+
+  describe('FOUC script', () => {
+    it('should apply matching rules and keep persisted values in cookies', () => {
+      window.history.replaceState(null, '', '/docs/api');
+      localStorage.setItem('theme-current', 'default');
+      localStorage.setItem('theme-mode', 'light');
+      document.cookie = 'theme-current=; path=/';
+
+      new Function(generateFOUCScript({ storageType: 'cookie', routeRules: rules }))();
+
+      expect(document.documentElement.getAttribute('data-theme')).toBe('docs');
+      expect(document.cookie).toContain('theme-current=default');
+    });
+
+    it('should escape patterns that could close the script tag', () => {
+      const script = generateFOUCScript({ routeRules: [{ pattern: '/</script>/*', theme: 'docs' }] });
+      expect(script).not.toContain('</script>');
+    });
+  });
+});
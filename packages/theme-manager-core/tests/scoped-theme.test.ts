@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ThemeManager } from '../src/core/theme-manager';
+import { resetAllMocks } from '../test-setup';
+import { createRegistry, createThemeManager, mockThemeCSS } from './helpers/themes';
+
+const registryData = createRegistry('default', 'ocean');
+
+const css: Record<string, string> = {
+  '/themes/default-light.css': ':root { --background: white; --primary: black; }',
+  '/themes/default-dark.css': ':root { --background: black; --primary: white; }',
+  '/themes/ocean-light.css': ':root { --background: azure; }',
+  '/themes/ocean-dark.css': ':root { --background: navy; --ring: teal; }'
+};
+
+describe('Scoped theming', () => {
+  let themeManager: ThemeManager;
+  let element: HTMLElement;
+
+  beforeEach(async () => {
+    resetAllMocks();
+    mockThemeCSS(css);
+
+    themeManager = createThemeManager(registryData);
+    await themeManager.init();
+    await themeManager.setTheme('default', 'light');
+
+    element = document.createElement('div');
+    document.body.appendChild(element);
+  });
+
+  it('should apply variables and attributes to the element only', async () => {
+    const handle = await themeManager.applyToElement(element, 'ocean', 'dark');
+
+    expect(element.style.getPropertyValue('--background')).toBe('navy');
+    expect(element.getAttribute('data-theme')).toBe('ocean');
+    expect(element.getAttribute('data-mode')).toBe('dark');
+    expect(element.classList.contains('dark')).toBe(true);
+    expect(handle.getEffectiveMode()).toBe('dark');
+
+    expect(document.documentElement.style.getPropertyValue('--background')).toBe('white');
+    expect(document.documentElement.classList.contains('dark')).toBe(false);
+    expect(themeManager.getCurrentTheme()).toBe('default');
+  });
+
+  it('should update the scope through its handle', async () => {
+    const handle = await themeManager.applyToElement(element, 'ocean', 'dark');
+    await handle.update(undefined, 'light');
+
+    expect(handle.theme).toBe('ocean');
+    expect(element.style.getPropertyValue('--background')).toBe('azure');
+    expect(element.style.getPropertyValue('--ring')).toBe('');
+    expect(element.classList.contains('dark')).toBe(false);
+  });
+
+  it('should clean up the element on dispose', async () => {
+    const handle = await themeManager.applyToElement(element, 'ocean', 'dark');
+    handle.dispose();
+
+    expect(element.style.getPropertyValue('--background')).toBe('');
+    expect(element.hasAttribute('data-theme')).toBe(false);
+    expect(element.classList.contains('dark')).toBe(false);
+    expect(themeManager.getScopedThemes()).toHaveLength(0);
+    await expect(handle.update('default')).rejects.toThrow('disposed');
+  });
+
+  it('should reject unknown themes without leaving a handle behind', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(themeManager.applyToElement(element, 'missing', 'light')).rejects.toThrow();
+    expect(themeManager.getScopedThemes()).toHaveLength(0);
+    expect(element.hasAttribute('data-theme')).toBe(false);
+  });
+});
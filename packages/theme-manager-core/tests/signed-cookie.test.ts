@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  signCookieValue,
+  verifyCookieValue,
+  getCookiePayload,
+  readThemeCookies,
+  createThemeCookies
+} from '../src/utils/signed-cookie';
+import { CookieStorageAdapter } from '../src/adapters/cookie-storage-adapter';
+import { generateFOUCScript } from '../src/utils/fouc-script';
+
+const SECRET = 'test-secret';
+
+function clearCookies() {
+  document.cookie.split(';').forEach(cookie => {
+    const [name] = cookie.trim().split('=');
+    if (name) document.cookie = `${name}=; expires=Thu, 01 Jan 1970 00:00:00 GMT; path=/`;
+  });
+}
+
+describe('Signed theme cookies', () => {
+  beforeEach(() => {
+    clearCookies();
+  });
+
+  it('signs and verifies a value', async () => {
+    const signed = await signCookieValue('ocean', SECRET, 'theme-current');
+
+    expect(signed.startsWith('ocean.')).toBe(true);
+    expect(await verifyCookieValue(signed, SECRET, 'theme-current')).toBe('ocean');
+    expect(await verifyCookieValue(signed, 'other-secret', 'theme-current')).toBeNull();
+    // Bound to the cookie name: not valid as another cookie
+    expect(await verifyCookieValue(signed, SECRET, 'theme-mode')).toBeNull();
+    expect(getCookiePayload(signed)).toBe('ocean');
+  });
+
+  it('rejects tampered and unsigned values', async () => {
+    const signed = await signCookieValue('ocean', SECRET, 'theme-current');
+    const tampered = signed.replace('ocean', 'forest');
+
+    expect(await verifyCookieValue(tampered, SECRET, 'theme-current')).toBeNull();
+    expect(await verifyCookieValue('ocean', SECRET, 'theme-current')).toBeNull();
+    expect(await verifyCookieValue('ocean.not-base64!', SECRET, 'theme-current')).toBeNull();
+  });
+
+  it('reads verified cookies and falls back to defaults when tampered', async () => {
+    const cookies = new Map((await createThemeCookies({ theme: 'ocean', mode: 'dark' }, { secret: SECRET }))
+      .map(cookie => [cookie.name, cookie.value]));
+
+    expect(await readThemeCookies(name => cookies.get(name), { secret: SECRET }))
+      .toEqual({ theme: 'ocean', mode: 'dark', valid: true });
+
+    cookies.set('theme-current', cookies.get('theme-current')!.replace('ocean', '"><script>'));
+    expect(await readThemeCookies(name => cookies.get(name), { secret: SECRET, defaultTheme: 'fallback' }))
+      .toEqual({ theme: 'fallback', mode: 'dark', valid: false });
+
+    cookies.set('theme-current', 'ocean');
+    expect((await readThemeCookies(name => cookies.get(name), { secret: SECRET })).theme).toBe('default');
+
+    // A signed mode replayed as the theme cookie does not verify
+    cookies.set('theme-current', cookies.get('theme-mode')!);
+    expect(await readThemeCookies(name => cookies.get(name), { secret: SECRET }))
+      .toEqual({ theme: 'default', mode: 'dark', valid: false });
+  });
+
+  it('sanitizes unsigned cookies when no secret is configured', async () => {
+    const cookies = new Map([['theme-current', '"><script>'], ['theme-mode', 'sepia']]);
+
+    expect(await readThemeCookies(name => cookies.get(name)))
+      .toEqual({ theme: 'default', mode: 'auto', valid: false });
+    expect(await readThemeCookies(() => undefined))
+      .toEqual({ theme: 'default', mode: 'auto', valid: true });
+    await expect(createThemeCookies({ theme: '../evil', mode: 'dark' })).rejects.toThrow('Invalid theme name');
+  });
+
+  it('lets the client read the payload without overwriting signed cookies', async () => {
+    document.cookie = `theme-current=${encodeURIComponent(await signCookieValue('ocean', SECRET, 'theme-current'))}; path=/`;
+    const adapter = new CookieStorageAdapter({ signed: true });
+
+    expect(adapter.getItem('theme-current')).toBe('ocean');
+
+    adapter.setThemePreference('forest', 'light');
+    expect(adapter.getItem('theme-current')).toBe('ocean');
+  });
+
+  it('strips the signature in the FOUC script and skips the cookie sync', () => {
+    const script = generateFOUCScript({ storageType: 'cookie', signedCookies: true });
+
+    expect(script).toContain(".replace(/\\.[^.]*$/,'')");
+    expect(script).not.toContain("document.cookie='theme-current='");
+    expect(generateFOUCScript({ storageType: 'cookie' })).toContain("document.cookie='theme-current='");
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { StorageManager, CachedTheme } from '../src/core/storage-manager';
+import { IndexedDBCacheBackend } from '../src/adapters/indexeddb-cache-backend';
 import { resetAllMocks } from '../test-setup';
 
 describe('StorageManager', () => {
@@ -169,10 +170,12 @@ describe('StorageManager', () => {
       };
       
       // Mock DB with failing transaction
-      (storageManager as any).db = {
+      const backend = new IndexedDBCacheBackend();
+      (backend as any).db = {
         transaction: vi.fn().mockReturnValue(mockTransaction)
       };
-      (storageManager as any).indexedDBAvailable = true;
+      (storageManager as any).backend = backend;
+      (storageManager as any).backendReady = true;
       
       const storePromise = storageManager.storeTheme(mockTheme);
       
@@ -184,7 +187,7 @@ describe('StorageManager', () => {
       
       await expect(storePromise).rejects.toThrow('Transaction failed');
       expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining('❌ StorageManager: Failed to store theme: test-theme'),
+        expect.stringContaining('❌ IndexedDBCacheBackend: Failed to store themes/test-theme'),
         expect.any(Error)
       );
       
@@ -327,9 +330,12 @@ describe('StorageManager', () => {
         })
       };
       
-      (storageManager as any).db = {
+      const backend = new IndexedDBCacheBackend();
+      (backend as any).db = {
         transaction: vi.fn().mockReturnValue(mockTransaction)
       };
+      (storageManager as any).backend = backend;
+      (storageManager as any).backendReady = true;
       
       const deletePromise = storageManager.deleteTheme('test-theme');
       
@@ -341,7 +347,7 @@ describe('StorageManager', () => {
       
       await expect(deletePromise).rejects.toThrow('Delete failed');
       expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining('❌ StorageManager: Failed to delete theme from IndexedDB: test-theme'),
+        expect.stringContaining('❌ IndexedDBCacheBackend: Failed to delete themes/test-theme'),
         expect.any(Error)
       );
       
@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { StorageManager } from '../src/core/storage-manager';
+import { IndexedDBCacheBackend } from '../src/adapters/indexeddb-cache-backend';
+import {
+  STORAGE_MIGRATIONS,
+  STORAGE_VERSION_KEY,
+  getLatestStorageVersion,
+  runIndexedDBMigrations,
+  runLocalStorageMigrations,
+  StorageMigration
+} from '../src/utils/storage-migrations';
+import { resetAllMocks } from '../test-setup';
+
+const LATEST = getLatestStorageVersion();
+let dbCounter = 0;
+
+/**
+ * Create a database exactly as the registry left it at `version`
+ */
+const openAtVersion = (name: string, version: number): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = event => runIndexedDBMigrations(request.result, request.transaction!, event.oldVersion, version);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const put = (db: IDBDatabase, store: string, value: unknown): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, 'readwrite');
+    transaction.objectStore(store).put(value);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+
+const theme = (name: string) => ({
+  name,
+  url: `https://example.com/r/${name}.json`,
+  data: { name, cssVars: { light: { primary: 'red' } } },
+  installed: true,
+  timestamp: 1
+});
+
+describe('Storage migrations', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should keep the registry ordered with unique versions', () => {
+    const versions = STORAGE_MIGRATIONS.map(migration => migration.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+  });
+
+  describe('IndexedDB', () => {
+    // Every version a database may have been left at, including the unstepped 2-4
+    it.each(Array.from({ length: LATEST - 1 }, (_, index) => index + 1))('should upgrade a v%i database keeping its data', async version => {
+      const name = `migration-db-${version}-${dbCounter++}`;
+      const historical = await openAtVersion(name, version);
+      await put(historical, 'themes', theme('legacy'));
+      if (historical.objectStoreNames.contains('font-config')) {
+        await put(historical, 'font-config', { id: 'font-overrides', enabled: true, fonts: { mono: 'monaco' }, timestamp: 1 });
+      }
+      historical.close();
+
+      const backend = new IndexedDBCacheBackend(name);
+      expect(await backend.getSchemaVersion()).toBe(version);
+      await backend.init();
+
+      expect(await backend.getSchemaVersion()).toBe(LATEST);
+      expect((await backend.get<{ name: string }>('themes', 'legacy'))?.name).toBe('legacy');
+      await backend.put('font-config', 'font-overrides', { id: 'font-overrides', enabled: false, fonts: {}, timestamp: 2 });
+      await backend.put('fonts', 'Inter-400', { fontKey: 'Inter-400', family: 'Inter', cssContent: '', url: '', timestamp: 2 });
+      expect(await backend.getAll('fonts')).toHaveLength(1);
+      backend.close?.();
+    });
+
+    it('should create a fresh database at the latest version', async () => {
+      const backend = new IndexedDBCacheBackend(`migration-db-fresh-${dbCounter++}`);
+      await backend.init();
+
+      expect(await backend.getSchemaVersion()).toBe(LATEST);
+      expect(await backend.getAll('themes')).toEqual([]);
+      backend.close?.();
+    });
+
+    it('should roll back a failing step and leave the database at its previous version', async () => {
+      const name = `migration-db-rollback-${dbCounter++}`;
+      const current = new IndexedDBCacheBackend(name);
+      await current.init();
+      await current.put('themes', 'kept', theme('kept'));
+      current.close?.();
+
+      const broken = new IndexedDBCacheBackend(name, [
+        ...STORAGE_MIGRATIONS,
+        {
+          version: LATEST + 1,
+          description: 'Broken step',
+          indexedDB: db => {
+            db.createObjectStore('half-done');
+            throw new Error('boom');
+          }
+        }
+      ]);
+      await expect(broken.init()).rejects.toBeTruthy();
+
+      const reopened = new IndexedDBCacheBackend(name);
+      expect(await reopened.getSchemaVersion()).toBe(LATEST);
+      await reopened.init();
+      expect((await reopened.get<{ name: string }>('themes', 'kept'))?.name).toBe('kept');
+      reopened.close?.();
+    });
+  });
+
+  describe('localStorage', () => {
+    it('should move legacy theme-cache keys into the cache backend on init', async () => {
+      localStorage.setItem('theme-cache-ocean', JSON.stringify(theme('ocean')));
+      localStorage.setItem('theme-cache-broken', '{nope');
+      localStorage.setItem('theme-current', 'ocean');
+
+      const storage = new StorageManager({ backend: new IndexedDBCacheBackend(`migration-db-ls-${dbCounter++}`) });
+      await storage.init();
+
+      expect((await storage.getTheme('ocean'))?.name).toBe('ocean');
+      expect(localStorage.getItem('theme-cache-ocean')).toBeNull();
+      expect(localStorage.getItem('theme-cache-broken')).toBeNull();
+      expect(localStorage.getItem('theme-current')).toBe('ocean');
+      expect(localStorage.getItem(STORAGE_VERSION_KEY)).toBe(String(LATEST));
+    });
+
+    it('should treat the pre-versioning completion flag as migrated', async () => {
+      localStorage.setItem('theme-migration-completed', 'true');
+      localStorage.setItem('theme-cache-ocean', JSON.stringify(theme('ocean')));
+      const putTheme = vi.fn(async () => {});
+
+      const result = await runLocalStorageMigrations(localStorage, putTheme);
+
+      expect(result).toMatchObject({ from: 0, to: LATEST, dryRun: false });
+      expect(putTheme).not.toHaveBeenCalled();
+      expect(localStorage.getItem('theme-migration-completed')).toBeNull();
+    });
+
+    it('should log changes without writing in dry-run', async () => {
+      localStorage.setItem('theme-cache-ocean', JSON.stringify(theme('ocean')));
+      const log = vi.spyOn(console, 'log');
+      const storage = new StorageManager({ backend: new IndexedDBCacheBackend(`migration-db-dry-${dbCounter++}`) });
+
+      const result = await storage.runMigrations({ dryRun: true });
+
+      expect(result.dryRun).toBe(true);
+      expect(result.applied).toEqual(STORAGE_MIGRATIONS.map(migration => migration.version));
+      expect(localStorage.getItem('theme-cache-ocean')).not.toBeNull();
+      expect(localStorage.getItem(STORAGE_VERSION_KEY)).toBeNull();
+      expect(log).toHaveBeenCalledWith(expect.stringContaining('Would upgrade indexedDB to v1'));
+      expect(log).toHaveBeenCalledWith(
+        expect.stringContaining('Would apply v5'),
+        expect.objectContaining({ removed: ['theme-cache-ocean'] })
+      );
+      log.mockRestore();
+    });
+
+    it('should roll back the keys of a failing step and stop', async () => {
+      localStorage.setItem('kept', 'original');
+      const migrations: StorageMigration[] = [
+        { version: 1, description: 'Works', localStorage: storage => storage.setItem('first', 'done') },
+        {
+          version: 2,
+          description: 'Fails halfway',
+          localStorage: storage => {
+            storage.setItem('kept', 'changed');
+            storage.setItem('partial', 'value');
+            throw new Error('boom');
+          }
+        },
+        { version: 3, description: 'Never runs', localStorage: storage => storage.setItem('third', 'done') }
+      ];
+
+      const result = await runLocalStorageMigrations(localStorage, vi.fn(), { migrations });
+
+      expect(result).toMatchObject({ from: 0, to: 1, applied: [1], failed: { version: 2 } });
+      expect(localStorage.getItem('first')).toBe('done');
+      expect(localStorage.getItem('kept')).toBe('original');
+      expect(localStorage.getItem('partial')).toBeNull();
+      expect(localStorage.getItem('third')).toBeNull();
+      expect(localStorage.getItem(STORAGE_VERSION_KEY)).toBe('1');
+    });
+  });
+});
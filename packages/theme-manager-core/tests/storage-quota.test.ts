@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { StorageManager, CachedFont, StorageManagerOptions } from '../src/core/storage-manager';
+import { MemoryCacheBackend } from '../src/adapters/memory-cache-backend';
+import { estimateSize, formatBytes } from '../src/utils/storage-quota';
+import { resetAllMocks } from '../test-setup';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const font = (family: string, timestamp = Date.now()): CachedFont => ({
+  fontKey: `${family}-400`,
+  family,
+  cssContent: `@font-face { font-family: '${family}'; src: url(https://fonts.example.com/${family}.woff2); }`,
+  url: `https://fonts.googleapis.com/css2?family=${family}`,
+  timestamp
+});
+
+const FONT_SIZE = estimateSize(font('Aaaa', 1700000000000));
+
+const createStorage = async (options: StorageManagerOptions = {}) => {
+  const storage = new StorageManager({ backend: new MemoryCacheBackend(), ...options });
+  await storage.init();
+  return storage;
+};
+
+const mockEstimate = (estimate: { usage: number; quota: number } | null) => {
+  Object.defineProperty(navigator, 'storage', {
+    value: estimate ? { estimate: async () => estimate } : undefined,
+    configurable: true
+  });
+};
+
+describe('Storage quota and eviction', () => {
+  beforeEach(() => {
+    resetAllMocks();
+    mockEstimate(null);
+  });
+
+  afterEach(() => {
+    mockEstimate(null);
+  });
+
+  it('should evict once writes settle and not rewrite fonts on every read', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    try {
+      const backend = new MemoryCacheBackend();
+      const storage = await createStorage({ backend, limits: { maxFontCacheBytes: FONT_SIZE * 2 + 64 } });
+      const put = vi.spyOn(backend, 'put');
+      const now = Date.now();
+      await storage.storeCachedFont(font('Aaaa', now - 3000));
+      await storage.storeCachedFont(font('Bbbb', now - 2000));
+      await storage.storeCachedFont(font('Cccc', now - 1000));
+      expect(await storage.getCachedFonts()).toHaveLength(3);
+
+      // Read twice: the access time stays in memory
+      await storage.getCachedFont('Aaaa-400');
+      await storage.getCachedFont('Aaaa-400');
+      expect(put).toHaveBeenCalledTimes(3);
+
+      await vi.advanceTimersByTimeAsync(5000);
+      expect((await storage.getCachedFonts()).map(cached => cached.fontKey).sort()).toEqual(['Aaaa-400', 'Cccc-400']);
+
+      // Records older than a day get their access time written back once
+      await storage.storeCachedFont(font('Old', now - 2 * DAY));
+      await storage.getCachedFont('Old-400');
+      await storage.getCachedFont('Old-400');
+      expect(put).toHaveBeenCalledTimes(5);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should evict the least recently used fonts over the size limit', async () => {
+    const storage = await createStorage({ limits: { maxFontCacheBytes: FONT_SIZE * 3 + 64 } });
+    const now = Date.now();
+    await storage.storeCachedFont(font('Aaaa', now - 4000));
+    await storage.storeCachedFont(font('Bbbb', now - 3000));
+    await storage.storeCachedFont(font('Cccc', now - 2000));
+
+    // Reading Aaaa makes Bbbb the least recently used
+    await storage.getCachedFont('Aaaa-400');
+    await storage.storeCachedFont(font('Dddd', now - 1000));
+    await storage.enforceLimits();
+
+    const keys = (await storage.getCachedFonts()).map(cached => cached.fontKey).sort();
+    expect(keys).toEqual(['Aaaa-400', 'Cccc-400', 'Dddd-400']);
+  });
+
+  it('should evict fonts not used within the age limit', async () => {
+    const storage = await createStorage({ limits: { maxFontAge: 30 * DAY } });
+    await storage.storeCachedFont(font('Fresh'));
+    await storage.storeCachedFont(font('Stale', Date.now() - 31 * DAY));
+    await storage.enforceLimits();
+
+    expect((await storage.getCachedFonts()).map(cached => cached.family)).toEqual(['Fresh']);
+  });
+
+  it('should evict fonts while the origin is above the quota threshold', async () => {
+    const storage = await createStorage();
+    await storage.storeCachedFont(font('Aaaa', Date.now() - 2000));
+    await storage.storeCachedFont(font('Bbbb', Date.now() - 1000));
+
+    // One font worth of bytes over 80%
+    mockEstimate({ usage: 800000 + FONT_SIZE - 1, quota: 1000000 });
+    const report = await storage.enforceLimits();
+
+    expect(report.fonts).toEqual(['Aaaa-400']);
+    expect(report.freedBytes).toBe(FONT_SIZE);
+  });
+
+  it('should only evict expired themes that are not installed', async () => {
+    const storage = await createStorage({ limits: { maxCachedThemeAge: DAY } });
+    const theme = (name: string, installed: boolean, timestamp: number) => ({
+      name,
+      url: `https://example.com/r/${name}.json`,
+      data: { name, cssVars: { light: { primary: 'red' } } },
+      installed,
+      timestamp
+    });
+    await storage.storeTheme(theme('installed-old', true, Date.now() - 10 * DAY));
+    await storage.storeTheme(theme('cached-old', false, Date.now() - 10 * DAY));
+    await storage.storeTheme(theme('cached-new', false, Date.now()));
+
+    const report = await storage.enforceLimits();
+
+    expect(report.themes).toEqual(['cached-old']);
+    expect((await storage.getAllThemes()).map(cached => cached.name).sort()).toEqual(['cached-new', 'installed-old']);
+  });
+
+  it('should report usage and clear caches without touching user data', async () => {
+    mockEstimate({ usage: 2048, quota: 1024 * 1024 });
+    const storage = await createStorage();
+    await storage.storeCachedFont(font('Aaaa'));
+    await storage.storeTheme({
+      name: 'neon',
+      url: 'https://example.com/r/neon.json',
+      data: { name: 'neon', cssVars: { light: { primary: 'pink' } } },
+      installed: true,
+      timestamp: Date.now()
+    });
+    await storage.storeThemeModeConfig({ currentTheme: 'neon', currentMode: 'dark', timestamp: Date.now() });
+
+    const usage = await storage.getUsage();
+    expect(usage).toMatchObject({
+      backend: 'memory',
+      quota: { usage: 2048, quota: 1024 * 1024 },
+      fonts: { count: 1 },
+      themes: { count: 1, installed: 1 }
+    });
+    expect(usage.fonts.bytes).toBe(FONT_SIZE);
+
+    const report = await storage.clearCache();
+
+    expect(report.fonts).toEqual(['Aaaa-400']);
+    expect(await storage.getCachedFonts()).toEqual([]);
+    expect(await storage.getTheme('neon')).not.toBeNull();
+    expect((await storage.getThemeModeConfig())?.currentTheme).toBe('neon');
+  });
+
+  it('should format byte sizes', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1536)).toBe('1.5 KB');
+    expect(formatBytes(5 * 1024 * 1024)).toBe('5.0 MB');
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ThemeManager } from '../src/core/theme-manager';
+import { ThemeInstaller } from '../src/installers/theme-installer';
+import { ThemeEventEmitter } from '../src/utils/theme-event-emitter';
+import { resetAllMocks } from '../test-setup';
+import { createRegistry, createThemeManager, mockThemeCSS } from './helpers/themes';
+
+const registryData = createRegistry('default', 'ocean');
+
+describe('Theme events', () => {
+  beforeEach(() => {
+    resetAllMocks();
+    mockThemeCSS();
+  });
+
+  describe('ThemeEventEmitter', () => {
+    it('should return an unsubscribe function from on()', () => {
+      const emitter = new ThemeEventEmitter();
+      const listener = vi.fn();
+      const unsubscribe = emitter.on('fonts:loaded', listener);
+
+      emitter.emit('fonts:loaded', { families: ['Inter'], source: 'override' });
+      unsubscribe();
+      emitter.emit('fonts:loaded', { families: ['Inter'], source: 'override' });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should remove a pending once() listener with off()', () => {
+      const emitter = new ThemeEventEmitter();
+      const listener = vi.fn();
+      const persistent = vi.fn();
+      emitter.once('theme:uninstalled', listener);
+      emitter.on('theme:uninstalled', persistent);
+
+      emitter.off('theme:uninstalled', listener);
+      emitter.emit('theme:uninstalled', { themeId: 'ocean' });
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(persistent).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep notifying listeners when one throws', () => {
+      const emitter = new ThemeEventEmitter();
+      const listener = vi.fn();
+      emitter.on('theme:uninstalled', () => { throw new Error('boom'); });
+      emitter.on('theme:uninstalled', listener);
+
+      emitter.emit('theme:uninstalled', { themeId: 'ocean' });
+
+      expect(listener).toHaveBeenCalledWith({ themeId: 'ocean' });
+    });
+  });
+
+  describe('ThemeManager', () => {
+    let themeManager: ThemeManager;
+
+    beforeEach(async () => {
+      themeManager = createThemeManager(registryData);
+      await themeManager.init();
+    });
+
+    it('should abort the change when theme:before-change is cancelled', async () => {
+      const changed = vi.fn();
+      themeManager.addEventListener('theme:changed', changed);
+      themeManager.addEventListener('theme:before-change', event => {
+        if (event.theme === 'ocean') event.cancel();
+      });
+
+      await themeManager.setTheme('ocean', 'light');
+
+      expect(themeManager.getCurrentTheme()).toBe('default');
+      expect(changed).not.toHaveBeenCalled();
+    });
+
+    it('should emit theme:changed and mode:changed with previous values', async () => {
+      await themeManager.setTheme('default', 'dark');
+      const changed = vi.fn();
+      const modeChanged = vi.fn();
+      themeManager.addEventListener('theme:changed', changed);
+      themeManager.addEventListener('mode:changed', modeChanged);
+
+      await themeManager.setTheme('ocean', 'light');
+
+      expect(changed).toHaveBeenCalledWith({
+        theme: 'ocean',
+        mode: 'light',
+        effectiveMode: 'light',
+        previousTheme: 'default',
+        previousMode: 'dark'
+      });
+      expect(modeChanged).toHaveBeenCalledWith(expect.objectContaining({
+        mode: 'light',
+        previousMode: 'dark',
+        previousEffectiveMode: 'dark'
+      }));
+    });
+
+    it('should emit theme:failed and rethrow for unknown themes', async () => {
+      const failed = vi.fn();
+      themeManager.addEventListener('theme:failed', failed);
+
+      await expect(themeManager.setTheme('missing', 'light')).rejects.toThrow();
+      expect(failed).toHaveBeenCalledWith(expect.objectContaining({ theme: 'missing' }));
+    });
+
+    it('should share one emitter with FontManager and ThemeInstaller', async () => {
+      const installed = vi.fn();
+      const installer = new ThemeInstaller(themeManager);
+      const unsubscribe = themeManager.getFontManager().addEventListener('theme:installed', installed);
+
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ name: 'remote', cssVars: { light: { primary: 'red' } } })
+      } as Response);
+      await installer.installFromUrl('https://example.com/r/remote.json');
+
+      expect(installed).toHaveBeenCalledWith({ themeId: 'remote', sourceUrl: 'https://example.com/r/remote.json' });
+
+      unsubscribe();
+      installer.removeEventListener('theme:installed', installed);
+    });
+  });
+});
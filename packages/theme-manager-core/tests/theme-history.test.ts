@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ThemeManager } from '../src/core/theme-manager';
+import { ThemeHistory } from '../src/core/theme-history';
+import { bindHistoryShortcuts } from '../src/utils/history-shortcuts';
+import { resetAllMocks } from '../test-setup';
+import { createRegistry, createThemeManager, mockThemeCSS } from './helpers/themes';
+
+const registryData = createRegistry('default', 'ocean', 'forest');
+
+describe('Theme history', () => {
+  beforeEach(() => {
+    resetAllMocks();
+    mockThemeCSS();
+  });
+
+  describe('ThemeHistory', () => {
+    it('should drop the oldest entries past the limit', async () => {
+      const history = new ThemeHistory(undefined, 2);
+      const undone: string[] = [];
+      ['a', 'b', 'c'].forEach(label => history.record({
+        label,
+        undo: async () => { undone.push(label); return true; },
+        redo: async () => true
+      }));
+
+      while (await history.undo()) { /* drain */ }
+
+      expect(undone).toEqual(['c', 'b']);
+      expect(history.canRedo).toBe(true);
+    });
+
+    it('should keep the entry when undo fails', async () => {
+      const history = new ThemeHistory();
+      history.record({ label: 'x', undo: async () => { throw new Error('nope'); }, redo: async () => true });
+
+      await expect(history.undo()).rejects.toThrow('nope');
+      expect(history.canUndo).toBe(true);
+    });
+
+    it('should keep the entry when the undo applied nothing', async () => {
+      const history = new ThemeHistory();
+      history.record({ label: 'x', undo: async () => false, redo: async () => true });
+
+      expect(await history.undo()).toBe(false);
+      expect(history.getEntries()).toEqual({ undo: ['x'], redo: [] });
+    });
+
+    it('should record changes made while an undo is pending', async () => {
+      const history = new ThemeHistory();
+      let finishUndo!: () => void;
+      history.record({
+        label: 'slow',
+        undo: () => new Promise<boolean>(resolve => { finishUndo = () => resolve(true); }),
+        redo: async () => true
+      });
+
+      const undo = history.undo();
+      history.record({ label: 'user', undo: async () => true, redo: async () => true });
+      finishUndo();
+      await undo;
+
+      expect(history.getEntries().undo).toEqual(['user']);
+    });
+  });
+
+  describe('ThemeManager', () => {
+    let themeManager: ThemeManager;
+
+    beforeEach(async () => {
+      themeManager = createThemeManager(registryData);
+      await themeManager.init();
+      themeManager.getHistory().clear();
+    });
+
+    it('should undo and redo theme and mode changes', async () => {
+      const initialTheme = themeManager.getCurrentTheme();
+      const initialMode = themeManager.getCurrentMode();
+      await themeManager.setTheme('ocean', 'light');
+      await themeManager.toggleMode();
+
+      expect(themeManager.canUndo).toBe(true);
+
+      await themeManager.undo();
+      expect(themeManager.getCurrentMode()).toBe('light');
+
+      await themeManager.undo();
+      expect(themeManager.getCurrentTheme()).toBe(initialTheme);
+      expect(themeManager.getCurrentMode()).toBe(initialMode);
+      expect(themeManager.canUndo).toBe(false);
+
+      await themeManager.redo();
+      expect(themeManager.getCurrentTheme()).toBe('ocean');
+      expect(themeManager.canRedo).toBe(true);
+    });
+
+    it('should leave both stacks alone when a listener cancels the undo', async () => {
+      await themeManager.setTheme('ocean', 'light');
+      themeManager.addEventListener('theme:before-change', event => event.cancel());
+
+      expect(await themeManager.undo()).toBe(false);
+      expect(themeManager.getCurrentTheme()).toBe('ocean');
+      expect(themeManager.getHistory().getEntries()).toEqual({ undo: ['Theme: ocean (light)'], redo: [] });
+    });
+
+    it('should clear redo entries when a new change is recorded', async () => {
+      await themeManager.setTheme('ocean', 'light');
+      await themeManager.undo();
+      await themeManager.setTheme('forest', 'light');
+
+      expect(themeManager.canRedo).toBe(false);
+    });
+
+    it('should record font override changes', async () => {
+      const fontManager = themeManager.getFontManager();
+      await fontManager.setFontOverride('mono', 'monaco');
+      await fontManager.removeFontOverride('mono');
+
+      await themeManager.undo();
+      expect(fontManager.getOverrideConfiguration().fonts.mono).toBe('monaco');
+
+      await themeManager.undo();
+      expect(fontManager.getOverrideConfiguration().fonts.mono).toBeUndefined();
+    });
+
+    it('should emit history:changed', async () => {
+      const listener = vi.fn();
+      themeManager.addEventListener('history:changed', listener);
+
+      await themeManager.setTheme('ocean', 'light');
+      await themeManager.undo();
+
+      expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({
+        action: 'undo',
+        canUndo: false,
+        canRedo: true
+      }));
+    });
+
+    it('should bind Ctrl+Z / Ctrl+Shift+Z shortcuts outside editable fields', async () => {
+      const target = { undo: vi.fn(async () => true), redo: vi.fn(async () => true) };
+      const unbind = bindHistoryShortcuts(target);
+
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'z', ctrlKey: true }));
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Z', ctrlKey: true, shiftKey: true }));
+
+      const input = document.createElement('input');
+      document.body.appendChild(input);
+      input.dispatchEvent(new KeyboardEvent('keydown', { key: 'z', ctrlKey: true, bubbles: true }));
+      input.remove();
+      unbind();
+
+      expect(target.undo).toHaveBeenCalledTimes(1);
+      expect(target.redo).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ThemeRegistry, ThemeConfig, ThemeRegistryData } from '../src/core/theme-registry';
+import { resolveThemeChain, mergeThemeVariables } from '../src/utils/theme-inheritance';
+import { resetAllMocks } from '../test-setup';
+import { createThemeManager, mockThemeCSS } from './helpers/themes';
+
+const baseTheme = (overrides: Partial<ThemeConfig>): ThemeConfig => ({
+  id: 'base',
+  name: 'base',
+  label: 'Base',
+  version: '1.0.0',
+  source: 'local',
+  category: 'built-in',
+  modes: { light: '/themes/base-light.css', dark: '/themes/base-dark.css' },
+  fonts: { sans: 'Inter, sans-serif', serif: 'Georgia, serif', mono: 'monospace' },
+  preview: { primary: 'red', background: 'white', accent: 'pink' },
+  config: { radius: '0.5rem' },
+  ...overrides
+});
+
+const registryData: ThemeRegistryData = {
+  version: '1.0.0',
+  lastUpdated: '2025-01-01',
+  themes: [
+    baseTheme({ default: true }),
+    {
+      id: 'brand',
+      name: 'brand',
+      label: 'Brand',
+      version: '1.0.0',
+      extends: 'base',
+      modes: { light: '/themes/brand-light.css', dark: '/themes/brand-dark.css' },
+      preview: { primary: 'blue' }
+    } as unknown as ThemeConfig
+  ]
+};
+
+describe('Theme inheritance', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  describe('resolveThemeChain', () => {
+    const themes: Record<string, ThemeConfig> = {
+      a: baseTheme({ id: 'a' }),
+      b: baseTheme({ id: 'b', extends: 'a' }),
+      c: baseTheme({ id: 'c', extends: 'b' }),
+      loop1: baseTheme({ id: 'loop1', extends: 'loop2' }),
+      loop2: baseTheme({ id: 'loop2', extends: 'loop1' }),
+      orphan: baseTheme({ id: 'orphan', extends: 'missing' })
+    };
+    const lookup = (id: string) => themes[id];
+
+    it('should order the chain from root ancestor to child', () => {
+      expect(resolveThemeChain('c', lookup).map(t => t.id)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should detect circular inheritance', () => {
+      expect(() => resolveThemeChain('loop1', lookup)).toThrow('Circular theme inheritance: loop1 -> loop2 -> loop1');
+    });
+
+    it('should report missing parents', () => {
+      expect(() => resolveThemeChain('orphan', lookup)).toThrow('Parent theme "missing" not found for "orphan"');
+    });
+
+    it('should merge variables child over parent', () => {
+      expect(mergeThemeVariables([
+        { '--primary': 'red', '--radius': '1rem' },
+        { '--primary': 'blue' }
+      ])).toEqual({ '--primary': 'blue', '--radius': '1rem' });
+    });
+  });
+
+  describe('ThemeRegistry', () => {
+    it('should inherit omitted metadata from the parent theme', async () => {
+      const registry = new ThemeRegistry('/themes/registry.json', registryData);
+      await registry.init();
+
+      const brand = registry.getTheme('brand')!;
+      expect(brand.fonts.sans).toBe('Inter, sans-serif');
+      expect(brand.config.radius).toBe('0.5rem');
+      expect(brand.preview.primary).toBe('blue');
+      expect(brand.preview.background).toBe('white');
+      expect(registry.getThemeChain('brand').map(t => t.id)).toEqual(['base', 'brand']);
+    });
+  });
+
+  describe('ThemeManager', () => {
+    it('should apply parent variables overridden by the child', async () => {
+      const css: Record<string, string> = {
+        '/themes/base-light.css': ':root { --primary: red; --background: white; }',
+        '/themes/brand-light.css': ':root { --primary: blue; }'
+      };
+      mockThemeCSS(css);
+
+      const themeManager = createThemeManager(registryData);
+      await themeManager.init();
+      await themeManager.setTheme('brand', 'light');
+
+      const rootStyle = document.documentElement.style;
+      expect(rootStyle.getPropertyValue('--primary')).toBe('blue');
+      expect(rootStyle.getPropertyValue('--background')).toBe('white');
+    });
+  });
+});
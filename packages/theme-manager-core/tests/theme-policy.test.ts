@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ThemeManager } from '../src/core/theme-manager';
+import { ThemeInstaller } from '../src/installers/theme-installer';
+import { isThemeAllowedByPolicy } from '../src/utils/theme-policy';
+import { resetAllMocks } from '../test-setup';
+import { createRegistry, createThemeManager, mockThemeCSS } from './helpers/themes';
+
+const registryData = createRegistry('default', 'ocean', 'neon');
+
+describe('Theme policy', () => {
+  let themeManager: ThemeManager;
+
+  beforeEach(async () => {
+    resetAllMocks();
+    mockThemeCSS();
+    themeManager = createThemeManager(registryData);
+    await themeManager.init();
+  });
+
+  it('should let the deny-list win over the allow-list', () => {
+    const policy = { allowedThemes: ['default', 'neon'], deniedThemes: ['neon'] };
+    expect(isThemeAllowedByPolicy(policy, 'default')).toBe(true);
+    expect(isThemeAllowedByPolicy(policy, 'neon')).toBe(false);
+    expect(isThemeAllowedByPolicy(policy, 'ocean')).toBe(false);
+    expect(isThemeAllowedByPolicy(null, 'ocean')).toBe(true);
+  });
+
+  it('should reject disallowed themes with a policy:rejected event', async () => {
+    const rejected = vi.fn();
+    themeManager.addEventListener('policy:rejected', rejected);
+    await themeManager.setPolicy({ deniedThemes: ['neon'] });
+
+    await expect(themeManager.setTheme('neon', 'light')).rejects.toThrow('Theme "neon" is not allowed');
+    expect(rejected).toHaveBeenCalledWith(expect.objectContaining({ action: 'theme', value: 'neon' }));
+    expect(themeManager.getAllowedThemes().map(t => t.id)).toEqual(['default', 'ocean']);
+  });
+
+  it('should move the preference off a theme that becomes disallowed', async () => {
+    await themeManager.setTheme('neon', 'light');
+    await themeManager.setPolicy({ allowedThemes: ['ocean'] });
+
+    expect(themeManager.getCurrentTheme()).toBe('ocean');
+  });
+
+  it('should force and lock the mode', async () => {
+    await themeManager.setPolicy({ forcedMode: 'dark' });
+
+    expect(themeManager.getCurrentMode()).toBe('dark');
+    await expect(themeManager.toggleMode()).rejects.toThrow('Mode is locked to "dark"');
+    await expect(themeManager.setTheme('ocean')).resolves.toBeUndefined();
+  });
+
+  it('should force and lock fonts', async () => {
+    const fontManager = themeManager.getFontManager();
+    await themeManager.setPolicy({ forcedFonts: { mono: 'monaco' } });
+
+    expect(fontManager.getOverrideConfiguration().fonts.mono).toBe('monaco');
+    expect(fontManager.isCategoryLocked('mono')).toBe(true);
+    await expect(fontManager.setFontOverride('mono', 'consolas')).rejects.toThrow('locked');
+    await expect(fontManager.removeFontOverride('mono')).rejects.toThrow('locked');
+    await expect(fontManager.setFontOverride('serif', 'georgia')).resolves.toBeUndefined();
+  });
+
+  it('should block remote installs and disallowed installed themes', async () => {
+    const installer = new ThemeInstaller(themeManager);
+
+    await themeManager.setPolicy({ disallowRemoteInstalls: true });
+    await expect(installer.installFromUrl('https://example.com/r/x.json')).rejects.toThrow('remote sources is disabled');
+    expect(installer.canInstallRemote()).toBe(false);
+
+    await themeManager.setPolicy({ deniedThemes: ['evil'] });
+    await expect(themeManager.installTheme({ name: 'evil', cssVars: { light: {} } })).rejects.toThrow('not allowed');
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { StorageManager, CachedTheme } from '../src/core/storage-manager';
+import { MemoryCacheBackend } from '../src/adapters/memory-cache-backend';
+import { parseThemeProfile, validateThemeProfile, ThemeProfile } from '../src/utils/theme-profile';
+import { resetAllMocks } from '../test-setup';
+import { createRegistry, createThemeManager, mockThemeCSS } from './helpers/themes';
+
+const registryData = createRegistry('default', 'ocean');
+
+const cachedTheme = (name: string, primary: string, timestamp: number): CachedTheme => ({
+  name,
+  url: `https://example.com/r/${name}.json`,
+  data: { name, cssVars: { light: { primary }, dark: { primary } } },
+  installed: true,
+  timestamp
+});
+
+const createStorage = async () => {
+  const storage = new StorageManager({ backend: new MemoryCacheBackend() });
+  await storage.init();
+  return storage;
+};
+
+describe('Theme profile', () => {
+  beforeEach(() => {
+    resetAllMocks();
+  });
+
+  it('should export installed themes and preferences without internal records', async () => {
+    const storage = await createStorage();
+    await storage.storeTheme(cachedTheme('neon', 'pink', 1));
+    await storage.storeThemeModeConfig({ currentTheme: 'neon', currentMode: 'dark', accentColor: '#ff5722', timestamp: 2 });
+    await storage.storeFontConfig({ enabled: true, fonts: { mono: 'monaco' }, timestamp: 3 });
+    await storage.storeCachedFont({ fontKey: 'Inter-400', family: 'Inter', cssContent: '@font-face{}', url: 'https://fonts', timestamp: Date.now() });
+
+    const profile = await storage.exportProfile();
+    const withFonts = await storage.exportProfile({ includeFontCss: true });
+
+    expect(validateThemeProfile(profile)).toEqual([]);
+    expect(profile.themes.map(t => t.name)).toEqual(['neon']);
+    expect(profile.themeMode).toMatchObject({ currentTheme: 'neon', accentColor: '#ff5722' });
+    expect(profile.fontOverrides?.fonts.mono).toBe('monaco');
+    expect(profile.fonts).toBeUndefined();
+    expect(withFonts.fonts?.map(f => f.fontKey)).toEqual(['Inter-400']);
+  });
+
+  it('should reject invalid bundles with the offending paths', async () => {
+    const storage = await createStorage();
+
+    expect(() => parseThemeProfile('{nope')).toThrow('not valid JSON');
+    expect(() => parseThemeProfile({ format: 'other', version: 99, themes: [{ name: 1 }] })).toThrow(
+      /format: expected .*version: 99 is newer .*themes\[0\]\.name/
+    );
+    await expect(storage.importProfile({ format: 'x' } as unknown as ThemeProfile)).rejects.toThrow('Invalid theme profile');
+    expect(await storage.getAllThemes()).toEqual([]);
+  });
+
+  it('should merge keeping newer local data', async () => {
+    const source = await createStorage();
+    await source.storeTheme(cachedTheme('neon', 'pink', 10));
+    await source.storeTheme(cachedTheme('forest', 'green', 10));
+    await source.storeFontConfig({ enabled: true, fonts: { mono: 'monaco' }, timestamp: 10 });
+    const profile = JSON.stringify(await source.exportProfile());
+
+    const target = await createStorage();
+    await target.storeTheme(cachedTheme('neon', 'purple', 20));
+    await target.storeTheme(cachedTheme('sunset', 'orange', 5));
+    await target.storeFontConfig({ enabled: true, fonts: { mono: 'consolas' }, timestamp: 20 });
+
+    const result = await target.importProfile(profile);
+
+    expect(result).toMatchObject({ strategy: 'merge', themes: 1, skippedThemes: ['neon'], fontOverrides: false });
+    expect((await target.getTheme('neon'))?.data.cssVars.light?.primary).toBe('purple');
+    expect(await target.getTheme('forest')).not.toBeNull();
+    expect(await target.getTheme('sunset')).not.toBeNull();
+    expect((await target.getFontConfig())?.fonts.mono).toBe('consolas');
+  });
+
+  it('should replace installed themes and preferences', async () => {
+    const source = await createStorage();
+    await source.storeTheme(cachedTheme('neon', 'pink', 10));
+    await source.storeFontConfig({ enabled: true, fonts: { mono: 'monaco' }, timestamp: 10 });
+    const profile = await source.exportProfile();
+
+    const target = await createStorage();
+    await target.storeTheme(cachedTheme('neon', 'purple', 20));
+    await target.storeTheme(cachedTheme('sunset', 'orange', 5));
+    await target.storeFontConfig({ enabled: true, fonts: { mono: 'consolas' }, timestamp: 20 });
+
+    const result = await target.importProfile(profile, { strategy: 'replace' });
+
+    expect(result).toMatchObject({ strategy: 'replace', themes: 1, skippedThemes: [], fontOverrides: true });
+    expect((await target.getAllThemes()).map(t => t.name)).toEqual(['neon']);
+    expect((await target.getTheme('neon'))?.data.cssVars.light?.primary).toBe('pink');
+    expect((await target.getFontConfig())?.fonts.mono).toBe('monaco');
+  });
+
+  it('should move a profile between ThemeManagers and apply it', async () => {
+    mockThemeCSS();
+
+    const source = createThemeManager(registryData, await createStorage());
+    await source.init();
+    await source.installTheme({ name: 'neon', cssVars: { light: { primary: 'pink' } } }, 'https://example.com/r/neon.json');
+    await source.setTheme('ocean', 'dark');
+    await source.getFontManager().setFontOverride('mono', 'monaco');
+    const profile = await source.exportProfile();
+
+    const target = createThemeManager(registryData, await createStorage());
+    await target.init();
+    await target.setPolicy({ deniedThemes: ['evil'] });
+    profile.themes.push({ ...profile.themes[0], name: 'evil' });
+
+    const result = await target.importProfile(profile);
+
+    expect(result.skippedThemes).toEqual(['evil']);
+    expect(target.getThemeRegistry().getTheme('neon')).not.toBeNull();
+    expect(target.getCurrentTheme()).toBe('ocean');
+    expect(target.getCurrentMode()).toBe('dark');
+    expect(target.getFontManager().getOverrideConfiguration().fonts.mono).toBe('monaco');
+  });
+
+  it('should not persist a theme or mode the policy denies', async () => {
+    mockThemeCSS();
+
+    const source = createThemeManager(registryData, await createStorage());
+    await source.init();
+    await source.setTheme('ocean', 'dark');
+    const profile = await source.exportProfile();
+
+    const storage = await createStorage();
+    const target = createThemeManager(registryData, storage);
+    await target.init();
+    await target.setPolicy({ deniedThemes: ['ocean'], forcedMode: 'light' });
+
+    const result = await target.importProfile(profile, { strategy: 'replace' });
+
+    expect(result.themeMode).toBe(true);
+    expect(await storage.getThemeModeConfig()).toMatchObject({ currentTheme: 'default', currentMode: 'light' });
+    // FOUC keys read by the inline script on the next load
+    expect(storage.getCurrentTheme()).toBe('default');
+    expect(storage.getCurrentMode()).toBe('light');
+    expect(target.getCurrentTheme()).toBe('default');
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ThemeManager } from '../src/core/theme-manager';
+import { StorageManager } from '../src/core/storage-manager';
+import { MemoryCacheBackend } from '../src/adapters/memory-cache-backend';
+import { ThemeInstaller } from '../src/installers/theme-installer';
+import { ThemeListFetcher, ThemeRegistrySource, DEFAULT_REGISTRY_SOURCE } from '../src/installers/theme-list-fetcher';
+import { resetAllMocks } from '../test-setup';
+
+const INTERNAL: ThemeRegistrySource = {
+  name: 'Acme',
+  url: 'https://design.acme.internal/r/registry.json',
+  getHeaders: async () => ({ Authorization: 'Bearer acme-token' }),
+  priority: 10
+};
+
+const registries: Record<string, unknown> = {
+  [DEFAULT_REGISTRY_SOURCE.url]: {
+    name: 'tweakcn',
+    homepage: 'https://tweakcn.com',
+    items: [
+      { name: 'claude', type: 'registry:style', description: 'Warm tones' },
+      { name: 'catppuccin', type: 'registry:style' }
+    ]
+  },
+  [INTERNAL.url]: {
+    name: 'acme',
+    homepage: 'https://design.acme.internal',
+    items: [
+      { name: 'acme-brand', type: 'registry:style', description: 'Corporate colors' },
+      { name: 'claude', type: 'registry:style', description: 'Acme flavored' },
+      { name: 'button', type: 'registry:ui' }
+    ]
+  }
+};
+
+const themeItem = (name: string) => ({
+  name,
+  type: 'registry:style',
+  cssVars: { light: { primary: 'oklch(0.5 0.2 260)' }, dark: { primary: 'oklch(0.7 0.2 260)' } }
+});
+
+describe('Theme registry sources', () => {
+  let storage: StorageManager;
+
+  beforeEach(async () => {
+    resetAllMocks();
+    storage = new StorageManager({ backend: new MemoryCacheBackend() });
+    await storage.init();
+
+    vi.mocked(fetch).mockImplementation(async (url: any) => {
+      const registry = registries[String(url)];
+      if (registry) return new Response(JSON.stringify(registry));
+
+      const name = String(url).match(/\/([^/]+)\.json$/)?.[1];
+      return name ? new Response(JSON.stringify(themeItem(name))) : new Response('', { status: 404 });
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('merges the registries and keeps the highest priority theme of a name', async () => {
+    const fetcher = new ThemeListFetcher(storage, [DEFAULT_REGISTRY_SOURCE, INTERNAL]);
+
+    const themes = await fetcher.fetchAvailableThemes();
+
+    expect(themes.map(theme => [theme.name, theme.source])).toEqual([
+      ['acme-brand', 'Acme'],
+      ['claude', 'Acme'],
+      ['catppuccin', 'TweakCN']
+    ]);
+    expect(themes[0].installUrl).toBe('https://design.acme.internal/r/acme-brand.json');
+    expect(themes[2].installUrl).toBe('https://tweakcn.com/r/themes/catppuccin.json');
+    expect((await fetcher.searchThemes('acme')).map(theme => theme.name)).toEqual(['acme-brand', 'claude']);
+    expect(fetcher.getThemeInstallUrl('claude', 'TweakCN')).toBe('https://tweakcn.com/r/themes/claude.json');
+    expect(await fetcher.getRegistryInfo()).toEqual({ name: 'acme', homepage: 'https://design.acme.internal' });
+
+    expect(vi.mocked(fetch).mock.calls.find(([url]) => url === INTERNAL.url)?.[1]?.headers)
+      .toMatchObject({ Authorization: 'Bearer acme-token' });
+    expect(vi.mocked(fetch).mock.calls.find(([url]) => url === DEFAULT_REGISTRY_SOURCE.url)?.[1]?.headers)
+      .not.toHaveProperty('Authorization');
+  });
+
+  it('caches each registry independently and survives a failing one', async () => {
+    await new ThemeListFetcher(storage, [DEFAULT_REGISTRY_SOURCE, INTERNAL]).fetchAvailableThemes();
+    expect(localStorage.getItem('theme-registry-cache:TweakCN')).toContain('catppuccin');
+    expect(localStorage.getItem('theme-registry-cache:Acme')).toContain('acme-brand');
+
+    // A fresh instance reads both caches without the network
+    vi.mocked(fetch).mockClear();
+    const cached = new ThemeListFetcher(storage, [DEFAULT_REGISTRY_SOURCE, INTERNAL]);
+    expect(await cached.fetchAndCacheThemeNames()).toEqual(['acme-brand', 'claude', 'catppuccin']);
+    expect(fetch).not.toHaveBeenCalled();
+
+    // Only the internal registry is down and uncached: the public themes are still listed
+    localStorage.removeItem('theme-registry-cache:Acme');
+    vi.mocked(fetch).mockImplementation(async (url: any) => url === INTERNAL.url
+      ? new Response('', { status: 503 })
+      : new Response(JSON.stringify(registries[String(url)])));
+    const partial = new ThemeListFetcher(storage, [DEFAULT_REGISTRY_SOURCE, INTERNAL]);
+    expect((await partial.fetchAvailableThemes(true)).map(theme => theme.source)).toEqual(['TweakCN', 'TweakCN']);
+
+    vi.mocked(fetch).mockResolvedValue(new Response('', { status: 503 }));
+    localStorage.clear();
+    await expect(new ThemeListFetcher(storage, [INTERNAL]).fetchAvailableThemes()).rejects.toThrow('Registry fetch failed: 503');
+    expect(() => new ThemeListFetcher(storage, [INTERNAL, { ...INTERNAL }])).toThrow('Duplicate theme registry name: Acme');
+  });
+
+  it('installs registry themes by name with the headers of their registry', async () => {
+    const fetcher = new ThemeListFetcher(storage, [DEFAULT_REGISTRY_SOURCE, INTERNAL]);
+    const installer = new ThemeInstaller(new ThemeManager('/themes/registry.json', undefined, undefined, storage), fetcher);
+    const installed = vi.fn();
+    installer.addEventListener('theme:installed', installed);
+
+    await installer.installThemeFromRegistry('claude');
+    expect(installed).toHaveBeenLastCalledWith(expect.objectContaining({
+      themeId: 'claude',
+      sourceUrl: 'https://design.acme.internal/r/claude.json'
+    }));
+    expect(vi.mocked(fetch).mock.calls.at(-1)?.[1]?.headers).toEqual({ Authorization: 'Bearer acme-token' });
+
+    await installer.installThemeFromRegistry('claude', 'TweakCN');
+    expect(installed).toHaveBeenLastCalledWith(expect.objectContaining({ sourceUrl: 'https://tweakcn.com/r/themes/claude.json' }));
+    expect(vi.mocked(fetch).mock.calls.at(-1)?.[1]?.headers).toEqual({});
+
+    await expect(installer.installThemeFromRegistry('button')).rejects.toThrow('Theme button not found in any registry');
+    await expect(installer.installThemeFromRegistry('claude', 'Other')).rejects.toThrow('Unknown theme registry: Other');
+  });
+});
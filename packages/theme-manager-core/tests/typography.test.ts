@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FontManager } from '../src/core/font-manager';
+import { StorageManager } from '../src/core/storage-manager';
+import { MemoryCacheBackend } from '../src/adapters/memory-cache-backend';
+import {
+  sanitizeTypographyOverride,
+  buildTypographyVariables,
+  buildTypographyCSS
+} from '../src/utils/typography';
+import { validateThemeProfile, THEME_PROFILE_FORMAT } from '../src/utils/theme-profile';
+import { resetAllMocks } from '../test-setup';
+
+describe('Typography overrides', () => {
+  let storage: StorageManager;
+  let fontManager: FontManager;
+
+  beforeEach(async () => {
+    resetAllMocks();
+    document.documentElement.removeAttribute('style');
+    document.getElementById('font-typography')?.remove();
+
+    storage = new StorageManager({ backend: new MemoryCacheBackend() });
+    fontManager = new FontManager(undefined, undefined, storage);
+    await fontManager.init();
+  });
+
+  it('clamps values and drops invalid fields', () => {
+    expect(sanitizeTypographyOverride({ baseSize: 64, lineHeight: 0.5, letterSpacing: NaN, scaleRatio: 1.25 }))
+      .toEqual({ baseSize: 32, lineHeight: 1, scaleRatio: 1.25 });
+    expect(sanitizeTypographyOverride({ letterSpacing: Infinity })).toBeNull();
+    expect(sanitizeTypographyOverride(null)).toBeNull();
+  });
+
+  it('builds variables and rules only for the fields that are set', () => {
+    expect(buildTypographyVariables('serif', { baseSize: 18, letterSpacing: 0.02 })).toEqual({
+      '--font-serif-size': '18px',
+      '--font-serif-letter-spacing': '0.02em'
+    });
+    expect(buildTypographyVariables('sans', { scaleRatio: 1.5 })['--font-sans-scale-2'])
+      .toBe('calc(var(--font-sans-size, 1rem) * 2.25)');
+
+    const css = buildTypographyCSS({ mono: { lineHeight: 1.6 }, sans: { scaleRatio: 1.25 } });
+    expect(css).toContain('.font-mono, code, pre {\n  line-height: var(--font-mono-line-height);\n}');
+    expect(css).not.toContain('font-size: var(--font-mono-size)');
+    expect(css).toContain('body h1, .font-sans h1 { font-size: var(--font-sans-scale-5); }');
+    expect(buildTypographyCSS({})).toBe('');
+  });
+
+  it('applies typography as CSS variables while overrides are enabled', async () => {
+    await fontManager.setTypography('sans', { baseSize: 18, lineHeight: 1.7, scaleRatio: 1.333 });
+    expect(document.documentElement.style.getPropertyValue('--font-sans-size')).toBe('');
+
+    await fontManager.enableOverride();
+    const root = document.documentElement.style;
+    expect(root.getPropertyValue('--font-sans-size')).toBe('18px');
+    expect(root.getPropertyValue('--font-sans-line-height')).toBe('1.7');
+    expect(root.getPropertyValue('--font-sans-scale-0')).toBe('calc(var(--font-sans-size, 1rem) * 1)');
+    expect(document.getElementById('font-typography')?.textContent).toContain('font-size: var(--font-sans-size);');
+
+    await fontManager.disableOverride();
+    expect(root.getPropertyValue('--font-sans-size')).toBe('');
+    expect(root.getPropertyValue('--font-sans-scale-0')).toBe('');
+    expect(document.getElementById('font-typography')?.textContent).toBe('');
+  });
+
+  it('persists typography with the font override configuration', async () => {
+    await fontManager.setTypography('mono', { baseSize: 14, letterSpacing: -0.01 });
+    await fontManager.flushPendingSave();
+
+    expect((await storage.getFontConfig())?.typography).toEqual({ mono: { baseSize: 14, letterSpacing: -0.01 } });
+
+    const reloaded = new FontManager(undefined, undefined, storage);
+    await reloaded.init();
+    expect(reloaded.getTypography('mono')).toEqual({ baseSize: 14, letterSpacing: -0.01 });
+
+    await reloaded.setTypography('mono', null);
+    expect(reloaded.getOverrideConfiguration().typography).toBeUndefined();
+  });
+
+  it('validates typography in imported profiles', () => {
+    const profile = (typography: unknown) => ({
+      format: THEME_PROFILE_FORMAT,
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      themes: [],
+      fontOverrides: { enabled: true, fonts: {}, typography, timestamp: Date.now() },
+      themeMode: null
+    });
+
+    expect(validateThemeProfile(profile({ sans: { baseSize: 17 } }))).toEqual([]);
+    expect(validateThemeProfile(profile({ sans: { fontSize: 17 } })))
+      .toContain('fontOverrides.typography: expected typography values for sans/serif/mono');
+  });
+});
@@ -1,4 +1,5 @@
 import React from 'react';
+import type { ScopedThemeHandle } from '@mks2508/shadcn-basecoat-theme-manager';
 
 export interface ThemeContextValue {
   themeManager: any;
@@ -12,9 +13,15 @@ export interface ThemeContextValue {
   isServer: boolean;
   loading: boolean;
   error: string | null;
+  scope: ScopedThemeHandle | null;
+  canUndo: boolean;
+  canRedo: boolean;
+  policyError: string | null;
   setTheme: (theme: string, mode?: 'light' | 'dark' | 'auto') => Promise<void>;
   installTheme: (url: string) => Promise<void>;
   setFontOverride: (category: 'sans' | 'serif' | 'mono', fontId: string) => Promise<void>;
+  undo: () => Promise<boolean>;
+  redo: () => Promise<boolean>;
 }
 
 export interface ThemeProviderProps {
@@ -25,9 +32,19 @@ export interface ThemeProviderProps {
   storageKey?: string;
   enableTransitions?: boolean;
   enablePersistence?: boolean;
+  className?: string;
+}
+
+export interface ScopedThemeProviderProps {
+  children: React.ReactNode;
+  theme: string;
+  mode?: 'light' | 'dark' | 'auto';
+  className?: string;
+  style?: React.CSSProperties;
 }
 
 export declare function ThemeProvider(props: ThemeProviderProps): React.ReactElement;
+export declare function ScopedThemeProvider(props: ScopedThemeProviderProps): React.ReactElement;
 export declare function useTheme(): ThemeContextValue;
 
 // Components
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { useTheme } from '../index';
+import { Button, Trash2 } from '@mks2508/mks-ui/react';
+import {
+  formatBytes,
+  type StorageUsage
+} from '@mks2508/shadcn-basecoat-theme-manager';
+
+/**
+ * Cache usage (cached fonts, cached themes, origin quota) with a "clear cache" action.
+ * Installed themes and preferences are never cleared.
+ */
+export const CacheManagement: React.FC = () => {
+  const { themeManager, initialized } = useTheme();
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadUsage = async () => {
+    if (!themeManager) return;
+    try {
+      setUsage(await themeManager.getStorageManager().getUsage());
+    } catch (error) {
+      console.error('❌ [CacheManagement] Failed to read storage usage:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (!themeManager || !initialized) return;
+    loadUsage();
+  }, [themeManager, initialized]);
+
+  const handleClear = async () => {
+    if (!themeManager) return;
+
+    try {
+      setIsClearing(true);
+      const report = await themeManager.getStorageManager().clearCache();
+      setMessage(`Freed ${formatBytes(report.freedBytes)}`);
+      await loadUsage();
+    } catch (error) {
+      console.error('❌ [CacheManagement] Failed to clear cache:', error);
+      setMessage(error instanceof Error ? error.message : 'Failed to clear cache');
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  if (!usage) return null;
+
+  const cachedThemes = usage.themes.count - usage.themes.installed;
+
+  return (
+    <div className="space-y-2 rounded-md border px-3 py-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-sm">
+          <div className="font-medium">Cache</div>
+          <div className="text-xs text-muted-foreground">
+            {usage.fonts.count} fonts ({formatBytes(usage.fonts.bytes)})
+            {cachedThemes > 0 && ` · ${cachedThemes} cached themes`}
+            {' · '}{usage.themes.installed} installed themes ({formatBytes(usage.themes.bytes)})
+          </div>
+          {usage.quota && (
+            <div className="text-xs text-muted-foreground">
+              {formatBytes(usage.quota.usage)} of {formatBytes(usage.quota.quota)} used ({(usage.quota.ratio * 100).toFixed(1)}%)
+            </div>
+          )}
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleClear}
+          disabled={isClearing}
+          title="Remove cached fonts and themes that are not installed"
+        >
+          <Trash2 className="h-4 w-4 mr-1" />
+          Clear cache
+        </Button>
+      </div>
+      {message && <div className="text-xs text-muted-foreground">{message}</div>}
+    </div>
+  );
+};
+
+CacheManagement.displayName = 'CacheManagement';
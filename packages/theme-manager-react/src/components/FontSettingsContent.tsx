@@ -1,14 +1,27 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useTheme } from '../index';
 import { Button, Label, SettingsIcon, Trash2 } from '@mks2508/mks-ui/react';
 import {
   type FontOverride,
   type FontOption,
+  type TypographyOverride,
+  type FontPairing,
   getFontsByCategory,
-  FONT_CATEGORIES
+  getFontById,
+  getFontPairings,
+  searchFonts,
+  FONT_CATEGORIES,
+  TYPOGRAPHY_LIMITS,
+  TYPE_SCALE_RATIOS
 } from '@mks2508/shadcn-basecoat-theme-manager';
 import { cn } from '../lib/utils';
 
+const TYPOGRAPHY_FIELDS: Array<{ field: Exclude<keyof TypographyOverride, 'scaleRatio'>; label: string }> = [
+  { field: 'baseSize', label: 'Size (px)' },
+  { field: 'lineHeight', label: 'Line height' },
+  { field: 'letterSpacing', label: 'Spacing (em)' }
+];
+
 export interface IFontSettingsContentProps {
   onFontChange?: (category: 'sans' | 'serif' | 'mono', fontId: string) => void;
 }
@@ -20,6 +33,14 @@ export const FontSettingsContent: React.FC<IFontSettingsContentProps> = ({
   const [currentOverrides, setCurrentOverrides] = useState<FontOverride>({ enabled: false, fonts: {} });
   const [availableFonts, setAvailableFonts] = useState<Record<string, FontOption[]>>({});
   const [isLoading, setIsLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  // Pairings that keep the current sans selection first
+  const pairings = useMemo<FontPairing[]>(() => {
+    const sans = currentOverrides.fonts.sans;
+    const all = getFontPairings();
+    return sans ? [...all.filter(p => p.fonts.sans === sans), ...all.filter(p => p.fonts.sans !== sans)] : all;
+  }, [currentOverrides.fonts.sans, availableFonts]);
 
   useEffect(() => {
     if (!fontManager || !initialized) return;
@@ -58,6 +79,45 @@ export const FontSettingsContent: React.FC<IFontSettingsContentProps> = ({
     onFontChange?.(category, fontId);
   };
 
+  const handleTypographyChange = async (
+    category: 'sans' | 'serif' | 'mono',
+    field: keyof TypographyOverride,
+    rawValue: string
+  ) => {
+    if (!fontManager) return;
+
+    const value = rawValue === '' ? undefined : Number(rawValue);
+    if (fontManager.getTypography(category)?.[field] === value) return;
+
+    try {
+      await fontManager.setTypography(category, { ...fontManager.getTypography(category), [field]: value });
+      if (!fontManager.getOverrideConfiguration().enabled) {
+        await fontManager.enableOverride();
+      }
+      setCurrentOverrides(fontManager.getOverrideConfiguration());
+    } catch (error) {
+      console.error('Failed to update typography:', error);
+    }
+  };
+
+  const handleApplyPairing = async (pairingId: string) => {
+    if (!fontManager) return;
+
+    try {
+      await fontManager.applyFontPairing(pairingId);
+      setCurrentOverrides(fontManager.getOverrideConfiguration());
+    } catch (error) {
+      console.error('Failed to apply font pairing:', error);
+    }
+  };
+
+  const getVisibleFonts = (category: 'sans' | 'serif' | 'mono', fonts: FontOption[]): FontOption[] => {
+    if (!searchQuery.trim()) return fonts;
+    // Keep the current selection in the list so the select still shows it
+    const matches = new Set(searchFonts({ query: searchQuery, category }).map(font => font.id));
+    return fonts.filter(font => matches.has(font.id) || font.id === currentOverrides.fonts[category]);
+  };
+
   const handleReset = async () => {
     if (!fontManager) return;
 
@@ -84,9 +144,46 @@ export const FontSettingsContent: React.FC<IFontSettingsContentProps> = ({
         </div>
       ) : (
         <>
-          {Object.entries(availableFonts).map(([category, fonts]) => {
+          <div className="space-y-2">
+            <Label htmlFor="font-search" className="text-base font-medium">Search fonts</Label>
+            <input
+              id="font-search"
+              type="search"
+              value={searchQuery}
+              onChange={e => setSearchQuery(e.target.value)}
+              placeholder="Name or style, e.g. geometric, humanist, code"
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-base font-medium">Suggested pairings</Label>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {pairings.map(pairing => (
+                <button
+                  key={pairing.id}
+                  type="button"
+                  onClick={() => handleApplyPairing(pairing.id)}
+                  title={pairing.description}
+                  className="rounded-md border border-input p-3 text-left text-sm transition-colors hover:bg-accent"
+                >
+                  <div className="font-medium">{pairing.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {(['sans', 'serif', 'mono'] as const)
+                      .map(category => pairing.fonts[category] && getFontById(pairing.fonts[category]!)?.name)
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {Object.entries(availableFonts).map(([category, allFonts]) => {
             const cat = category as 'sans' | 'serif' | 'mono';
+            const fonts = getVisibleFonts(cat, allFonts);
             const currentFontId = getCurrentFontId(cat);
+            const locked = fontManager?.isCategoryLocked(cat) ?? false;
 
             return (
               <div key={category} className="space-y-2">
@@ -99,6 +196,8 @@ export const FontSettingsContent: React.FC<IFontSettingsContentProps> = ({
                       id={`font-${category}`}
                       value={currentFontId}
                       onChange={e => handleFontChange(cat, e.target.value)}
+                      disabled={locked}
+                      title={locked ? 'Locked by policy' : undefined}
                       className={cn(
                         "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm",
                         "ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2",
@@ -112,7 +211,7 @@ export const FontSettingsContent: React.FC<IFontSettingsContentProps> = ({
                         </option>
                       ))}
                     </select>
-                    {currentFontId && (
+                    {currentFontId && !locked && (
                       <Button
                         size="sm"
                         variant="ghost"
@@ -125,6 +224,49 @@ export const FontSettingsContent: React.FC<IFontSettingsContentProps> = ({
                   </div>
                 </div>
 
+                <div
+                  key={JSON.stringify(currentOverrides.typography?.[cat] ?? {})}
+                  className="grid grid-cols-2 gap-2 sm:grid-cols-4"
+                >
+                  {TYPOGRAPHY_FIELDS.map(({ field, label }) => (
+                    <div key={field} className="space-y-1">
+                      <Label htmlFor={`font-${category}-${field}`} className="text-xs text-muted-foreground">
+                        {label}
+                      </Label>
+                      <input
+                        id={`font-${category}-${field}`}
+                        type="number"
+                        min={TYPOGRAPHY_LIMITS[field].min}
+                        max={TYPOGRAPHY_LIMITS[field].max}
+                        step={TYPOGRAPHY_LIMITS[field].step}
+                        placeholder="Theme"
+                        defaultValue={currentOverrides.typography?.[cat]?.[field] ?? ''}
+                        onBlur={e => handleTypographyChange(cat, field, e.target.value)}
+                        onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+                        className="flex h-9 w-full rounded-md border border-input bg-background px-2 text-sm"
+                      />
+                    </div>
+                  ))}
+                  <div className="space-y-1">
+                    <Label htmlFor={`font-${category}-scaleRatio`} className="text-xs text-muted-foreground">
+                      Type scale
+                    </Label>
+                    <select
+                      id={`font-${category}-scaleRatio`}
+                      value={currentOverrides.typography?.[cat]?.scaleRatio ?? ''}
+                      onChange={e => handleTypographyChange(cat, 'scaleRatio', e.target.value)}
+                      className="flex h-9 w-full rounded-md border border-input bg-background px-2 text-sm"
+                    >
+                      <option value="">Theme</option>
+                      {Object.entries(TYPE_SCALE_RATIOS).map(([name, ratio]) => (
+                        <option key={name} value={ratio}>
+                          {name.replace('-', ' ')} ({ratio})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
                 {currentFontId && (
                   <div className="rounded-md bg-muted/50 p-3">
                     <p className="text-sm text-muted-foreground">
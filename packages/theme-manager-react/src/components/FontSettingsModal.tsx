@@ -111,6 +111,7 @@ export const FontSettingsModal: React.FC<FontSettingsModalProps> = ({
               {Object.entries(availableFonts).map(([category, fonts]) => {
                 const cat = category as 'sans' | 'serif' | 'mono';
                 const currentFontId = getCurrentFontId(cat);
+                const locked = fontManager?.isCategoryLocked(cat) ?? false;
 
                 return (
                   <div key={category} className="space-y-2">
@@ -123,6 +124,8 @@ export const FontSettingsModal: React.FC<FontSettingsModalProps> = ({
                           id={`font-${category}`}
                           value={currentFontId}
                           onChange={e => handleFontChange(cat, e.target.value)}
+                          disabled={locked}
+                          title={locked ? 'Locked by policy' : undefined}
                           className={cn(
                             "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm",
                             "ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2",
@@ -136,7 +139,7 @@ export const FontSettingsModal: React.FC<FontSettingsModalProps> = ({
                             </option>
                           ))}
                         </select>
-                        {currentFontId && (
+                        {currentFontId && !locked && (
                           <Button
                             size="sm"
                             variant="ghost"
@@ -0,0 +1,98 @@
+import React, { useRef, useState } from 'react';
+import { useTheme } from '../index';
+import { Button, DownloadIcon } from '@mks2508/mks-ui/react';
+import { Upload } from 'lucide-react';
+import {
+  downloadThemeProfile,
+  readThemeProfileFile,
+  type ProfileImportStrategy
+} from '@mks2508/shadcn-basecoat-theme-manager';
+
+export interface IProfileTransferProps {
+  /** Called after a successful import so installed theme lists can reload */
+  onImported?: () => void;
+}
+
+/**
+ * Export/import buttons for the user theme profile (installed themes, fonts, mode)
+ */
+export const ProfileTransfer: React.FC<IProfileTransferProps> = ({ onImported }) => {
+  const { themeManager } = useTheme();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [strategy, setStrategy] = useState<ProfileImportStrategy>('merge');
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const handleExport = async () => {
+    if (!themeManager) return;
+
+    try {
+      const profile = await themeManager.exportProfile();
+      downloadThemeProfile(profile, `theme-profile-${new Date().toISOString().slice(0, 10)}.json`);
+      setStatus({ type: 'success', message: `Exported ${profile.themes.length} installed themes` });
+    } catch (error) {
+      console.error('❌ [ProfileTransfer] Failed to export profile:', error);
+      setStatus({ type: 'error', message: error instanceof Error ? error.message : 'Export failed' });
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !themeManager) return;
+
+    if (strategy === 'replace' && !confirm('Replace all installed themes and preferences with this profile?')) return;
+
+    try {
+      const profile = await readThemeProfileFile(file);
+      const result = await themeManager.importProfile(profile, { strategy });
+      setStatus({
+        type: 'success',
+        message: `Imported ${result.themes} themes` +
+          (result.skippedThemes.length ? ` (${result.skippedThemes.length} skipped)` : '')
+      });
+      onImported?.();
+    } catch (error) {
+      console.error('❌ [ProfileTransfer] Failed to import profile:', error);
+      setStatus({ type: 'error', message: error instanceof Error ? error.message : 'Import failed' });
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border px-3 py-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium flex-1">Profile</span>
+        <select
+          value={strategy}
+          onChange={e => setStrategy(e.target.value as ProfileImportStrategy)}
+          className="h-8 rounded-md border bg-background px-2 text-sm"
+          aria-label="Import strategy"
+        >
+          <option value="merge">Merge</option>
+          <option value="replace">Replace</option>
+        </select>
+        <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+          <Upload className="h-4 w-4 mr-1" />
+          Import
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleExport}>
+          <DownloadIcon className="h-4 w-4 mr-1" />
+          Export
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleImport}
+        />
+      </div>
+      {status && (
+        <div className={status.type === 'error' ? 'text-xs text-destructive' : 'text-xs text-muted-foreground'}>
+          {status.message}
+        </div>
+      )}
+    </div>
+  );
+};
+
+ProfileTransfer.displayName = 'ProfileTransfer';
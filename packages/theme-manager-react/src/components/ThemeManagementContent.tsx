@@ -4,9 +4,11 @@ import { Button, Input, Badge, SearchIcon, RefreshCw, DownloadIcon, Trash2 } fro
 import { Eye, Loader2 } from 'lucide-react';
 import {
   type ThemeConfig,
-  type RegistryTheme
+  type ExternalThemeItem
 } from '@mks2508/shadcn-basecoat-theme-manager';
 import { cn } from '../lib/utils';
+import { ProfileTransfer } from './ProfileTransfer';
+import { CacheManagement } from './CacheManagement';
 
 export interface IThemeManagementContentProps {
   onThemeSelect?: (themeId: string, mode: 'light' | 'dark') => void;
@@ -15,10 +17,11 @@ export interface IThemeManagementContentProps {
 export const ThemeManagementContent: React.FC<IThemeManagementContentProps> = ({
   onThemeSelect,
 }) => {
-  const { themeManager, installer, initialized } = useTheme();
+  const { themeManager, installer, initialized, policyError } = useTheme();
+  const remoteInstallsAllowed = installer?.canInstallRemote() ?? true;
   const [activeTab, setActiveTab] = useState<'installed' | 'browse'>('installed');
   const [installedThemes, setInstalledThemes] = useState<ThemeConfig[]>([]);
-  const [registryThemes, setRegistryThemes] = useState<RegistryTheme[]>([]);
+  const [registryThemes, setRegistryThemes] = useState<ExternalThemeItem[]>([]);
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [isLoadingInstalled, setIsLoadingInstalled] = useState<boolean>(true);
   const [isLoadingRegistry, setIsLoadingRegistry] = useState<boolean>(false);
@@ -46,15 +49,14 @@ export const ThemeManagementContent: React.FC<IThemeManagementContentProps> = ({
   }, [themeManager, initialized]);
 
   useEffect(() => {
-    if (activeTab !== 'browse') return;
+    if (activeTab !== 'browse' || !installer) return;
 
     const fetchRegistryThemes = async () => {
       try {
         setIsLoadingRegistry(true);
-        const response = await fetch('https://tweakcn.com/api/themes');
-        if (!response.ok) throw new Error('Failed to fetch registry');
-        const data = await response.json();
-        setRegistryThemes(data.themes || []);
+        // Every configured registry (ThemeCoreConfig.registries), de-duplicated by name
+        const themes = await installer.getThemeListFetcher().fetchAvailableThemes();
+        setRegistryThemes(themes);
       } catch (error) {
         console.error('Failed to fetch registry:', error);
         setRegistryThemes([]);
@@ -64,11 +66,18 @@ export const ThemeManagementContent: React.FC<IThemeManagementContentProps> = ({
     };
 
     fetchRegistryThemes();
-  }, [activeTab]);
+  }, [activeTab, installer]);
+
+  // Themes the tenant policy does not allow are hidden instead of failing on select/install
+  const isAllowed = (themeId: string) => themeManager?.isThemeAllowed(themeId) ?? true;
+  const visibleInstalledThemes = installedThemes.filter(theme => isAllowed(theme.id));
 
   const filteredRegistryThemes = registryThemes.filter(theme =>
-    theme.name?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    theme.description?.toLowerCase().includes(searchQuery.toLowerCase())
+    isAllowed(theme.name) && (
+      theme.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      theme.description?.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      theme.source?.toLowerCase().includes(searchQuery.toLowerCase())
+    )
   );
 
   const handleInstall = async (themeUrl: string, themeId: string, themeName: string) => {
@@ -84,6 +93,10 @@ export const ThemeManagementContent: React.FC<IThemeManagementContentProps> = ({
     }
   };
 
+  const reloadInstalledThemes = () => {
+    setInstalledThemes(themeManager?.getThemeRegistry().getInstalledThemes() || []);
+  };
+
   const handleUninstall = async (themeId: string) => {
     if (!themeManager) return;
     if (!confirm('Are you sure you want to uninstall this theme?')) return;
@@ -147,19 +160,21 @@ export const ThemeManagementContent: React.FC<IThemeManagementContentProps> = ({
               : "text-muted-foreground hover:bg-accent"
           )}
         >
-          Installed ({installedThemes.length})
-        </button>
-        <button
-          onClick={() => setActiveTab('browse')}
-          className={cn(
-            "flex-1 rounded-md px-4 py-2 text-sm font-medium transition-all",
-            activeTab === 'browse'
-              ? "bg-primary text-primary-foreground shadow-sm"
-              : "text-muted-foreground hover:bg-accent"
-          )}
-        >
-          Browse Registry
+          Installed ({visibleInstalledThemes.length})
         </button>
+        {remoteInstallsAllowed && (
+          <button
+            onClick={() => setActiveTab('browse')}
+            className={cn(
+              "flex-1 rounded-md px-4 py-2 text-sm font-medium transition-all",
+              activeTab === 'browse'
+                ? "bg-primary text-primary-foreground shadow-sm"
+                : "text-muted-foreground hover:bg-accent"
+            )}
+          >
+            Browse Registry
+          </button>
+        )}
       </div>
 
       {activeTab === 'installed' && (
@@ -169,13 +184,13 @@ export const ThemeManagementContent: React.FC<IThemeManagementContentProps> = ({
               <Loader2 className="h-6 w-6 animate-spin" />
               <span className="ml-2">Loading installed themes...</span>
             </div>
-          ) : installedThemes.length === 0 ? (
+          ) : visibleInstalledThemes.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
               No themes installed yet. Browse the registry to find some!
             </div>
           ) : (
             <div className="max-h-80 space-y-1 overflow-y-auto pr-2">
-              {installedThemes.map(theme => (
+              {visibleInstalledThemes.map(theme => (
                 <div
                   key={theme.id}
                   className="flex items-center justify-between rounded-md border px-3 py-2"
@@ -204,10 +219,12 @@ export const ThemeManagementContent: React.FC<IThemeManagementContentProps> = ({
               ))}
             </div>
           )}
+          <ProfileTransfer onImported={reloadInstalledThemes} />
+          <CacheManagement />
         </div>
       )}
 
-      {activeTab === 'browse' && (
+      {activeTab === 'browse' && remoteInstallsAllowed && (
         <div className="space-y-4">
           <div className="relative">
             <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
@@ -233,16 +250,21 @@ export const ThemeManagementContent: React.FC<IThemeManagementContentProps> = ({
               ) : (
                 filteredRegistryThemes.map(theme => (
                   <div
-                    key={theme.id}
+                    key={`${theme.source}:${theme.name}`}
                     className="rounded-lg border p-4 space-y-3"
                   >
                     <div className="flex items-start justify-between">
-                      <div>
-                        <h3 className="font-medium">{theme.name}</h3>
+                      <div className="flex items-center gap-2">
+                        <h3 className="font-medium">{theme.title || theme.name}</h3>
+                        {theme.source && (
+                          <Badge variant="outline" className="text-xs">
+                            {theme.source}
+                          </Badge>
+                        )}
                       </div>
                       <Button
                         size="sm"
-                        onClick={() => startPreview(theme.id, 'light')}
+                        onClick={() => startPreview(theme.name, 'light')}
                         disabled={isPreviewActive}
                       >
                         <Eye className="h-4 w-4 mr-1" />
@@ -256,36 +278,20 @@ export const ThemeManagementContent: React.FC<IThemeManagementContentProps> = ({
                       </p>
                     )}
 
-                    <div className="flex items-center gap-2">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        className="flex-1"
-                        onClick={() => handleInstall(
-                          `https://tweakcn.com/r/themes/${theme.id}.json`,
-                          theme.id,
-                          theme.name
-                        )}
-                        disabled={isPreviewActive}
-                      >
-                        <DownloadIcon className="h-4 w-4 mr-1" />
-                        Install Light
-                      </Button>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        className="flex-1"
-                        onClick={() => handleInstall(
-                          `https://tweakcn.com/r/themes/${theme.id}-dark.json`,
-                          `${theme.id}-dark`,
-                          `${theme.name} (Dark)`
-                        )}
-                        disabled={isPreviewActive}
-                      >
-                        <DownloadIcon className="h-4 w-4 mr-1" />
-                        Install Dark
-                      </Button>
-                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="w-full"
+                      onClick={() => handleInstall(
+                        theme.installUrl!,
+                        theme.name,
+                        theme.title || theme.name
+                      )}
+                      disabled={isPreviewActive || !theme.installUrl}
+                    >
+                      <DownloadIcon className="h-4 w-4 mr-1" />
+                      Install
+                    </Button>
                   </div>
                 ))
               )}
@@ -294,6 +300,12 @@ export const ThemeManagementContent: React.FC<IThemeManagementContentProps> = ({
         </div>
       )}
 
+      {policyError && (
+        <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+          {policyError}
+        </div>
+      )}
+
       {isPreviewActive && (
         <div className="flex items-center justify-between rounded-md bg-primary/10 px-3 py-2 text-sm">
           <span className="text-primary font-medium">
@@ -1,12 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { useTheme } from '../index';
 import { Button, Input, Badge, AlertDialog as Dialog, AlertDialogPopup as DialogPopup, AlertDialogTitle as DialogTitle, AlertDialogClose as DialogClose, SearchIcon, RefreshCw, DownloadIcon, Trash2 } from '@mks2508/mks-ui/react';
-import { Eye, Loader2 } from 'lucide-react';
+import { Eye, Loader2, Undo2, Redo2 } from 'lucide-react';
 import {
+  bindHistoryShortcuts,
   type ThemeConfig,
-  type RegistryTheme
+  type ExternalThemeItem
 } from '@mks2508/shadcn-basecoat-theme-manager';
 import { cn } from '../lib/utils';
+import { ProfileTransfer } from './ProfileTransfer';
+import { CacheManagement } from './CacheManagement';
 
 interface ThemeManagementModalProps {
   open: boolean;
@@ -17,10 +20,11 @@ export const ThemeManagementModal: React.FC<ThemeManagementModalProps> = ({
   open,
   onOpenChange,
 }) => {
-  const { themeManager, installer, initialized } = useTheme();
+  const { themeManager, installer, initialized, undo, redo, canUndo, canRedo, policyError } = useTheme();
+  const remoteInstallsAllowed = installer?.canInstallRemote() ?? true;
   const [activeTab, setActiveTab] = useState<'installed' | 'browse'>('installed');
   const [installedThemes, setInstalledThemes] = useState<ThemeConfig[]>([]);
-  const [registryThemes, setRegistryThemes] = useState<RegistryTheme[]>([]);
+  const [registryThemes, setRegistryThemes] = useState<ExternalThemeItem[]>([]);
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [isLoadingInstalled, setIsLoadingInstalled] = useState<boolean>(true);
   const [isLoadingRegistry, setIsLoadingRegistry] = useState<boolean>(false);
@@ -54,20 +58,18 @@ export const ThemeManagementModal: React.FC<ThemeManagementModalProps> = ({
 
   // Fetch registry themes when browse tab is active
   useEffect(() => {
-    if (activeTab !== 'browse' || !open) return;
+    if (activeTab !== 'browse' || !open || !installer) return;
 
     const fetchRegistryThemes = async () => {
       try {
         setIsLoadingRegistry(true);
         console.log('🔍 [ThemeManagement] Fetching registry themes...');
 
-        const response = await fetch('https://tweakcn.com/api/themes');
-        if (!response.ok) throw new Error('Failed to fetch registry');
+        // Every configured registry (ThemeCoreConfig.registries), de-duplicated by name
+        const themes = await installer.getThemeListFetcher().fetchAvailableThemes();
+        console.log('📦 [ThemeManagement] Found registry themes:', themes.length);
 
-        const data = await response.json();
-        console.log('📦 [ThemeManagement] Found registry themes:', data.length);
-
-        setRegistryThemes(data.themes || []);
+        setRegistryThemes(themes);
       } catch (error) {
         console.error('Failed to fetch registry:', error);
         setRegistryThemes([]);
@@ -77,11 +79,24 @@ export const ThemeManagementModal: React.FC<ThemeManagementModalProps> = ({
     };
 
     fetchRegistryThemes();
-  }, [activeTab, open]);
+  }, [activeTab, open, installer]);
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z step through theme history while the modal is open
+  useEffect(() => {
+    if (!open || !themeManager) return;
+    return bindHistoryShortcuts({ undo, redo });
+  }, [open, themeManager, undo, redo]);
+
+  // Themes the tenant policy does not allow are hidden instead of failing on select/install
+  const isAllowed = (themeId: string) => themeManager?.isThemeAllowed(themeId) ?? true;
+  const visibleInstalledThemes = installedThemes.filter(theme => isAllowed(theme.id));
 
   const filteredRegistryThemes = registryThemes.filter(theme =>
-    theme.name?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    theme.description?.toLowerCase().includes(searchQuery.toLowerCase())
+    isAllowed(theme.name) && (
+      theme.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      theme.description?.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      theme.source?.toLowerCase().includes(searchQuery.toLowerCase())
+    )
   );
 
   const handleInstall = async (themeUrl: string, themeId: string, themeName: string) => {
@@ -102,6 +117,10 @@ export const ThemeManagementModal: React.FC<ThemeManagementModalProps> = ({
     }
   };
 
+  const reloadInstalledThemes = () => {
+    setInstalledThemes(themeManager?.getThemeRegistry().getInstalledThemes() || []);
+  };
+
   const handleUninstall = async (themeId: string) => {
     if (!themeManager) return;
 
@@ -203,19 +222,21 @@ export const ThemeManagementModal: React.FC<ThemeManagementModalProps> = ({
                   : "text-muted-foreground hover:bg-accent"
               )}
             >
-              Installed ({installedThemes.length})
-            </button>
-            <button
-              onClick={() => setActiveTab('browse')}
-              className={cn(
-                "flex-1 rounded-md px-4 py-2 text-sm font-medium transition-all",
-                activeTab === 'browse'
-                  ? "bg-primary text-primary-foreground shadow-sm"
-                  : "text-muted-foreground hover:bg-accent"
-              )}
-            >
-              Browse Registry
+              Installed ({visibleInstalledThemes.length})
             </button>
+            {remoteInstallsAllowed && (
+              <button
+                onClick={() => setActiveTab('browse')}
+                className={cn(
+                  "flex-1 rounded-md px-4 py-2 text-sm font-medium transition-all",
+                  activeTab === 'browse'
+                    ? "bg-primary text-primary-foreground shadow-sm"
+                    : "text-muted-foreground hover:bg-accent"
+                )}
+              >
+                Browse Registry
+              </button>
+            )}
           </div>
 
           {/* Installed Themes Tab */}
@@ -226,13 +247,13 @@ export const ThemeManagementModal: React.FC<ThemeManagementModalProps> = ({
                   <Loader2 className="h-6 w-6 animate-spin" />
                   <span className="ml-2">Loading installed themes...</span>
                 </div>
-              ) : installedThemes.length === 0 ? (
+              ) : visibleInstalledThemes.length === 0 ? (
                 <div className="text-center py-8 text-muted-foreground">
                   No themes installed yet. Browse the registry to find some!
                 </div>
               ) : (
                 <div className="max-h-80 space-y-1 overflow-y-auto pr-2">
-                  {installedThemes.map(theme => (
+                  {visibleInstalledThemes.map(theme => (
                     <div
                       key={theme.id}
                       className="flex items-center justify-between rounded-md border px-3 py-2"
@@ -261,11 +282,13 @@ export const ThemeManagementModal: React.FC<ThemeManagementModalProps> = ({
                   ))}
                 </div>
               )}
+              <ProfileTransfer onImported={reloadInstalledThemes} />
+              <CacheManagement />
             </div>
           )}
 
           {/* Browse Registry Tab */}
-          {activeTab === 'browse' && (
+          {activeTab === 'browse' && remoteInstallsAllowed && (
             <div className="space-y-4">
               {/* Search */}
               <div className="relative">
@@ -292,16 +315,21 @@ export const ThemeManagementModal: React.FC<ThemeManagementModalProps> = ({
                   ) : (
                     filteredRegistryThemes.map(theme => (
                       <div
-                        key={theme.id}
+                        key={`${theme.source}:${theme.name}`}
                         className="rounded-lg border p-4 space-y-3"
                       >
                         <div className="flex items-start justify-between">
-                          <div>
-                            <h3 className="font-medium">{theme.name}</h3>
+                          <div className="flex items-center gap-2">
+                            <h3 className="font-medium">{theme.title || theme.name}</h3>
+                            {theme.source && (
+                              <Badge variant="outline" className="text-xs">
+                                {theme.source}
+                              </Badge>
+                            )}
                           </div>
                           <Button
                             size="sm"
-                            onClick={() => startPreview(theme.id, 'light')}
+                            onClick={() => startPreview(theme.name, 'light')}
                             disabled={isPreviewActive}
                           >
                             <Eye className="h-4 w-4 mr-1" />
@@ -315,36 +343,20 @@ export const ThemeManagementModal: React.FC<ThemeManagementModalProps> = ({
                           </p>
                         )}
 
-                        <div className="flex items-center gap-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            className="flex-1"
-                            onClick={() => handleInstall(
-                              `https://tweakcn.com/r/themes/${theme.id}.json`,
-                              theme.id,
-                              theme.name
-                            )}
-                            disabled={isPreviewActive}
-                          >
-                            <DownloadIcon className="h-4 w-4 mr-1" />
-                            Install Light
-                          </Button>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            className="flex-1"
-                            onClick={() => handleInstall(
-                              `https://tweakcn.com/r/themes/${theme.id}-dark.json`,
-                              `${theme.id}-dark`,
-                              `${theme.name} (Dark)`
-                            )}
-                            disabled={isPreviewActive}
-                          >
-                            <DownloadIcon className="h-4 w-4 mr-1" />
-                            Install Dark
-                          </Button>
-                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="w-full"
+                          onClick={() => handleInstall(
+                            theme.installUrl!,
+                            theme.name,
+                            theme.title || theme.name
+                          )}
+                          disabled={isPreviewActive || !theme.installUrl}
+                        >
+                          <DownloadIcon className="h-4 w-4 mr-1" />
+                          Install
+                        </Button>
                       </div>
                     ))
                   )}
@@ -353,6 +365,12 @@ export const ThemeManagementModal: React.FC<ThemeManagementModalProps> = ({
             </div>
           )}
 
+          {policyError && (
+            <div className="rounded-md bg-destructive/10 px-3 py-2 text-sm text-destructive">
+              {policyError}
+            </div>
+          )}
+
           {/* Preview Notification */}
           {isPreviewActive && (
             <div className="flex items-center justify-between rounded-md bg-primary/10 px-3 py-2 text-sm">
@@ -371,6 +389,26 @@ export const ThemeManagementModal: React.FC<ThemeManagementModalProps> = ({
         </div>
 
         <div className="flex flex-col-reverse sm:flex-row sm:justify-end sm:space-x-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => undo()}
+            disabled={!canUndo || isPreviewActive}
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 className="h-4 w-4 mr-1" />
+            Undo
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => redo()}
+            disabled={!canRedo || isPreviewActive}
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 className="h-4 w-4 mr-1" />
+            Redo
+          </Button>
           <DialogClose render={<Button variant="outline" />}>
             Close
           </DialogClose>
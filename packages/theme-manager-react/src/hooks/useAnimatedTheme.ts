@@ -215,9 +215,10 @@ export function useAnimatedTheme(options?: IAnimatedThemeOptions) {
         });
       };
 
-      const reducedMotion =
-        typeof window !== 'undefined' &&
-        window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+      const reducedMotion = ctx.themeManager
+        ? ctx.themeManager.prefersReducedMotion()
+        : typeof window !== 'undefined' &&
+          window.matchMedia('(prefers-reduced-motion: reduce)').matches;
 
       if (reducedMotion || !document.startViewTransition) {
         await applyChanges();
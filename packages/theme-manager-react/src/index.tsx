@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
+import React, { createContext, useContext, useEffect, useRef, useState, useCallback } from 'react';
 import {
   ThemeCore,
   ThemeManager,
@@ -6,7 +6,8 @@ import {
   ThemeInstaller,
   ThemeConfig,
   FontOverride,
-  ThemeResolver
+  ThemeResolver,
+  ScopedThemeHandle
 } from '@mks2508/shadcn-basecoat-theme-manager';
 import { ThemeManagementModal as ThemeManagementModalComponent } from './components/ThemeManagementModal';
 import { FontSettingsModal as FontSettingsModalComponent } from './components/FontSettingsModal';
@@ -44,16 +45,29 @@ interface ThemeContextValue {
   loading: boolean;
   error: string | null;
 
+  // Scope activo (null en el provider raíz, que aplica el tema a <html>)
+  scope: ScopedThemeHandle | null;
+
+  // Historial de cambios (tema, modo y fuentes)
+  canUndo: boolean;
+  canRedo: boolean;
+
+  // Último rechazo de la política del tenant (tema, modo, fuente o instalación)
+  policyError: string | null;
+
   // Métodos de conveniencia
   setTheme: (theme: string, mode?: 'light' | 'dark' | 'auto') => Promise<void>;
   installTheme: (url: string) => Promise<void>;
   setFontOverride: (category: 'sans' | 'serif' | 'mono', fontId: string) => Promise<void>;
+  undo: () => Promise<boolean>;
+  redo: () => Promise<boolean>;
 }
 
 const ThemeContext = createContext<ThemeContextValue | null>(null);
 
 /**
  * Provider principal de temas para React
+ * Anidado dentro de otro ThemeProvider se comporta como ScopedThemeProvider
  */
 interface ThemeProviderProps {
   children: React.ReactNode;
@@ -64,9 +78,29 @@ interface ThemeProviderProps {
   registryData?: any;
   storageKey?: string;
   enableTransitions?: boolean;
+  /** Clase del contenedor cuando el provider está anidado */
+  className?: string;
+}
+
+export function ThemeProvider(props: ThemeProviderProps) {
+  const parent = useContext(ThemeContext);
+
+  if (parent) {
+    return (
+      <ScopedThemeProvider
+        theme={props.defaultTheme ?? parent.currentTheme}
+        mode={props.defaultMode}
+        className={props.className}
+      >
+        {props.children}
+      </ScopedThemeProvider>
+    );
+  }
+
+  return <RootThemeProvider {...props} />;
 }
 
-export function ThemeProvider({
+function RootThemeProvider({
   children,
   defaultTheme = 'default',
   defaultMode = 'auto',
@@ -91,6 +125,9 @@ export function ThemeProvider({
   const [initialized, setInitialized] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+  const [policyError, setPolicyError] = useState<string | null>(null);
 
   useEffect(() => {
     // Detect client-side environment
@@ -146,6 +183,17 @@ export function ThemeProvider({
         ThemeCore.onThemeInstalled && ThemeCore.onThemeInstalled(updateThemes as any);
         ThemeCore.onThemeUninstalled && ThemeCore.onThemeUninstalled(updateThemes as any);
 
+        tm.addEventListener?.('history:changed', (event) => {
+          setCanUndo(event.canUndo);
+          setCanRedo(event.canRedo);
+        });
+
+        // Font overrides change through undo/redo and other tabs too
+        tm.addEventListener?.('fonts:changed', (event) => setFontOverrides(event.override));
+
+        tm.addEventListener?.('policy:rejected', (event) => setPolicyError(event.reason));
+        tm.addEventListener?.('theme:changed', () => setPolicyError(null));
+
       } catch (error) {
         console.warn('⚠️ ThemeProvider: Auto-initialization failed, using fallback:', error);
         setError(error instanceof Error ? error.message : 'Initialization failed');
@@ -209,6 +257,16 @@ export function ThemeProvider({
     setFontOverrides({ enabled: true, fonts: { [category]: fontId } });
   }, [fontManager]);
 
+  const undo = useCallback(async () => {
+    if (!themeManager) return false;
+    return themeManager.undo();
+  }, [themeManager]);
+
+  const redo = useCallback(async () => {
+    if (!themeManager) return false;
+    return themeManager.redo();
+  }, [themeManager]);
+
   const value: ThemeContextValue = {
     // Direct access to managers
     themeManager,
@@ -224,11 +282,17 @@ export function ThemeProvider({
     isServer,
     loading,
     error,
+    scope: null,
+    canUndo,
+    canRedo,
+    policyError,
 
     // Métodos de conveniencia
     setTheme,
     installTheme,
-    setFontOverride
+    setFontOverride,
+    undo,
+    redo
   };
 
   return (
@@ -238,6 +302,101 @@ export function ThemeProvider({
   );
 }
 
+/**
+ * Provider de tema para un subárbol: aplica el tema a su contenedor en lugar de a <html>
+ */
+interface ScopedThemeProviderProps {
+  children: React.ReactNode;
+  theme: string;
+  mode?: 'light' | 'dark' | 'auto';
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+export function ScopedThemeProvider({
+  children,
+  theme,
+  mode = 'auto',
+  className,
+  style
+}: ScopedThemeProviderProps) {
+  const parent = useContext(ThemeContext);
+  const themeManager = parent?.themeManager ?? null;
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scope, setScope] = useState<ScopedThemeHandle | null>(null);
+  const [currentTheme, setCurrentTheme] = useState(theme);
+  const [currentMode, setCurrentMode] = useState<'light' | 'dark' | 'auto'>(mode);
+  const [error, setError] = useState<string | null>(null);
+
+  // Props changes reset the scope state
+  useEffect(() => {
+    setCurrentTheme(theme);
+    setCurrentMode(mode);
+  }, [theme, mode]);
+
+  // One handle per mounted container; disposed on unmount
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!themeManager || !element) return;
+
+    let handle: ScopedThemeHandle | null = null;
+    let cancelled = false;
+
+    themeManager.applyToElement(element, currentTheme, currentMode)
+      .then(created => {
+        if (cancelled) {
+          created.dispose();
+          return;
+        }
+        handle = created;
+        setScope(created);
+        setError(null);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Scoped theme failed'));
+
+    return () => {
+      cancelled = true;
+      handle?.dispose();
+      setScope(null);
+    };
+  }, [themeManager]);
+
+  useEffect(() => {
+    if (!scope || (scope.theme === currentTheme && scope.mode === currentMode)) return;
+
+    scope.update(currentTheme, currentMode)
+      .then(() => setError(null))
+      .catch(err => setError(err instanceof Error ? err.message : 'Scoped theme failed'));
+  }, [scope, currentTheme, currentMode]);
+
+  const setTheme = useCallback(async (nextTheme: string, nextMode?: 'light' | 'dark' | 'auto') => {
+    setCurrentTheme(nextTheme);
+    if (nextMode) setCurrentMode(nextMode);
+  }, []);
+
+  if (!parent) {
+    throw new Error('ScopedThemeProvider debe usarse dentro de ThemeProvider');
+  }
+
+  const value: ThemeContextValue = {
+    ...parent,
+    currentTheme,
+    currentMode,
+    error: error ?? parent.error,
+    scope,
+    setTheme
+  };
+
+  return (
+    <ThemeContext.Provider value={value}>
+      <div ref={containerRef} className={className} style={style} data-theme-scope="">
+        {children}
+      </div>
+    </ThemeContext.Provider>
+  );
+}
+
 /**
  * Hook para usar el Theme Manager
  */
@@ -299,7 +458,7 @@ interface ModalProps {
 // Export all components and utilities
 export { ThemeManagementModalComponent as ThemeManagementModal }
 export { FontSettingsModalComponent as FontSettingsModal }
-export type { ModalProps, ThemeContextValue, ThemeProviderProps }
+export type { ModalProps, ThemeContextValue, ThemeProviderProps, ScopedThemeProviderProps }
 
 // FOUC prevention re-exports from core
 export { generateFOUCScript } from '@mks2508/shadcn-basecoat-theme-manager';
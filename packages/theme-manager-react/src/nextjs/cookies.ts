@@ -0,0 +1,63 @@
+/**
+ * Server-side theme cookie helpers for Next.js (App Router server components,
+ * route handlers and server actions).
+ *
+ * Work with the store returned by `cookies()` from `next/headers`. When
+ * `THEME_COOKIE_SECRET` is set (or `secret` is passed) the cookies are
+ * HMAC-signed and tampered ones fall back to the defaults.
+ */
+
+import {
+  createThemeCookies,
+  getThemeCookieSecret,
+  readThemeCookies,
+  type ThemeCookieOptions,
+  type ThemeCookiePreference,
+  type ThemeCookieReadResult
+} from '@mks2508/shadcn-basecoat-theme-manager'
+
+/**
+ * Subset of Next.js `ReadonlyRequestCookies` / `ResponseCookies` used here
+ */
+export interface NextCookieStore {
+  get(name: string): { value: string } | undefined
+  set?(name: string, value: string, options?: { maxAge?: number; path?: string; sameSite?: 'lax' | 'strict' | 'none' }): unknown
+}
+
+/**
+ * Read the theme preference in a server component or route handler
+ *
+ * @example
+ * ```tsx
+ * const { theme, mode } = await getThemeFromCookies(await cookies())
+ * return <html data-theme={theme}>...</html>
+ * ```
+ */
+export async function getThemeFromCookies(
+  cookieStore: NextCookieStore,
+  options: ThemeCookieOptions = {}
+): Promise<ThemeCookieReadResult> {
+  return readThemeCookies(
+    name => cookieStore.get(name)?.value,
+    { secret: getThemeCookieSecret(), ...options }
+  )
+}
+
+/**
+ * Persist the theme preference from a server action or route handler
+ * @throws Error when the store is read-only (server components) or the preference is malformed
+ */
+export async function setThemeCookies(
+  cookieStore: NextCookieStore,
+  preference: ThemeCookiePreference,
+  options: Pick<ThemeCookieOptions, 'secret'> = {}
+): Promise<void> {
+  if (!cookieStore.set) {
+    throw new Error('Cookie store is read-only, call setThemeCookies from a server action or route handler')
+  }
+
+  const cookies = await createThemeCookies(preference, { secret: getThemeCookieSecret(), ...options })
+  for (const cookie of cookies) {
+    cookieStore.set(cookie.name, cookie.value, { maxAge: 60 * 60 * 24 * 365, path: '/', sameSite: 'lax' })
+  }
+}
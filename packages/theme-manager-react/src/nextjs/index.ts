@@ -22,6 +22,10 @@ export type { NextJSThemeProviderProps } from './NextJSThemeProvider'
 export { createNextJSConfig } from './utils'
 export type { NextJSThemeConfig } from './utils'
 
+// Server-side theme cookies (optionally HMAC-signed)
+export { getThemeFromCookies, setThemeCookies } from './cookies'
+export type { NextCookieStore } from './cookies'
+
 // FOUC prevention re-exports from core
 export { generateFOUCScript } from '@mks2508/shadcn-basecoat-theme-manager'
 export type { IFOUCScriptConfig } from '@mks2508/shadcn-basecoat-theme-manager'
\ No newline at end of file
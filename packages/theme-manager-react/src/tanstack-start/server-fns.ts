@@ -4,13 +4,24 @@
  * TanStack Start server functions for cookie-based theme persistence.
  *
  * These use `createServerFn` from `@tanstack/react-start` and are only
- * usable in TanStack Start projects.
+ * usable in TanStack Start projects. When `THEME_COOKIE_SECRET` is set the
+ * cookies are HMAC-signed and tampered ones fall back to the defaults.
  *
  * @module tanstack-start/server-fns
  */
 
 import { createServerFn } from '@tanstack/react-start';
 import { getCookie, setCookie } from '@tanstack/react-start/server';
+import {
+  createThemeCookies,
+  getThemeCookieSecret,
+  isSafeThemeName,
+  readThemeCookies,
+  type ThemeCookiePreference
+} from '@mks2508/shadcn-basecoat-theme-manager';
+import { readServerRegistry } from './server-registry';
+
+const THEME_MODES = ['light', 'dark', 'auto'];
 
 /**
  * Read theme and mode from request cookies (server-side).
@@ -18,21 +29,49 @@ import { getCookie, setCookie } from '@tanstack/react-start/server';
  * @returns An object with `theme` and `mode` strings.
  */
 export const getThemeFromCookie = createServerFn({ method: 'GET' }).handler(async () => {
-  const theme = getCookie('theme-current') || 'default';
-  const mode = getCookie('theme-mode') || 'auto';
+  const { theme, mode } = await readThemeCookies(name => getCookie(name), { secret: getThemeCookieSecret() });
   return { theme, mode };
 });
 
+/**
+ * Validate the client payload before anything is signed.
+ *
+ * @param data - Untrusted request payload.
+ * @returns The theme preference.
+ * @throws Error when the theme name or mode is malformed.
+ */
+function validateThemePreference(data: unknown): ThemeCookiePreference {
+  const { theme, mode } = (data ?? {}) as Record<string, unknown>;
+
+  if (!isSafeThemeName(theme)) {
+    throw new Error('Invalid theme name');
+  }
+  if (typeof mode !== 'string' || !THEME_MODES.includes(mode)) {
+    throw new Error('Invalid theme mode');
+  }
+
+  return { theme, mode: mode as ThemeCookiePreference['mode'] };
+}
+
 /**
  * Write theme and mode to response cookies (server-side).
+ * Only themes of the app registry are signed, so the endpoint cannot sign arbitrary values.
  *
  * @param data - Object with `theme` and `mode` to persist.
+ * @throws Error when the theme is not in the registry.
  */
 export const setThemeInCookie = createServerFn({ method: 'POST' })
-  .inputValidator((data: { theme: string; mode: string }) => data)
+  .inputValidator(validateThemePreference)
   .handler(async ({ data }) => {
+    const registry = await readServerRegistry();
+    if (!registry.themes?.some((t: any) => t.id === data.theme || t.name === data.theme)) {
+      throw new Error(`Theme "${data.theme}" not found in registry`);
+    }
+
     const oneYear = 60 * 60 * 24 * 365;
-    setCookie('theme-current', data.theme, { maxAge: oneYear, sameSite: 'lax', path: '/' });
-    setCookie('theme-mode', data.mode, { maxAge: oneYear, sameSite: 'lax', path: '/' });
+    const cookies = await createThemeCookies(data, { secret: getThemeCookieSecret() });
+    for (const cookie of cookies) {
+      setCookie(cookie.name, cookie.value, { maxAge: oneYear, sameSite: 'lax', path: '/' });
+    }
     return { success: true };
   });
@@ -13,6 +13,17 @@ import { createServerFn } from '@tanstack/react-start';
 import { readFile } from 'fs/promises';
 import { join } from 'path';
 
+/**
+ * Read `public/themes/registry.json` of the app (server side).
+ *
+ * @returns The parsed registry.
+ */
+export async function readServerRegistry(): Promise<{ themes?: any[] }> {
+  const registryPath = join(process.cwd(), 'public', 'themes', 'registry.json');
+  const registryContent = await readFile(registryPath, 'utf-8');
+  return JSON.parse(registryContent);
+}
+
 /**
  * Extract CSS custom properties from a CSS string.
  *
@@ -47,9 +58,7 @@ function extractCSSVariables(css: string): Record<string, string> {
 export const getThemeConfigForSSR = createServerFn({ method: 'GET' })
   .inputValidator((data: { theme: string; mode: string }) => data)
   .handler(async ({ data }) => {
-    const registryPath = join(process.cwd(), 'public', 'themes', 'registry.json');
-    const registryContent = await readFile(registryPath, 'utf-8');
-    const registry = JSON.parse(registryContent);
+    const registry = await readServerRegistry();
 
     const themeConfig = registry.themes?.find((t: any) => t.id === data.theme || t.name === data.theme);
     if (!themeConfig) {
@@ -83,9 +92,7 @@ export const getThemeConfigForSSR = createServerFn({ method: 'GET' })
  * @returns Array of theme summaries with id, label, and available modes.
  */
 export const getAvailableThemesForSSR = createServerFn({ method: 'GET' }).handler(async () => {
-  const registryPath = join(process.cwd(), 'public', 'themes', 'registry.json');
-  const registryContent = await readFile(registryPath, 'utf-8');
-  const registry = JSON.parse(registryContent);
+  const registry = await readServerRegistry();
 
   return (registry.themes || []).map((t: any) => ({
     id: t.id || t.name,
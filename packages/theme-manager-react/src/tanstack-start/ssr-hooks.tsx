@@ -10,15 +10,21 @@
  */
 
 import { getCookie } from '@tanstack/react-start/server';
+import { getCookiePayload, sanitizeThemePreference } from '@mks2508/shadcn-basecoat-theme-manager';
 
 /**
  * Read the current theme and mode from request cookies.
+ * Signatures are not verified here (synchronous); malformed values fall back
+ * to the defaults. Use `getThemeFromCookie` to reject tampered signed cookies.
  *
  * @returns Resolved theme name and effective mode.
  */
 export function useServerTheme() {
-  const theme = getCookie('theme-current') || 'default';
-  const mode = (getCookie('theme-mode') || 'auto') as 'light' | 'dark' | 'auto';
+  const read = (name: string) => {
+    const value = getCookie(name);
+    return value ? getCookiePayload(value) : null;
+  };
+  const { theme, mode } = sanitizeThemePreference({ theme: read('theme-current'), mode: read('theme-mode') });
   const effectiveMode = mode === 'auto' ? 'light' : mode;
   return { theme, mode, effectiveMode };
 }
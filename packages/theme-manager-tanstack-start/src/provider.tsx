@@ -12,10 +12,10 @@ import { createContext, useContext, useEffect, useState, ReactNode } from 'react
 import {
   ThemeCore,
   ThemeManager,
-  StorageManager,
   type ThemeConfig,
   CookieStorageAdapter
 } from '@mks2508/shadcn-basecoat-theme-manager';
+import { setThemeInCookie } from './server-fns';
 
 interface ThemeContextValue {
   // Core managers
@@ -42,13 +42,19 @@ interface TanStackStartProviderProps {
   defaultTheme?: string;
   defaultMode?: 'light' | 'dark' | 'auto';
   registryUrl?: string;
+  /**
+   * Theme cookies are HMAC-signed by the server (`THEME_COOKIE_SECRET`):
+   * changes are persisted through `setThemeInCookie` instead of `document.cookie`
+   */
+  signedCookies?: boolean;
 }
 
 export function TanStackStartProvider({
   children,
   defaultTheme = 'default',
   defaultMode = 'auto',
-  registryUrl = '/themes/registry.json'
+  registryUrl = '/themes/registry.json',
+  signedCookies = false
 }: TanStackStartProviderProps) {
   const [mounted, setMounted] = useState(false);
 
@@ -77,18 +83,15 @@ export function TanStackStartProvider({
       setError(null);
 
       try {
-        // Create storage manager with cookie adapter for SSR compatibility
-        const cookieStorageAdapter = new CookieStorageAdapter();
+        // Theme preferences live in cookies so the server can read them (SSR)
+        const cookieStorageAdapter = new CookieStorageAdapter({ signed: signedCookies });
 
-        // Initialize ThemeCore normally (storage adapter handled at StorageManager level)
         await ThemeCore.init({
           registryPath: registryUrl,
-          debug: false
+          debug: false,
+          storage: { adapter: cookieStorageAdapter }
         });
 
-        // Replace storage manager with cookie-based one
-        StorageManager.getInstanceWithAdapter(cookieStorageAdapter);
-
         // Get theme manager instance
         const themeManagerInstance = ThemeCore.getManager()!;
         setThemeManager(themeManagerInstance);
@@ -106,11 +109,10 @@ export function TanStackStartProvider({
           setCurrentTheme(newTheme);
           setCurrentMode(newMode);
 
-          // Sync cookies for SSR using client-safe method
-          try {
-            cookieStorageAdapter.setThemePreference(newTheme, newMode);
-          } catch (e) {
-            console.warn('Failed to sync theme to cookies:', e);
+          // ThemeCore writes unsigned cookies through the adapter; signed ones only the server can write
+          if (signedCookies) {
+            setThemeInCookie({ data: { theme: newTheme, mode: newMode } })
+              .catch(e => console.warn('Failed to sync theme to cookies:', e));
           }
         };
 
@@ -163,7 +165,7 @@ export function TanStackStartProvider({
     };
 
     initializeThemeManager();
-  }, [mounted, registryUrl, defaultTheme, defaultMode]);
+  }, [mounted, registryUrl, defaultTheme, defaultMode, signedCookies]);
 
   // Theme switching methods
   const setTheme = async (theme: string, mode?: 'light' | 'dark' | 'auto') => {
@@ -1,9 +1,22 @@
 /**
  * Server functions for theme management in TanStack Start
+ *
+ * When `THEME_COOKIE_SECRET` is set the cookies are HMAC-signed; tampered or
+ * unsigned cookies fall back to the default theme.
  */
 
 import { createServerFn } from '@tanstack/react-start';
 import { getCookie, setCookie } from '@tanstack/react-start/server';
+import {
+  createThemeCookies,
+  getThemeCookieSecret,
+  isSafeThemeName,
+  readThemeCookies,
+  type ThemeCookiePreference
+} from '@mks2508/shadcn-basecoat-theme-manager';
+import { readServerRegistry } from './server-registry';
+
+const THEME_MODES = ['light', 'dark', 'auto'];
 
 /**
  * Get theme preference from cookies (server-side)
@@ -12,8 +25,10 @@ export const getThemeFromCookie = createServerFn({ method: 'GET' })
   .handler(async () => {
     'use server';
 
-    const theme = getCookie('theme-current') || 'default';
-    const mode = getCookie('theme-mode') || 'auto';
+    const { theme, mode } = await readThemeCookies(
+      name => getCookie(name),
+      { secret: getThemeCookieSecret() }
+    );
 
     return {
       theme,
@@ -22,29 +37,49 @@ export const getThemeFromCookie = createServerFn({ method: 'GET' })
   });
 
 /**
- * Set theme preference in cookies (server-side)
+ * Validate the client payload before anything is signed
+ * @throws Error when the theme name or mode is malformed
+ */
+function validateThemePreference(data: unknown): ThemeCookiePreference {
+  const { theme, mode } = (data ?? {}) as Record<string, unknown>;
+
+  if (!isSafeThemeName(theme)) {
+    throw new Error('Invalid theme name');
+  }
+  if (typeof mode !== 'string' || !THEME_MODES.includes(mode)) {
+    throw new Error('Invalid theme mode');
+  }
+
+  return { theme, mode: mode as ThemeCookiePreference['mode'] };
+}
+
+/**
+ * Set theme preference in cookies (server-side).
+ * Only themes of the app registry are signed: the endpoint cannot sign arbitrary values.
  */
 export const setThemeInCookie = createServerFn({ method: 'POST' })
-  .handler(async (data) => {
+  .inputValidator(validateThemePreference)
+  .handler(async ({ data }) => {
     'use server';
 
-    const { theme, mode } = data as unknown as { theme: string; mode: 'light' | 'dark' | 'auto' };
+    const { theme, mode } = data;
+
+    const registry = await readServerRegistry();
+    if (!registry.themes.some(t => t.id === theme || t.name === theme)) {
+      throw new Error(`Theme "${theme}" not found in registry`);
+    }
 
     const expires = new Date();
     expires.setFullYear(expires.getFullYear() + 1);
 
-    setCookie('theme-current', theme, {
-      expires,
-      path: '/',
-      sameSite: 'lax'
-    });
-
-    setCookie('theme-mode', mode, {
-      expires,
-      path: '/',
-      sameSite: 'lax'
-    });
+    const cookies = await createThemeCookies({ theme, mode }, { secret: getThemeCookieSecret() });
+    for (const cookie of cookies) {
+      setCookie(cookie.name, cookie.value, {
+        expires,
+        path: '/',
+        sameSite: 'lax'
+      });
+    }
 
     return { success: true };
   });
-
@@ -32,6 +32,15 @@ interface ThemeRegistry {
   themes: ThemeConfig[];
 }
 
+/**
+ * Read `public/themes/registry.json` of the app (server side)
+ */
+export async function readServerRegistry(): Promise<ThemeRegistry> {
+  const registryPath = join(process.cwd(), 'public', 'themes', 'registry.json');
+  const registryContent = await readFile(registryPath, 'utf-8');
+  return JSON.parse(registryContent);
+}
+
 /**
  * Extract CSS variables from CSS file content
  */
@@ -68,9 +77,7 @@ export const getThemeConfigForSSR = createServerFn({ method: 'POST' })
     };
 
     try {
-      const registryPath = join(process.cwd(), 'public', 'themes', 'registry.json');
-      const registryContent = await readFile(registryPath, 'utf-8');
-      const registry: ThemeRegistry = JSON.parse(registryContent);
+      const registry = await readServerRegistry();
 
       const themeConfig = registry.themes.find(t => t.id === theme || t.name === theme);
 
@@ -130,9 +137,7 @@ export const getAvailableThemesForSSR = createServerFn({ method: 'GET' })
     'use server';
 
     try {
-      const registryPath = join(process.cwd(), 'public', 'themes', 'registry.json');
-      const registryContent = await readFile(registryPath, 'utf-8');
-      const registry: ThemeRegistry = JSON.parse(registryContent);
+      const registry = await readServerRegistry();
 
       return {
         success: true,
@@ -4,14 +4,20 @@
  */
 
 import { getCookie } from '@tanstack/react-start/server';
+import { getCookiePayload, sanitizeThemePreference } from '@mks2508/shadcn-basecoat-theme-manager';
 
 /**
  * Server-side hook to get theme preferences from cookies
+ * Signatures are not verified here (synchronous), malformed values fall back to
+ * the defaults. Use `getThemeFromCookie` to reject tampered signed cookies.
  */
 export function useServerTheme() {
   try {
-    const theme = getCookie('theme-current') || 'default';
-    const mode = getCookie('theme-mode') || 'auto';
+    const read = (name: string) => {
+      const value = getCookie(name);
+      return value ? getCookiePayload(value) : null;
+    };
+    const { theme, mode } = sanitizeThemePreference({ theme: read('theme-current'), mode: read('theme-mode') });
 
     // Resolve auto mode (server defaults to light since can't detect system preference)
     const effectiveMode = mode === 'auto' ? 'light' : mode;
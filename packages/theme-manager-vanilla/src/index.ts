@@ -3,7 +3,15 @@ import {
   ThemeManager, 
   FontManager,
   ThemeInstaller,
-  ThemeConfig 
+  ThemeConfig,
+  bindHistoryShortcuts,
+  downloadThemeProfile,
+  readThemeProfileFile,
+  ProfileImportStrategy,
+  formatBytes,
+  TypographyOverride,
+  TYPOGRAPHY_LIMITS,
+  TYPE_SCALE_RATIOS
 } from '@mks2508/shadcn-basecoat-theme-manager';
 
 /**
@@ -12,6 +20,8 @@ import {
 export interface VanillaThemeManagerOptions {
   enableLogging?: boolean;
   autoSetupEventListeners?: boolean;
+  /** Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z undo/redo theme, mode and font changes */
+  enableHistoryShortcuts?: boolean;
 }
 
 /**
@@ -36,6 +46,7 @@ export class VanillaThemeManager {
     this.options = { 
       enableLogging: true, 
       autoSetupEventListeners: true,
+      enableHistoryShortcuts: true,
       ...options 
     };
     
@@ -64,6 +75,7 @@ export class VanillaThemeManager {
       
       // Set up theme installation callbacks
       this.setupThemeCallbacks();
+      this.setupHistoryListener();
       
       // Set up global event listeners if enabled
       if (this.options.autoSetupEventListeners) {
@@ -171,6 +183,13 @@ export class VanillaThemeManager {
     modeToggle.setAttribute('aria-label', 'Toggle light/dark mode');
     modeToggle.setAttribute('title', 'Toggle light/dark mode');
 
+    // A forced mode (tenant policy) locks the toggle
+    const forcedMode = this.themeManager.getPolicy()?.forcedMode;
+    if (forcedMode) {
+      modeToggle.setAttribute('disabled', '');
+      modeToggle.setAttribute('title', `Mode locked to ${forcedMode}`);
+    }
+
     // Setup toggle functionality (like @src)
     this.setupModeToggleEvents(modeToggle);
 
@@ -458,8 +477,8 @@ export class VanillaThemeManager {
   // ===========================================
 
   private refreshThemeDropdownContent(menu: HTMLElement): void {
-    // Get available themes
-    const themes = this.themeManager.getAvailableThemes();
+    // Get themes allowed by the tenant policy
+    const themes = this.themeManager.getAllowedThemes();
     const currentTheme = this.themeManager.getCurrentTheme();
     
     // Theme-specific icons (matching original structure)
@@ -501,12 +520,12 @@ export class VanillaThemeManager {
     if (themes.length > 0) {
       htmlContent += `<div class="dropdown-separator"></div>
                             <div class="flex">
-                                <button type="button" id="browse-more-themes" class="dropdown-item flex-1 text-primary" role="menuitem">
+                                ${this.themeInstaller.canInstallRemote() ? `<button type="button" id="browse-more-themes" class="dropdown-item flex-1 text-primary" role="menuitem">
                                     <svg class="mr-2 h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                         <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"></path>
                                     </svg>
                                     Browse More...
-                                </button>
+                                </button>` : '<div class="flex-1"></div>'}
                                 <button type="button" id="theme-settings-btn" class="dropdown-item text-muted-foreground" role="menuitem">
                                     <svg class="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                         <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"></path>
@@ -600,6 +619,11 @@ export class VanillaThemeManager {
   // ===========================================
 
   private openThemeInstallerModal(): void {
+    if (!this.themeInstaller.canInstallRemote()) {
+      this.log('🚫 Theme installs are disabled by policy');
+      return;
+    }
+
     this.log('🌐 Opening theme installer modal');
     
     let modalContainer = document.getElementById('theme-installer-modal');
@@ -610,6 +634,11 @@ export class VanillaThemeManager {
       document.body.appendChild(modalContainer);
     }
     
+    // Configured registries (ThemeCoreConfig.registries), listed as install sources
+    const registryItems = this.themeInstaller.getThemeListFetcher().getSources()
+      .map(source => `<li>${source.name} (${new URL(source.url, location.href).host})</li>`)
+      .join('');
+
     modalContainer.innerHTML = `
       <div class="fixed left-1/2 top-1/2 z-50 w-full max-w-lg -translate-x-1/2 -translate-y-1/2">
         <div class="modal">
@@ -630,7 +659,7 @@ export class VanillaThemeManager {
             <div class="text-xs text-muted-foreground">
               <p>Supported sources:</p>
               <ul class="list-disc list-inside ml-2 space-y-1">
-                <li>TweakCN themes (tweakcn.com/r/themes/...)</li>
+                ${registryItems}
                 <li>Direct JSON URLs</li>
                 <li>shadcn/ui compatible themes</li>
               </ul>
@@ -675,9 +704,9 @@ export class VanillaThemeManager {
             </button>
           </header>
           <section class="space-y-6">
-            ${this.generateFontCategorySelector('sans', 'Sans Serif', fontConfig.fonts.sans)}
-            ${this.generateFontCategorySelector('serif', 'Serif', fontConfig.fonts.serif)}
-            ${this.generateFontCategorySelector('mono', 'Monospace', fontConfig.fonts.mono)}
+            ${this.generateFontCategorySelector('sans', 'Sans Serif', fontConfig.fonts.sans, fontConfig.typography?.sans)}
+            ${this.generateFontCategorySelector('serif', 'Serif', fontConfig.fonts.serif, fontConfig.typography?.serif)}
+            ${this.generateFontCategorySelector('mono', 'Monospace', fontConfig.fonts.mono, fontConfig.typography?.mono)}
           </section>
           <footer class="flex justify-end space-x-2">
             <button type="button" id="font-reset" class="btn-outline">Reset to Theme Defaults</button>
@@ -702,7 +731,7 @@ export class VanillaThemeManager {
       document.body.appendChild(modalContainer);
     }
     
-    const themes = this.themeManager.getAvailableThemes();
+    const themes = this.themeManager.getAllowedThemes();
     const installedCount = themes.filter(t => t.category !== 'built-in').length;
     
     modalContainer.innerHTML = `
@@ -759,9 +788,39 @@ export class VanillaThemeManager {
             </div>
           </section>
           
+          <div class="flex items-center justify-between py-3 border-t">
+            <div class="text-sm">
+              <span class="font-medium">Profile</span>
+              <span id="profile-status" class="text-muted-foreground ml-2"></span>
+            </div>
+            <div class="flex items-center space-x-2">
+              <select id="profile-import-strategy" class="select select-sm" aria-label="Import strategy">
+                <option value="merge">Merge</option>
+                <option value="replace">Replace</option>
+              </select>
+              <button type="button" id="profile-import" class="btn-outline btn-sm">Import</button>
+              <button type="button" id="profile-export" class="btn-outline btn-sm">Export</button>
+              <input type="file" id="profile-file" accept="application/json,.json" class="hidden">
+            </div>
+          </div>
+          
+          <div class="flex items-center justify-between py-3 border-t">
+            <div class="text-sm">
+              <span class="font-medium">Cache</span>
+              <span id="cache-usage" class="text-muted-foreground ml-2">Calculating...</span>
+            </div>
+            <button type="button" id="clear-cache" class="btn-outline btn-sm" title="Remove cached fonts and themes that are not installed">Clear cache</button>
+          </div>
+          
           <footer class="flex justify-between pt-4 border-t">
-            <button type="button" id="install-more-themes" class="btn-outline">Install More Themes</button>
-            <button type="button" id="mgmt-close" class="btn">Close</button>
+            ${this.themeInstaller.canInstallRemote()
+              ? '<button type="button" id="install-more-themes" class="btn-outline">Install More Themes</button>'
+              : '<div></div>'}
+            <div class="flex space-x-2">
+              <button type="button" id="mgmt-undo" class="btn-ghost" title="Undo (Ctrl+Z)" ${this.themeManager.canUndo ? '' : 'disabled'}>Undo</button>
+              <button type="button" id="mgmt-redo" class="btn-ghost" title="Redo (Ctrl+Shift+Z)" ${this.themeManager.canRedo ? '' : 'disabled'}>Redo</button>
+              <button type="button" id="mgmt-close" class="btn">Close</button>
+            </div>
           </footer>
         </div>
       </div>
@@ -775,7 +834,12 @@ export class VanillaThemeManager {
   // MODAL EVENT HANDLERS
   // ===========================================
   
-  private generateFontCategorySelector(category: 'sans' | 'serif' | 'mono', label: string, currentFont?: string): string {
+  private generateFontCategorySelector(
+    category: 'sans' | 'serif' | 'mono',
+    label: string,
+    currentFont?: string,
+    typography: TypographyOverride = {}
+  ): string {
     // Get available fonts for this category (simplified catalog)
     const fontsByCategory = {
       sans: [
@@ -797,11 +861,12 @@ export class VanillaThemeManager {
     };
     
     const fonts = fontsByCategory[category] || [];
+    const locked = this.fontManager.isCategoryLocked(category);
     
     return `
       <div class="space-y-2">
-        <label class="text-sm font-medium">${label}</label>
-        <select class="select w-full" data-category="${category}">
+        <label class="text-sm font-medium">${label}${locked ? ' <span class="text-xs text-muted-foreground">(locked by policy)</span>' : ''}</label>
+        <select class="select w-full" data-category="${category}" ${locked ? 'disabled' : ''}>
           <option value="">Use theme default</option>
           ${fonts.map(font => `
             <option value="${font.id}" ${currentFont === font.id ? 'selected' : ''}>
@@ -809,6 +874,38 @@ export class VanillaThemeManager {
             </option>
           `).join('')}
         </select>
+        ${this.generateTypographyControls(category, typography)}
+      </div>
+    `;
+  }
+
+  private generateTypographyControls(category: 'sans' | 'serif' | 'mono', typography: TypographyOverride): string {
+    const fields: Array<{ field: 'baseSize' | 'lineHeight' | 'letterSpacing'; label: string }> = [
+      { field: 'baseSize', label: 'Size (px)' },
+      { field: 'lineHeight', label: 'Line height' },
+      { field: 'letterSpacing', label: 'Spacing (em)' }
+    ];
+
+    return `
+      <div class="grid grid-cols-4 gap-2">
+        ${fields.map(({ field, label }) => `
+          <label class="space-y-1 text-xs text-muted-foreground">
+            <span>${label}</span>
+            <input type="number" class="input w-full" placeholder="Theme"
+              data-typography-category="${category}" data-typography-field="${field}"
+              min="${TYPOGRAPHY_LIMITS[field].min}" max="${TYPOGRAPHY_LIMITS[field].max}" step="${TYPOGRAPHY_LIMITS[field].step}"
+              value="${typography[field] ?? ''}">
+          </label>
+        `).join('')}
+        <label class="space-y-1 text-xs text-muted-foreground">
+          <span>Type scale</span>
+          <select class="select w-full" data-typography-category="${category}" data-typography-field="scaleRatio">
+            <option value="">Theme</option>
+            ${Object.entries(TYPE_SCALE_RATIOS).map(([name, ratio]) => `
+              <option value="${ratio}" ${typography.scaleRatio === ratio ? 'selected' : ''}>${name.replace('-', ' ')} (${ratio})</option>
+            `).join('')}
+          </select>
+        </label>
       </div>
     `;
   }
@@ -835,10 +932,19 @@ export class VanillaThemeManager {
       
       installBtn.disabled = true;
       installBtn.textContent = 'Installing...';
+
+      // Surface the policy reason instead of the generic error
+      let policyReason: string | null = null;
+      const stopListening = this.themeInstaller.addEventListener('policy:rejected', (event) => {
+        policyReason = event.reason;
+      });
       
       try {
-        await this.themeInstaller.installFromUrl(url);
+        const result = await this.themeInstaller.installFromUrl(url);
         this.log('✅ Theme installed successfully');
+        if (result.unsupportedFields.length > 0) {
+          this.log(`⚠️ Not applied by the theme manager: ${result.unsupportedFields.join(', ')}`);
+        }
         modal.classList.add('hidden');
         this.refreshAllThemeDropdowns();
       } catch (error) {
@@ -846,9 +952,10 @@ export class VanillaThemeManager {
         // Show error in UI
         const errorDiv = modal.querySelector('.error-message') || document.createElement('div');
         errorDiv.className = 'error-message text-destructive text-sm mt-2';
-        errorDiv.textContent = 'Failed to install theme. Please check the URL.';
+        errorDiv.textContent = policyReason ?? 'Failed to install theme. Please check the URL.';
         urlInput.parentNode?.appendChild(errorDiv);
       } finally {
+        stopListening();
         installBtn.disabled = false;
         installBtn.textContent = 'Install Theme';
       }
@@ -859,6 +966,7 @@ export class VanillaThemeManager {
     const closeBtn = modal.querySelector('#font-modal-close, #font-close');
     const resetBtn = modal.querySelector('#font-reset');
     const selects = modal.querySelectorAll('select[data-category]');
+    const typographyControls = modal.querySelectorAll<HTMLInputElement | HTMLSelectElement>('[data-typography-field]');
     
     // Close modal
     closeBtn?.addEventListener('click', () => {
@@ -882,15 +990,43 @@ export class VanillaThemeManager {
         this.updateAllFontButtonStates();
       });
     });
+
+    // Typography controls (committed on change: blur/enter for inputs)
+    typographyControls.forEach(control => {
+      control.addEventListener('change', async () => {
+        const category = control.dataset.typographyCategory as 'sans' | 'serif' | 'mono';
+        const field = control.dataset.typographyField as keyof TypographyOverride;
+        const value = control.value === '' ? undefined : Number(control.value);
+
+        try {
+          await this.fontManager.setTypography(category, { ...this.fontManager.getTypography(category), [field]: value });
+          if (!this.fontManager.getOverrideConfiguration().enabled) {
+            await this.fontManager.enableOverride();
+          }
+          // Show the clamped value
+          control.value = String(this.fontManager.getTypography(category)?.[field] ?? '');
+        } catch (error) {
+          this.logError('Failed to update typography', error as Error);
+        }
+      });
+    });
     
     // Reset to theme defaults
     resetBtn?.addEventListener('click', async () => {
+      for (const category of ['sans', 'serif', 'mono'] as const) {
+        if (this.fontManager.getTypography(category)) {
+          await this.fontManager.setTypography(category, null);
+        }
+      }
       await this.fontManager.disableOverride();
       
       // Update selects to show no selection
       selects.forEach(select => {
         (select as HTMLSelectElement).value = '';
       });
+      typographyControls.forEach(control => {
+        control.value = '';
+      });
       
       this.updateAllFontButtonStates();
     });
@@ -900,6 +1036,8 @@ export class VanillaThemeManager {
     const closeBtn = modal.querySelector('#mgmt-modal-close, #mgmt-close');
     const refreshBtn = modal.querySelector('#refresh-themes');
     const installMoreBtn = modal.querySelector('#install-more-themes');
+    const undoBtn = modal.querySelector('#mgmt-undo');
+    const redoBtn = modal.querySelector('#mgmt-redo');
     
     // Close modal
     closeBtn?.addEventListener('click', () => {
@@ -914,6 +1052,79 @@ export class VanillaThemeManager {
       setTimeout(() => this.openThemeManagementModal(), 100);
     });
     
+    // Undo/redo (the modal is re-rendered from the history:changed listener)
+    undoBtn?.addEventListener('click', () => {
+      this.undo().catch(error => this.logError('Failed to undo', error as Error));
+    });
+    redoBtn?.addEventListener('click', () => {
+      this.redo().catch(error => this.logError('Failed to redo', error as Error));
+    });
+    
+    // Profile export/import
+    const profileStatus = modal.querySelector('#profile-status');
+    const profileFile = modal.querySelector('#profile-file') as HTMLInputElement | null;
+    
+    modal.querySelector('#profile-export')?.addEventListener('click', async () => {
+      try {
+        const profile = await this.themeManager.exportProfile();
+        downloadThemeProfile(profile, `theme-profile-${new Date().toISOString().slice(0, 10)}.json`);
+        if (profileStatus) profileStatus.textContent = `Exported ${profile.themes.length} installed themes`;
+      } catch (error) {
+        this.logError('Failed to export profile', error as Error);
+        if (profileStatus) profileStatus.textContent = (error as Error).message;
+      }
+    });
+    
+    modal.querySelector('#profile-import')?.addEventListener('click', () => profileFile?.click());
+    
+    profileFile?.addEventListener('change', async () => {
+      const file = profileFile.files?.[0];
+      profileFile.value = '';
+      if (!file) return;
+      
+      const strategy = (modal.querySelector('#profile-import-strategy') as HTMLSelectElement).value as ProfileImportStrategy;
+      if (strategy === 'replace' && !confirm('Replace all installed themes and preferences with this profile?')) return;
+      
+      try {
+        const result = await this.themeManager.importProfile(await readThemeProfileFile(file), { strategy });
+        this.log(`📥 Profile imported: ${result.themes} themes, ${result.skippedThemes.length} skipped`);
+        this.refreshAllThemeDropdowns();
+        this.updateAllFontButtonStates();
+        // Re-open modal with updated data
+        modal.classList.add('hidden');
+        setTimeout(() => this.openThemeManagementModal(), 100);
+      } catch (error) {
+        this.logError('Failed to import profile', error as Error);
+        if (profileStatus) profileStatus.textContent = (error as Error).message;
+      }
+    });
+    
+    // Cache usage and clearing (installed themes and preferences are kept)
+    const cacheUsage = modal.querySelector('#cache-usage');
+    const clearCacheBtn = modal.querySelector('#clear-cache') as HTMLButtonElement | null;
+    const storageManager = this.themeManager.getStorageManager();
+    const renderCacheUsage = async () => {
+      const usage = await storageManager.getUsage();
+      if (!cacheUsage) return;
+      cacheUsage.textContent = `${usage.fonts.count} fonts (${formatBytes(usage.fonts.bytes)}), ` +
+        `${usage.themes.count} themes (${formatBytes(usage.themes.bytes)})` +
+        (usage.quota ? ` · ${(usage.quota.ratio * 100).toFixed(1)}% of quota used` : '');
+    };
+    renderCacheUsage().catch(error => this.logError('Failed to read storage usage', error as Error));
+    
+    clearCacheBtn?.addEventListener('click', async () => {
+      clearCacheBtn.disabled = true;
+      try {
+        const report = await storageManager.clearCache();
+        this.log(`🧹 Cache cleared, freed ${formatBytes(report.freedBytes)}`);
+        await renderCacheUsage();
+      } catch (error) {
+        this.logError('Failed to clear cache', error as Error);
+      } finally {
+        clearCacheBtn.disabled = false;
+      }
+    });
+    
     // Install more themes
     installMoreBtn?.addEventListener('click', () => {
       modal.classList.add('hidden');
@@ -1012,6 +1223,47 @@ export class VanillaThemeManager {
   private setupGlobalEventListeners(): void {
     // System theme preference changes
     this.setupSystemThemeListener();
+
+    // Undo/redo keyboard shortcuts
+    if (this.options.enableHistoryShortcuts) {
+      bindHistoryShortcuts(this.themeManager);
+    }
+  }
+
+  /**
+   * Keep rendered components in sync after undo/redo
+   */
+  private setupHistoryListener(): void {
+    this.themeManager.addEventListener('history:changed', (event) => {
+      if (event.action !== 'undo' && event.action !== 'redo') {
+        this.updateHistoryButtons();
+        return;
+      }
+
+      this.updateThemeLabel(this.themeManager.getCurrentTheme());
+      this.refreshAllThemeDropdowns();
+      this.updateAllFontButtonStates();
+      this.renderedComponents.forEach((element, key) => {
+        if (key.includes('mode-toggle')) {
+          this.updateModeToggleIcon(element, this.themeManager.getCurrentMode());
+        }
+      });
+
+      const managementModal = document.getElementById('theme-management-modal');
+      if (managementModal && !managementModal.classList.contains('hidden')) {
+        this.openThemeManagementModal();
+      }
+    });
+  }
+
+  /**
+   * Enable/disable undo/redo buttons of the management modal
+   */
+  private updateHistoryButtons(): void {
+    const undoBtn = document.getElementById('mgmt-undo') as HTMLButtonElement | null;
+    const redoBtn = document.getElementById('mgmt-redo') as HTMLButtonElement | null;
+    if (undoBtn) undoBtn.disabled = !this.themeManager.canUndo;
+    if (redoBtn) redoBtn.disabled = !this.themeManager.canRedo;
   }
 
   /**
@@ -1041,6 +1293,22 @@ export class VanillaThemeManager {
     this.refreshAllThemeDropdowns();
   }
 
+  /**
+   * Undo the last theme, mode or font change
+   */
+  async undo(): Promise<boolean> {
+    this.ensureInitialized();
+    return this.themeManager.undo();
+  }
+
+  /**
+   * Redo the last undone change
+   */
+  async redo(): Promise<boolean> {
+    this.ensureInitialized();
+    return this.themeManager.redo();
+  }
+
   /**
    * Get current theme name
    */
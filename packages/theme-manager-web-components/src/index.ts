@@ -1,8 +1,119 @@
 import { 
+  ThemeCore,
   ThemeManager, 
-  ThemeConfig 
+  ThemeConfig,
+  ScopedThemeHandle
 } from '@mks2508/shadcn-basecoat-theme-manager';
 
+type ThemeMode = 'light' | 'dark' | 'auto';
+
+let scopeManagerPromise: Promise<ThemeManager> | null = null;
+
+/**
+ * ThemeManager usado por los <theme-scope> cuando ThemeCore no está inicializado.
+ * Uno solo por página, creado al primer uso: solo carga storage y registry
+ * (no init()), así que nunca restaura ni aplica el tema guardado en <html>.
+ */
+function getScopeManager(): Promise<ThemeManager> {
+  const sharedManager = ThemeCore.getManager();
+  if (sharedManager) return Promise.resolve(sharedManager);
+
+  if (!scopeManagerPromise) {
+    scopeManagerPromise = (async () => {
+      const manager = new ThemeManager();
+      await manager.getStorageManager().init();
+      await manager.getThemeRegistry().init();
+      return manager;
+    })().catch(error => {
+      scopeManagerPromise = null;
+      throw error;
+    });
+  }
+  return scopeManagerPromise;
+}
+
+/**
+ * Web Component que aplica un tema a su subárbol en lugar de a <html>
+ * Se puede anidar: <theme-scope theme="ocean" mode="dark">...</theme-scope>
+ */
+export class ThemeScopeElement extends HTMLElement {
+  private themeManager: ThemeManager | null = null;
+  private handle: ScopedThemeHandle | null = null;
+
+  static get observedAttributes() {
+    return ['theme', 'mode'];
+  }
+
+  get theme(): string {
+    return this.getAttribute('theme') || 'default';
+  }
+
+  get mode(): ThemeMode {
+    const mode = this.getAttribute('mode');
+    return mode === 'light' || mode === 'dark' ? mode : 'auto';
+  }
+
+  async connectedCallback() {
+    if (!this.style.display) {
+      this.style.display = 'block';
+    }
+
+    // ThemeManager global de ThemeCore, o el compartido por todos los scopes
+    if (!this.themeManager) {
+      this.themeManager = await getScopeManager();
+    }
+    if (!this.isConnected) return;
+
+    const handle = await this.themeManager.applyToElement(this, this.theme, this.mode);
+    if (!this.isConnected) {
+      handle.dispose();
+      return;
+    }
+    this.handle = handle;
+  }
+
+  attributeChangedCallback() {
+    if (!this.handle) return;
+    if (this.handle.theme === this.theme && this.handle.mode === this.mode) return;
+
+    this.handle.update(this.theme, this.mode).catch(error => {
+      console.error('❌ theme-scope: Failed to update scoped theme:', error);
+    });
+  }
+
+  disconnectedCallback() {
+    this.handle?.dispose();
+    this.handle = null;
+  }
+
+  /**
+   * Cambia el tema/modo del scope (refleja los atributos)
+   */
+  async setTheme(theme: string, mode?: ThemeMode): Promise<void> {
+    this.setAttribute('theme', theme);
+    if (mode) this.setAttribute('mode', mode);
+    await this.handle?.update(this.theme, this.mode);
+  }
+
+  /**
+   * Modo efectivo del scope ('auto' resuelto contra la preferencia del sistema)
+   */
+  getEffectiveMode(): 'light' | 'dark' {
+    return this.handle?.getEffectiveMode() ?? (this.mode === 'dark' ? 'dark' : 'light');
+  }
+}
+
+/**
+ * Scope más cercano al elemento (atraviesa shadow roots)
+ */
+function findThemeScope(element: HTMLElement): ThemeScopeElement | null {
+  const scope = element.closest('theme-scope');
+  if (scope) return scope as ThemeScopeElement;
+
+  const root = element.getRootNode();
+  return root instanceof ShadowRoot ? findThemeScope(root.host as HTMLElement) : null;
+}
+
 /**
  * Web Component para selector de temas
  */
@@ -25,8 +136,9 @@ export class ThemeSelectorElement extends HTMLElement {
   private render() {
     if (!this.shadowRoot) return;
 
-    const themes = this.themeManager.getAvailableThemes();
-    const currentTheme = this.themeManager.getCurrentTheme();
+    // Themes disallowed by the tenant policy are not offered
+    const themes = this.themeManager.getAllowedThemes();
+    const currentTheme = findThemeScope(this)?.theme ?? this.themeManager.getCurrentTheme();
 
     this.shadowRoot.innerHTML = `
       <style>
@@ -59,7 +171,18 @@ export class ThemeSelectorElement extends HTMLElement {
 
     this.select.addEventListener('change', async (e) => {
       const target = e.target as HTMLSelectElement;
-      await this.themeManager.setTheme(target.value);
+      const scope = findThemeScope(this);
+      try {
+        if (scope) {
+          await scope.setTheme(target.value);
+        } else {
+          await this.themeManager.setTheme(target.value);
+        }
+      } catch (error) {
+        target.value = scope?.theme ?? this.themeManager.getCurrentTheme();
+        this.dispatchError(error);
+        return;
+      }
       this.dispatchEvent(new CustomEvent('theme-change', {
         detail: { theme: target.value },
         bubbles: true,
@@ -68,6 +191,14 @@ export class ThemeSelectorElement extends HTMLElement {
     });
   }
 
+  private dispatchError(error: unknown) {
+    this.dispatchEvent(new CustomEvent('theme-error', {
+      detail: { error },
+      bubbles: true,
+      composed: true
+    }));
+  }
+
   disconnectedCallback() {
     // Cleanup if needed
   }
@@ -95,12 +226,15 @@ export class DarkModeToggleElement extends HTMLElement {
   private render() {
     if (!this.shadowRoot) return;
 
-    const mode = this.themeManager.getCurrentMode();
+    const scope = findThemeScope(this);
+    const mode = scope?.mode ?? this.themeManager.getCurrentMode();
+    // A forced mode (tenant policy) hides the toggle, except inside a scope
+    const locked = !scope && !!this.themeManager.getPolicy()?.forcedMode;
 
     this.shadowRoot.innerHTML = `
       <style>
         :host {
-          display: inline-block;
+          display: ${locked ? 'none' : 'inline-block'};
         }
         button {
           padding: 0.5rem;
@@ -126,13 +260,18 @@ export class DarkModeToggleElement extends HTMLElement {
     if (!this.button) return;
 
     this.button.addEventListener('click', async () => {
-      const currentMode = this.themeManager.getCurrentMode();
+      const scope = findThemeScope(this);
+      const currentMode = scope?.mode ?? this.themeManager.getCurrentMode();
       const newMode = currentMode === 'dark' ? 'light' : 'dark';
       
-      await this.themeManager.setTheme(
-        this.themeManager.getCurrentTheme(),
-        newMode
-      );
+      if (scope) {
+        await scope.setTheme(scope.theme, newMode);
+      } else {
+        await this.themeManager.setTheme(
+          this.themeManager.getCurrentTheme(),
+          newMode
+        );
+      }
 
       this.render();
       this.bindEvents();
@@ -157,6 +296,10 @@ export function registerThemeComponents() {
   if (!customElements.get('dark-mode-toggle')) {
     customElements.define('dark-mode-toggle', DarkModeToggleElement);
   }
+
+  if (!customElements.get('theme-scope')) {
+    customElements.define('theme-scope', ThemeScopeElement);
+  }
 }
 
 // Auto-register si estamos en el navegador
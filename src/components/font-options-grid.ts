@@ -1,5 +1,6 @@
 import { BaseComponent } from '../utils/base-component';
-import { getFontsByCategory } from '../font-catalog';
+import { searchFonts } from '@mks2508/shadcn-basecoat-theme-manager';
+import { getFontsByCategory, registerFontsInCore } from '../font-catalog';
 import type { FontCategory } from './font-category-tabs';
 import fontOptionsGridTemplate from '../templates/components/font-options-grid.html?raw';
 
@@ -11,6 +12,7 @@ export class FontOptionsGrid extends BaseComponent {
     serif: null,
     mono: null
   };
+  private searchQuery: string = '';
   private onFontSelect?: (category: FontCategory, fontId: string) => void;
 
   constructor(containerId: string) {
@@ -46,6 +48,11 @@ export class FontOptionsGrid extends BaseComponent {
     this.render();
   }
 
+  setSearchQuery(query: string): void {
+    this.searchQuery = query;
+    this.render();
+  }
+
   selectFont(category: FontCategory, fontId: string): void {
     this.selectedFontIds[category] = fontId;
     this.render(); // Re-render to update selection state
@@ -66,8 +73,17 @@ export class FontOptionsGrid extends BaseComponent {
   }
 
   override async render(): Promise<void> {
-    const fonts = getFontsByCategory(this.currentCategory);
     const selectedFontId = this.selectedFontIds[this.currentCategory];
+    let fonts = getFontsByCategory(this.currentCategory);
+
+    // Search the core catalog (tags, fuzzy names) and keep the matches available here
+    if (this.searchQuery.trim()) {
+      await registerFontsInCore();
+      const matches = searchFonts({ query: this.searchQuery, category: this.currentCategory }).map(font => font.id);
+      fonts = fonts
+        .filter(font => matches.includes(font.id))
+        .sort((a, b) => matches.indexOf(a.id) - matches.indexOf(b.id));
+    }
     
     
     // Separate system and Google fonts
@@ -96,7 +112,9 @@ export class FontOptionsGrid extends BaseComponent {
       hasSystemFonts: systemFonts.length > 0,
       systemFonts: enrichedSystemFonts,
       hasGoogleFonts: googleFonts.length > 0,
-      googleFonts: enrichedGoogleFonts
+      googleFonts: enrichedGoogleFonts,
+      hasResults: fonts.length > 0,
+      searchQuery: this.searchQuery
     });
 
     await super.render();
@@ -1,5 +1,7 @@
 import { ModalComponent } from '../utils/base-component';
+import { getFontPairings } from '@mks2508/shadcn-basecoat-theme-manager';
 import { FontManager } from '../font-manager';
+import { getFontById, registerFontsInCore } from '../font-catalog';
 import { FontOptionsGrid } from './font-options-grid';
 import { fontLogger } from '../utils/logger';
 import fontSelectorTemplate from '../templates/modals/font-selector-modal.html?raw';
@@ -197,9 +199,31 @@ export class FontSelectorModal extends ModalComponent {
       return;
     }
 
+    // Pairings whose fonts all exist in the demo catalog
+    await registerFontsInCore();
+    const pairings = getFontPairings().filter(pairing =>
+      Object.values(pairing.fonts).every(fontId => !fontId || getFontById(fontId))
+    );
+
     // Set up container for the FontOptionsGrid with tabs
     this.contentContainer.innerHTML = `
       <div class="space-y-4">
+        <input
+          type="search"
+          id="font-search-input"
+          class="w-full px-3 py-2 text-sm border border-input rounded-md bg-background"
+          placeholder="Search fonts by name or style (geometric, humanist, code...)"
+        >
+        <div>
+          <h4 class="text-sm font-medium mb-2 text-foreground">Suggested pairings</h4>
+          <div class="flex flex-wrap gap-2">
+            ${pairings.map(pairing => `
+              <button type="button" class="font-pairing px-3 py-1.5 text-xs border border-border rounded-md hover:bg-accent" data-pairing-id="${pairing.id}" title="${pairing.description ?? ''}">
+                ${pairing.name}
+              </button>
+            `).join('')}
+          </div>
+        </div>
         <div class="border-b border-border">
           <div class="flex space-x-1" role="tablist">
             <button class="tab-button active px-3 py-2 text-sm font-medium rounded-t-md border-b-2 border-primary text-primary" data-category="sans">Sans Serif</button>
@@ -237,6 +261,34 @@ export class FontSelectorModal extends ModalComponent {
       this.updateFontSelectorButton();
     });
     
+    // Search filters the grid of the active tab
+    const searchInput = this.contentContainer.querySelector('#font-search-input') as HTMLInputElement | null;
+    searchInput?.addEventListener('input', () => {
+      this.optionsGrid?.setSearchQuery(searchInput.value);
+    });
+
+    // Apply a pairing to all three categories
+    this.contentContainer.querySelectorAll<HTMLButtonElement>('.font-pairing').forEach(button => {
+      button.addEventListener('click', async () => {
+        const pairing = pairings.find(candidate => candidate.id === button.dataset['pairingId']);
+        if (!pairing) return;
+
+        for (const category of ['sans', 'serif', 'mono'] as const) {
+          const fontId = pairing.fonts[category];
+          if (fontId) await this.fontManager.setFontOverride(category, fontId);
+        }
+
+        const updatedConfig = this.fontManager.getOverrideConfiguration();
+        this.optionsGrid?.setSelectedFonts({
+          sans: updatedConfig.fonts.sans || null,
+          serif: updatedConfig.fonts.serif || null,
+          mono: updatedConfig.fonts.mono || null
+        });
+        this.updateFontSelectorButton();
+        fontLogger.success(`Font pairing applied: ${pairing.name}`);
+      });
+    });
+
     // Set up tab switching AFTER FontOptionsGrid is initialized
     const tabButtons = this.contentContainer.querySelectorAll('.tab-button');
     tabButtons.forEach(button => {
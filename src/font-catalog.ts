@@ -2,6 +2,9 @@
  * Font catalog with system fonts and popular Google Fonts
  */
 
+import { getFontById as getCoreFontById, loadFontCatalog } from '@mks2508/shadcn-basecoat-theme-manager';
+import type { FontCatalogLoadResult } from '@mks2508/shadcn-basecoat-theme-manager';
+
 export interface FontOption {
   id: string;
   name: string;
@@ -316,4 +319,26 @@ export function buildFontFamily(font: FontOption): string {
  */
 export function needsGoogleFontsLoad(font: FontOption): boolean {
   return font.category === 'google-fonts';
-}
\ No newline at end of file
+}
+
+/**
+ * Pending registration of this catalog in the core one
+ */
+let coreCatalogLoad: Promise<FontCatalogLoadResult> | null = null;
+
+/**
+ * Register the fonts of this catalog that the core catalog doesn't ship, so
+ * core search and pairings (searchFonts, getFontPairings) know every font listed here.
+ * Runs once; later calls return the same result.
+ */
+export function registerFontsInCore(): Promise<FontCatalogLoadResult> {
+  if (!coreCatalogLoad) {
+    const fonts = (['sans', 'serif', 'mono'] as const).flatMap(classification =>
+      getFontsByCategory(classification)
+        .filter(font => !getCoreFontById(font.id))
+        .map(font => ({ ...font, classification }))
+    );
+    coreCatalogLoad = loadFontCatalog({ fonts });
+  }
+  return coreCatalogLoad;
+}